@@ -7,12 +7,15 @@ import { BrowserRouter, Routes, Route } from "react-router-dom";
 import { NavigationProvider } from "@/contexts/NavigationContext";
 import { DropboxAuthProvider } from "@/contexts/DropboxAuthContext";
 import { PWAProvider } from "@/contexts/PWAContext";
+import { ProductRepositoryProvider } from "@/contexts/ProductRepositoryContext";
+import { UserPreferencesProvider } from "@/contexts/UserPreferencesContext";
 import Home from "./pages/Home";
 import ExplorePage from "./pages/ExplorePage";
 import FavoritesPage from "./pages/FavoritesPage";
 import RecipesPage from "./pages/RecipesPage";
 import CameraPage from "./pages/CameraPage";
 import ProductDetail from "./pages/ProductDetail";
+import ProductBarcode from "./pages/ProductBarcode";
 import AuthCallback from "./pages/AuthCallback";
 import NotFound from "./pages/NotFound";
 
@@ -23,25 +26,30 @@ const App = () => (
     <TooltipProvider>
       <Toaster />
       <Sonner />
-      <BrowserRouter>
-        <DropboxAuthProvider>
-          <NavigationProvider>
-            <PWAProvider>
-              <Routes>
-                <Route path="/" element={<Home />} />
-                <Route path="/explore" element={<ExplorePage />} />
-                <Route path="/favorites" element={<FavoritesPage />} />
-                <Route path="/recipes" element={<RecipesPage />} />
-                <Route path="/camera" element={<CameraPage />} />
-                <Route path="/auth/callback" element={<AuthCallback />} />
-                <Route path="/product/:productSlug" element={<ProductDetail />} />
-                {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
-                <Route path="*" element={<NotFound />} />
-              </Routes>
-            </PWAProvider>
-          </NavigationProvider>
-        </DropboxAuthProvider>
-      </BrowserRouter>
+      <ProductRepositoryProvider>
+        <BrowserRouter>
+          <DropboxAuthProvider>
+            <UserPreferencesProvider>
+              <NavigationProvider>
+                <PWAProvider>
+                  <Routes>
+                    <Route path="/" element={<Home />} />
+                    <Route path="/explore" element={<ExplorePage />} />
+                    <Route path="/favorites" element={<FavoritesPage />} />
+                    <Route path="/recipes" element={<RecipesPage />} />
+                    <Route path="/camera" element={<CameraPage />} />
+                    <Route path="/auth/callback" element={<AuthCallback />} />
+                    <Route path="/product/barcode/:code" element={<ProductBarcode />} />
+                    <Route path="/product/:productSlug" element={<ProductDetail />} />
+                    {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
+                    <Route path="*" element={<NotFound />} />
+                  </Routes>
+                </PWAProvider>
+              </NavigationProvider>
+            </UserPreferencesProvider>
+          </DropboxAuthProvider>
+        </BrowserRouter>
+      </ProductRepositoryProvider>
     </TooltipProvider>
   </QueryClientProvider>
 );
@@ -1,25 +1,38 @@
 
 import React from 'react';
+import { useTranslation } from 'react-i18next';
 import { AllergenConfig } from '@/data/allergens';
+import { AllergenStatus } from '@/data/types';
 
 interface AllergenCardProps {
   allergen: AllergenConfig;
+  status?: AllergenStatus; // 'traces' renders the "may contain" variant
   className?: string;
 }
 
 const AllergenCard: React.FC<AllergenCardProps> = ({ 
   allergen, 
+  status = 'contains',
   className = '' 
 }) => {
+  const { t } = useTranslation();
   const IconComponent = allergen.icon;
+  const isTraces = status === 'traces';
 
   return (
-    <div className={`flex flex-col items-center space-y-2 p-2 rounded-lg ${allergen.colors.bg} ${className}`}>
-      <div className={`w-8 h-8 rounded-full flex items-center justify-center ${allergen.colors.iconBg}`}>
+    <div
+      className={`flex flex-col items-center space-y-2 p-2 rounded-lg ${allergen.colors.bg} ${
+        isTraces ? 'border border-dashed border-gray-300' : ''
+      } ${className}`}
+    >
+      <div className={`w-8 h-8 rounded-full flex items-center justify-center ${allergen.colors.iconBg} ${isTraces ? 'opacity-60' : ''}`}>
         <IconComponent className={`h-4 w-4 ${allergen.colors.iconColor}`} />
       </div>
       <div className="text-center">
         <h4 className="text-xs font-medium text-gray-800">{allergen.name}</h4>
+        {isTraces && (
+          <p className="text-[10px] text-gray-500">{t('mayContainTraces')}</p>
+        )}
       </div>
     </div>
   );
@@ -2,7 +2,9 @@
 import React from 'react';
 import { useTranslation } from 'react-i18next';
 import AllergenCard from './AllergenCard';
-import { getPriorityAllergens, getAllergenConfig } from '@/data/allergens';
+import { getPriorityAllergens } from '@/data/allergens';
+import { AllergenFlag, AllergenStatus } from '@/data/types';
+import { getAllergenStatus } from '@/utils/allergenStatus';
 
 interface AllergenData {
   [key: string]: boolean;
@@ -10,29 +12,33 @@ interface AllergenData {
 
 interface AllergensSectionProps {
   allergens: AllergenData;
+  traces?: AllergenFlag[]; // "May contain traces of"
   displayLimit?: number;
   className?: string;
 }
 
 const AllergensSection: React.FC<AllergensSectionProps> = ({ 
   allergens, 
+  traces = [],
   displayLimit = 8,
   className = '' 
 }) => {
   const { t } = useTranslation();
 
-  // Get priority allergens and filter to show only those the product CONTAINS
+  // Get priority allergens and filter to show only those the product CONTAINS or may contain
   // For dietary preferences (vegan/vegetarian), we show them if they are FALSE (product is not vegan/vegetarian)
-  // For allergens, we show them if they are FALSE (product contains the allergen)
+  // For allergens, we show them if they are FALSE (product contains the allergen) or listed as traces
+  const product = { allergens: allergens as Record<AllergenFlag, boolean>, allergenTraces: traces };
+  const statusOrder: Record<AllergenStatus, number> = { contains: 0, traces: 1, free: 2 };
+
   const containedAllergens = getPriorityAllergens()
-    .filter(config => {
-      const hasAllergen = allergens.hasOwnProperty(config.id);
-      if (!hasAllergen) return false;
-      
-      // For allergens ending with "Free", show if FALSE (contains the allergen)
-      // For dietary preferences, show if FALSE (doesn't meet the preference)
-      return allergens[config.id] === false;
-    })
+    .filter(config => allergens.hasOwnProperty(config.id))
+    .map(config => ({ config, status: getAllergenStatus(product, config.id as AllergenFlag) }))
+    .filter(({ config, status }) =>
+      status === 'contains' || (status === 'traces' && config.category === 'allergen')
+    )
+    // Contained allergens first, traces after them
+    .sort((a, b) => statusOrder[a.status] - statusOrder[b.status])
     .slice(0, displayLimit);
 
   if (containedAllergens.length === 0) {
@@ -45,10 +51,11 @@ const AllergensSection: React.FC<AllergensSectionProps> = ({
 
   return (
     <div className={`grid grid-cols-2 gap-2 ${className}`}>
-      {containedAllergens.map((allergenConfig) => (
+      {containedAllergens.map(({ config, status }) => (
         <AllergenCard
-          key={allergenConfig.id}
-          allergen={allergenConfig}
+          key={config.id}
+          allergen={config}
+          status={status}
         />
       ))}
     </div>
@@ -16,6 +16,8 @@ import { useDropboxAuth } from '@/hooks/useDropboxAuth';
 import { useUserProfile } from '@/hooks/useUserProfile';
 import { usePWA } from '@/hooks/usePWA';
 import LazyDropboxProfileModal from './LazyDropboxProfileModal';
+import DailyValueStandardSelector from './DailyValueStandardSelector';
+import UnitPreferencesSelector from './UnitPreferencesSelector';
 
 interface BottomNavigationProps {
   currentView?: string;
@@ -236,6 +238,10 @@ const BottomNavigation: React.FC<BottomNavigationProps> = ({
               )}
             </div>
 
+            <UnitPreferencesSelector disabled={isLoggingOut} />
+
+            <DailyValueStandardSelector disabled={isLoggingOut} />
+
             {isAuthenticated && (
               <div className="border-t pt-4 mt-4">
                 <Button
@@ -1,7 +1,8 @@
 
 import React from 'react';
 import { useTranslation } from 'react-i18next';
-import { useNumberFormatter } from '@/hooks/useNumberFormatter';
+import { useDailyValues } from '@/hooks/useDailyValues';
+import { useUnits } from '@/hooks/useUnits';
 
 interface CaloriesSectionProps {
   calories: {
@@ -11,35 +12,48 @@ interface CaloriesSectionProps {
     fromProtein: number;
     fromFat: number;
   };
+  servingGrams?: number; // Portion the values refer to (per 100 g by default)
 }
 
-const CaloriesSection: React.FC<CaloriesSectionProps> = ({ calories }) => {
+const CaloriesSection: React.FC<CaloriesSectionProps> = ({ calories, servingGrams = 100 }) => {
   const { t } = useTranslation();
-  const { formatNumber } = useNumberFormatter();
+  const { getDailyPercentage } = useDailyValues();
+  const { formatMass, formatEnergy } = useUnits();
+
+  const dailyPercentage = getDailyPercentage('calories', calories.total);
 
   return (
     <div className="bg-gray-50 p-4 rounded-xl">
       <div className="flex items-start space-x-3">
         <div className="w-8 h-8 rounded-full bg-gray-500 flex-shrink-0"></div>
         <div className="flex-1">
-          <h3 className="font-semibold text-gray-900 mb-2">{t('calories')}</h3>
+          <div className="flex justify-between items-baseline mb-2">
+            <h3 className="font-semibold text-gray-900">{t('calories')}</h3>
+            <span className="text-xs text-gray-500">{t('perPortion', { portion: formatMass(servingGrams) })}</span>
+          </div>
           <div className="space-y-2">
             <div className="flex justify-between">
               <span className="text-sm text-gray-600">{t('totalCalories')}</span>
-              <span className="text-sm font-medium">{formatNumber(calories.total)} kcal</span>
+              <span className="text-sm font-medium">{formatEnergy(calories.total)}</span>
             </div>
             <div className="flex justify-between">
               <span className="text-sm text-gray-600">{t('fromCarbs')}</span>
-              <span className="text-sm font-medium">{formatNumber(calories.fromCarbs)} kcal</span>
+              <span className="text-sm font-medium">{formatEnergy(calories.fromCarbs)}</span>
             </div>
             <div className="flex justify-between">
               <span className="text-sm text-gray-600">{t('fromProtein')}</span>
-              <span className="text-sm font-medium">{formatNumber(calories.fromProtein)} kcal</span>
+              <span className="text-sm font-medium">{formatEnergy(calories.fromProtein)}</span>
             </div>
             <div className="flex justify-between">
               <span className="text-sm text-gray-600">{t('fromFat')}</span>
-              <span className="text-sm font-medium">{formatNumber(calories.fromFat)} kcal</span>
+              <span className="text-sm font-medium">{formatEnergy(calories.fromFat)}</span>
             </div>
+            {dailyPercentage !== undefined && (
+              <div className="flex justify-between">
+                <span className="text-sm text-gray-600">{t('dailyValue')}</span>
+                <span className="text-sm font-medium">{dailyPercentage}%</span>
+              </div>
+            )}
           </div>
         </div>
       </div>
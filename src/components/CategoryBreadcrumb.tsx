@@ -0,0 +1,52 @@
+import React from 'react';
+import { Link } from 'react-router-dom';
+import { useTranslation } from 'react-i18next';
+import { Product } from '@/data/types';
+import { getProductCategoryPath } from '@/data/categories';
+import {
+  Breadcrumb,
+  BreadcrumbItem,
+  BreadcrumbLink,
+  BreadcrumbList,
+  BreadcrumbPage,
+  BreadcrumbSeparator
+} from '@/components/ui/breadcrumb';
+
+interface CategoryBreadcrumbProps {
+  product: Product;
+  productName: string;
+}
+
+// dairy > yogurt > greek yogurt > product; each category opens Explore filtered to it
+const CategoryBreadcrumb: React.FC<CategoryBreadcrumbProps> = ({ product, productName }) => {
+  const { t } = useTranslation();
+  const path = getProductCategoryPath(product);
+
+  if (path.length === 0) {
+    return null;
+  }
+
+  return (
+    <Breadcrumb>
+      <BreadcrumbList className="text-xs gap-1 sm:gap-1.5 px-1">
+        {path.map(category => (
+          <React.Fragment key={category.id}>
+            <BreadcrumbItem>
+              <BreadcrumbLink asChild>
+                <Link to={`/explore?category=${encodeURIComponent(category.id)}`}>
+                  {t(`database:${category.translationKey}`, category.id)}
+                </Link>
+              </BreadcrumbLink>
+            </BreadcrumbItem>
+            <BreadcrumbSeparator />
+          </React.Fragment>
+        ))}
+        <BreadcrumbItem>
+          <BreadcrumbPage className="truncate max-w-[10rem]">{productName}</BreadcrumbPage>
+        </BreadcrumbItem>
+      </BreadcrumbList>
+    </Breadcrumb>
+  );
+};
+
+export default CategoryBreadcrumb;
@@ -0,0 +1,48 @@
+import React from 'react';
+import { useTranslation } from 'react-i18next';
+import { Button } from '@/components/ui/button';
+import { DAILY_VALUE_STANDARDS, DailyValueStandardId } from '@/data/dailyValues';
+import { useUserPreferences } from '@/contexts/UserPreferencesContext';
+
+interface DailyValueStandardSelectorProps {
+  disabled?: boolean;
+}
+
+const DailyValueStandardSelector: React.FC<DailyValueStandardSelectorProps> = ({ disabled = false }) => {
+  const { t } = useTranslation();
+  const { preferences, updatePreferences } = useUserPreferences();
+
+  const handleSelect = (id: DailyValueStandardId) => {
+    if (id === preferences.dailyValueStandard) return;
+    updatePreferences({ dailyValueStandard: id }).catch(error => {
+      console.error('Error updating daily value standard:', error);
+    });
+  };
+
+  return (
+    <div className="border-t pt-4 mt-4">
+      <h3 className="text-sm font-medium text-gray-700 mb-3 px-2">
+        {t('dailyValueStandard')}
+      </h3>
+      <div className="space-y-2">
+        {Object.values(DAILY_VALUE_STANDARDS).map(standard => {
+          const isSelected = standard.id === preferences.dailyValueStandard;
+          return (
+            <Button
+              key={standard.id}
+              variant={isSelected ? 'default' : 'outline'}
+              className="w-full justify-start"
+              onClick={() => handleSelect(standard.id)}
+              disabled={disabled}
+              aria-pressed={isSelected}
+            >
+              {t(standard.nameKey)}
+            </Button>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default DailyValueStandardSelector;
@@ -1,7 +1,9 @@
 
 import React, { useState, useMemo, useCallback } from "react";
-import { Searchable, FilterCriteria, QueryOptions } from "@/types/search";
+import { Searchable, FilterCriteria, QueryOptions, QueryResult } from "@/types/search";
 import { queryEngine } from "@/services/FilterService";
+import { QueryParser } from "@/services/search/QueryParser";
+import { SearchResult } from "@/services/search/types";
 import {
   Pagination,
   PaginationContent,
@@ -13,15 +15,18 @@ import {
 } from "@/components/ui/pagination";
 import { ScrollArea } from "@/components/ui/scroll-area";
 import FilterPanel from "@/components/filters/FilterPanel";
+import QueryTokenHighlights from "@/components/QueryTokenHighlights";
 import { useTranslation } from "react-i18next";
 import { useIsMobile } from "@/hooks/use-mobile";
+import { useDailyValues } from "@/hooks/useDailyValues";
 import { Filter } from "lucide-react";
 
 interface DataViewProps<T extends Searchable> {
   items: T[];
-  renderItem: (item: T) => React.ReactNode;
+  renderItem: (item: T, match?: SearchResult<T>) => React.ReactNode; // match is set while searching
   searchPlaceholder: string;
   showFilters?: boolean;
+  initialFilters?: FilterCriteria[];
 }
 
 const itemsPerPageOptions = [10, 20, 50, 100];
@@ -65,27 +70,40 @@ const DataView = <T extends Searchable> ({
   items,
   renderItem,
   searchPlaceholder,
-  showFilters = true
+  showFilters = true,
+  initialFilters
 }: DataViewProps<T>) => {
-  const { t } = useTranslation();
+  const { t, i18n } = useTranslation();
   const isMobile = useIsMobile();
+  const { standard } = useDailyValues();
 
   const [searchTerm, setSearchTerm] = useState("");
-  const [filters, setFilters] = useState<FilterCriteria[]>([]);
+  const [filters, setFilters] = useState<FilterCriteria[]>(initialFilters || []);
   const [itemsPerPage, setItemsPerPage] = useState(itemsPerPageOptions[1]);
   const [currentPage, setCurrentPage] = useState(1);
   const [isFilterPanelOpen, setIsFilterPanelOpen] = useState(false);
 
+  // Links such as category breadcrumbs can change the initial filters while mounted
+  React.useEffect(() => {
+    setFilters(initialFilters || []);
+  }, [initialFilters]);
+
+  // Expressions such as "proteina>10 -nueces" in the search box become extra filters
+  const parsedQuery = useMemo(() => QueryParser.parse(searchTerm), [searchTerm]);
+
   // Execute query using QueryEngine
   const queryResult = useMemo(() => {
     const queryOptions: QueryOptions = {
-      searchTerm,
-      filters,
+      searchTerm: parsedQuery.options.searchTerm,
+      filters: [...filters, ...parsedQuery.options.filters],
       sortBy: "rating",
-      sortOrder: "desc"
+      sortOrder: "desc",
+      language: i18n.language,
+      dailyValueStandard: standard.id
     };
-    return queryEngine.executeQuery(items, queryOptions);
-  }, [items, searchTerm, filters]);
+    // The shared engine is untyped; results are always items of this view
+    return queryEngine.executeQuery(items, queryOptions) as QueryResult<T>;
+  }, [items, parsedQuery, filters, i18n.language, standard.id]);
 
   // Pagination calculation
   const pageCount = Math.ceil(queryResult.items.length / itemsPerPage);
@@ -131,6 +149,7 @@ const DataView = <T extends Searchable> ({
               onChange={e => setSearchTerm(e.target.value)}
               className="pl-3 pr-3 py-2 border rounded-md w-full shadow-sm focus:outline-none focus:ring-2 text-sm"
             />
+            <QueryTokenHighlights query={parsedQuery} />
           </div>
           {showFilters && (
             <button
@@ -166,7 +185,7 @@ const DataView = <T extends Searchable> ({
       <div className="flex-1 min-h-0 overflow-hidden">
         <ScrollArea className="h-full">
           <div className="p-4 space-y-3">
-            {paginatedItems.map(renderItem)}
+            {paginatedItems.map(item => renderItem(item, queryResult.matches?.get(item.id)))}
             {paginatedItems.length === 0 && (
               <div className="flex flex-col items-center justify-center p-8">
                 <div className="text-gray-500 text-center">
@@ -11,7 +11,29 @@ import {
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
-import { UserProfile } from '@/types/userData';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { ActivityLevel, BiologicalSex, BodyProfile, UserProfile } from '@/types/userData';
+import { ACTIVITY_LEVELS, calculateDailyTargets, hasCompleteBodyProfile } from '@/utils/dailyTargets';
+
+const ACTIVITY_LABEL_KEYS: Record<ActivityLevel, string> = {
+  sedentary: 'activitySedentary',
+  light: 'activityLight',
+  moderate: 'activityModerate',
+  active: 'activityActive',
+  veryActive: 'activityVeryActive'
+};
+
+// Los campos numéricos se editan como texto; vacío o inválido se guarda como undefined
+const parsePositiveNumber = (value: string): number | undefined => {
+  const parsed = Number(value.replace(',', '.'));
+  return value.trim() && Number.isFinite(parsed) && parsed > 0 ? parsed : undefined;
+};
 
 interface DropboxProfileModalProps {
   isOpen: boolean;
@@ -28,16 +50,32 @@ const DropboxProfileModal: React.FC<DropboxProfileModalProps> = ({
 }) => {
   const { t } = useTranslation();
   const [name, setName] = useState('');
+  const [age, setAge] = useState('');
+  const [sex, setSex] = useState<BiologicalSex | undefined>();
+  const [weight, setWeight] = useState('');
+  const [height, setHeight] = useState('');
+  const [activityLevel, setActivityLevel] = useState<ActivityLevel | undefined>();
   const [isSaving, setIsSaving] = useState(false);
 
-  // Sincronizar el input con el perfil actual cuando se abre el modal
+  // Sincronizar los inputs con el perfil actual cuando se abre el modal
   useEffect(() => {
-    if (isOpen && userProfile?.nombre) {
-      setName(userProfile.nombre);
-    } else if (isOpen) {
-      setName('');
-    }
-  }, [isOpen, userProfile?.nombre]);
+    if (!isOpen) return;
+    setName(userProfile?.nombre || '');
+    setAge(userProfile?.edad ? String(userProfile.edad) : '');
+    setSex(userProfile?.sex);
+    setWeight(userProfile?.weight ? String(userProfile.weight) : '');
+    setHeight(userProfile?.height ? String(userProfile.height) : '');
+    setActivityLevel(userProfile?.activityLevel);
+  }, [isOpen, userProfile]);
+
+  const bodyProfile: BodyProfile = {
+    edad: parsePositiveNumber(age),
+    sex,
+    weight: parsePositiveNumber(weight),
+    height: parsePositiveNumber(height),
+    activityLevel
+  };
+  const dailyTargets = calculateDailyTargets(bodyProfile);
 
   const handleSave = async () => {
     if (!name.trim() || !userProfile) return;
@@ -47,6 +85,7 @@ const DropboxProfileModal: React.FC<DropboxProfileModalProps> = ({
     try {
       await onProfileUpdate({ 
         ...userProfile,
+        ...bodyProfile,
         nombre: name.trim() 
       });
       
@@ -89,6 +128,81 @@ const DropboxProfileModal: React.FC<DropboxProfileModalProps> = ({
             />
           </div>
 
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-2">
+              <Label htmlFor="age">{t('age')}</Label>
+              <Input
+                id="age"
+                type="number"
+                inputMode="numeric"
+                min={1}
+                value={age}
+                onChange={(e) => setAge(e.target.value)}
+                disabled={isSaving}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="sex">{t('sex')}</Label>
+              <Select value={sex} onValueChange={(value) => setSex(value as BiologicalSex)} disabled={isSaving}>
+                <SelectTrigger id="sex">
+                  <SelectValue placeholder={t('sex')} />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="female">{t('female')}</SelectItem>
+                  <SelectItem value="male">{t('male')}</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="weight">{t('weightKg')}</Label>
+              <Input
+                id="weight"
+                type="number"
+                inputMode="decimal"
+                min={1}
+                value={weight}
+                onChange={(e) => setWeight(e.target.value)}
+                disabled={isSaving}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="height">{t('heightCm')}</Label>
+              <Input
+                id="height"
+                type="number"
+                inputMode="decimal"
+                min={1}
+                value={height}
+                onChange={(e) => setHeight(e.target.value)}
+                disabled={isSaving}
+              />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="activityLevel">{t('activityLevel')}</Label>
+            <Select
+              value={activityLevel}
+              onValueChange={(value) => setActivityLevel(value as ActivityLevel)}
+              disabled={isSaving}
+            >
+              <SelectTrigger id="activityLevel">
+                <SelectValue placeholder={t('activityLevel')} />
+              </SelectTrigger>
+              <SelectContent>
+                {ACTIVITY_LEVELS.map(level => (
+                  <SelectItem key={level} value={level}>{t(ACTIVITY_LABEL_KEYS[level])}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <p className="text-xs text-gray-500">
+            {dailyTargets
+              ? t('dailyTargetsSummary', { calories: dailyTargets.calories })
+              : t(hasCompleteBodyProfile(bodyProfile) ? 'dailyTargetsImplausible' : 'dailyTargetsHint')}
+          </p>
+
           <div className="flex justify-end space-x-2">
             <Button 
               variant="outline" 
@@ -1,11 +1,16 @@
 
-import React, { useCallback } from 'react';
+import React, { useCallback, useMemo } from 'react';
 import { useTranslation } from 'react-i18next';
-import { useNavigate } from 'react-router-dom';
-import { productsDB, getProductById } from '@/data/database';
+import { useNavigate, useSearchParams } from 'react-router-dom';
+import { productsDB, getProductById, ProductVariant } from '@/data/database';
 import { useProductTranslation } from '@/hooks/useProductTranslation';
 import { getProductSlug } from '@/utils/productUtils';
+import { FilterCriteria } from '@/types/search';
+import { SearchResult } from '@/services/search/types';
+import { MatchHighlighter } from '@/services/search/MatchHighlighter';
 import DataView from './DataView';
+import HighlightedText from './HighlightedText';
+import SearchMatchNote from './SearchMatchNote';
 
 interface ExploreItem {
   id: string;
@@ -27,14 +32,22 @@ interface ExploreProps {
 const Explore: React.FC<ExploreProps> = ({ onItemSelect }) => {
   const { t } = useTranslation();
   const navigate = useNavigate();
+  const [searchParams] = useSearchParams();
+  const category = searchParams.get('category');
   const { translateProductName, currentLanguage } = useProductTranslation();
 
-  // Convert all products to ExploreItem format with translated names
-  const allItems: ExploreItem[] = productsDB.map(product => ({
+  // Convert all products to ExploreItem format with translated names.
+  // Memoized so the search index is only rebuilt when the language changes.
+  const allItems: ExploreItem[] = useMemo(() => productsDB.map(product => ({
     ...product, // Include all product fields for filtering
     name: translateProductName(product),
     status: 'explore'
-  }));
+  })), [translateProductName]);
+
+  // ?category=<id> opens Explore filtered to that category and its subcategories
+  const initialFilters: FilterCriteria[] | undefined = useMemo(() => (
+    category ? [{ type: 'category', field: 'category', value: category, operator: 'equals' }] : undefined
+  ), [category]);
 
   const handleItemSelect = (item: ExploreItem) => {
     if (onItemSelect) {
@@ -49,7 +62,7 @@ const Explore: React.FC<ExploreProps> = ({ onItemSelect }) => {
     }
   };
 
-  const renderItem = useCallback((item: ExploreItem) => (
+  const renderItem = useCallback((item: ExploreItem, match?: SearchResult<ExploreItem>) => (
     <div
       key={item.id}
       className="bg-white rounded-xl p-4 cursor-pointer hover:bg-gray-50 transition-colors shadow-sm border border-gray-100"
@@ -65,8 +78,15 @@ const Explore: React.FC<ExploreProps> = ({ onItemSelect }) => {
         </div>
         <div className="flex-1">
           <h4 className="text-base font-semibold text-gray-900 mb-2">
-            {item.name}
+            <HighlightedText text={item.name} ranges={MatchHighlighter.rangesFor(match?.highlights, 'name', item.name)} />
           </h4>
+          <SearchMatchNote name={item.name} match={match} />
+          {/* Brands sold as this generic product, so brand searches show why it matched */}
+          {item.variants?.length > 0 && (
+            <p className="text-xs text-gray-500 -mt-1 mb-2 truncate">
+              {Array.from(new Set(item.variants.map((variant: ProductVariant) => variant.brand))).join(' · ')}
+            </p>
+          )}
           <div className="flex items-center space-x-2">
             <span className="text-blue-500 font-bold text-sm">{item.rating}/10</span>
             <div className="flex-1 bg-gray-200 rounded-full h-2">
@@ -87,6 +107,7 @@ const Explore: React.FC<ExploreProps> = ({ onItemSelect }) => {
       renderItem={renderItem}
       searchPlaceholder={t('searchFoodProducts')}
       showFilters={true}
+      initialFilters={initialFilters}
     />
   );
 };
@@ -6,6 +6,8 @@ import SearchableList from '@/components/SearchableList';
 import { getProductById } from '@/data/database';
 import { useUserFavorites } from '@/hooks/useUserFavorites';
 import { DataState } from '@/types/userData';
+import { queryEngine } from '@/services/FilterService';
+import { ParsedQuery } from '@/services/search/QueryParser';
 
 interface FavoriteItem {
   id: string;
@@ -60,15 +62,26 @@ const Favorites: React.FC<FavoritesProps> = ({ onItemSelect }) => {
   }, [favorites, convertToFavoriteItems]);
 
   // Search function that filters only in user's favorites
-  const handleSearch = useCallback((searchTerm: string, items: FavoriteItem[]) => {
-    if (searchTerm.trim() === '') {
-      return favoriteItems; // Return all favorites if search is empty
-    } else {
+  const handleSearch = useCallback((searchTerm: string, items: FavoriteItem[], query: ParsedQuery) => {
+    // Free text matches the name; structured expressions ("vegano nova<=2") filter the products
+    const text = query.options.searchTerm || '';
+    const filters = query.options.filters || [];
+
+    let results = favoriteItems;
+    if (text.trim() !== '') {
       // Filter favorites by search term (search in name)
-      return favoriteItems.filter(item => 
-        item.name.toLowerCase().includes(searchTerm.toLowerCase())
+      results = results.filter(item =>
+        item.name.toLowerCase().includes(text.toLowerCase())
       );
     }
+
+    if (filters.length > 0) {
+      const products = results.map(item => getProductById(item.id)).filter(Boolean);
+      const matchingIds = new Set(queryEngine.executeQuery(products, { filters }).items.map(product => product.id));
+      results = results.filter(item => matchingIds.has(item.id));
+    }
+
+    return results;
   }, [favoriteItems]);
 
   const isLoading = state === DataState.LOADING;
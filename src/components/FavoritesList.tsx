@@ -1,6 +1,9 @@
 
 import React from 'react';
 import { useTranslation } from 'react-i18next';
+import { MatchHighlighter } from '@/services/search/MatchHighlighter';
+import { SearchIndex } from '@/services/search/SearchIndex';
+import HighlightedText from './HighlightedText';
 
 interface FavoriteItem {
   id: string;
@@ -15,15 +18,18 @@ interface FavoritesListProps {
   items?: FavoriteItem[];
   showLoading?: boolean;
   hasLoaded?: boolean;
+  highlightQuery?: string; // Free text of the search, marked in the names
 }
 
 const FavoritesList: React.FC<FavoritesListProps> = ({ 
   onItemSelect, 
   items = [],
   showLoading = false,
-  hasLoaded = true
+  hasLoaded = true,
+  highlightQuery = ''
 }) => {
   const { t } = useTranslation();
+  const normalizedQuery = SearchIndex.normalize(highlightQuery);
 
   const handleItemClick = (item: FavoriteItem) => {
     onItemSelect(item);
@@ -69,7 +75,7 @@ const FavoritesList: React.FC<FavoritesListProps> = ({
               </div>
               <div className="flex-1">
                 <h4 className="text-base font-semibold text-gray-900 mb-2">
-                  {item.name}
+                  <HighlightedText text={item.name} ranges={MatchHighlighter.findRanges(item.name, normalizedQuery)} />
                 </h4>
                 <div className="flex items-center space-x-2">
                   <span className="text-blue-500 font-bold text-sm">{item.rating}/10</span>
@@ -4,6 +4,8 @@ import { useTranslation } from 'react-i18next';
 import ActionButtons from './ActionButtons';
 import { ProcessingLevel } from '@/data/types';
 import { useProductTranslation } from '@/hooks/useProductTranslation';
+import { NutriScoreLetter } from '@/services/scoring/NutriScoreCalculator';
+import NutriScoreBadge from './NutriScoreBadge';
 
 interface FoodCardProps {
   foodName: string;
@@ -15,6 +17,7 @@ interface FoodCardProps {
   onHeartClick: () => void;
   onThumbsDownClick: () => void;
   processingLevel?: ProcessingLevel;
+  nutriScore?: NutriScoreLetter;
 }
 
 const FoodCard: React.FC<FoodCardProps> = ({
@@ -26,7 +29,8 @@ const FoodCard: React.FC<FoodCardProps> = ({
   isLoading,
   onHeartClick,
   onThumbsDownClick,
-  processingLevel
+  processingLevel,
+  nutriScore
 }) => {
   const { t } = useTranslation();
 
@@ -93,6 +97,7 @@ const FoodCard: React.FC<FoodCardProps> = ({
                 style={{ width: `${(rating / 10) * 100}%` }}
               ></div>
             </div>
+            {nutriScore && <NutriScoreBadge letter={nutriScore} size="sm" />}
           </div>
         </div>
       </div>
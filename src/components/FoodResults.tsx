@@ -4,13 +4,18 @@ import FoodCard from './FoodCard';
 import FoodResultsSections from './FoodResultsSections';
 import NutritionModal from './NutritionModal';
 import ProductNotFound from './ProductNotFound';
+import VariantPicker from './VariantPicker';
+import CategoryBreadcrumb from './CategoryBreadcrumb';
 import { useFoodResults } from '@/hooks/useFoodResults';
+import { nutriScoreCalculator } from '@/services/scoring/NutriScoreCalculator';
 
 interface FoodResultsProps {
   foodName: string;
   foodImage: string;
   rating: number;
   productId: string;
+  variantId?: string;
+  onVariantChange?: (variantId?: string) => void;
   onSimilarProductSelect?: (product: { id: string; name: string; image: string; rating: number; status: string }) => void;
 }
 
@@ -19,22 +24,33 @@ const FoodResults: React.FC<FoodResultsProps> = ({
   foodImage, 
   rating,
   productId,
+  variantId,
+  onVariantChange,
   onSimilarProductSelect 
 }) => {
   const {
     product,
+    genericProduct,
+    variant,
+    isProductLoading,
     translatedName,
     expandedCard,
     isModalOpen,
     userStatus,
     isLoading,
+    servingId,
     handleCardClick,
     handleHeartClick,
     handleThumbsDownClick,
     handleSeeMore,
     handleSimilarProductSelect,
-    setIsModalOpen
-  } = useFoodResults({ productId, onSimilarProductSelect });
+    setIsModalOpen,
+    setServingId
+  } = useFoodResults({ productId, variantId, onSimilarProductSelect });
+
+  if (isProductLoading) {
+    return null;
+  }
 
   if (!product) {
     return <ProductNotFound />;
@@ -43,11 +59,16 @@ const FoodResults: React.FC<FoodResultsProps> = ({
   return (
     <div className="h-full bg-gray-50 flex flex-col overflow-hidden">
       <div className="flex-1 min-h-0 p-2 space-y-2">
+        {/* Category breadcrumb - Links into a pre-filtered Explore view */}
+        <div className="flex-shrink-0">
+          <CategoryBreadcrumb product={product} productName={translatedName} />
+        </div>
+
         {/* Food Card - Fixed height */}
         <div className="flex-shrink-0">
           <FoodCard
             foodName={translatedName}
-            foodImage={foodImage}
+            foodImage={variant?.image || foodImage}
             rating={rating}
             isFavorited={userStatus === 'heart'}
             isDisliked={userStatus === 'thumb-down'}
@@ -55,9 +76,21 @@ const FoodResults: React.FC<FoodResultsProps> = ({
             onHeartClick={handleHeartClick}
             onThumbsDownClick={handleThumbsDownClick}
             processingLevel={product.processingLevel}
+            nutriScore={nutriScoreCalculator.calculateForProduct(product).letter}
           />
         </div>
 
+        {/* Brand variant picker - Only for products sold under several brands */}
+        {onVariantChange && genericProduct?.variants && genericProduct.variants.length > 0 && (
+          <div className="flex-shrink-0 bg-white rounded-xl px-3 py-2 shadow-sm">
+            <VariantPicker
+              variants={genericProduct.variants}
+              value={variant?.id}
+              onChange={onVariantChange}
+            />
+          </div>
+        )}
+
         {/* Expandable Sections - Takes remaining space */}
         <FoodResultsSections
           product={product}
@@ -65,6 +98,8 @@ const FoodResults: React.FC<FoodResultsProps> = ({
           onCardClick={handleCardClick}
           onSeeMore={handleSeeMore}
           onSimilarProductSelect={handleSimilarProductSelect}
+          servingId={servingId}
+          onServingChange={setServingId}
         />
       </div>
 
@@ -73,6 +108,8 @@ const FoodResults: React.FC<FoodResultsProps> = ({
         isOpen={isModalOpen} 
         onClose={() => setIsModalOpen(false)} 
         product={product}
+        servingId={servingId}
+        onServingChange={setServingId}
       />
     </div>
   );
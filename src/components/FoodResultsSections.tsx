@@ -5,7 +5,19 @@ import NutritionSections from './NutritionSections';
 import AllergensSection from './AllergensSection';
 import ProcessingSection from './ProcessingSection';
 import SimilarProducts from './SimilarProducts';
-import { Product } from '@/data/database';
+import RatingBreakdownSection from './RatingBreakdownSection';
+import HealthierSwapsSection from './HealthierSwapsSection';
+import RelatedProducts from './RelatedProducts';
+import { useHealthierSwaps } from '@/hooks/useHealthierSwaps';
+import { Product, RelationshipType } from '@/data/database';
+import { getRelatedIds } from '@/utils/productRelationships';
+
+// Typed relationship carousels, each shown only when the product declares one
+const RELATIONSHIP_SECTIONS: Array<{ type: Exclude<RelationshipType, 'similar'>; titleKey: string }> = [
+  { type: 'substitute', titleKey: 'substitutes' },
+  { type: 'complement', titleKey: 'pairsWellWith' },
+  { type: 'variant', titleKey: 'variants' }
+];
 
 interface FoodResultsSectionsProps {
   product: Product;
@@ -13,6 +25,8 @@ interface FoodResultsSectionsProps {
   onCardClick: (cardType: string) => void;
   onSeeMore: () => void;
   onSimilarProductSelect: (product: { id: string; name: string; image: string; rating: number; status: string }) => void;
+  servingId: string;
+  onServingChange: (servingId: string) => void;
 }
 
 const FoodResultsSections: React.FC<FoodResultsSectionsProps> = ({
@@ -20,9 +34,12 @@ const FoodResultsSections: React.FC<FoodResultsSectionsProps> = ({
   expandedCard,
   onCardClick,
   onSeeMore,
-  onSimilarProductSelect
+  onSimilarProductSelect,
+  servingId,
+  onServingChange
 }) => {
   const { t } = useTranslation();
+  const { swaps, avoidedAllergens } = useHealthierSwaps(product);
 
   return (
     <div className="flex-1 min-h-0 space-y-2">
@@ -35,16 +52,27 @@ const FoodResultsSections: React.FC<FoodResultsSectionsProps> = ({
         <NutritionSections 
           product={product}
           onSeeMore={onSeeMore}
+          servingId={servingId}
+          onServingChange={onServingChange}
         />
       </ExpandableSection>
 
+      {/* Rating Breakdown Section */}
+      <ExpandableSection
+        title={t('whyThisScore')}
+        isExpanded={expandedCard === 'rating'}
+        onClick={() => onCardClick('rating')}
+      >
+        <RatingBreakdownSection product={product} />
+      </ExpandableSection>
+
       {/* Processing Level Section */}
       <ExpandableSection
         title={t('processingLevel')}
         isExpanded={expandedCard === 'processing'}
         onClick={() => onCardClick('processing')}
       >
-        <ProcessingSection processingLevel={product.processingLevel} />
+        <ProcessingSection processingLevel={product.processingLevel} additives={product.additives} />
       </ExpandableSection>
 
       {/* Allergens Section */}
@@ -55,10 +83,44 @@ const FoodResultsSections: React.FC<FoodResultsSectionsProps> = ({
       >
         <AllergensSection 
           allergens={product.allergens}
+          traces={product.allergenTraces}
           displayLimit={4}
         />
       </ExpandableSection>
 
+      {/* Healthier Swaps Section, only when a better alternative exists */}
+      {swaps.length > 0 && (
+        <ExpandableSection
+          title={t('healthierSwaps')}
+          isExpanded={expandedCard === 'swaps'}
+          onClick={() => onCardClick('swaps')}
+        >
+          <HealthierSwapsSection
+            swaps={swaps}
+            filteredByAllergens={avoidedAllergens.length > 0}
+            onProductSelect={onSimilarProductSelect}
+          />
+        </ExpandableSection>
+      )}
+
+      {/* Relationship Sections */}
+      {RELATIONSHIP_SECTIONS
+        .filter(({ type }) => getRelatedIds(product, type).length > 0)
+        .map(({ type, titleKey }) => (
+          <ExpandableSection
+            key={type}
+            title={t(titleKey)}
+            isExpanded={expandedCard === type}
+            onClick={() => onCardClick(type)}
+          >
+            <RelatedProducts
+              currentProduct={product.id}
+              type={type}
+              onItemSelect={onSimilarProductSelect}
+            />
+          </ExpandableSection>
+        ))}
+
       {/* Other Options Section */}
       <ExpandableSection
         title={t('otherOptions')}
@@ -0,0 +1,68 @@
+import React from 'react';
+import { useTranslation } from 'react-i18next';
+import HorizontalProductScroll from './HorizontalProductScroll';
+import { SwapReason, SwapRecommendation } from '@/services/recommendations/HealthierSwapRecommender';
+
+interface SwapProduct {
+  id: string;
+  name: string;
+  image: string;
+  rating: number;
+  status: string;
+  reason?: string;
+}
+
+interface HealthierSwapsSectionProps {
+  swaps: SwapRecommendation[];
+  filteredByAllergens: boolean;
+  onProductSelect: (product: SwapProduct) => void;
+}
+
+const REASON_LABEL_KEYS: Record<SwapReason, string> = {
+  lessProcessed: 'swapLessProcessed',
+  higherRating: 'swapHigherRating',
+  lessSugar: 'swapLessSugar',
+  lessSodium: 'swapLessSodium',
+  moreFiber: 'swapMoreFiber'
+};
+
+const HealthierSwapsSection: React.FC<HealthierSwapsSectionProps> = ({
+  swaps,
+  filteredByAllergens,
+  onProductSelect
+}) => {
+  const { t } = useTranslation();
+
+  // The first reason is the strongest one (NOVA drop, then rating gain)
+  const getReasonLabel = ({ reasons, product, ratingGain }: SwapRecommendation): string | undefined => {
+    if (reasons.length === 0) return undefined;
+    return t(REASON_LABEL_KEYS[reasons[0]], {
+      nova: product.processingLevel.nova,
+      gain: ratingGain.toFixed(1)
+    });
+  };
+
+  const swapProducts: SwapProduct[] = swaps.map(swap => ({
+    id: swap.product.id,
+    name: swap.product.name,
+    image: swap.product.image,
+    rating: swap.product.rating,
+    status: 'swap',
+    reason: getReasonLabel(swap)
+  }));
+
+  return (
+    <div className="space-y-2">
+      <p className="text-xs text-gray-600">{t('healthierSwapsDescription')}</p>
+      <HorizontalProductScroll
+        products={swapProducts}
+        onProductSelect={onProductSelect}
+      />
+      {filteredByAllergens && (
+        <p className="text-xs text-gray-500">{t('healthierSwapsAllergenNote')}</p>
+      )}
+    </div>
+  );
+};
+
+export default HealthierSwapsSection;
@@ -0,0 +1,37 @@
+import React from 'react';
+import { MatchRange } from '@/services/search/types';
+
+interface HighlightedTextProps {
+  text: string;
+  ranges?: MatchRange[];
+}
+
+// Wraps the matched [start, end) ranges of a search result in <mark>
+const HighlightedText: React.FC<HighlightedTextProps> = ({ text, ranges = [] }) => {
+  if (ranges.length === 0) {
+    return <>{text}</>;
+  }
+
+  const parts: React.ReactNode[] = [];
+  let cursor = 0;
+
+  for (const [start, end] of ranges) {
+    if (start > cursor) {
+      parts.push(text.slice(cursor, start));
+    }
+    parts.push(
+      <mark key={start} className="bg-yellow-100 text-inherit rounded-sm">
+        {text.slice(start, end)}
+      </mark>
+    );
+    cursor = end;
+  }
+
+  if (cursor < text.length) {
+    parts.push(text.slice(cursor));
+  }
+
+  return <>{parts}</>;
+};
+
+export default HighlightedText;
@@ -12,6 +12,7 @@ interface Product {
   image: string;
   rating: number;
   status: string;
+  reason?: string; // Short explanation shown under the name, e.g. "Similar calories"
 }
 
 interface HorizontalProductScrollProps {
@@ -78,6 +79,11 @@ const HorizontalProductScroll: React.FC<HorizontalProductScrollProps> = ({
                 <p className="text-sm text-gray-900 font-medium leading-tight truncate">
                   {translatedName}
                 </p>
+                {product.reason && (
+                  <p className="text-xs text-gray-500 leading-tight truncate" title={product.reason}>
+                    {product.reason}
+                  </p>
+                )}
               </div>
             </div>
           );
@@ -0,0 +1,46 @@
+import React from 'react';
+import { useTranslation } from 'react-i18next';
+import { NUTRI_SCORE_LETTERS, NutriScoreLetter } from '@/services/scoring/NutriScoreCalculator';
+
+interface NutriScoreBadgeProps {
+  letter: NutriScoreLetter;
+  size?: 'sm' | 'md';
+}
+
+// Official Nutri-Score palette, from dark green (A) to dark orange (E)
+const LETTER_COLORS: Record<NutriScoreLetter, string> = {
+  A: 'bg-green-700',
+  B: 'bg-green-500',
+  C: 'bg-yellow-400',
+  D: 'bg-orange-500',
+  E: 'bg-red-600'
+};
+
+const NutriScoreBadge: React.FC<NutriScoreBadgeProps> = ({ letter, size = 'md' }) => {
+  const { t } = useTranslation();
+  const cellSize = size === 'sm' ? 'w-3.5 h-4 text-[9px]' : 'w-4 h-5 text-[10px]';
+
+  return (
+    <div
+      className="inline-flex items-center rounded-md overflow-hidden border border-gray-200"
+      title={`${t('nutriScore')}: ${letter}`}
+      aria-label={`${t('nutriScore')}: ${letter}`}
+    >
+      {NUTRI_SCORE_LETTERS.map((current) => {
+        const isActive = current === letter;
+        return (
+          <span
+            key={current}
+            className={`flex items-center justify-center font-bold text-white ${LETTER_COLORS[current]} ${
+              isActive ? `${size === 'sm' ? 'w-5 h-5 text-xs' : 'w-6 h-6 text-sm'} rounded-md` : `${cellSize} opacity-40`
+            }`}
+          >
+            {current}
+          </span>
+        );
+      })}
+    </div>
+  );
+};
+
+export default NutriScoreBadge;
@@ -1,6 +1,9 @@
 
 import React from 'react';
 import { useTranslation } from 'react-i18next';
+import { useNutritionColors } from '@/hooks/useNutritionColors';
+import { useDailyValues } from '@/hooks/useDailyValues';
+import { useUnits } from '@/hooks/useUnits';
 
 interface NutritionCardProps {
   type: 'protein' | 'fats' | 'fiber';
@@ -27,30 +30,21 @@ interface NutritionCardProps {
 
 const NutritionCard: React.FC<NutritionCardProps> = ({ type, isExpanded, onClick, nutritionData }) => {
   const { t } = useTranslation();
+  const { getColorFromRanking } = useNutritionColors();
+  const { getDailyPercentage } = useDailyValues();
+  const { formatMass } = useUnits();
 
   const getCardContent = () => {
     const data = nutritionData[type];
     const ranking = data.healthRanking;
     
-    // Get color based on ranking (0-5)
-    const getColorFromRanking = (ranking: number) => {
-      const colors = [
-        { bg: 'bg-red-50', icon: 'bg-red-500' },     // 0 - Very poor
-        { bg: 'bg-red-100', icon: 'bg-red-400' },    // 1 - Poor
-        { bg: 'bg-orange-50', icon: 'bg-orange-500' }, // 2 - Fair
-        { bg: 'bg-yellow-50', icon: 'bg-yellow-500' }, // 3 - Good
-        { bg: 'bg-lime-50', icon: 'bg-lime-500' },   // 4 - Very good
-        { bg: 'bg-green-50', icon: 'bg-green-500' }  // 5 - Excellent
-      ];
-      return colors[Math.max(0, Math.min(5, ranking))];
-    };
-
     const colors = getColorFromRanking(ranking);
+    const dailyPercentage = getDailyPercentage(type, data.total);
     
     return {
       title: t(type),
       description: data.description,
-      value: `${data.total}g`,
+      value: dailyPercentage !== undefined ? `${formatMass(data.total)} · ${dailyPercentage}%` : formatMass(data.total),
       color: colors.bg,
       iconColor: colors.icon
     };
@@ -6,6 +6,10 @@ import { ScrollArea } from '@/components/ui/scroll-area';
 import NutritionSection from './NutritionSection';
 import VitaminsMineralsSection from './VitaminsMineralsSection';
 import CaloriesSection from './CaloriesSection';
+import PortionSelector from './PortionSelector';
+import { Micronutrients, ServingSize } from '@/data/types';
+import { findServing, getServingOptions, scaleNutrition } from '@/utils/servingSizes';
+import { useDailyValues } from '@/hooks/useDailyValues';
 
 interface NutritionModalProps {
   isOpen: boolean;
@@ -55,16 +59,22 @@ interface NutritionModalProps {
       sugar?: number;
       sodium?: number;
       cholesterol?: number;
+      micronutrients?: Micronutrients;
     };
+    servingSizes?: ServingSize[];
   } | null;
+  servingId: string;
+  onServingChange: (servingId: string) => void;
 }
 
-const NutritionModal: React.FC<NutritionModalProps> = ({ isOpen, onClose, product }) => {
+const NutritionModal: React.FC<NutritionModalProps> = ({ isOpen, onClose, product, servingId, onServingChange }) => {
   const { t } = useTranslation();
+  const { dailyTargets } = useDailyValues();
 
   if (!product) return null;
 
-  const { nutrition } = product;
+  const serving = findServing(product, servingId);
+  const nutrition = scaleNutrition(product.nutrition, serving.grams);
 
   // Additional fields for each section with translations
   const fatsAdditionalFields = nutrition.saturatedFat 
@@ -81,6 +91,12 @@ const NutritionModal: React.FC<NutritionModalProps> = ({ isOpen, onClose, produc
         <DialogHeader>
           <DialogTitle className="text-xl font-semibold">{t('nutriInfo')} - {product.name}</DialogTitle>
         </DialogHeader>
+
+        <PortionSelector
+          options={getServingOptions(product)}
+          value={serving.id}
+          onChange={onServingChange}
+        />
         
         <ScrollArea className="h-[60vh] pr-4">
           <div className="space-y-4">
@@ -88,12 +104,14 @@ const NutritionModal: React.FC<NutritionModalProps> = ({ isOpen, onClose, produc
             <NutritionSection 
               title={t('protein')}
               data={nutrition.protein}
+              nutrient="protein"
             />
 
             {/* Fats Section */}
             <NutritionSection 
               title={t('fats')}
               data={nutrition.fats}
+              nutrient="fats"
               additionalFields={fatsAdditionalFields}
             />
 
@@ -101,12 +119,14 @@ const NutritionModal: React.FC<NutritionModalProps> = ({ isOpen, onClose, produc
             <NutritionSection 
               title={t('fiber')}
               data={nutrition.fiber}
+              nutrient="fiber"
             />
 
             {/* Carbohydrates Section */}
             <NutritionSection 
               title={t('carbohydrates')}
               data={nutrition.carbs}
+              nutrient="carbs"
               additionalFields={carbsAdditionalFields}
             />
 
@@ -114,15 +134,18 @@ const NutritionModal: React.FC<NutritionModalProps> = ({ isOpen, onClose, produc
             <VitaminsMineralsSection 
               vitamins={nutrition.vitamins}
               minerals={nutrition.minerals}
+              micronutrients={nutrition.micronutrients}
               sodium={nutrition.sodium}
               cholesterol={nutrition.cholesterol}
             />
 
             {/* Calories Section */}
-            <CaloriesSection calories={nutrition.calories} />
+            <CaloriesSection calories={nutrition.calories} servingGrams={serving.grams} />
 
             <div className="text-xs text-gray-500 italic">
-              {t('dailyValueNote')}
+              {dailyTargets
+                ? t('dailyValuePersonalNote', { calories: dailyTargets.calories })
+                : t('dailyValueNote')}
             </div>
           </div>
         </ScrollArea>
@@ -2,7 +2,9 @@
 import React from 'react';
 import { useTranslation } from 'react-i18next';
 import { useNutritionColors } from '@/hooks/useNutritionColors';
-import { useNumberFormatter } from '@/hooks/useNumberFormatter';
+import { useDailyValues } from '@/hooks/useDailyValues';
+import { useUnits } from '@/hooks/useUnits';
+import { DailyValueNutrient } from '@/data/dailyValues';
 
 interface NutritionSectionProps {
   title: string;
@@ -14,14 +16,17 @@ interface NutritionSectionProps {
     healthRanking: number;
   };
   additionalFields?: { label: string; value: number }[];
+  nutrient?: DailyValueNutrient; // Recomputes % Daily Value with the preferred standard
 }
 
-const NutritionSection: React.FC<NutritionSectionProps> = ({ title, data, additionalFields = [] }) => {
+const NutritionSection: React.FC<NutritionSectionProps> = ({ title, data, additionalFields = [], nutrient }) => {
   const { t } = useTranslation();
   const { getColorFromRanking } = useNutritionColors();
-  const { formatNumber } = useNumberFormatter();
+  const { getDailyPercentage } = useDailyValues();
+  const { formatMass, formatEnergy } = useUnits();
   
   const colors = getColorFromRanking(data.healthRanking);
+  const dailyPercentage = nutrient ? getDailyPercentage(nutrient, data.total) : data.dailyPercentage;
 
   return (
     <div className={`${colors.bg} p-4 rounded-xl`}>
@@ -33,21 +38,21 @@ const NutritionSection: React.FC<NutritionSectionProps> = ({ title, data, additi
           <div className="space-y-2">
             <div className="flex justify-between">
               <span className="text-sm text-gray-600">{t('total')} {title}</span>
-              <span className="text-sm font-medium">{formatNumber(data.total)}g</span>
+              <span className="text-sm font-medium">{formatMass(data.total)}</span>
             </div>
             {additionalFields.map((field, index) => (
               <div key={index} className="flex justify-between">
                 <span className="text-sm text-gray-600">{field.label}</span>
-                <span className="text-sm font-medium">{formatNumber(field.value)}g</span>
+                <span className="text-sm font-medium">{formatMass(field.value)}</span>
               </div>
             ))}
             <div className="flex justify-between">
               <span className="text-sm text-gray-600">{t('caloriesFrom')} {title}</span>
-              <span className="text-sm font-medium">{formatNumber(data.caloriesFrom)} kcal</span>
+              <span className="text-sm font-medium">{formatEnergy(data.caloriesFrom)}</span>
             </div>
             <div className="flex justify-between">
               <span className="text-sm text-gray-600">{t('dailyValue')}</span>
-              <span className="text-sm font-medium">{data.dailyPercentage}%</span>
+              <span className="text-sm font-medium">{dailyPercentage !== undefined ? `${dailyPercentage}%` : '—'}</span>
             </div>
           </div>
         </div>
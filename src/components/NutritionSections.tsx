@@ -2,35 +2,46 @@
 import React from 'react';
 import { useTranslation } from 'react-i18next';
 import NutritionCard from './NutritionCard';
+import PortionSelector from './PortionSelector';
 import { Product } from '@/data/database';
+import { findServing, getServingOptions, scaleNutrition } from '@/utils/servingSizes';
 
 interface NutritionSectionsProps {
   product: Product;
   onSeeMore: () => void;
+  servingId: string;
+  onServingChange: (servingId: string) => void;
 }
 
-const NutritionSections: React.FC<NutritionSectionsProps> = ({ product, onSeeMore }) => {
+const NutritionSections: React.FC<NutritionSectionsProps> = ({ product, onSeeMore, servingId, onServingChange }) => {
   const { t } = useTranslation();
+  const serving = findServing(product, servingId);
+  const nutrition = scaleNutrition(product.nutrition, serving.grams);
 
   return (
     <div className="space-y-1">
+      <PortionSelector
+        options={getServingOptions(product)}
+        value={serving.id}
+        onChange={onServingChange}
+      />
       <NutritionCard 
         type="protein" 
         isExpanded={true}
         onClick={() => {}}
-        nutritionData={product.nutrition}
+        nutritionData={nutrition}
       />
       <NutritionCard 
         type="fats" 
         isExpanded={true}
         onClick={() => {}}
-        nutritionData={product.nutrition}
+        nutritionData={nutrition}
       />
       <NutritionCard 
         type="fiber" 
         isExpanded={true}
         onClick={() => {}}
-        nutritionData={product.nutrition}
+        nutritionData={nutrition}
       />
       <div className="text-center pt-1">
         <button 
@@ -0,0 +1,49 @@
+import React from 'react';
+import { useTranslation } from 'react-i18next';
+import { ServingSize } from '@/data/types';
+import { useUnits } from '@/hooks/useUnits';
+
+interface PortionSelectorProps {
+  options: ServingSize[];
+  value: string;
+  onChange: (servingId: string) => void;
+}
+
+const PortionSelector: React.FC<PortionSelectorProps> = ({ options, value, onChange }) => {
+  const { t } = useTranslation();
+  const { formatMass } = useUnits();
+
+  const getLabel = (serving: ServingSize) => {
+    // Plain weights ("100 g", "30 g") follow the unit preference; named portions also show their weight
+    if (serving.label === `${serving.grams} g`) return formatMass(serving.grams);
+    const label = serving.labelKey ? t(serving.labelKey, serving.label) : serving.label;
+    return `${label} (${formatMass(serving.grams)})`;
+  };
+
+  return (
+    <div className="flex items-center gap-2 overflow-x-auto pb-1" role="radiogroup" aria-label={t('portion')}>
+      <span className="text-xs text-gray-500 flex-shrink-0">{t('portion')}:</span>
+      {options.map(serving => {
+        const isSelected = serving.id === value;
+        return (
+          <button
+            key={serving.id}
+            type="button"
+            role="radio"
+            aria-checked={isSelected}
+            onClick={() => onChange(serving.id)}
+            className={`text-xs px-2 py-1 rounded-full border flex-shrink-0 transition-colors ${
+              isSelected
+                ? 'bg-blue-500 text-white border-blue-500'
+                : 'bg-white text-gray-700 border-gray-200 hover:bg-gray-50'
+            }`}
+          >
+            {getLabel(serving)}
+          </button>
+        );
+      })}
+    </div>
+  );
+};
+
+export default PortionSelector;
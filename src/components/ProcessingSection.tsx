@@ -2,18 +2,30 @@
 import React from 'react';
 import { useTranslation } from 'react-i18next';
 import { ProcessingLevel } from '@/data/types';
+import { AdditiveRiskTier } from '@/data/additives';
 import { useProductTranslation } from '@/hooks/useProductTranslation';
+import { additiveAnalyzer } from '@/services/additives/AdditiveAnalyzer';
 
 interface ProcessingSectionProps {
   processingLevel: ProcessingLevel;
+  additives?: string[]; // E-numbers
 }
 
-const ProcessingSection: React.FC<ProcessingSectionProps> = ({ processingLevel }) => {
+const RISK_LABEL_KEYS: Record<AdditiveRiskTier, string> = {
+  low: 'additiveRiskLow',
+  moderate: 'additiveRiskModerate',
+  high: 'additiveRiskHigh'
+};
+
+const ProcessingSection: React.FC<ProcessingSectionProps> = ({ processingLevel, additives }) => {
   const { t } = useTranslation();
   const { 
     translateProcessingCategory, 
     translateProcessingDescription, 
-    translateProcessingIndicators 
+    translateProcessingIndicators,
+    translateAdditiveName,
+    translateAdditiveDescription,
+    translateAdditiveFunction
   } = useProductTranslation();
 
   const getNovaColor = (nova: number) => {
@@ -26,6 +38,17 @@ const ProcessingSection: React.FC<ProcessingSectionProps> = ({ processingLevel }
     }
   };
 
+  const getRiskColor = (risk: AdditiveRiskTier) => {
+    switch (risk) {
+      case 'low': return 'text-green-600 bg-green-100';
+      case 'moderate': return 'text-orange-600 bg-orange-100';
+      case 'high': return 'text-red-600 bg-red-100';
+    }
+  };
+
+  const resolvedAdditives = additiveAnalyzer.sortByRisk(additiveAnalyzer.resolve(additives).additives);
+  const minimumNova = additiveAnalyzer.getMinimumNova(resolvedAdditives);
+
   const translatedDescription = translateProcessingDescription(
     processingLevel.descriptionKey, 
     processingLevel.description
@@ -68,6 +91,31 @@ const ProcessingSection: React.FC<ProcessingSectionProps> = ({ processingLevel }
           </div>
         </div>
       )}
+
+      {resolvedAdditives.length > 0 && (
+        <div className="space-y-1">
+          <h4 className="text-xs font-medium text-gray-700">{t('additives')}:</h4>
+          <ul className="space-y-2">
+            {resolvedAdditives.map(additive => (
+              <li key={additive.code} className="rounded border border-gray-100 p-2">
+                <div className="flex items-center justify-between gap-2">
+                  <span className="text-xs font-medium text-gray-700">
+                    {additive.code} · {translateAdditiveName(additive)}
+                  </span>
+                  <span className={`px-2 py-0.5 rounded-full text-[10px] font-medium whitespace-nowrap ${getRiskColor(additive.risk)}`}>
+                    {t(RISK_LABEL_KEYS[additive.risk])}
+                  </span>
+                </div>
+                <p className="text-[11px] text-gray-500">{translateAdditiveFunction(additive.function)}</p>
+                <p className="text-xs text-gray-600 leading-relaxed">{translateAdditiveDescription(additive)}</p>
+              </li>
+            ))}
+          </ul>
+          {minimumNova > processingLevel.nova && (
+            <p className="text-xs text-orange-600">{t('additivesSuggestNova', { nova: minimumNova })}</p>
+          )}
+        </div>
+      )}
     </div>
   );
 };
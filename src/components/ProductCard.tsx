@@ -5,6 +5,8 @@ import { Card, CardContent } from '@/components/ui/card';
 import { getProductSlug } from '@/utils/productUtils';
 import { getProductById } from '@/data/database';
 import { useProductTranslation } from '@/hooks/useProductTranslation';
+import { nutriScoreCalculator } from '@/services/scoring/NutriScoreCalculator';
+import NutriScoreBadge from './NutriScoreBadge';
 
 interface ProductCardProps {
   id: string;
@@ -28,13 +30,14 @@ const ProductCard: React.FC<ProductCardProps> = ({
   const navigate = useNavigate();
   const [searchParams] = useSearchParams();
   const { currentLanguage } = useProductTranslation();
+  const product = getProductById(id);
+  const nutriScore = product ? nutriScoreCalculator.calculateForProduct(product).letter : null;
 
   const handleClick = () => {
     if (onClick) {
       onClick();
     } else {
-      // Get the full product data to generate proper slug
-      const product = getProductById(id);
+      // Use the full product data to generate proper slug
       if (product) {
         const slug = getProductSlug(product, currentLanguage);
         
@@ -73,6 +76,7 @@ const ProductCard: React.FC<ProductCardProps> = ({
               ></div>
             </div>
           </div>
+          {nutriScore && <NutriScoreBadge letter={nutriScore} size="sm" />}
         </div>
       </CardContent>
     </Card>
@@ -0,0 +1,57 @@
+import React from 'react';
+import { useTranslation } from 'react-i18next';
+import { ParsedQuery, QueryIssue, QueryTokenKind } from '@/services/search/QueryParser';
+
+interface QueryTokenHighlightsProps {
+  query: ParsedQuery;
+}
+
+const TOKEN_CLASSES: Record<QueryTokenKind, string> = {
+  text: 'text-gray-600',
+  filter: 'bg-blue-50 text-blue-700',
+  exclude: 'bg-gray-100 text-gray-500 line-through',
+  invalid: 'bg-red-50 text-red-700 underline decoration-wavy decoration-red-500'
+};
+
+const ISSUE_KEYS: Record<QueryIssue, string> = {
+  unknownField: 'queryUnknownField',
+  invalidValue: 'queryInvalidValue',
+  unsupportedOperator: 'queryUnsupportedOperator',
+  missingValue: 'queryMissingValue'
+};
+
+// Shows how the search box query was understood; only rendered once it has filters or errors
+const QueryTokenHighlights: React.FC<QueryTokenHighlightsProps> = ({ query }) => {
+  const { t } = useTranslation();
+
+  if (!query.tokens.some(token => token.kind !== 'text')) {
+    return null;
+  }
+
+  const issueMessage = (token: ParsedQuery['tokens'][number]) =>
+    token.issue ? t(ISSUE_KEYS[token.issue], { token: token.text }) : undefined;
+
+  return (
+    <div className="mt-2 space-y-1 text-xs">
+      <div className="flex flex-wrap gap-1">
+        {query.tokens.map(token => (
+          <span
+            key={token.start}
+            title={issueMessage(token)}
+            data-kind={token.kind}
+            className={`px-1.5 py-0.5 rounded ${TOKEN_CLASSES[token.kind]}`}
+          >
+            {token.text}
+          </span>
+        ))}
+      </div>
+      {query.invalidTokens.length > 0 && (
+        <p className="text-red-600" role="status">
+          {query.invalidTokens.map(issueMessage).join(' · ')}
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default QueryTokenHighlights;
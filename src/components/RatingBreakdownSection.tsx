@@ -0,0 +1,85 @@
+import React from 'react';
+import { useTranslation } from 'react-i18next';
+import { Product } from '@/data/types';
+import { useNumberFormatter } from '@/hooks/useNumberFormatter';
+import { ratingExplainer, RatingFactor, RatingImpact } from '@/services/scoring/RatingExplainer';
+
+interface RatingBreakdownSectionProps {
+  product: Product;
+}
+
+// Reuse the existing nutrient labels for each factor
+const FACTOR_LABEL_KEYS: Record<RatingFactor, string> = {
+  protein: 'protein',
+  carbs: 'carbohydrates',
+  fats: 'fats',
+  fiber: 'fiber',
+  processing: 'processingLevel',
+  sodium: 'sodium',
+  sugar: 'sugars'
+};
+
+const IMPACT_COLORS: Record<RatingImpact, string> = {
+  positive: 'bg-green-500',
+  neutral: 'bg-yellow-500',
+  negative: 'bg-red-500'
+};
+
+const RatingBreakdownSection: React.FC<RatingBreakdownSectionProps> = ({ product }) => {
+  const { t } = useTranslation();
+  const { formatNumber } = useNumberFormatter();
+  const explanation = ratingExplainer.explain(product);
+
+  const formatSigned = (value: number) => `${value > 0 ? '+' : ''}${formatNumber(value)}`;
+
+  return (
+    <div className="space-y-3">
+      <p className="text-xs text-gray-600">{t('ratingBreakdownDescription')}</p>
+
+      <div className="space-y-2">
+        {explanation.contributions.map((contribution) => (
+          <div key={contribution.factor} className="space-y-1">
+            <div className="flex items-center justify-between text-xs">
+              <span className="text-gray-700 font-medium">
+                {t(FACTOR_LABEL_KEYS[contribution.factor])}
+                <span className="text-gray-500 font-normal ml-1">
+                  {contribution.factor === 'processing'
+                    ? `(NOVA ${contribution.value})`
+                    : `(${formatNumber(contribution.value)}${contribution.unit})`}
+                </span>
+              </span>
+              <span className="text-gray-900 font-semibold">
+                {formatNumber(contribution.points)}/{formatNumber(contribution.weight)}
+              </span>
+            </div>
+            <div className="w-full bg-gray-200 rounded-full h-1">
+              <div
+                className={`${IMPACT_COLORS[contribution.impact]} h-1 rounded-full`}
+                style={{ width: `${(contribution.points / contribution.weight) * 100}%` }}
+              ></div>
+            </div>
+          </div>
+        ))}
+      </div>
+
+      <div className="border-t pt-2 space-y-1 text-xs">
+        <div className="flex justify-between text-gray-600">
+          <span>{t('ratingFromFactors')}</span>
+          <span>{formatNumber(explanation.estimatedRating)}</span>
+        </div>
+        {explanation.adjustment !== 0 && (
+          <div className="flex justify-between text-gray-600">
+            <span>{t('ratingOtherFactors')}</span>
+            <span>{formatSigned(explanation.adjustment)}</span>
+          </div>
+        )}
+        <div className="flex justify-between font-semibold text-gray-900">
+          <span>{t('rating')}</span>
+          <span className="text-blue-500">{formatNumber(explanation.rating)}/10</span>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default RatingBreakdownSection;
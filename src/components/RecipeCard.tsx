@@ -2,8 +2,9 @@
 import React from 'react';
 import { useNavigate } from 'react-router-dom';
 import { Recipe, recipeCategories } from '@/data/recipes';
-import { Clock, Users, User } from 'lucide-react';
+import { Clock, Users, User, Flame } from 'lucide-react';
 import { Card, CardContent } from '@/components/ui/card';
+import { useUnits } from '@/hooks/useUnits';
 
 interface RecipeCardProps {
   recipe: Recipe;
@@ -17,6 +18,7 @@ const RecipeCard: React.FC<RecipeCardProps> = ({
   onSelect 
 }) => {
   const navigate = useNavigate();
+  const { formatEnergy } = useUnits();
 
   const getDifficultyColor = (difficulty: string) => {
     switch (difficulty) {
@@ -70,6 +72,10 @@ const RecipeCard: React.FC<RecipeCardProps> = ({
           <span className={`capitalize ${getDifficultyColor(recipe.difficulty)}`}>
             {recipe.difficulty}
           </span>
+          <div className="flex items-center gap-1">
+            <Flame className="h-3 w-3" />
+            {formatEnergy(recipe.nutrition.calories)}
+          </div>
         </div>
 
         <div className="flex flex-wrap gap-1">
@@ -0,0 +1,64 @@
+
+import React, { useEffect, useState } from 'react';
+import HorizontalProductScroll from './HorizontalProductScroll';
+import { Product, RelationshipType } from '@/data/database';
+import { useProductRepository } from '@/contexts/ProductRepositoryContext';
+
+interface RelatedProduct {
+  id: string;
+  name: string;
+  image: string;
+  rating: number;
+  status: string;
+}
+
+interface RelatedProductsProps {
+  currentProduct: string;
+  type: RelationshipType;
+  onItemSelect: (item: RelatedProduct) => void;
+}
+
+const RelatedProducts: React.FC<RelatedProductsProps> = ({
+  currentProduct,
+  type,
+  onItemSelect
+}) => {
+  const productRepository = useProductRepository();
+  const [relatedProducts, setRelatedProducts] = useState<Product[]>([]);
+
+  // Get products with the given relationship from the repository
+  useEffect(() => {
+    let cancelled = false;
+
+    productRepository.getRelatedProducts(currentProduct, type)
+      .then(products => {
+        if (!cancelled) setRelatedProducts(products);
+      })
+      .catch(error => {
+        console.error(`Error loading ${type} products:`, error);
+        if (!cancelled) setRelatedProducts([]);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [productRepository, currentProduct, type]);
+
+  // The relationship type doubles as the status shown to HorizontalProductScroll
+  const products: RelatedProduct[] = relatedProducts.map(product => ({
+    id: product.id,
+    name: product.name,
+    image: product.image,
+    rating: product.rating,
+    status: type
+  }));
+
+  return (
+    <HorizontalProductScroll
+      products={products}
+      onProductSelect={onItemSelect}
+    />
+  );
+};
+
+export default RelatedProducts;
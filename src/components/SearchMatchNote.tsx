@@ -0,0 +1,53 @@
+import React from 'react';
+import { useTranslation } from 'react-i18next';
+import { Searchable } from '@/types/search';
+import { SearchResult } from '@/services/search/types';
+import { MatchHighlighter } from '@/services/search/MatchHighlighter';
+import HighlightedText from './HighlightedText';
+
+interface SearchMatchNoteProps {
+  name: string; // Name as displayed on the card
+  match?: SearchResult<Searchable>;
+}
+
+// Explains matches the highlighted name can't show: synonyms, other languages, categories, descriptions and brands
+const SearchMatchNote: React.FC<SearchMatchNoteProps> = ({ name, match }) => {
+  const { t } = useTranslation();
+
+  if (!match) {
+    return null;
+  }
+
+  if (match.synonym) {
+    return (
+      <p className="text-xs text-gray-500 truncate">
+        {t('matchedSynonym', {
+          term: match.synonym.term,
+          name,
+          defaultValue: `matched '${match.synonym.term}' → ${name}`
+        })}
+      </p>
+    );
+  }
+
+  // Nothing to explain when the displayed name already shows the match
+  if (MatchHighlighter.rangesFor(match.highlights, 'name', name).length > 0) {
+    return null;
+  }
+
+  const highlight = match.highlights.find(candidate => candidate.ranges.length > 0);
+  if (!highlight) {
+    return null;
+  }
+
+  const { text, ranges } = MatchHighlighter.excerpt(highlight);
+
+  return (
+    <p className="text-xs text-gray-500 truncate">
+      {t('matchedIn', 'matched')}{' '}
+      <HighlightedText text={text} ranges={ranges} />
+    </p>
+  );
+};
+
+export default SearchMatchNote;
@@ -1,9 +1,11 @@
 
-import React, { useState } from 'react';
+import React, { useState, useMemo } from 'react';
 import { Search } from 'lucide-react';
 import { Input } from '@/components/ui/input';
 import FavoritesList from '@/components/FavoritesList';
 import ScrollContainer from '@/components/ScrollContainer';
+import QueryTokenHighlights from '@/components/QueryTokenHighlights';
+import { ParsedQuery, QueryParser } from '@/services/search/QueryParser';
 
 interface SearchableItem {
   id: string;
@@ -16,7 +18,7 @@ interface SearchableItem {
 interface SearchableListProps {
   items: SearchableItem[];
   onItemSelect: (item: SearchableItem) => void;
-  onSearch: (searchTerm: string, items: SearchableItem[]) => SearchableItem[];
+  onSearch: (searchTerm: string, items: SearchableItem[], query: ParsedQuery) => SearchableItem[];
   searchPlaceholder: string;
   showLoading?: boolean;
   hasLoaded?: boolean;
@@ -32,18 +34,19 @@ const SearchableList: React.FC<SearchableListProps> = ({
 }) => {
   const [searchTerm, setSearchTerm] = useState('');
   const [filteredItems, setFilteredItems] = useState<SearchableItem[]>(items);
+  const parsedQuery = useMemo(() => QueryParser.parse(searchTerm), [searchTerm]);
 
   const handleSearch = (value: string) => {
     setSearchTerm(value);
-    const results = onSearch(value, items);
+    const results = onSearch(value, items, QueryParser.parse(value));
     setFilteredItems(results);
   };
 
   // Update filtered items when items prop changes
   React.useEffect(() => {
-    const results = onSearch(searchTerm, items);
+    const results = onSearch(searchTerm, items, parsedQuery);
     setFilteredItems(results);
-  }, [items, searchTerm, onSearch]);
+  }, [items, searchTerm, parsedQuery, onSearch]);
 
   return (
     <div className="h-full flex flex-col">
@@ -59,6 +62,7 @@ const SearchableList: React.FC<SearchableListProps> = ({
             className="pl-10 w-full"
           />
         </div>
+        <QueryTokenHighlights query={parsedQuery} />
       </div>
 
       {/* Scrollable Items List */}
@@ -68,6 +72,7 @@ const SearchableList: React.FC<SearchableListProps> = ({
           onItemSelect={onItemSelect}
           showLoading={showLoading}
           hasLoaded={hasLoaded}
+          highlightQuery={parsedQuery.options.searchTerm}
         />
       </ScrollContainer>
     </div>
@@ -1,7 +1,13 @@
 
-import React from 'react';
+import React, { useEffect, useState } from 'react';
+import { useTranslation } from 'react-i18next';
 import HorizontalProductScroll from './HorizontalProductScroll';
-import { getSimilarProducts } from '@/data/database';
+import { useProductRepository } from '@/contexts/ProductRepositoryContext';
+import {
+  productSimilarityEngine,
+  SimilarProductMatch,
+  SimilarityReason
+} from '@/services/similarity/ProductSimilarityEngine';
 
 interface SimilarProduct {
   id: string;
@@ -9,6 +15,7 @@ interface SimilarProduct {
   image: string;
   rating: number;
   status: string;
+  reason?: string;
 }
 
 interface SimilarProductsProps {
@@ -16,24 +23,72 @@ interface SimilarProductsProps {
   onItemSelect: (item: SimilarProduct) => void;
 }
 
-const SimilarProducts: React.FC<SimilarProductsProps> = ({ 
-  currentProduct, 
-  onItemSelect 
+// Curated 'similar' relationships come first; nutrient-vector neighbours fill the rest
+const SIMILAR_PRODUCTS_LIMIT = 8;
+
+const REASON_LABEL_KEYS: Record<SimilarityReason, string> = {
+  sameCategory: 'similarSameCategory',
+  sameProcessing: 'similarSameProcessing',
+  sameAllergenProfile: 'similarSameAllergenProfile',
+  similarCalories: 'similarCalories',
+  similarProtein: 'similarProtein',
+  similarCarbs: 'similarCarbs',
+  similarFats: 'similarFats',
+  similarFiber: 'similarFiber',
+  similarSugar: 'similarSugar',
+  similarSodium: 'similarSodium'
+};
+
+const SimilarProducts: React.FC<SimilarProductsProps> = ({
+  currentProduct,
+  onItemSelect
 }) => {
-  // Get similar products from database
-  const similarProductsFromDB = getSimilarProducts(currentProduct);
-  
+  const { t } = useTranslation();
+  const productRepository = useProductRepository();
+  const [matches, setMatches] = useState<SimilarProductMatch[]>([]);
+
+  // Blend curated and computed similar products from the repository catalog
+  useEffect(() => {
+    let cancelled = false;
+
+    Promise.all([productRepository.getProductById(currentProduct), productRepository.getAllProducts()])
+      .then(([product, products]) => {
+        if (cancelled) return;
+        if (!product) {
+          setMatches([]);
+          return;
+        }
+        const index = productSimilarityEngine.getIndex(products);
+        setMatches(productSimilarityEngine.blend(product, index, SIMILAR_PRODUCTS_LIMIT));
+      })
+      .catch(error => {
+        console.error('Error loading similar products:', error);
+        if (!cancelled) setMatches([]);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [productRepository, currentProduct]);
+
+  // Nutrient reasons are more telling than the shared category, so they win when present
+  const getReasonLabel = (reasons: SimilarityReason[]): string | undefined => {
+    const reason = reasons.find(r => r.startsWith('similar')) ?? reasons[0];
+    return reason ? t(REASON_LABEL_KEYS[reason]) : undefined;
+  };
+
   // Convert to SimilarProduct format
-  const similarProducts: SimilarProduct[] = similarProductsFromDB.map(product => ({
+  const similarProducts: SimilarProduct[] = matches.map(({ product, reasons, curated }) => ({
     id: product.id,
     name: product.name,
     image: product.image,
     rating: product.rating,
-    status: 'similar'
+    status: curated ? 'similar' : 'computed',
+    reason: getReasonLabel(reasons)
   }));
 
   return (
-    <HorizontalProductScroll 
+    <HorizontalProductScroll
       products={similarProducts}
       onProductSelect={onItemSelect}
     />
@@ -0,0 +1,66 @@
+import React from 'react';
+import { useTranslation } from 'react-i18next';
+import { Button } from '@/components/ui/button';
+import { useUserPreferences } from '@/contexts/UserPreferencesContext';
+import { UserPreferences } from '@/types/userData';
+import { ENERGY_UNITS, UNIT_SYSTEMS } from '@/utils/units';
+
+interface UnitPreferencesSelectorProps {
+  disabled?: boolean;
+}
+
+const UNIT_SYSTEM_LABEL_KEYS = {
+  metric: 'unitSystemMetric',
+  imperial: 'unitSystemImperial'
+};
+
+const UnitPreferencesSelector: React.FC<UnitPreferencesSelectorProps> = ({ disabled = false }) => {
+  const { t } = useTranslation();
+  const { preferences, updatePreferences } = useUserPreferences();
+
+  const handleChange = (changes: Partial<UserPreferences>) => {
+    updatePreferences(changes).catch(error => {
+      console.error('Error updating unit preferences:', error);
+    });
+  };
+
+  const renderOption = (isSelected: boolean, label: string, onClick: () => void) => (
+    <Button
+      key={label}
+      variant={isSelected ? 'default' : 'outline'}
+      size="sm"
+      className="flex-1"
+      onClick={onClick}
+      disabled={disabled}
+      aria-pressed={isSelected}
+    >
+      {label}
+    </Button>
+  );
+
+  return (
+    <div className="border-t pt-4 mt-4">
+      <h3 className="text-sm font-medium text-gray-700 mb-3 px-2">
+        {t('units')}
+      </h3>
+      <div className="space-y-2">
+        <div className="flex gap-2">
+          {UNIT_SYSTEMS.map(system => renderOption(
+            preferences.unitSystem === system,
+            t(UNIT_SYSTEM_LABEL_KEYS[system]),
+            () => handleChange({ unitSystem: system })
+          ))}
+        </div>
+        <div className="flex gap-2">
+          {ENERGY_UNITS.map(unit => renderOption(
+            preferences.energyUnit === unit,
+            unit,
+            () => handleChange({ energyUnit: unit })
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default UnitPreferencesSelector;
@@ -0,0 +1,56 @@
+import React from 'react';
+import { useTranslation } from 'react-i18next';
+import { ProductVariant } from '@/data/types';
+import { useUnits } from '@/hooks/useUnits';
+import { getVariantLabel } from '@/utils/productVariants';
+
+interface VariantPickerProps {
+  variants: ProductVariant[];
+  value?: string;
+  onChange: (variantId?: string) => void;
+}
+
+const VariantPicker: React.FC<VariantPickerProps> = ({ variants, value, onChange }) => {
+  const { t } = useTranslation();
+  const { formatMass, formatVolume } = useUnits();
+
+  const getLabel = (variant: ProductVariant) => {
+    const label = getVariantLabel(variant);
+    if (!variant.packageSize) return label;
+    const { amount, unit } = variant.packageSize;
+    return `${label} (${unit === 'ml' ? formatVolume(amount) : formatMass(amount)})`;
+  };
+
+  // The generic product comes first so users can go back to the reference values
+  const options = [
+    { id: undefined, label: t('genericProduct') },
+    ...variants.map(variant => ({ id: variant.id, label: getLabel(variant) }))
+  ];
+
+  return (
+    <div className="flex items-center gap-2 overflow-x-auto pb-1" role="radiogroup" aria-label={t('variant')}>
+      <span className="text-xs text-gray-500 flex-shrink-0">{t('variant')}:</span>
+      {options.map(option => {
+        const isSelected = option.id === value;
+        return (
+          <button
+            key={option.id ?? 'generic'}
+            type="button"
+            role="radio"
+            aria-checked={isSelected}
+            onClick={() => onChange(option.id)}
+            className={`text-xs px-2 py-1 rounded-full border flex-shrink-0 transition-colors ${
+              isSelected
+                ? 'bg-blue-500 text-white border-blue-500'
+                : 'bg-white text-gray-700 border-gray-200 hover:bg-gray-50'
+            }`}
+          >
+            {option.label}
+          </button>
+        );
+      })}
+    </div>
+  );
+};
+
+export default VariantPicker;
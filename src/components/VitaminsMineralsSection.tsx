@@ -1,28 +1,76 @@
-
 import React from 'react';
 import { useTranslation } from 'react-i18next';
 import { useProductTranslation } from '@/hooks/useProductTranslation';
 import { useNumberFormatter } from '@/hooks/useNumberFormatter';
+import { useDailyValues } from '@/hooks/useDailyValues';
+import { MicronutrientKey, Micronutrients } from '@/data/types';
+import { MICRONUTRIENT_REFERENCE } from '@/data/micronutrients';
 
 interface VitaminsMineralsSectionProps {
   vitamins: string[];
   minerals: string[];
+  micronutrients?: Micronutrients;
   sodium?: number;
   cholesterol?: number;
 }
 
-const VitaminsMineralsSection: React.FC<VitaminsMineralsSectionProps> = ({ 
-  vitamins, 
-  minerals, 
-  sodium, 
-  cholesterol 
+const VitaminsMineralsSection: React.FC<VitaminsMineralsSectionProps> = ({
+  vitamins,
+  minerals,
+  micronutrients = {},
+  sodium,
+  cholesterol
 }) => {
   const { t } = useTranslation();
   const { translateVitamins, translateMinerals } = useProductTranslation();
   const { formatNumber } = useNumberFormatter();
+  const { getDailyPercentage } = useDailyValues();
+
+  const quantified = Object.keys(micronutrients) as MicronutrientKey[];
+  const quantifiedVitamins = quantified.filter(key => MICRONUTRIENT_REFERENCE[key]?.kind === 'vitamin');
+  const quantifiedMinerals = quantified.filter(key => MICRONUTRIENT_REFERENCE[key]?.kind === 'mineral');
+
+  // Listed nutrients without a known amount are still shown as tags
+  const unquantifiedVitamins = translateVitamins(vitamins.filter(key => !micronutrients[key as MicronutrientKey]));
+  const unquantifiedMinerals = translateMinerals(minerals.filter(key => !micronutrients[key as MicronutrientKey]));
 
-  const translatedVitamins = translateVitamins(vitamins);
-  const translatedMinerals = translateMinerals(minerals);
+  const renderRows = (keys: MicronutrientKey[], translate: (keys: string[]) => string[]) => {
+    const names = translate(keys);
+
+    return keys.map((key, index) => {
+      const { amount, unit } = micronutrients[key];
+      // Recomputed with the preferred standard; the stored percentage is only a fallback
+      const dailyPercentage = getDailyPercentage(key, amount) ?? micronutrients[key].dailyPercentage;
+
+      return (
+        <div key={key} className="space-y-1">
+          <div className="flex justify-between">
+            <span className="text-sm text-gray-600">{names[index]}</span>
+            <span className="text-sm font-medium">
+              {formatNumber(amount)}{unit}
+              <span className="text-xs text-gray-500 font-normal ml-1">({dailyPercentage}%)</span>
+            </span>
+          </div>
+          <div className="w-full bg-purple-100 rounded-full h-1">
+            <div
+              className="bg-purple-500 h-1 rounded-full"
+              style={{ width: `${Math.min(100, dailyPercentage)}%` }}
+            ></div>
+          </div>
+        </div>
+      );
+    });
+  };
+
+  const renderTags = (names: string[]) => (
+    <div className="flex flex-wrap gap-1 mt-1">
+      {names.map((name, index) => (
+        <span key={index} className="text-xs bg-purple-100 text-purple-800 px-2 py-1 rounded">
+          {name}
+        </span>
+      ))}
+    </div>
+  );
 
   return (
     <div className="bg-purple-50 p-4 rounded-xl">
@@ -33,25 +81,19 @@ const VitaminsMineralsSection: React.FC<VitaminsMineralsSectionProps> = ({
           <div className="space-y-2">
             <div>
               <span className="text-sm text-gray-600 font-medium">{t('vitaminsLabel')}</span>
-              <div className="flex flex-wrap gap-1 mt-1">
-                {translatedVitamins.map((vitamin, index) => (
-                  <span key={index} className="text-xs bg-purple-100 text-purple-800 px-2 py-1 rounded">
-                    {vitamin}
-                  </span>
-                ))}
+              <div className="space-y-2 mt-1">
+                {renderRows(quantifiedVitamins, translateVitamins)}
               </div>
+              {unquantifiedVitamins.length > 0 && renderTags(unquantifiedVitamins)}
             </div>
             <div>
               <span className="text-sm text-gray-600 font-medium">{t('mineralsLabel')}</span>
-              <div className="flex flex-wrap gap-1 mt-1">
-                {translatedMinerals.map((mineral, index) => (
-                  <span key={index} className="text-xs bg-purple-100 text-purple-800 px-2 py-1 rounded">
-                    {mineral}
-                  </span>
-                ))}
+              <div className="space-y-2 mt-1">
+                {renderRows(quantifiedMinerals, translateMinerals)}
               </div>
+              {unquantifiedMinerals.length > 0 && renderTags(unquantifiedMinerals)}
             </div>
-            {sodium && (
+            {sodium && !micronutrients.sodium && (
               <div className="flex justify-between">
                 <span className="text-sm text-gray-600">{t('sodium')}</span>
                 <span className="text-sm font-medium">{formatNumber(sodium)}mg</span>
@@ -1,18 +1,22 @@
 
-import React from 'react';
+import React, { useState } from 'react';
 import { FilterCriteria } from '@/types/search';
 import { useTranslation } from 'react-i18next';
 import { getPriorityAllergens } from '@/data/allergens';
+import { Switch } from '@/components/ui/switch';
+import { getAcceptedAllergenStatuses } from '@/utils/allergenStatus';
 
 interface AllergenFilterProps {
   filters: FilterCriteria[];
   onAddFilter: (filter: FilterCriteria) => void;
+  onAddFilters: (filters: FilterCriteria[]) => void;
   onRemoveFilter: (filter: FilterCriteria) => void;
 }
 
 const AllergenFilter: React.FC<AllergenFilterProps> = ({
   filters,
   onAddFilter,
+  onAddFilters,
   onRemoveFilter
 }) => {
   const { t } = useTranslation();
@@ -22,6 +26,25 @@ const AllergenFilter: React.FC<AllergenFilterProps> = ({
     return filters.filter(f => f.type === 'allergen');
   };
 
+  // Strict mode also excludes products that "may contain traces"
+  const [isStrict, setIsStrict] = useState(() =>
+    getActiveAllergenFilters().some(f => Array.isArray(f.value) && !f.value.includes('traces'))
+  );
+
+  const createAllergenFilter = (allergenId: string, strict: boolean): FilterCriteria => ({
+    type: 'allergen',
+    field: allergenId,
+    value: getAcceptedAllergenStatuses(strict),
+    operator: 'in'
+  });
+
+  const toggleStrict = (strict: boolean) => {
+    setIsStrict(strict);
+    // Replace every active allergen filter at once so none keeps the previous mode
+    const updated = getActiveAllergenFilters().map(existing => createAllergenFilter(existing.field, strict));
+    if (updated.length > 0) onAddFilters(updated);
+  };
+
   const isAllergenActive = (allergenId: string) => {
     return getActiveAllergenFilters().some(f => f.field === allergenId);
   };
@@ -34,12 +57,7 @@ const AllergenFilter: React.FC<AllergenFilterProps> = ({
       console.log('AllergenFilter: Removing existing filter', existing);
       onRemoveFilter(existing);
     } else {
-      const newFilter: FilterCriteria = {
-        type: 'allergen',
-        field: allergenId,
-        value: true, // true means product is safe for this allergen (doesn't contain it)
-        operator: 'equals'
-      };
+      const newFilter = createAllergenFilter(allergenId, isStrict);
       console.log('AllergenFilter: Adding new filter', newFilter);
       onAddFilter(newFilter);
     }
@@ -73,9 +91,15 @@ const AllergenFilter: React.FC<AllergenFilterProps> = ({
           );
         })}
       </div>
+      <label className="flex items-center justify-between gap-2 pt-1 cursor-pointer">
+        <span className="text-xs text-gray-700">{t('strictAllergenMode')}</span>
+        <Switch checked={isStrict} onCheckedChange={toggleStrict} />
+      </label>
       {getActiveAllergenFilters().length > 0 && (
         <p className="text-xs text-gray-500">
-          {t('showingProductsWithoutSelectedAllergens', 'Showing products without selected allergens')}
+          {isStrict
+            ? t('showingProductsWithoutSelectedAllergensOrTraces')
+            : t('showingProductsWithoutSelectedAllergens', 'Showing products without selected allergens')}
         </p>
       )}
     </div>
@@ -3,6 +3,7 @@ import React from 'react';
 import { FilterCriteria } from '@/types/search';
 import { useTranslation } from 'react-i18next';
 import { productsDB } from '@/data/database';
+import { CategoryNode, getCategoryPath, getChildCategories, getProductCategoryPath } from '@/data/categories';
 
 interface CategoryFilterProps {
   filters: FilterCriteria[];
@@ -17,31 +18,35 @@ const CategoryFilter: React.FC<CategoryFilterProps> = ({
 }) => {
   const { t } = useTranslation();
 
-  // Get unique categories from products
-  const categories = Array.from(new Set(productsDB.map(p => p.category))).sort();
+  // Only taxonomy nodes that contain at least one product are offered
+  const usedCategoryIds = new Set(productsDB.flatMap(p => getProductCategoryPath(p).map(category => category.id)));
 
   const getActiveCategoryFilter = () => {
     return filters.find(f => f.type === 'category');
   };
 
-  const isCategoryActive = (category: string) => {
-    const activeFilter = getActiveCategoryFilter();
-    return activeFilter?.value === category;
-  };
+  const activeFilter = getActiveCategoryFilter();
+  const activePath = activeFilter ? getCategoryPath(activeFilter.value).map(category => category.id) : [];
+
+  // Roots, then the children of each selected level so the tree opens along the active path
+  const levels: CategoryNode[][] = [undefined, ...activePath]
+    .map(parentId => getChildCategories(parentId).filter(category => usedCategoryIds.has(category.id)))
+    .filter(level => level.length > 0);
 
-  const selectCategory = (category: string) => {
+  const selectCategory = (category: CategoryNode) => {
     const existing = getActiveCategoryFilter();
-    
-    if (existing && existing.value === category) {
+
+    if (existing) {
       onRemoveFilter(existing);
-    } else {
-      if (existing) {
-        onRemoveFilter(existing);
-      }
+    }
+
+    // Clicking the selected category again goes back up to its parent
+    const value = existing?.value === category.id ? category.parentId : category.id;
+    if (value) {
       onAddFilter({
         type: 'category',
         field: 'category',
-        value: category,
+        value,
         operator: 'equals'
       });
     }
@@ -50,27 +55,29 @@ const CategoryFilter: React.FC<CategoryFilterProps> = ({
   return (
     <div className="space-y-2">
       <h4 className="text-sm font-medium text-gray-900">{t('category')}</h4>
-      <div className="grid grid-cols-2 gap-2">
-        {categories.map((category) => {
-          const isActive = isCategoryActive(category);
-          
-          return (
-            <button
-              key={category}
-              onClick={() => selectCategory(category)}
-              className={`p-2 rounded-lg text-sm transition-colors text-left ${
-                isActive
-                  ? 'bg-blue-100 text-blue-800 border border-blue-300'
-                  : 'bg-gray-50 text-gray-700 border border-gray-200 hover:bg-gray-100'
-              }`}
-            >
-              <span className="text-xs truncate">
-                {t(`database:categories.${category}`, category)}
-              </span>
-            </button>
-          );
-        })}
-      </div>
+      {levels.map((level, depth) => (
+        <div key={depth} className={`grid grid-cols-2 gap-2 ${depth > 0 ? 'pl-3 border-l-2 border-blue-100' : ''}`}>
+          {level.map((category) => {
+            const isActive = activePath.includes(category.id);
+
+            return (
+              <button
+                key={category.id}
+                onClick={() => selectCategory(category)}
+                className={`p-2 rounded-lg text-sm transition-colors text-left ${
+                  isActive
+                    ? 'bg-blue-100 text-blue-800 border border-blue-300'
+                    : 'bg-gray-50 text-gray-700 border border-gray-200 hover:bg-gray-100'
+                }`}
+              >
+                <span className="text-xs truncate">
+                  {t(`database:${category.translationKey}`, category.id)}
+                </span>
+              </button>
+            );
+          })}
+        </div>
+      ))}
     </div>
   );
 };
@@ -7,6 +7,7 @@ import AllergenFilter from './AllergenFilter';
 import CategoryFilter from './CategoryFilter';
 import NutritionFilter from './NutritionFilter';
 import RatingFilter from './RatingFilter';
+import NutriScoreFilter from './NutriScoreFilter';
 
 interface FilterPanelProps {
   isOpen: boolean;
@@ -25,11 +26,16 @@ const FilterPanel: React.FC<FilterPanelProps> = ({
 }) => {
   const {t} = useTranslation();
 
+  const addFilters = (filtersToAdd: FilterCriteria[]) => {
+    // Remove existing filters of same type and field if they exist
+    const newFilters = filters.filter(f =>
+      !filtersToAdd.some(added => f.type === added.type && f.field === added.field)
+    );
+    onFiltersChange([...newFilters, ...filtersToAdd]);
+  };
+
   const addFilter = (filter: FilterCriteria) => {
-    // Remove existing filter of same type and field if exists
-    const newFilters = filters.filter(f => !(f.type === filter.type && f.field === filter.field));
-    newFilters.push(filter);
-    onFiltersChange(newFilters);
+    addFilters([filter]);
   };
 
   const removeFilter = (filterToRemove: FilterCriteria) => {
@@ -112,9 +118,15 @@ const FilterPanel: React.FC<FilterPanelProps> = ({
             onAddFilter={addFilter}
             onRemoveFilter={removeFilter}
           />
+          <NutriScoreFilter
+            filters={filters}
+            onAddFilter={addFilter}
+            onRemoveFilter={removeFilter}
+          />
           <AllergenFilter
             filters={filters}
             onAddFilter={addFilter}
+            onAddFilters={addFilters}
             onRemoveFilter={removeFilter}
           />
         </div>
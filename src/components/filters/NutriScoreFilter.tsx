@@ -0,0 +1,72 @@
+import React from 'react';
+import { FilterCriteria } from '@/types/search';
+import { useTranslation } from 'react-i18next';
+import { NUTRI_SCORE_LETTERS, NutriScoreLetter } from '@/services/scoring/NutriScoreCalculator';
+import NutriScoreBadge from '@/components/NutriScoreBadge';
+
+interface NutriScoreFilterProps {
+  filters: FilterCriteria[];
+  onAddFilter: (filter: FilterCriteria) => void;
+  onRemoveFilter: (filter: FilterCriteria) => void;
+}
+
+// E is omitted: "E or better" matches every product
+const SELECTABLE_LETTERS = NUTRI_SCORE_LETTERS.slice(0, -1);
+
+const NutriScoreFilter: React.FC<NutriScoreFilterProps> = ({
+  filters,
+  onAddFilter,
+  onRemoveFilter
+}) => {
+  const { t } = useTranslation();
+
+  const getActiveNutriScoreFilter = () => {
+    return filters.find(f => f.type === 'nutriScore');
+  };
+
+  const selectLetter = (letter: NutriScoreLetter) => {
+    const existing = getActiveNutriScoreFilter();
+
+    if (existing && existing.value === letter) {
+      onRemoveFilter(existing);
+    } else {
+      if (existing) {
+        onRemoveFilter(existing);
+      }
+      onAddFilter({
+        type: 'nutriScore',
+        field: 'nutriScore',
+        value: letter,
+        operator: 'lte'
+      });
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      <h4 className="text-sm font-medium text-gray-900">{t('nutriScore')}</h4>
+      <div className="flex flex-wrap gap-2">
+        {SELECTABLE_LETTERS.map((letter) => {
+          const isActive = getActiveNutriScoreFilter()?.value === letter;
+
+          return (
+            <button
+              key={letter}
+              onClick={() => selectLetter(letter)}
+              className={`flex items-center gap-2 p-2 rounded-lg text-sm transition-colors ${
+                isActive
+                  ? 'bg-blue-100 text-blue-800 border border-blue-300'
+                  : 'bg-gray-50 text-gray-700 border border-gray-200 hover:bg-gray-100'
+              }`}
+            >
+              <NutriScoreBadge letter={letter} size="sm" />
+              <span className="text-xs">{t('nutriScoreOrBetter', { letter })}</span>
+            </button>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default NutriScoreFilter;
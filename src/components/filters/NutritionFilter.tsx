@@ -20,8 +20,11 @@ const NutritionFilter: React.FC<NutritionFilterProps> = ({
     { field: 'protein.total', value: 10, label: 'High Protein (10g+)' },
     { field: 'fiber.total', value: 5, label: 'High Fiber (5g+)' },
     { field: 'sodium', value: 300, label: 'Low Sodium (<300mg)', operator: 'lte' as const },
-    { field: 'vitaminC', value: 20, label: 'High Vitamin C (20mg+)' },
-    { field: 'iron', value: 3, label: 'High Iron (3mg+)' },
+    { field: 'micronutrients.vitamin_c.amount', value: 20, label: 'High Vitamin C (20mg+)' },
+    { field: 'micronutrients.iron.amount', value: 3, label: 'High Iron (3mg+)' },
+    // % DV is computed from the amount under the user's daily value standard
+    { field: 'micronutrients.calcium.dailyPercentage', value: 10, label: 'Source of Calcium (10%+ DV)' },
+    { field: 'micronutrients.potassium.dailyPercentage', value: 10, label: 'Source of Potassium (10%+ DV)' },
   ];
 
   const getActiveNutritionFilters = () => {
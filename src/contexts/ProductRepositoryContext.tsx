@@ -0,0 +1,41 @@
+import React, { createContext, useContext, useMemo, ReactNode } from 'react';
+import { ProductRepository } from '@/data/repositories/ProductRepository';
+import { StaticProductRepository } from '@/data/repositories/StaticProductRepository';
+import { JsonCatalogProductRepository } from '@/data/repositories/JsonCatalogProductRepository';
+
+const ProductRepositoryContext = createContext<ProductRepository | undefined>(undefined);
+
+// Use the JSON catalog when one is configured, otherwise the compiled-in products
+const createDefaultRepository = (): ProductRepository => {
+  const catalogUrl = import.meta.env.VITE_PRODUCT_CATALOG_URL;
+  if (catalogUrl) {
+    return new JsonCatalogProductRepository(catalogUrl);
+  }
+  return new StaticProductRepository();
+};
+
+export const useProductRepository = () => {
+  const context = useContext(ProductRepositoryContext);
+  if (!context) {
+    throw new Error('useProductRepository must be used within a ProductRepositoryProvider');
+  }
+  return context;
+};
+
+interface ProductRepositoryProviderProps {
+  children: ReactNode;
+  repository?: ProductRepository;
+}
+
+export const ProductRepositoryProvider: React.FC<ProductRepositoryProviderProps> = ({
+  children,
+  repository
+}) => {
+  const value = useMemo(() => repository ?? createDefaultRepository(), [repository]);
+
+  return (
+    <ProductRepositoryContext.Provider value={value}>
+      {children}
+    </ProductRepositoryContext.Provider>
+  );
+};
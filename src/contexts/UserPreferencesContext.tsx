@@ -0,0 +1,84 @@
+import React, { createContext, useContext, useState, useCallback, useMemo, ReactNode } from 'react';
+import { UserPreferences } from '@/types/userData';
+import { DEFAULT_DAILY_VALUE_STANDARD } from '@/data/dailyValues';
+import { useUserProfile } from '@/hooks/useUserProfile';
+import { DailyTargets, calculateDailyTargets } from '@/utils/dailyTargets';
+
+interface UserPreferencesContextType {
+  preferences: UserPreferences;
+  updatePreferences: (changes: Partial<UserPreferences>) => Promise<void>;
+  dailyTargets: DailyTargets | null; // Only when signed in with a complete body profile
+}
+
+// Device-level key, kept outside the USER_ prefix so it survives logout cache clears
+const PREFERENCES_STORAGE_KEY = 'APP_PREFERENCES';
+
+const DEFAULT_PREFERENCES: UserPreferences = {
+  dailyValueStandard: DEFAULT_DAILY_VALUE_STANDARD,
+  unitSystem: 'metric',
+  energyUnit: 'kcal'
+};
+
+const readStoredPreferences = (): Partial<UserPreferences> => {
+  try {
+    const stored = localStorage.getItem(PREFERENCES_STORAGE_KEY);
+    return stored ? JSON.parse(stored) : {};
+  } catch (error) {
+    console.error('Error reading stored preferences:', error);
+    return {};
+  }
+};
+
+const UserPreferencesContext = createContext<UserPreferencesContextType | undefined>(undefined);
+
+export const useUserPreferences = () => {
+  const context = useContext(UserPreferencesContext);
+  if (!context) {
+    throw new Error('useUserPreferences must be used within a UserPreferencesProvider');
+  }
+  return context;
+};
+
+interface UserPreferencesProviderProps {
+  children: ReactNode;
+}
+
+export const UserPreferencesProvider: React.FC<UserPreferencesProviderProps> = ({ children }) => {
+  const { profile, update } = useUserProfile();
+  const [storedPreferences, setStoredPreferences] = useState<Partial<UserPreferences>>(readStoredPreferences);
+
+  // Signed-in preferences win over the ones stored on this device
+  const preferences = useMemo<UserPreferences>(() => ({
+    ...DEFAULT_PREFERENCES,
+    ...storedPreferences,
+    ...profile?.preferences
+  }), [storedPreferences, profile?.preferences]);
+
+  const updatePreferences = useCallback(async (changes: Partial<UserPreferences>) => {
+    const next = { ...preferences, ...changes };
+
+    setStoredPreferences(next);
+    try {
+      localStorage.setItem(PREFERENCES_STORAGE_KEY, JSON.stringify(next));
+    } catch (error) {
+      console.error('Error storing preferences:', error);
+    }
+
+    if (profile) {
+      await update({ ...profile, preferences: next });
+    }
+  }, [preferences, profile, update]);
+
+  const dailyTargets = useMemo(() => calculateDailyTargets(profile), [profile]);
+
+  const value = useMemo(
+    () => ({ preferences, updatePreferences, dailyTargets }),
+    [preferences, updatePreferences, dailyTargets]
+  );
+
+  return (
+    <UserPreferencesContext.Provider value={value}>
+      {children}
+    </UserPreferencesContext.Provider>
+  );
+};
@@ -0,0 +1,110 @@
+// Food additive reference keyed by E-number, linked from Product.additives
+// Risk tiers summarise EFSA re-evaluations: informative for shoppers, not a safety verdict
+
+export type AdditiveFunction =
+  | 'colour'
+  | 'preservative'
+  | 'antioxidant'
+  | 'acidity_regulator'
+  | 'emulsifier'
+  | 'thickener'
+  | 'raising_agent'
+  | 'anti_caking'
+  | 'flavour_enhancer'
+  | 'sweetener';
+
+export type AdditiveRiskTier = 'low' | 'moderate' | 'high';
+
+export interface Additive {
+  code: string;        // Canonical E-number, e.g. "E150d"
+  name: string;        // Fallback name; translations live in database:additives.<code>
+  function: AdditiveFunction;
+  risk: AdditiveRiskTier;
+  description: string; // Why it is used and what is known about it
+}
+
+// Cosmetic functions (appearance, texture, taste) that NOVA treats as markers of ultra-processed food
+export const ULTRA_PROCESSING_MARKER_FUNCTIONS: AdditiveFunction[] = [
+  'colour', 'emulsifier', 'thickener', 'flavour_enhancer', 'sweetener'
+];
+
+const ADDITIVES: Additive[] = [
+  // Colours
+  { code: 'E100', name: 'Curcumin', function: 'colour', risk: 'low', description: 'Yellow colour extracted from turmeric.' },
+  { code: 'E101', name: 'Riboflavin', function: 'colour', risk: 'low', description: 'Vitamin B2 used as a yellow colour.' },
+  { code: 'E102', name: 'Tartrazine', function: 'colour', risk: 'high', description: 'Synthetic yellow dye; EU labels must warn it may affect activity and attention in children.' },
+  { code: 'E110', name: 'Sunset Yellow FCF', function: 'colour', risk: 'high', description: 'Synthetic orange dye that carries the EU warning on children\'s attention.' },
+  { code: 'E129', name: 'Allura Red AC', function: 'colour', risk: 'high', description: 'Synthetic red dye (FD&C Red 40) that carries the EU warning on children\'s attention.' },
+  { code: 'E133', name: 'Brilliant Blue FCF', function: 'colour', risk: 'moderate', description: 'Synthetic blue dye (FD&C Blue 1); approved, but with a low acceptable daily intake.' },
+  { code: 'E150a', name: 'Plain caramel', function: 'colour', risk: 'low', description: 'Brown colour made by heating sugars.' },
+  { code: 'E150d', name: 'Sulphite ammonia caramel', function: 'colour', risk: 'moderate', description: 'Brown colour typical of colas; can contain 4-MEI, a by-product under review.' },
+  { code: 'E160a', name: 'Carotenes', function: 'colour', risk: 'low', description: 'Orange pigments found in carrots, also a source of vitamin A.' },
+  { code: 'E171', name: 'Titanium dioxide', function: 'colour', risk: 'high', description: 'White pigment banned in EU food since 2022 over genotoxicity concerns.' },
+
+  // Preservatives
+  { code: 'E200', name: 'Sorbic acid', function: 'preservative', risk: 'low', description: 'Prevents mould and yeast growth.' },
+  { code: 'E202', name: 'Potassium sorbate', function: 'preservative', risk: 'low', description: 'Salt of sorbic acid used against moulds and yeasts.' },
+  { code: 'E211', name: 'Sodium benzoate', function: 'preservative', risk: 'moderate', description: 'Common in soft drinks; can form benzene together with vitamin C.' },
+  { code: 'E220', name: 'Sulphur dioxide', function: 'preservative', risk: 'moderate', description: 'Used in wine and dried fruit; may trigger asthma in sensitive people.' },
+  { code: 'E250', name: 'Sodium nitrite', function: 'preservative', risk: 'high', description: 'Cures processed meats; forms nitrosamines linked to colorectal cancer.' },
+
+  // Antioxidants
+  { code: 'E300', name: 'Ascorbic acid', function: 'antioxidant', risk: 'low', description: 'Vitamin C, prevents browning and rancidity.' },
+  { code: 'E306', name: 'Tocopherols', function: 'antioxidant', risk: 'low', description: 'Vitamin E extracts that protect fats from oxidation.' },
+  { code: 'E320', name: 'Butylated hydroxyanisole (BHA)', function: 'antioxidant', risk: 'high', description: 'Synthetic antioxidant for fats, classified as possibly carcinogenic.' },
+  { code: 'E321', name: 'Butylated hydroxytoluene (BHT)', function: 'antioxidant', risk: 'moderate', description: 'Synthetic antioxidant that keeps fats from going rancid; its safety is still debated.' },
+
+  // Acidity regulators
+  { code: 'E270', name: 'Lactic acid', function: 'acidity_regulator', risk: 'low', description: 'Acid produced by fermentation.' },
+  { code: 'E330', name: 'Citric acid', function: 'acidity_regulator', risk: 'low', description: 'Acid naturally present in citrus fruits, adds tartness.' },
+  { code: 'E331', name: 'Sodium citrates', function: 'acidity_regulator', risk: 'low', description: 'Salts of citric acid that stabilise acidity.' },
+  { code: 'E338', name: 'Phosphoric acid', function: 'acidity_regulator', risk: 'moderate', description: 'Gives colas their sharp taste; high intakes are linked to lower bone density.' },
+
+  // Emulsifiers and thickeners
+  { code: 'E322', name: 'Lecithins', function: 'emulsifier', risk: 'low', description: 'Usually from soy or sunflower, keeps fat and water mixed.' },
+  { code: 'E407', name: 'Carrageenan', function: 'thickener', risk: 'moderate', description: 'Seaweed extract that gels dairy products; may irritate the gut.' },
+  { code: 'E412', name: 'Guar gum', function: 'thickener', risk: 'low', description: 'Fibre from guar beans that thickens and stabilises.' },
+  { code: 'E415', name: 'Xanthan gum', function: 'thickener', risk: 'low', description: 'Fermentation-derived gum that thickens sauces and dressings.' },
+  { code: 'E440', name: 'Pectins', function: 'thickener', risk: 'low', description: 'Fruit fibre used to set jams and jellies.' },
+  { code: 'E466', name: 'Carboxymethyl cellulose', function: 'thickener', risk: 'moderate', description: 'Modified cellulose; animal studies suggest it may disturb gut microbiota.' },
+  { code: 'E471', name: 'Mono- and diglycerides of fatty acids', function: 'emulsifier', risk: 'moderate', description: 'Common emulsifier in ice cream and bakery; may contain trans fats.' },
+
+  // Raising and anti-caking agents
+  { code: 'E450', name: 'Diphosphates', function: 'raising_agent', risk: 'moderate', description: 'Phosphate raising agent; adds to total phosphate intake.' },
+  { code: 'E500', name: 'Sodium carbonates', function: 'raising_agent', risk: 'low', description: 'Includes baking soda, releases gas so doughs rise.' },
+  { code: 'E551', name: 'Silicon dioxide', function: 'anti_caking', risk: 'low', description: 'Keeps powders free-flowing.' },
+
+  // Flavour enhancers
+  { code: 'E621', name: 'Monosodium glutamate', function: 'flavour_enhancer', risk: 'moderate', description: 'Adds umami taste and sodium; may cause symptoms in sensitive people.' },
+  { code: 'E627', name: 'Disodium guanylate', function: 'flavour_enhancer', risk: 'low', description: 'Umami enhancer usually paired with MSG.' },
+  { code: 'E631', name: 'Disodium inosinate', function: 'flavour_enhancer', risk: 'low', description: 'Umami enhancer usually paired with MSG.' },
+
+  // Sweeteners
+  { code: 'E950', name: 'Acesulfame K', function: 'sweetener', risk: 'moderate', description: 'Calorie-free sweetener, often blended with aspartame.' },
+  { code: 'E951', name: 'Aspartame', function: 'sweetener', risk: 'high', description: 'Calorie-free sweetener classified as possibly carcinogenic; unsafe for people with PKU.' },
+  { code: 'E955', name: 'Sucralose', function: 'sweetener', risk: 'moderate', description: 'Heat-stable calorie-free sweetener made from sugar.' },
+  { code: 'E960', name: 'Steviol glycosides', function: 'sweetener', risk: 'low', description: 'Sweetener extracted from the stevia plant.' }
+];
+
+export const ADDITIVES_DB: Record<string, Additive> = Object.fromEntries(
+  ADDITIVES.map(additive => [additive.code, additive])
+);
+
+// Accepts label and Open Food Facts spellings ("e 150 d", "E-330", "en:e322i") and returns "E150d", "E330", "E322i"
+export const normalizeAdditiveCode = (code: string): string | null => {
+  const compact = code.trim().toLowerCase().replace(/^[a-z]{2}:/, '').replace(/[\s\-()]/g, '');
+  const match = compact.match(/^e(\d{3,4})([a-z]*)$/);
+  return match ? `E${match[1]}${match[2]}` : null;
+};
+
+// Falls back to the parent number when the code carries a roman sub-index ("E322i" -> "E322")
+export const getAdditive = (code: string): Additive | undefined => {
+  const normalized = normalizeAdditiveCode(code);
+  if (!normalized) return undefined;
+
+  return ADDITIVES_DB[normalized] ?? ADDITIVES_DB[normalized.replace(/(i{1,3}|iv|v)$/, '')];
+};
+
+export const isUltraProcessingMarker = (additive: Additive): boolean => {
+  return ULTRA_PROCESSING_MARKER_FUNCTIONS.includes(additive.function);
+};
@@ -0,0 +1,81 @@
+// Ingredient terms (Spanish and English) that reveal each allergen in ALLERGENS_CONFIG
+// Terms are matched as whole words after normalization (lowercase, no accents), plurals included
+
+import { AllergenFlag } from './types';
+
+export interface AllergenIngredientRule {
+  allergenId: AllergenFlag;
+  terms: string[];
+  exceptions?: string[]; // Phrases that contain a term but not the allergen, e.g. "coconut milk"
+}
+
+const DAIRY_TERMS = [
+  'leche', 'milk', 'suero de leche', 'lactosuero', 'whey', 'lactosa', 'lactose',
+  'queso', 'cheese', 'mantequilla', 'butter', 'nata', 'crema de leche', 'cream',
+  'yogur', 'yogurt', 'kefir', 'caseina', 'casein', 'caseinato', 'caseinate', 'ghee'
+];
+
+const DAIRY_EXCEPTIONS = [
+  'leche de coco', 'coconut milk', 'leche de almendra', 'almond milk', 'leche de soja', 'leche de soya',
+  'soy milk', 'leche de avena', 'oat milk', 'leche de arroz', 'rice milk', 'manteca de cacao',
+  'mantequilla de cacao', 'cocoa butter', 'cacao butter', 'mantequilla de mani', 'peanut butter',
+  'crema de coco', 'coconut cream'
+];
+
+const EGG_TERMS = ['huevo', 'egg', 'clara de huevo', 'yema', 'yolk', 'albumina', 'albumin', 'ovoalbumina', 'mayonesa', 'mayonnaise'];
+
+const FISH_TERMS = [
+  'pescado', 'fish', 'salmon', 'atun', 'tuna', 'bacalao', 'cod', 'anchoa', 'anchovy', 'sardina', 'sardine',
+  'trucha', 'trout', 'merluza', 'hake', 'tilapia', 'aceite de pescado', 'fish oil'
+];
+
+const MEAT_TERMS = [
+  'carne', 'meat', 'pollo', 'chicken', 'cerdo', 'pork', 'res', 'beef', 'jamon', 'ham', 'tocino', 'bacon',
+  'gelatina', 'gelatin', 'mariscos', 'shellfish', 'camaron', 'shrimp', 'manteca de cerdo', 'lard'
+];
+
+export const ALLERGEN_INGREDIENT_RULES: AllergenIngredientRule[] = [
+  {
+    allergenId: 'glutenFree',
+    terms: [
+      'trigo', 'wheat', 'harina de trigo', 'wheat flour', 'cebada', 'barley', 'centeno', 'rye',
+      'avena', 'oats', 'oat', 'espelta', 'spelt', 'semola', 'semolina', 'malta', 'malt', 'gluten', 'seitan'
+    ],
+    exceptions: ['trigo sarraceno', 'buckwheat', 'sin gluten', 'gluten free', 'libre de gluten']
+  },
+  {
+    allergenId: 'lactoseFree',
+    terms: DAIRY_TERMS,
+    exceptions: DAIRY_EXCEPTIONS
+  },
+  {
+    allergenId: 'nutFree',
+    terms: [
+      'almendra', 'almond', 'nuez', 'nueces', 'walnut', 'avellana', 'hazelnut', 'anacardo', 'maranon', 'cashew',
+      'pistacho', 'pistachio', 'pecana', 'pecan', 'macadamia', 'nuez de brasil', 'brazil nut',
+      'mani', 'cacahuete', 'peanut', 'nut'
+    ],
+    exceptions: ['nuez moscada']
+  },
+  {
+    allergenId: 'eggFree',
+    terms: EGG_TERMS
+  },
+  {
+    allergenId: 'fishFree',
+    terms: FISH_TERMS
+  },
+  {
+    allergenId: 'soyFree',
+    terms: ['soja', 'soya', 'soy', 'soybean', 'lecitina de soja', 'soy lecithin', 'tofu', 'edamame', 'miso', 'tempeh']
+  },
+  {
+    allergenId: 'vegan',
+    terms: [...DAIRY_TERMS, ...EGG_TERMS, ...FISH_TERMS, ...MEAT_TERMS, 'miel', 'honey'],
+    exceptions: DAIRY_EXCEPTIONS
+  },
+  {
+    allergenId: 'vegetarian',
+    terms: [...FISH_TERMS, ...MEAT_TERMS]
+  }
+];
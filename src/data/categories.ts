@@ -0,0 +1,109 @@
+// Category taxonomy. Roots are the flat categories products have always used
+// (Product.category); deeper nodes are referenced through Product.subcategory.
+
+export interface CategoryNode {
+  id: string;
+  parentId?: string;
+  translationKey: string; // Key in the database namespace
+}
+
+const node = (id: string, parentId?: string): CategoryNode => ({
+  id,
+  parentId,
+  translationKey: `categories.${id}`
+});
+
+export const CATEGORY_TAXONOMY: CategoryNode[] = [
+  node('vegetables'),
+  node('leafy_greens', 'vegetables'),
+  node('cruciferous_vegetables', 'vegetables'),
+  node('root_vegetables', 'vegetables'),
+  node('fruit_vegetables', 'vegetables'),
+
+  node('fruits'),
+  node('tropical_fruits', 'fruits'),
+  node('pome_fruits', 'fruits'),
+  node('citrus_fruits', 'fruits'),
+  node('berries', 'fruits'),
+
+  node('grains'),
+  node('cereal_grains', 'grains'),
+  node('pseudocereals', 'grains'),
+
+  node('fish'),
+  node('oily_fish', 'fish'),
+
+  node('proteins'),
+  node('legumes', 'proteins'),
+
+  node('nuts'),
+  node('tree_nuts', 'nuts'),
+
+  node('seeds'),
+
+  node('dairy'),
+  node('yogurt', 'dairy'),
+  node('greek_yogurt', 'yogurt'),
+
+  node('snacks'),
+  node('savory_snacks', 'snacks'),
+  node('potato_chips', 'savory_snacks'),
+  node('popcorn', 'savory_snacks'),
+  node('sweet_snacks', 'snacks'),
+
+  node('beverages'),
+  node('soft_drinks', 'beverages'),
+  node('energy_drinks', 'beverages'),
+
+  node('processed_foods'),
+  node('instant_meals', 'processed_foods'),
+
+  node('desserts'),
+  node('frozen_desserts', 'desserts'),
+
+  node('breakfast'),
+  node('breakfast_cereals', 'breakfast')
+];
+
+const CATEGORIES_BY_ID = new Map(CATEGORY_TAXONOMY.map(category => [category.id, category]));
+
+export const getCategory = (id: string): CategoryNode | undefined => {
+  return CATEGORIES_BY_ID.get(id);
+};
+
+// Direct children of a category, or the roots when no parent is given
+export const getChildCategories = (parentId?: string): CategoryNode[] => {
+  return CATEGORY_TAXONOMY.filter(category => category.parentId === parentId);
+};
+
+// Root first, ending with the category itself; empty for unknown ids
+export const getCategoryPath = (id: string): CategoryNode[] => {
+  const path: CategoryNode[] = [];
+  let current = getCategory(id);
+  while (current && !path.includes(current)) {
+    path.unshift(current);
+    current = current.parentId ? getCategory(current.parentId) : undefined;
+  }
+  return path;
+};
+
+// True when the category is the ancestor itself or sits anywhere beneath it
+export const isCategoryWithin = (id: string, ancestorId: string): boolean => {
+  return getCategoryPath(id).some(category => category.id === ancestorId);
+};
+
+// The category and all of its descendants
+export const getCategoryDescendants = (id: string): string[] => {
+  return CATEGORY_TAXONOMY
+    .filter(category => isCategoryWithin(category.id, id))
+    .map(category => category.id);
+};
+
+// Most specific category of a product: the subcategory when set, else the root category
+export const getProductCategoryId = (product: { category: string; subcategory?: string }): string => {
+  return product.subcategory || product.category;
+};
+
+export const getProductCategoryPath = (product: { category: string; subcategory?: string }): CategoryNode[] => {
+  return getCategoryPath(getProductCategoryId(product));
+};
@@ -0,0 +1,148 @@
+// Daily value reference standards used to compute "% Daily Value"
+// Energy in kcal, macronutrients in grams, sodium/cholesterol in mg, micronutrients in the unit of MICRONUTRIENT_REFERENCE
+
+import { MicronutrientKey } from './types';
+
+export type DailyValueStandardId = 'fda' | 'eu' | 'mercosur';
+
+export type DailyValueNutrient =
+  | 'calories'
+  | 'protein'
+  | 'carbs'
+  | 'fats'
+  | 'fiber'
+  | 'saturatedFat'
+  | 'sugar'
+  | 'sodium'
+  | 'cholesterol'
+  | MicronutrientKey;
+
+export interface DailyValueStandard {
+  id: DailyValueStandardId;
+  nameKey: string; // Translation key
+  region: string;
+  values: Partial<Record<DailyValueNutrient, number>>;
+}
+
+export const DEFAULT_DAILY_VALUE_STANDARD: DailyValueStandardId = 'fda';
+
+export const DAILY_VALUE_STANDARDS: Record<DailyValueStandardId, DailyValueStandard> = {
+  // US FDA Daily Values (21 CFR 101.9, 2016 label rule)
+  fda: {
+    id: 'fda',
+    nameKey: 'dailyValueStandardFda',
+    region: 'US',
+    values: {
+      calories: 2000,
+      protein: 50,
+      carbs: 275,
+      fats: 78,
+      fiber: 28,
+      saturatedFat: 20,
+      sugar: 50,
+      sodium: 2300,
+      cholesterol: 300,
+      vitamin_c: 90,
+      vitamin_k: 120,
+      folate: 400,
+      vitamin_a: 900,
+      vitamin_e: 15,
+      vitamin_d: 20,
+      vitamin_b12: 2.4,
+      vitamin_b6: 1.7,
+      vitamin_b2: 1.3,
+      niacin: 16,
+      thiamine: 1.2,
+      riboflavin: 1.3,
+      potassium: 4700,
+      iron: 18,
+      calcium: 1300,
+      magnesium: 420,
+      phosphorus: 1250,
+      selenium: 55,
+      manganese: 2.3,
+      zinc: 11
+    }
+  },
+  // EU Reference Intakes (Regulation (EU) No 1169/2011, Annex XIII); fiber per EFSA
+  eu: {
+    id: 'eu',
+    nameKey: 'dailyValueStandardEu',
+    region: 'EU',
+    values: {
+      calories: 2000,
+      protein: 50,
+      carbs: 260,
+      fats: 70,
+      fiber: 25,
+      saturatedFat: 20,
+      sugar: 90,
+      sodium: 2400, // 6 g of salt
+      vitamin_c: 80,
+      vitamin_k: 75,
+      folate: 200,
+      vitamin_a: 800,
+      vitamin_e: 12,
+      vitamin_d: 5,
+      vitamin_b12: 2.5,
+      vitamin_b6: 1.4,
+      vitamin_b2: 1.4,
+      niacin: 16,
+      thiamine: 1.1,
+      riboflavin: 1.4,
+      potassium: 2000,
+      iron: 14,
+      calcium: 800,
+      magnesium: 375,
+      phosphorus: 700,
+      selenium: 55,
+      manganese: 2,
+      zinc: 10
+    }
+  },
+  // Mercosur reference values (GMC Res. 46/03 and 31/12), also the basis for most Andean labels
+  mercosur: {
+    id: 'mercosur',
+    nameKey: 'dailyValueStandardMercosur',
+    region: 'LATAM',
+    values: {
+      calories: 2000,
+      protein: 75,
+      carbs: 300,
+      fats: 55,
+      fiber: 25,
+      saturatedFat: 22,
+      sodium: 2400,
+      vitamin_c: 45,
+      vitamin_k: 65,
+      folate: 240,
+      vitamin_a: 600,
+      vitamin_e: 10,
+      vitamin_d: 5,
+      vitamin_b12: 2.4,
+      vitamin_b6: 1.3,
+      vitamin_b2: 1.3,
+      niacin: 16,
+      thiamine: 1.2,
+      riboflavin: 1.3,
+      potassium: 3500,
+      iron: 14,
+      calcium: 1000,
+      magnesium: 260,
+      phosphorus: 700,
+      selenium: 34,
+      manganese: 2.3,
+      zinc: 7
+    }
+  }
+};
+
+export const isDailyValueStandardId = (id: string): id is DailyValueStandardId => {
+  return id in DAILY_VALUE_STANDARDS;
+};
+
+export const getDailyValueStandard = (id?: string): DailyValueStandard => {
+  return id && isDailyValueStandardId(id)
+    ? DAILY_VALUE_STANDARDS[id]
+    : DAILY_VALUE_STANDARDS[DEFAULT_DAILY_VALUE_STANDARD];
+};
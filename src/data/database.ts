@@ -1,11 +1,17 @@
-
 // Re-exports for backward compatibility
-export type { Product, UserFavorites } from './types';
+export type { Product, ProductRelationship, ProductVariant, RelationshipType, UserFavorites } from './types';
 export { productsDB } from './products';
 export {
   getProductById,
+  getProductByBarcode,
   getProductsByIds,
   getSimilarProducts,
+  getRelatedProducts,
   getProductsByCategory,
   searchProducts
 } from './queries';
+
+// Async repositories
+export type { ProductRepository } from './repositories/ProductRepository';
+export { StaticProductRepository } from './repositories/StaticProductRepository';
+export { JsonCatalogProductRepository } from './repositories/JsonCatalogProductRepository';
@@ -0,0 +1,39 @@
+// Reference data for every vitamin and mineral key in migrationData
+// Daily values per standard live in dailyValues.ts
+
+import { MicronutrientKey, MicronutrientUnit } from './types';
+
+export interface MicronutrientReference {
+  kind: 'vitamin' | 'mineral';
+  unit: MicronutrientUnit;
+}
+
+export const MICRONUTRIENT_REFERENCE: Record<MicronutrientKey, MicronutrientReference> = {
+  // Vitamins
+  vitamin_c: { kind: 'vitamin', unit: 'mg' },
+  vitamin_k: { kind: 'vitamin', unit: 'mcg' },
+  folate: { kind: 'vitamin', unit: 'mcg' },
+  vitamin_a: { kind: 'vitamin', unit: 'mcg' },
+  vitamin_e: { kind: 'vitamin', unit: 'mg' },
+  vitamin_d: { kind: 'vitamin', unit: 'mcg' },
+  vitamin_b12: { kind: 'vitamin', unit: 'mcg' },
+  vitamin_b6: { kind: 'vitamin', unit: 'mg' },
+  vitamin_b2: { kind: 'vitamin', unit: 'mg' },
+  niacin: { kind: 'vitamin', unit: 'mg' },
+  thiamine: { kind: 'vitamin', unit: 'mg' },
+  riboflavin: { kind: 'vitamin', unit: 'mg' },
+  // Minerals
+  potassium: { kind: 'mineral', unit: 'mg' },
+  iron: { kind: 'mineral', unit: 'mg' },
+  calcium: { kind: 'mineral', unit: 'mg' },
+  magnesium: { kind: 'mineral', unit: 'mg' },
+  phosphorus: { kind: 'mineral', unit: 'mg' },
+  selenium: { kind: 'mineral', unit: 'mcg' },
+  sodium: { kind: 'mineral', unit: 'mg' },
+  manganese: { kind: 'mineral', unit: 'mg' },
+  zinc: { kind: 'mineral', unit: 'mg' }
+};
+
+export const isMicronutrientKey = (key: string): key is MicronutrientKey => {
+  return key in MICRONUTRIENT_REFERENCE;
+};
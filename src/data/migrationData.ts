@@ -5,6 +5,7 @@ export const categories = {
   'fruits': 'fruits',
   'grains': 'grains',
   'fish': 'fish',
+  'proteins': 'proteins',
   'nuts': 'nuts',
   'seeds': 'seeds',
   'snacks': 'snacks',
@@ -9,6 +9,11 @@ export const productsDB: Product[] = [
     image: '/placeholder.svg',
     rating: 9.2,
     category: 'vegetables',
+    subcategory: 'cruciferous_vegetables',
+    servingSizes: [
+      { id: 'cup', label: '1 cup', labelKey: 'servingCup', grams: 91 }
+    ],
+    ingredients: ['broccoli'],
     nutrition: {
       protein: {
         description: 'Excellent source of protein',
@@ -51,10 +56,15 @@ export const productsDB: Product[] = [
       sugar: 1.5,
       sodium: 33,
       cholesterol: 0,
-      vitaminC: 89.2,
-      calcium: 47,
-      iron: 0.7,
-      potassium: 316
+      micronutrients: {
+        vitamin_c: { amount: 89.2, unit: 'mg', dailyPercentage: 99 },
+        vitamin_k: { amount: 101.6, unit: 'mcg', dailyPercentage: 85 },
+        folate: { amount: 63, unit: 'mcg', dailyPercentage: 16 },
+        potassium: { amount: 316, unit: 'mg', dailyPercentage: 7 },
+        iron: { amount: 0.7, unit: 'mg', dailyPercentage: 4 },
+        calcium: { amount: 47, unit: 'mg', dailyPercentage: 4 },
+        sodium: { amount: 33, unit: 'mg', dailyPercentage: 1 }
+      }
     },
     allergens: {
       vegan: true,
@@ -81,6 +91,10 @@ export const productsDB: Product[] = [
       indicatorsKeys: ['natural_food', 'no_additives', 'no_preservatives', 'fresh_vegetable']
     },
     otherOptionsIds: ['apple_002', 'spinach_003', 'carrot_004'],
+    relationships: [
+      { productId: 'cauliflower_006', type: 'substitute' },
+      { productId: 'salmon_003', type: 'complement' }
+    ],
     description: 'Cruciferous vegetable rich in vitamins and minerals',
     descriptionKey: 'broccoli_001'
   },
@@ -91,6 +105,12 @@ export const productsDB: Product[] = [
     image: '/placeholder.svg',
     rating: 8.8,
     category: 'fruits',
+    subcategory: 'pome_fruits',
+    servingSizes: [
+      { id: 'mediumFruit', label: '1 medium fruit', labelKey: 'servingMediumFruit', grams: 182 },
+      { id: 'cup', label: '1 cup', labelKey: 'servingCup', grams: 125 }
+    ],
+    ingredients: ['apple'],
     nutrition: {
       protein: {
         description: 'Low in protein',
@@ -133,10 +153,14 @@ export const productsDB: Product[] = [
       sugar: 10.4,
       sodium: 1,
       cholesterol: 0,
-      vitaminC: 4.6,
-      calcium: 6,
-      iron: 0.1,
-      potassium: 107
+      micronutrients: {
+        vitamin_c: { amount: 4.6, unit: 'mg', dailyPercentage: 5 },
+        vitamin_a: { amount: 3, unit: 'mcg', dailyPercentage: 0 },
+        potassium: { amount: 107, unit: 'mg', dailyPercentage: 2 },
+        iron: { amount: 0.1, unit: 'mg', dailyPercentage: 1 },
+        calcium: { amount: 6, unit: 'mg', dailyPercentage: 0 },
+        sodium: { amount: 1, unit: 'mg', dailyPercentage: 0 }
+      }
     },
     allergens: {
       vegan: true,
@@ -173,6 +197,11 @@ export const productsDB: Product[] = [
     image: '/placeholder.svg',
     rating: 9.5,
     category: 'vegetables',
+    subcategory: 'leafy_greens',
+    servingSizes: [
+      { id: 'cup', label: '1 cup', labelKey: 'servingCup', grams: 30 }
+    ],
+    ingredients: ['spinach'],
     nutrition: {
       protein: {
         description: 'Good source of protein',
@@ -215,10 +244,17 @@ export const productsDB: Product[] = [
       sugar: 0.4,
       sodium: 79,
       cholesterol: 0,
-      vitaminC: 28.1,
-      calcium: 99,
-      iron: 2.7,
-      potassium: 558
+      micronutrients: {
+        vitamin_c: { amount: 28.1, unit: 'mg', dailyPercentage: 31 },
+        vitamin_k: { amount: 482.9, unit: 'mcg', dailyPercentage: 402 },
+        folate: { amount: 194, unit: 'mcg', dailyPercentage: 49 },
+        vitamin_a: { amount: 469, unit: 'mcg', dailyPercentage: 52 },
+        potassium: { amount: 558, unit: 'mg', dailyPercentage: 12 },
+        iron: { amount: 2.7, unit: 'mg', dailyPercentage: 15 },
+        calcium: { amount: 99, unit: 'mg', dailyPercentage: 8 },
+        magnesium: { amount: 79, unit: 'mg', dailyPercentage: 19 },
+        sodium: { amount: 79, unit: 'mg', dailyPercentage: 3 }
+      }
     },
     allergens: {
       vegan: true,
@@ -245,6 +281,9 @@ export const productsDB: Product[] = [
       indicatorsKeys: ['leafy_green', 'superfood', 'no_additives']
     },
     otherOptionsIds: ['kale_005', 'broccoli_001', 'brussels_007'],
+    relationships: [
+      { productId: 'kale_005', type: 'substitute' }
+    ],
     description: 'Leafy green vegetable high in iron and vitamins',
     descriptionKey: 'spinach_003'
   },
@@ -255,6 +294,12 @@ export const productsDB: Product[] = [
     image: '/placeholder.svg',
     rating: 8.6,
     category: 'vegetables',
+    subcategory: 'root_vegetables',
+    servingSizes: [
+      { id: 'medium', label: '1 medium', labelKey: 'servingMedium', grams: 61 },
+      { id: 'cup', label: '1 cup', labelKey: 'servingCup', grams: 128 }
+    ],
+    ingredients: ['carrot'],
     nutrition: {
       protein: {
         description: 'Low in protein',
@@ -297,10 +342,15 @@ export const productsDB: Product[] = [
       sugar: 4.7,
       sodium: 69,
       cholesterol: 0,
-      vitaminC: 5.9,
-      calcium: 33,
-      iron: 0.3,
-      potassium: 320
+      micronutrients: {
+        vitamin_c: { amount: 5.9, unit: 'mg', dailyPercentage: 7 },
+        vitamin_k: { amount: 13.2, unit: 'mcg', dailyPercentage: 11 },
+        vitamin_a: { amount: 835, unit: 'mcg', dailyPercentage: 93 },
+        potassium: { amount: 320, unit: 'mg', dailyPercentage: 7 },
+        iron: { amount: 0.3, unit: 'mg', dailyPercentage: 2 },
+        calcium: { amount: 33, unit: 'mg', dailyPercentage: 3 },
+        sodium: { amount: 69, unit: 'mg', dailyPercentage: 3 }
+      }
     },
     allergens: {
       vegan: true,
@@ -337,6 +387,11 @@ export const productsDB: Product[] = [
     image: '/placeholder.svg',
     rating: 9.8,
     category: 'vegetables',
+    subcategory: 'leafy_greens',
+    servingSizes: [
+      { id: 'cup', label: '1 cup', labelKey: 'servingCup', grams: 67 }
+    ],
+    ingredients: ['kale'],
     nutrition: {
       protein: {
         description: 'Excellent source of protein',
@@ -379,10 +434,17 @@ export const productsDB: Product[] = [
       sugar: 2.3,
       sodium: 38,
       cholesterol: 0,
-      vitaminC: 120,
-      calcium: 150,
-      iron: 1.5,
-      potassium: 491
+      micronutrients: {
+        vitamin_c: { amount: 120, unit: 'mg', dailyPercentage: 133 },
+        vitamin_k: { amount: 389.6, unit: 'mcg', dailyPercentage: 325 },
+        folate: { amount: 62, unit: 'mcg', dailyPercentage: 16 },
+        vitamin_a: { amount: 241, unit: 'mcg', dailyPercentage: 27 },
+        potassium: { amount: 491, unit: 'mg', dailyPercentage: 10 },
+        iron: { amount: 1.5, unit: 'mg', dailyPercentage: 8 },
+        calcium: { amount: 150, unit: 'mg', dailyPercentage: 12 },
+        magnesium: { amount: 47, unit: 'mg', dailyPercentage: 11 },
+        sodium: { amount: 38, unit: 'mg', dailyPercentage: 2 }
+      }
     },
     allergens: {
       vegan: true,
@@ -409,6 +471,9 @@ export const productsDB: Product[] = [
       indicatorsKeys: ['superfood', 'leafy_green', 'rich_antioxidants']
     },
     otherOptionsIds: ['spinach_003', 'broccoli_001', 'brussels_007'],
+    relationships: [
+      { productId: 'spinach_003', type: 'substitute' }
+    ],
     description: 'Superfood leafy green with exceptional nutrient density',
     descriptionKey: 'kale_005'
   },
@@ -419,6 +484,11 @@ export const productsDB: Product[] = [
     image: '/placeholder.svg',
     rating: 8.4,
     category: 'vegetables',
+    subcategory: 'cruciferous_vegetables',
+    servingSizes: [
+      { id: 'cup', label: '1 cup', labelKey: 'servingCup', grams: 107 }
+    ],
+    ingredients: ['cauliflower'],
     nutrition: {
       protein: {
         description: 'Good source of protein',
@@ -461,10 +531,15 @@ export const productsDB: Product[] = [
       sugar: 1.9,
       sodium: 30,
       cholesterol: 0,
-      vitaminC: 48.2,
-      calcium: 22,
-      iron: 0.4,
-      potassium: 299
+      micronutrients: {
+        vitamin_c: { amount: 48.2, unit: 'mg', dailyPercentage: 54 },
+        vitamin_k: { amount: 15.5, unit: 'mcg', dailyPercentage: 13 },
+        folate: { amount: 57, unit: 'mcg', dailyPercentage: 14 },
+        potassium: { amount: 299, unit: 'mg', dailyPercentage: 6 },
+        iron: { amount: 0.4, unit: 'mg', dailyPercentage: 2 },
+        calcium: { amount: 22, unit: 'mg', dailyPercentage: 2 },
+        sodium: { amount: 30, unit: 'mg', dailyPercentage: 1 }
+      }
     },
     allergens: {
       vegan: true,
@@ -491,6 +566,9 @@ export const productsDB: Product[] = [
       indicatorsKeys: ['versatile', 'low_calories', 'fresh_vegetable']
     },
     otherOptionsIds: ['broccoli_001', 'brussels_007', 'kale_005'],
+    relationships: [
+      { productId: 'broccoli_001', type: 'substitute' }
+    ],
     description: 'Versatile cruciferous vegetable, low in calories',
     descriptionKey: 'cauliflower_006'
   },
@@ -501,6 +579,11 @@ export const productsDB: Product[] = [
     image: '/placeholder.svg',
     rating: 8.9,
     category: 'vegetables',
+    subcategory: 'cruciferous_vegetables',
+    servingSizes: [
+      { id: 'cup', label: '1 cup', labelKey: 'servingCup', grams: 88 }
+    ],
+    ingredients: ['brussels sprouts'],
     nutrition: {
       protein: {
         description: 'Good source of protein',
@@ -543,10 +626,15 @@ export const productsDB: Product[] = [
       sugar: 2.2,
       sodium: 25,
       cholesterol: 0,
-      vitaminC: 85,
-      calcium: 42,
-      iron: 1.4,
-      potassium: 389
+      micronutrients: {
+        vitamin_c: { amount: 85, unit: 'mg', dailyPercentage: 94 },
+        vitamin_k: { amount: 177, unit: 'mcg', dailyPercentage: 148 },
+        folate: { amount: 61, unit: 'mcg', dailyPercentage: 15 },
+        potassium: { amount: 389, unit: 'mg', dailyPercentage: 8 },
+        iron: { amount: 1.4, unit: 'mg', dailyPercentage: 8 },
+        calcium: { amount: 42, unit: 'mg', dailyPercentage: 3 },
+        sodium: { amount: 25, unit: 'mg', dailyPercentage: 1 }
+      }
     },
     allergens: {
       vegan: true,
@@ -583,6 +671,11 @@ export const productsDB: Product[] = [
     image: '/placeholder.svg',
     rating: 8.3,
     category: 'fruits',
+    subcategory: 'pome_fruits',
+    servingSizes: [
+      { id: 'mediumFruit', label: '1 medium fruit', labelKey: 'servingMediumFruit', grams: 178 }
+    ],
+    ingredients: ['pear'],
     nutrition: {
       protein: {
         description: 'Low in protein',
@@ -625,10 +718,14 @@ export const productsDB: Product[] = [
       sugar: 9.8,
       sodium: 1,
       cholesterol: 0,
-      vitaminC: 4.3,
-      calcium: 9,
-      iron: 0.2,
-      potassium: 116
+      micronutrients: {
+        vitamin_c: { amount: 4.3, unit: 'mg', dailyPercentage: 5 },
+        vitamin_k: { amount: 4.4, unit: 'mcg', dailyPercentage: 4 },
+        potassium: { amount: 116, unit: 'mg', dailyPercentage: 2 },
+        iron: { amount: 0.2, unit: 'mg', dailyPercentage: 1 },
+        calcium: { amount: 9, unit: 'mg', dailyPercentage: 1 },
+        sodium: { amount: 1, unit: 'mg', dailyPercentage: 0 }
+      }
     },
     allergens: {
       vegan: true,
@@ -665,6 +762,11 @@ export const productsDB: Product[] = [
     image: '/placeholder.svg',
     rating: 8.7,
     category: 'fruits',
+    subcategory: 'citrus_fruits',
+    servingSizes: [
+      { id: 'mediumFruit', label: '1 medium fruit', labelKey: 'servingMediumFruit', grams: 131 }
+    ],
+    ingredients: ['orange'],
     nutrition: {
       protein: {
         description: 'Low in protein',
@@ -707,10 +809,15 @@ export const productsDB: Product[] = [
       sugar: 9.4,
       sodium: 0,
       cholesterol: 0,
-      vitaminC: 53.2,
-      calcium: 40,
-      iron: 0.1,
-      potassium: 181
+      micronutrients: {
+        vitamin_c: { amount: 53.2, unit: 'mg', dailyPercentage: 59 },
+        folate: { amount: 30, unit: 'mcg', dailyPercentage: 8 },
+        vitamin_a: { amount: 11, unit: 'mcg', dailyPercentage: 1 },
+        potassium: { amount: 181, unit: 'mg', dailyPercentage: 4 },
+        iron: { amount: 0.1, unit: 'mg', dailyPercentage: 1 },
+        calcium: { amount: 40, unit: 'mg', dailyPercentage: 3 },
+        sodium: { amount: 0, unit: 'mg', dailyPercentage: 0 }
+      }
     },
     allergens: {
       vegan: true,
@@ -747,6 +854,11 @@ export const productsDB: Product[] = [
     image: '/placeholder.svg',
     rating: 8.1,
     category: 'fruits',
+    subcategory: 'tropical_fruits',
+    servingSizes: [
+      { id: 'mediumFruit', label: '1 medium fruit', labelKey: 'servingMediumFruit', grams: 118 }
+    ],
+    ingredients: ['banana'],
     nutrition: {
       protein: {
         description: 'Low in protein',
@@ -789,10 +901,16 @@ export const productsDB: Product[] = [
       sugar: 12.2,
       sodium: 1,
       cholesterol: 0,
-      vitaminC: 8.7,
-      calcium: 5,
-      iron: 0.3,
-      potassium: 358
+      micronutrients: {
+        vitamin_c: { amount: 8.7, unit: 'mg', dailyPercentage: 10 },
+        folate: { amount: 20, unit: 'mcg', dailyPercentage: 5 },
+        vitamin_b6: { amount: 0.4, unit: 'mg', dailyPercentage: 24 },
+        potassium: { amount: 358, unit: 'mg', dailyPercentage: 8 },
+        iron: { amount: 0.3, unit: 'mg', dailyPercentage: 2 },
+        calcium: { amount: 5, unit: 'mg', dailyPercentage: 0 },
+        magnesium: { amount: 27, unit: 'mg', dailyPercentage: 6 },
+        sodium: { amount: 1, unit: 'mg', dailyPercentage: 0 }
+      }
     },
     allergens: {
       vegan: true,
@@ -819,6 +937,10 @@ export const productsDB: Product[] = [
       indicatorsKeys: ['tropical_fruit', 'rich_potassium', 'natural_energy']
     },
     otherOptionsIds: ['apple_002', 'pear_008', 'orange_009'],
+    relationships: [
+      { productId: 'plantain_023', type: 'variant' },
+      { productId: 'greek_yogurt_007', type: 'complement' }
+    ],
     description: 'Tropical fruit rich in potassium and natural sugars',
     descriptionKey: 'banana_010'
   },
@@ -829,6 +951,11 @@ export const productsDB: Product[] = [
     image: '/placeholder.svg',
     rating: 9.1,
     category: 'fruits',
+    subcategory: 'tropical_fruits',
+    servingSizes: [
+      { id: 'halfFruit', label: '1/2 fruit', labelKey: 'servingHalfFruit', grams: 100 }
+    ],
+    ingredients: ['avocado'],
     nutrition: {
       protein: {
         description: 'Good source of protein',
@@ -871,10 +998,17 @@ export const productsDB: Product[] = [
       sugar: 0.7,
       sodium: 7,
       cholesterol: 0,
-      vitaminC: 10.0,
-      calcium: 12,
-      iron: 0.6,
-      potassium: 485
+      micronutrients: {
+        vitamin_c: { amount: 10, unit: 'mg', dailyPercentage: 11 },
+        vitamin_k: { amount: 21, unit: 'mcg', dailyPercentage: 18 },
+        folate: { amount: 81, unit: 'mcg', dailyPercentage: 20 },
+        vitamin_e: { amount: 2.1, unit: 'mg', dailyPercentage: 14 },
+        potassium: { amount: 485, unit: 'mg', dailyPercentage: 10 },
+        iron: { amount: 0.6, unit: 'mg', dailyPercentage: 3 },
+        calcium: { amount: 12, unit: 'mg', dailyPercentage: 1 },
+        magnesium: { amount: 29, unit: 'mg', dailyPercentage: 7 },
+        sodium: { amount: 7, unit: 'mg', dailyPercentage: 0 }
+      }
     },
     allergens: {
       vegan: true,
@@ -900,7 +1034,10 @@ export const productsDB: Product[] = [
       indicators: ['Healthy fats', 'Natural creamy', 'Rich in potassium'],
       indicatorsKeys: ['healthy_fats', 'natural_creamy', 'rich_potassium']
     },
-    otherOptionsIds: ['almonds_004', 'olive_oil', 'nuts'],
+    otherOptionsIds: ['almonds_004'],
+    relationships: [
+      { productId: 'tomato_021', type: 'complement' }
+    ],
     description: 'Creamy fruit high in healthy monounsaturated fats',
     descriptionKey: 'avocado_001'
   },
@@ -911,6 +1048,11 @@ export const productsDB: Product[] = [
     image: '/placeholder.svg',
     rating: 9.0,
     category: 'grains',
+    subcategory: 'pseudocereals',
+    servingSizes: [
+      { id: 'cup', label: '1 cup', labelKey: 'servingCup', grams: 185 }
+    ],
+    ingredients: ['quinoa'],
     nutrition: {
       protein: {
         description: 'Excellent source of complete protein',
@@ -953,10 +1095,17 @@ export const productsDB: Product[] = [
       sugar: 0.9,
       sodium: 7,
       cholesterol: 0,
-      vitaminC: 0,
-      calcium: 17,
-      iron: 1.5,
-      potassium: 172
+      micronutrients: {
+        folate: { amount: 42, unit: 'mcg', dailyPercentage: 11 },
+        vitamin_e: { amount: 0.6, unit: 'mg', dailyPercentage: 4 },
+        vitamin_b6: { amount: 0.1, unit: 'mg', dailyPercentage: 6 },
+        potassium: { amount: 172, unit: 'mg', dailyPercentage: 4 },
+        iron: { amount: 1.5, unit: 'mg', dailyPercentage: 8 },
+        calcium: { amount: 17, unit: 'mg', dailyPercentage: 1 },
+        magnesium: { amount: 64, unit: 'mg', dailyPercentage: 15 },
+        phosphorus: { amount: 152, unit: 'mg', dailyPercentage: 12 },
+        sodium: { amount: 7, unit: 'mg', dailyPercentage: 0 }
+      }
     },
     allergens: {
       vegan: true,
@@ -974,6 +1123,7 @@ export const productsDB: Product[] = [
       sugarFree: true,
       keto: false
     },
+    allergenTraces: ['glutenFree'],
     processingLevel: {
       nova: 2,
       category: 'processed',
@@ -982,7 +1132,11 @@ export const productsDB: Product[] = [
       indicators: ['Cooked grain', 'Clean', 'Complete protein'],
       indicatorsKeys: ['cooked_grain', 'clean', 'complete_protein']
     },
-    otherOptionsIds: ['brown_rice', 'oats', 'buckwheat'],
+    otherOptionsIds: [],
+    relationships: [
+      { productId: 'beans_020', type: 'complement' },
+      { productId: 'avocado_001', type: 'complement' }
+    ],
     description: 'Complete protein grain, gluten-free superfood',
     descriptionKey: 'quinoa_002'
   },
@@ -993,6 +1147,11 @@ export const productsDB: Product[] = [
     image: '/placeholder.svg',
     rating: 9.3,
     category: 'fish',
+    subcategory: 'oily_fish',
+    servingSizes: [
+      { id: 'fillet', label: '1 fillet', labelKey: 'servingFillet', grams: 125 }
+    ],
+    ingredients: ['salmon'],
     nutrition: {
       protein: {
         description: 'Excellent source of high-quality protein',
@@ -1035,10 +1194,17 @@ export const productsDB: Product[] = [
       sugar: 0,
       sodium: 48,
       cholesterol: 55,
-      vitaminC: 0,
-      calcium: 12,
-      iron: 0.8,
-      potassium: 363
+      micronutrients: {
+        vitamin_d: { amount: 11, unit: 'mcg', dailyPercentage: 55 },
+        vitamin_b12: { amount: 3.2, unit: 'mcg', dailyPercentage: 133 },
+        vitamin_b6: { amount: 0.6, unit: 'mg', dailyPercentage: 35 },
+        potassium: { amount: 363, unit: 'mg', dailyPercentage: 8 },
+        iron: { amount: 0.8, unit: 'mg', dailyPercentage: 4 },
+        calcium: { amount: 12, unit: 'mg', dailyPercentage: 1 },
+        phosphorus: { amount: 240, unit: 'mg', dailyPercentage: 19 },
+        selenium: { amount: 36.5, unit: 'mcg', dailyPercentage: 66 },
+        sodium: { amount: 48, unit: 'mg', dailyPercentage: 2 }
+      }
     },
     allergens: {
       vegan: false,
@@ -1064,7 +1230,12 @@ export const productsDB: Product[] = [
       indicators: ['Fresh fish', 'Rich in omega-3', 'Natural protein'],
       indicatorsKeys: ['fresh_fish', 'rich_omega3', 'natural_protein']
     },
-    otherOptionsIds: ['tuna', 'mackerel', 'sardines'],
+    otherOptionsIds: [],
+    relationships: [
+      { productId: 'beans_020', type: 'substitute' },
+      { productId: 'broccoli_001', type: 'complement' },
+      { productId: 'sweet_potato_006', type: 'complement' }
+    ],
     description: 'Fatty fish rich in omega-3 fatty acids',
     descriptionKey: 'salmon_003'
   },
@@ -1075,6 +1246,12 @@ export const productsDB: Product[] = [
     image: '/placeholder.svg',
     rating: 8.9,
     category: 'nuts',
+    subcategory: 'tree_nuts',
+    servingSizes: [
+      { id: 'handful', label: '1 handful', labelKey: 'servingHandful', grams: 28 },
+      { id: '30g', label: '30 g', grams: 30 }
+    ],
+    ingredients: ['almonds'],
     nutrition: {
       protein: {
         description: 'Excellent source of protein',
@@ -1117,10 +1294,17 @@ export const productsDB: Product[] = [
       sugar: 4.4,
       sodium: 1,
       cholesterol: 0,
-      vitaminC: 0,
-      calcium: 269,
-      iron: 3.7,
-      potassium: 733
+      micronutrients: {
+        vitamin_e: { amount: 25.6, unit: 'mg', dailyPercentage: 171 },
+        vitamin_b2: { amount: 1.1, unit: 'mg', dailyPercentage: 85 },
+        niacin: { amount: 3.6, unit: 'mg', dailyPercentage: 23 },
+        potassium: { amount: 733, unit: 'mg', dailyPercentage: 16 },
+        iron: { amount: 3.7, unit: 'mg', dailyPercentage: 21 },
+        calcium: { amount: 269, unit: 'mg', dailyPercentage: 21 },
+        magnesium: { amount: 270, unit: 'mg', dailyPercentage: 64 },
+        phosphorus: { amount: 481, unit: 'mg', dailyPercentage: 38 },
+        sodium: { amount: 1, unit: 'mg', dailyPercentage: 0 }
+      }
     },
     allergens: {
       vegan: true,
@@ -1146,7 +1330,7 @@ export const productsDB: Product[] = [
       indicators: ['Natural nut', 'Rich in vitamin E', 'Healthy fats'],
       indicatorsKeys: ['natural_nut', 'rich_vitamin_e', 'healthy_fats']
     },
-    otherOptionsIds: ['walnuts', 'cashews', 'pistachios'],
+    otherOptionsIds: [],
     description: 'Tree nuts high in healthy fats and vitamin E',
     descriptionKey: 'almonds_004'
   },
@@ -1157,6 +1341,11 @@ export const productsDB: Product[] = [
     image: '/placeholder.svg',
     rating: 9.4,
     category: 'fruits',
+    subcategory: 'berries',
+    servingSizes: [
+      { id: 'cup', label: '1 cup', labelKey: 'servingCup', grams: 148 }
+    ],
+    ingredients: ['blueberries'],
     nutrition: {
       protein: {
         description: 'Low in protein',
@@ -1199,10 +1388,16 @@ export const productsDB: Product[] = [
       sugar: 10.0,
       sodium: 1,
       cholesterol: 0,
-      vitaminC: 9.7,
-      calcium: 6,
-      iron: 0.3,
-      potassium: 77
+      micronutrients: {
+        vitamin_c: { amount: 9.7, unit: 'mg', dailyPercentage: 11 },
+        vitamin_k: { amount: 19.3, unit: 'mcg', dailyPercentage: 16 },
+        vitamin_e: { amount: 0.6, unit: 'mg', dailyPercentage: 4 },
+        potassium: { amount: 77, unit: 'mg', dailyPercentage: 2 },
+        iron: { amount: 0.3, unit: 'mg', dailyPercentage: 2 },
+        calcium: { amount: 6, unit: 'mg', dailyPercentage: 0 },
+        sodium: { amount: 1, unit: 'mg', dailyPercentage: 0 },
+        manganese: { amount: 0.3, unit: 'mg', dailyPercentage: 13 }
+      }
     },
     allergens: {
       vegan: true,
@@ -1228,7 +1423,10 @@ export const productsDB: Product[] = [
       indicators: ['Rich in antioxidants', 'Fresh fruit', 'Superfood'],
       indicatorsKeys: ['rich_antioxidants', 'fresh_fruit', 'superfood']
     },
-    otherOptionsIds: ['strawberries', 'raspberries', 'blackberries'],
+    otherOptionsIds: [],
+    relationships: [
+      { productId: 'greek_yogurt_007', type: 'complement' }
+    ],
     description: 'Antioxidant-rich berries, brain superfood',
     descriptionKey: 'blueberries_005'
   },
@@ -1239,6 +1437,11 @@ export const productsDB: Product[] = [
     image: '/placeholder.svg',
     rating: 8.8,
     category: 'vegetables',
+    subcategory: 'root_vegetables',
+    servingSizes: [
+      { id: 'medium', label: '1 medium', labelKey: 'servingMedium', grams: 130 }
+    ],
+    ingredients: ['sweet potato'],
     nutrition: {
       protein: {
         description: 'Good source of protein',
@@ -1281,10 +1484,16 @@ export const productsDB: Product[] = [
       sugar: 4.2,
       sodium: 54,
       cholesterol: 0,
-      vitaminC: 2.4,
-      calcium: 30,
-      iron: 0.6,
-      potassium: 337
+      micronutrients: {
+        vitamin_c: { amount: 2.4, unit: 'mg', dailyPercentage: 3 },
+        vitamin_a: { amount: 709, unit: 'mcg', dailyPercentage: 79 },
+        vitamin_b6: { amount: 0.2, unit: 'mg', dailyPercentage: 12 },
+        potassium: { amount: 337, unit: 'mg', dailyPercentage: 7 },
+        iron: { amount: 0.6, unit: 'mg', dailyPercentage: 3 },
+        calcium: { amount: 30, unit: 'mg', dailyPercentage: 2 },
+        sodium: { amount: 54, unit: 'mg', dailyPercentage: 2 },
+        manganese: { amount: 0.3, unit: 'mg', dailyPercentage: 13 }
+      }
     },
     allergens: {
       vegan: true,
@@ -1310,7 +1519,11 @@ export const productsDB: Product[] = [
       indicators: ['Natural tuber', 'Rich in beta-carotene', 'High fiber'],
       indicatorsKeys: ['natural_tuber', 'rich_beta_carotene', 'high_fiber']
     },
-    otherOptionsIds: ['carrot_004', 'pumpkin', 'butternut_squash'],
+    otherOptionsIds: ['carrot_004'],
+    relationships: [
+      { productId: 'yuca_026', type: 'substitute' },
+      { productId: 'salmon_003', type: 'complement' }
+    ],
     description: 'Orange tuber vegetable rich in beta-carotene',
     descriptionKey: 'sweet_potato_006'
   },
@@ -1321,6 +1534,29 @@ export const productsDB: Product[] = [
     image: '/placeholder.svg',
     rating: 8.5,
     category: 'dairy',
+    subcategory: 'greek_yogurt',
+    servingSizes: [
+      { id: 'container', label: '1 container', labelKey: 'servingContainer', grams: 170 }
+    ],
+    ingredients: ['pasteurized milk', 'live active cultures'],
+    variants: [
+      {
+        id: 'olympos_0',
+        brand: 'Olympos',
+        name: '0% Plain',
+        packageSize: { amount: 500, unit: 'g' },
+        barcodes: ['5200000210019'],
+        nutritionOverrides: { protein: 10.3, carbs: 3.8, fats: 0, saturatedFat: 0, sugar: 3.8 }
+      },
+      {
+        id: 'olympos_5',
+        brand: 'Olympos',
+        name: '5% Full Fat',
+        packageSize: { amount: 170, unit: 'g' },
+        barcodes: ['5200000210026'],
+        nutritionOverrides: { protein: 9.0, carbs: 3.9, fats: 5.0, saturatedFat: 3.2, sugar: 3.9 }
+      }
+    ],
     nutrition: {
       protein: {
         description: 'Excellent source of protein',
@@ -1363,10 +1599,15 @@ export const productsDB: Product[] = [
       sugar: 3.6,
       sodium: 36,
       cholesterol: 5,
-      vitaminC: 0,
-      calcium: 110,
-      iron: 0.1,
-      potassium: 141
+      micronutrients: {
+        vitamin_b12: { amount: 0.8, unit: 'mcg', dailyPercentage: 33 },
+        riboflavin: { amount: 0.3, unit: 'mg', dailyPercentage: 23 },
+        potassium: { amount: 141, unit: 'mg', dailyPercentage: 3 },
+        iron: { amount: 0.1, unit: 'mg', dailyPercentage: 1 },
+        calcium: { amount: 110, unit: 'mg', dailyPercentage: 8 },
+        phosphorus: { amount: 135, unit: 'mg', dailyPercentage: 11 },
+        sodium: { amount: 36, unit: 'mg', dailyPercentage: 2 }
+      }
     },
     allergens: {
       vegan: false,
@@ -1392,7 +1633,12 @@ export const productsDB: Product[] = [
       indicators: ['Fermented', 'Probiotics', 'Strained'],
       indicatorsKeys: ['fermented', 'probiotics', 'strained']
     },
-    otherOptionsIds: ['cottage_cheese', 'kefir', 'plain_yogurt'],
+    otherOptionsIds: [],
+    relationships: [
+      { productId: 'blueberries_005', type: 'complement' },
+      { productId: 'chia_seeds_008', type: 'complement' },
+      { productId: 'almonds_004', type: 'complement' }
+    ],
     description: 'Natural Greek yogurt: creamy, strained, high in protein, calcium, and probiotics.',
     descriptionKey: 'greek_yogurt_007'
   },
@@ -1403,6 +1649,10 @@ export const productsDB: Product[] = [
     image: '/placeholder.svg',
     rating: 9.6,
     category: 'seeds',
+    servingSizes: [
+      { id: 'tablespoon', label: '1 tbsp', labelKey: 'servingTablespoon', grams: 12 }
+    ],
+    ingredients: ['chia seeds'],
     nutrition: {
       protein: {
         description: 'Excellent source of protein',
@@ -1445,10 +1695,18 @@ export const productsDB: Product[] = [
       sugar: 0,
       sodium: 16,
       cholesterol: 0,
-      vitaminC: 1.6,
-      calcium: 631,
-      iron: 7.7,
-      potassium: 407
+      micronutrients: {
+        vitamin_c: { amount: 1.6, unit: 'mg', dailyPercentage: 2 },
+        vitamin_e: { amount: 0.5, unit: 'mg', dailyPercentage: 3 },
+        niacin: { amount: 8.8, unit: 'mg', dailyPercentage: 55 },
+        thiamine: { amount: 0.6, unit: 'mg', dailyPercentage: 50 },
+        potassium: { amount: 407, unit: 'mg', dailyPercentage: 9 },
+        iron: { amount: 7.7, unit: 'mg', dailyPercentage: 43 },
+        calcium: { amount: 631, unit: 'mg', dailyPercentage: 49 },
+        magnesium: { amount: 335, unit: 'mg', dailyPercentage: 80 },
+        phosphorus: { amount: 860, unit: 'mg', dailyPercentage: 69 },
+        sodium: { amount: 16, unit: 'mg', dailyPercentage: 1 }
+      }
     },
     allergens: {
       vegan: true,
@@ -1466,6 +1724,7 @@ export const productsDB: Product[] = [
       sugarFree: true,
       keto: true
     },
+    allergenTraces: ['nutFree'],
     processingLevel: {
       nova: 1,
       category: 'minimal',
@@ -1474,7 +1733,10 @@ export const productsDB: Product[] = [
       indicators: ['Natural seed', 'Rich in omega-3', 'High fiber'],
       indicatorsKeys: ['natural_seed', 'rich_omega3', 'high_fiber']
     },
-    otherOptionsIds: ['flax_seeds', 'hemp_seeds', 'pumpkin_seeds'],
+    otherOptionsIds: [],
+    relationships: [
+      { productId: 'greek_yogurt_007', type: 'complement' }
+    ],
     description: 'Tiny seeds packed with omega-3s and fiber',
     descriptionKey: 'chia_seeds_008'
   },
@@ -1485,6 +1747,29 @@ export const productsDB: Product[] = [
     image: '/placeholder.svg',
     rating: 3.2,
     category: 'snacks',
+    subcategory: 'potato_chips',
+    servingSizes: [
+      { id: '30g', label: '30 g', grams: 30 },
+      { id: 'packet', label: '1 packet', labelKey: 'servingPacket', grams: 45 }
+    ],
+    ingredients: ['potatoes', 'vegetable oil (sunflower, soybean)', 'salt'],
+    variants: [
+      {
+        id: 'crunchy_farms_classic',
+        brand: 'Crunchy Farms',
+        name: 'Classic Salted',
+        packageSize: { amount: 150, unit: 'g' },
+        barcodes: ['3760028100010']
+      },
+      {
+        id: 'crunchy_farms_lightly_salted',
+        brand: 'Crunchy Farms',
+        name: 'Lightly Salted',
+        packageSize: { amount: 150, unit: 'g' },
+        barcodes: ['3760028100027'],
+        nutritionOverrides: { sodium: 260 }
+      }
+    ],
     nutrition: {
       protein: {
         description: 'Low protein content',
@@ -1527,10 +1812,13 @@ export const productsDB: Product[] = [
       sugar: 0.3,
       sodium: 525,
       cholesterol: 0,
-      vitaminC: 18.8,
-      calcium: 14,
-      iron: 1.6,
-      potassium: 1196
+      micronutrients: {
+        vitamin_c: { amount: 18.8, unit: 'mg', dailyPercentage: 21 },
+        potassium: { amount: 1196, unit: 'mg', dailyPercentage: 25 },
+        iron: { amount: 1.6, unit: 'mg', dailyPercentage: 9 },
+        calcium: { amount: 14, unit: 'mg', dailyPercentage: 1 },
+        sodium: { amount: 525, unit: 'mg', dailyPercentage: 23 }
+      }
     },
     allergens: {
       vegan: true,
@@ -1548,6 +1836,7 @@ export const productsDB: Product[] = [
       sugarFree: true,
       keto: false
     },
+    allergenTraces: ['lactoseFree'],
     processingLevel: {
       nova: 4,
       category: 'ultra-processed',
@@ -1556,7 +1845,11 @@ export const productsDB: Product[] = [
       indicators: ['Hydrogenated oils', 'High sodium', 'Artificial flavors', 'Preservatives', 'Industrial frying'],
       indicatorsKeys: ['hydrogenated_oils', 'high_sodium', 'artificial_flavors', 'preservatives', 'industrial_frying']
     },
-    otherOptionsIds: ['baked_chips', 'vegetable_chips', 'nuts'],
+    otherOptionsIds: ['almonds_004'],
+    relationships: [
+      { productId: 'popcorn_016', type: 'substitute' },
+      { productId: 'almonds_004', type: 'substitute' }
+    ],
     description: 'Deep-fried potato chips with added salt and preservatives',
     descriptionKey: 'chips_009'
   },
@@ -1567,6 +1860,36 @@ export const productsDB: Product[] = [
     image: '/placeholder.svg',
     rating: 2.1,
     category: 'beverages',
+    subcategory: 'soft_drinks',
+    servingSizes: [
+      { id: 'can', label: '1 can', labelKey: 'servingCan', grams: 355 }
+    ],
+    ingredients: [
+      'carbonated water',
+      'high fructose corn syrup',
+      'caramel color',
+      'phosphoric acid',
+      'natural flavors',
+      'caffeine'
+    ],
+    additives: ['E150d', 'E338'],
+    variants: [
+      {
+        id: 'fizz_classic_can',
+        brand: 'Fizz',
+        name: 'Classic',
+        packageSize: { amount: 330, unit: 'ml' },
+        barcodes: ['5900012212345']
+      },
+      {
+        id: 'fizz_zero_can',
+        brand: 'Fizz',
+        name: 'Zero Sugar',
+        packageSize: { amount: 330, unit: 'ml' },
+        barcodes: ['5900012212352'],
+        nutritionOverrides: { carbs: 0, sugar: 0 }
+      }
+    ],
     nutrition: {
       protein: {
         description: 'No protein',
@@ -1609,10 +1932,12 @@ export const productsDB: Product[] = [
       sugar: 10.6,
       sodium: 2,
       cholesterol: 0,
-      vitaminC: 0,
-      calcium: 2,
-      iron: 0.1,
-      potassium: 2
+      micronutrients: {
+        potassium: { amount: 2, unit: 'mg', dailyPercentage: 0 },
+        iron: { amount: 0.1, unit: 'mg', dailyPercentage: 1 },
+        calcium: { amount: 2, unit: 'mg', dailyPercentage: 0 },
+        sodium: { amount: 2, unit: 'mg', dailyPercentage: 0 }
+      }
     },
     allergens: {
       vegan: true,
@@ -1638,7 +1963,10 @@ export const productsDB: Product[] = [
       indicators: ['Corn syrup', 'Artificial colors', 'Phosphoric acid', 'Added caffeine', 'Synthetic flavors'],
       indicatorsKeys: ['corn_syrup', 'artificial_colors', 'phosphoric_acid', 'added_caffeine', 'synthetic_flavors']
     },
-    otherOptionsIds: ['sparkling_water', 'fruit_juice', 'herbal_tea'],
+    otherOptionsIds: [],
+    relationships: [
+      { productId: 'orange_009', type: 'substitute' }
+    ],
     description: 'Carbonated soft drink with high sugar content and artificial additives',
     descriptionKey: 'soda_010'
   },
@@ -1649,6 +1977,22 @@ export const productsDB: Product[] = [
     image: '/placeholder.svg',
     rating: 2.8,
     category: 'processed_foods',
+    subcategory: 'instant_meals',
+    servingSizes: [
+      { id: 'packet', label: '1 packet', labelKey: 'servingPacket', grams: 85 }
+    ],
+    ingredients: [
+      'wheat flour',
+      'palm oil',
+      'salt',
+      'chicken powder',
+      'egg powder',
+      'soy sauce (soybean, wheat)',
+      'monosodium glutamate',
+      'dehydrated vegetables',
+      'antioxidant (bht)'
+    ],
+    additives: ['E621', 'E321'],
     nutrition: {
       protein: {
         description: 'Moderate protein, low quality',
@@ -1691,10 +2035,14 @@ export const productsDB: Product[] = [
       sugar: 2.5,
       sodium: 1820,
       cholesterol: 0,
-      vitaminC: 0,
-      calcium: 54,
-      iron: 4.3,
-      potassium: 120
+      micronutrients: {
+        thiamine: { amount: 0.7, unit: 'mg', dailyPercentage: 58 },
+        riboflavin: { amount: 0.4, unit: 'mg', dailyPercentage: 31 },
+        potassium: { amount: 120, unit: 'mg', dailyPercentage: 3 },
+        iron: { amount: 4.3, unit: 'mg', dailyPercentage: 24 },
+        calcium: { amount: 54, unit: 'mg', dailyPercentage: 4 },
+        sodium: { amount: 1820, unit: 'mg', dailyPercentage: 79 }
+      }
     },
     allergens: {
       vegan: false,
@@ -1720,7 +2068,10 @@ export const productsDB: Product[] = [
       indicators: ['Palm oil', 'Monosodium glutamate', 'BHT preservatives', 'Excess sodium', 'Pre-fried noodles'],
       indicatorsKeys: ['palm_oil', 'monosodium_glutamate', 'bht_preservatives', 'excess_sodium', 'pre_fried_noodles']
     },
-    otherOptionsIds: ['whole_grain_pasta', 'rice_noodles', 'quinoa'],
+    otherOptionsIds: ['quinoa_002'],
+    relationships: [
+      { productId: 'quinoa_002', type: 'substitute' }
+    ],
     description: 'Pre-cooked fried noodles with artificial seasoning packet',
     descriptionKey: 'instant_noodles_011'
   },
@@ -1731,6 +2082,25 @@ export const productsDB: Product[] = [
     image: '/placeholder.svg',
     rating: 3.5,
     category: 'desserts',
+    subcategory: 'frozen_desserts',
+    servingSizes: [
+      { id: 'halfCup', label: '1/2 cup', labelKey: 'servingHalfCup', grams: 66 }
+    ],
+    ingredients: [
+      'milk',
+      'cream',
+      'sugar',
+      'glucose syrup',
+      'egg yolks',
+      'wheat flour',
+      'hazelnut paste',
+      'soy lecithin',
+      'mono- and diglycerides of fatty acids',
+      'guar gum',
+      'colour (carotenes)',
+      'artificial flavors'
+    ],
+    additives: ['E322', 'E471', 'E412', 'E160a'],
     nutrition: {
       protein: {
         description: 'Low protein content',
@@ -1773,10 +2143,16 @@ export const productsDB: Product[] = [
       sugar: 21.2,
       sodium: 80,
       cholesterol: 45,
-      vitaminC: 0.6,
-      calcium: 128,
-      iron: 0.2,
-      potassium: 199
+      micronutrients: {
+        vitamin_c: { amount: 0.6, unit: 'mg', dailyPercentage: 1 },
+        vitamin_a: { amount: 118, unit: 'mcg', dailyPercentage: 13 },
+        vitamin_b12: { amount: 0.4, unit: 'mcg', dailyPercentage: 17 },
+        potassium: { amount: 199, unit: 'mg', dailyPercentage: 4 },
+        iron: { amount: 0.2, unit: 'mg', dailyPercentage: 1 },
+        calcium: { amount: 128, unit: 'mg', dailyPercentage: 10 },
+        phosphorus: { amount: 105, unit: 'mg', dailyPercentage: 8 },
+        sodium: { amount: 80, unit: 'mg', dailyPercentage: 3 }
+      }
     },
     allergens: {
       vegan: false,
@@ -1802,7 +2178,10 @@ export const productsDB: Product[] = [
       indicators: ['Emulsifiers', 'Stabilizing gums', 'Artificial colors', 'Added sugars', 'Synthetic flavors'],
       indicatorsKeys: ['emulsifiers', 'stabilizing_gums', 'artificial_colors', 'added_sugars', 'synthetic_flavors']
     },
-    otherOptionsIds: ['frozen_yogurt', 'fruit_sorbet', 'homemade_ice_cream'],
+    otherOptionsIds: [],
+    relationships: [
+      { productId: 'greek_yogurt_007', type: 'substitute' }
+    ],
     description: 'Industrial ice cream with artificial flavors and stabilizers',
     descriptionKey: 'ice_cream_012'
   },
@@ -1813,6 +2192,24 @@ export const productsDB: Product[] = [
     image: '/placeholder.svg',
     rating: 2.3,
     category: 'beverages',
+    subcategory: 'energy_drinks',
+    servingSizes: [
+      { id: 'can', label: '1 can', labelKey: 'servingCan', grams: 250 }
+    ],
+    ingredients: [
+      'carbonated water',
+      'sucrose',
+      'glucose',
+      'citric acid',
+      'taurine',
+      'sodium citrate',
+      'caffeine',
+      'niacinamide',
+      'vitamin b6',
+      'vitamin b12',
+      'colour (brilliant blue)'
+    ],
+    additives: ['E330', 'E331', 'E133'],
     nutrition: {
       protein: {
         description: 'Low protein content',
@@ -1855,10 +2252,15 @@ export const productsDB: Product[] = [
       sugar: 27.0,
       sodium: 200,
       cholesterol: 0,
-      vitaminC: 0,
-      calcium: 5,
-      iron: 0.1,
-      potassium: 28
+      micronutrients: {
+        vitamin_b12: { amount: 2.5, unit: 'mcg', dailyPercentage: 104 },
+        vitamin_b6: { amount: 0.8, unit: 'mg', dailyPercentage: 47 },
+        niacin: { amount: 8, unit: 'mg', dailyPercentage: 50 },
+        potassium: { amount: 28, unit: 'mg', dailyPercentage: 1 },
+        iron: { amount: 0.1, unit: 'mg', dailyPercentage: 1 },
+        calcium: { amount: 5, unit: 'mg', dailyPercentage: 0 },
+        sodium: { amount: 200, unit: 'mg', dailyPercentage: 9 }
+      }
     },
     allergens: {
       vegan: true,
@@ -1884,7 +2286,10 @@ export const productsDB: Product[] = [
       indicators: ['Synthetic caffeine', 'Artificial taurine', 'Blue dyes', 'Synthetic stimulants', 'High added sugar'],
       indicatorsKeys: ['synthetic_caffeine', 'artificial_taurine', 'blue_dyes', 'synthetic_stimulants', 'high_added_sugar']
     },
-    otherOptionsIds: ['green_tea', 'coffee', 'coconut_water'],
+    otherOptionsIds: [],
+    relationships: [
+      { productId: 'banana_010', type: 'substitute' }
+    ],
     description: 'Caffeinated beverage with synthetic stimulants and high sugar content',
     descriptionKey: 'energy_drink_013'
   },
@@ -1895,6 +2300,33 @@ export const productsDB: Product[] = [
     image: '/placeholder.svg',
     rating: 3.8,
     category: 'breakfast',
+    subcategory: 'breakfast_cereals',
+    servingSizes: [
+      { id: '30g', label: '30 g', grams: 30 },
+      { id: 'cup', label: '1 cup', labelKey: 'servingCup', grams: 40 }
+    ],
+    ingredients: [
+      'corn flour',
+      'sugar',
+      'wheat flour',
+      'honey',
+      'soy lecithin',
+      'salt',
+      'colour (allura red)',
+      'antioxidant (bht)',
+      'vitamins and minerals'
+    ],
+    additives: ['E322', 'E129', 'E321'],
+    variants: [
+      {
+        id: 'morning_stars_honey_rings',
+        brand: 'Morning Stars',
+        name: 'Honey Rings',
+        packageSize: { amount: 375, unit: 'g' },
+        barcodes: ['7613035100015'],
+        nutritionOverrides: { sugar: 32.0, fiber: 4.0 }
+      }
+    ],
     nutrition: {
       protein: {
         description: 'Moderate protein, fortified',
@@ -1937,10 +2369,17 @@ export const productsDB: Product[] = [
       sugar: 37.0,
       sodium: 586,
       cholesterol: 0,
-      vitaminC: 0,
-      calcium: 33,
-      iron: 24.3,
-      potassium: 130
+      micronutrients: {
+        vitamin_d: { amount: 3.4, unit: 'mcg', dailyPercentage: 17 },
+        vitamin_b12: { amount: 6, unit: 'mcg', dailyPercentage: 250 },
+        thiamine: { amount: 1.2, unit: 'mg', dailyPercentage: 100 },
+        riboflavin: { amount: 1.4, unit: 'mg', dailyPercentage: 108 },
+        potassium: { amount: 130, unit: 'mg', dailyPercentage: 3 },
+        iron: { amount: 24.3, unit: 'mg', dailyPercentage: 135 },
+        calcium: { amount: 33, unit: 'mg', dailyPercentage: 3 },
+        sodium: { amount: 586, unit: 'mg', dailyPercentage: 25 },
+        zinc: { amount: 5, unit: 'mg', dailyPercentage: 45 }
+      }
     },
     allergens: {
       vegan: false,
@@ -1958,6 +2397,7 @@ export const productsDB: Product[] = [
       sugarFree: false,
       keto: false
     },
+    allergenTraces: ['nutFree'],
     processingLevel: {
       nova: 4,
       category: 'ultra-processed',
@@ -1966,7 +2406,11 @@ export const productsDB: Product[] = [
       indicators: ['Industrial extrusion', 'Added sugars', 'FD&C dyes', 'Synthetic vitamins', 'BHT preservative'],
       indicatorsKeys: ['industrial_extrusion', 'added_sugars', 'fdc_dyes', 'synthetic_vitamins', 'bht_preservative']
     },
-    otherOptionsIds: ['oatmeal', 'muesli', 'granola'],
+    otherOptionsIds: [],
+    relationships: [
+      { productId: 'greek_yogurt_007', type: 'substitute' },
+      { productId: 'chia_seeds_008', type: 'substitute' }
+    ],
     description: 'Processed breakfast cereal with added sugars and artificial colors',
     descriptionKey: 'cereal_014'
   },
@@ -1978,6 +2422,12 @@ export const productsDB: Product[] = [
     image: '/placeholder.svg',
     rating: 7.2,
     category: 'snacks',
+    subcategory: 'popcorn',
+    servingSizes: [
+      { id: 'cup', label: '1 cup', labelKey: 'servingCup', grams: 8 },
+      { id: '30g', label: '30 g', grams: 30 }
+    ],
+    ingredients: ['popcorn kernels', 'sunflower oil', 'salt'],
     nutrition: {
       protein: {
         description: 'Moderate protein content',
@@ -2020,10 +2470,16 @@ export const productsDB: Product[] = [
       sugar: 0.9,
       sodium: 8,
       cholesterol: 0,
-      vitaminC: 0,
-      calcium: 1,
-      iron: 0.9,
-      potassium: 93
+      micronutrients: {
+        vitamin_b6: { amount: 0.2, unit: 'mg', dailyPercentage: 12 },
+        thiamine: { amount: 0.1, unit: 'mg', dailyPercentage: 8 },
+        potassium: { amount: 93, unit: 'mg', dailyPercentage: 2 },
+        iron: { amount: 0.9, unit: 'mg', dailyPercentage: 5 },
+        calcium: { amount: 1, unit: 'mg', dailyPercentage: 0 },
+        magnesium: { amount: 144, unit: 'mg', dailyPercentage: 34 },
+        phosphorus: { amount: 358, unit: 'mg', dailyPercentage: 29 },
+        sodium: { amount: 8, unit: 'mg', dailyPercentage: 0 }
+      }
     },
     allergens: {
       vegan: true,
@@ -2050,6 +2506,9 @@ export const productsDB: Product[] = [
       indicatorsKeys: ['whole_grain', 'air_popped', 'no_additives']
     },
     otherOptionsIds: ['almonds_004', 'chia_seeds_008'],
+    relationships: [
+      { productId: 'corn_018', type: 'variant' }
+    ],
     description: 'Air-popped corn kernels, whole grain snack',
     descriptionKey: 'popcorn_016'
   },
@@ -2060,6 +2519,11 @@ export const productsDB: Product[] = [
     image: '/placeholder.svg',
     rating: 8.7,
     category: 'fruits',
+    subcategory: 'tropical_fruits',
+    servingSizes: [
+      { id: 'mediumFruit', label: '1 medium fruit', labelKey: 'servingMediumFruit', grams: 100 }
+    ],
+    ingredients: ['lulo'],
     nutrition: {
       protein: {
         description: 'Low protein content',
@@ -2096,16 +2560,22 @@ export const productsDB: Product[] = [
         fromProtein: 3.2,
         fromFat: 0.9
       },
-      vitamins: ['vitamin_c', 'vitamin_a', 'vitamin_b3'],
+      vitamins: ['vitamin_c', 'vitamin_a', 'niacin'],
       minerals: ['potassium', 'phosphorus', 'calcium'],
       saturatedFat: 0.0,
       sugar: 3.2,
       sodium: 4,
       cholesterol: 0,
-      vitaminC: 25.7,
-      calcium: 8,
-      iron: 0.4,
-      potassium: 249
+      micronutrients: {
+        vitamin_c: { amount: 25.7, unit: 'mg', dailyPercentage: 29 },
+        vitamin_a: { amount: 30, unit: 'mcg', dailyPercentage: 3 },
+        niacin: { amount: 1.5, unit: 'mg', dailyPercentage: 9 },
+        potassium: { amount: 249, unit: 'mg', dailyPercentage: 5 },
+        iron: { amount: 0.4, unit: 'mg', dailyPercentage: 2 },
+        calcium: { amount: 8, unit: 'mg', dailyPercentage: 1 },
+        phosphorus: { amount: 12, unit: 'mg', dailyPercentage: 1 },
+        sodium: { amount: 4, unit: 'mg', dailyPercentage: 0 }
+      }
     },
     allergens: {
       vegan: true,
@@ -2142,6 +2612,12 @@ export const productsDB: Product[] = [
     image: '/placeholder.svg',
     rating: 7.8,
     category: 'grains',
+    subcategory: 'cereal_grains',
+    servingSizes: [
+      { id: 'ear', label: '1 ear', labelKey: 'servingEar', grams: 90 },
+      { id: 'cup', label: '1 cup', labelKey: 'servingCup', grams: 145 }
+    ],
+    ingredients: ['corn'],
     nutrition: {
       protein: {
         description: 'Good protein content',
@@ -2184,10 +2660,17 @@ export const productsDB: Product[] = [
       sugar: 3.2,
       sodium: 16,
       cholesterol: 0,
-      vitaminC: 7.0,
-      calcium: 2,
-      iron: 0.5,
-      potassium: 270
+      micronutrients: {
+        vitamin_c: { amount: 7, unit: 'mg', dailyPercentage: 8 },
+        folate: { amount: 42, unit: 'mcg', dailyPercentage: 11 },
+        thiamine: { amount: 0.2, unit: 'mg', dailyPercentage: 17 },
+        potassium: { amount: 270, unit: 'mg', dailyPercentage: 6 },
+        iron: { amount: 0.5, unit: 'mg', dailyPercentage: 3 },
+        calcium: { amount: 2, unit: 'mg', dailyPercentage: 0 },
+        magnesium: { amount: 37, unit: 'mg', dailyPercentage: 9 },
+        phosphorus: { amount: 89, unit: 'mg', dailyPercentage: 7 },
+        sodium: { amount: 16, unit: 'mg', dailyPercentage: 1 }
+      }
     },
     allergens: {
       vegan: true,
@@ -2214,6 +2697,10 @@ export const productsDB: Product[] = [
       indicatorsKeys: ['whole_grain', 'natural', 'fresh']
     },
     otherOptionsIds: ['quinoa_002', 'sweet_potato_006'],
+    relationships: [
+      { productId: 'popcorn_016', type: 'variant' },
+      { productId: 'beans_020', type: 'complement' }
+    ],
     description: 'Fresh corn kernels, natural source of energy and fiber',
     descriptionKey: 'corn_018'
   },
@@ -2224,6 +2711,12 @@ export const productsDB: Product[] = [
     image: '/placeholder.svg',
     rating: 8.9,
     category: 'fruits',
+    subcategory: 'tropical_fruits',
+    servingSizes: [
+      { id: 'cup', label: '1 cup', labelKey: 'servingCup', grams: 165 },
+      { id: 'mediumFruit', label: '1 medium fruit', labelKey: 'servingMediumFruit', grams: 200 }
+    ],
+    ingredients: ['mango'],
     nutrition: {
       protein: {
         description: 'Low protein content',
@@ -2266,10 +2759,16 @@ export const productsDB: Product[] = [
       sugar: 15.0,
       sodium: 1,
       cholesterol: 0,
-      vitaminC: 36.4,
-      calcium: 11,
-      iron: 0.2,
-      potassium: 168
+      micronutrients: {
+        vitamin_c: { amount: 36.4, unit: 'mg', dailyPercentage: 40 },
+        folate: { amount: 43, unit: 'mcg', dailyPercentage: 11 },
+        vitamin_a: { amount: 54, unit: 'mcg', dailyPercentage: 6 },
+        potassium: { amount: 168, unit: 'mg', dailyPercentage: 4 },
+        iron: { amount: 0.2, unit: 'mg', dailyPercentage: 1 },
+        calcium: { amount: 11, unit: 'mg', dailyPercentage: 1 },
+        magnesium: { amount: 10, unit: 'mg', dailyPercentage: 2 },
+        sodium: { amount: 1, unit: 'mg', dailyPercentage: 0 }
+      }
     },
     allergens: {
       vegan: true,
@@ -2306,6 +2805,12 @@ export const productsDB: Product[] = [
     image: '/placeholder.svg',
     rating: 9.1,
     category: 'proteins',
+    subcategory: 'legumes',
+    servingSizes: [
+      { id: 'cup', label: '1 cup', labelKey: 'servingCup', grams: 172 },
+      { id: 'halfCup', label: '1/2 cup', labelKey: 'servingHalfCup', grams: 86 }
+    ],
+    ingredients: ['black beans'],
     nutrition: {
       protein: {
         description: 'Excellent source of plant protein',
@@ -2348,10 +2853,16 @@ export const productsDB: Product[] = [
       sugar: 0.3,
       sodium: 2,
       cholesterol: 0,
-      vitaminC: 0,
-      calcium: 27,
-      iron: 2.9,
-      potassium: 355
+      micronutrients: {
+        folate: { amount: 149, unit: 'mcg', dailyPercentage: 37 },
+        vitamin_b6: { amount: 0.1, unit: 'mg', dailyPercentage: 6 },
+        thiamine: { amount: 0.2, unit: 'mg', dailyPercentage: 17 },
+        potassium: { amount: 355, unit: 'mg', dailyPercentage: 8 },
+        iron: { amount: 2.9, unit: 'mg', dailyPercentage: 16 },
+        calcium: { amount: 27, unit: 'mg', dailyPercentage: 2 },
+        magnesium: { amount: 70, unit: 'mg', dailyPercentage: 17 },
+        sodium: { amount: 2, unit: 'mg', dailyPercentage: 0 }
+      }
     },
     allergens: {
       vegan: true,
@@ -2378,6 +2889,10 @@ export const productsDB: Product[] = [
       indicatorsKeys: ['plant_protein', 'high_fiber', 'complex_carbs']
     },
     otherOptionsIds: ['quinoa_002', 'salmon_003', 'almonds_004'],
+    relationships: [
+      { productId: 'quinoa_002', type: 'complement' },
+      { productId: 'corn_018', type: 'complement' }
+    ],
     description: 'Legume rich in plant protein and fiber',
     descriptionKey: 'beans_020'
   },
@@ -2388,6 +2903,11 @@ export const productsDB: Product[] = [
     image: '/placeholder.svg',
     rating: 8.5,
     category: 'vegetables',
+    subcategory: 'fruit_vegetables',
+    servingSizes: [
+      { id: 'medium', label: '1 medium', labelKey: 'servingMedium', grams: 123 }
+    ],
+    ingredients: ['tomato'],
     nutrition: {
       protein: {
         description: 'Low protein content',
@@ -2430,10 +2950,16 @@ export const productsDB: Product[] = [
       sugar: 2.6,
       sodium: 5,
       cholesterol: 0,
-      vitaminC: 13.7,
-      calcium: 10,
-      iron: 0.3,
-      potassium: 237
+      micronutrients: {
+        vitamin_c: { amount: 13.7, unit: 'mg', dailyPercentage: 15 },
+        vitamin_k: { amount: 7.9, unit: 'mcg', dailyPercentage: 7 },
+        folate: { amount: 15, unit: 'mcg', dailyPercentage: 4 },
+        potassium: { amount: 237, unit: 'mg', dailyPercentage: 5 },
+        iron: { amount: 0.3, unit: 'mg', dailyPercentage: 2 },
+        calcium: { amount: 10, unit: 'mg', dailyPercentage: 1 },
+        sodium: { amount: 5, unit: 'mg', dailyPercentage: 0 },
+        manganese: { amount: 0.1, unit: 'mg', dailyPercentage: 4 }
+      }
     },
     allergens: {
       vegan: true,
@@ -2460,6 +2986,9 @@ export const productsDB: Product[] = [
       indicatorsKeys: ['rich_lycopene', 'fresh', 'antioxidants']
     },
     otherOptionsIds: ['carrot_004', 'spinach_003', 'broccoli_001'],
+    relationships: [
+      { productId: 'avocado_001', type: 'complement' }
+    ],
     description: 'Fresh vegetable fruit rich in lycopene and vitamin C',
     descriptionKey: 'tomato_021'
   },
@@ -2470,6 +2999,11 @@ export const productsDB: Product[] = [
     image: '/placeholder.svg',
     rating: 8.6,
     category: 'fruits',
+    subcategory: 'tropical_fruits',
+    servingSizes: [
+      { id: 'cup', label: '1 cup', labelKey: 'servingCup', grams: 145 }
+    ],
+    ingredients: ['papaya'],
     nutrition: {
       protein: {
         description: 'Low protein content',
@@ -2512,10 +3046,16 @@ export const productsDB: Product[] = [
       sugar: 7.8,
       sodium: 8,
       cholesterol: 0,
-      vitaminC: 60.9,
-      calcium: 20,
-      iron: 0.2,
-      potassium: 182
+      micronutrients: {
+        vitamin_c: { amount: 60.9, unit: 'mg', dailyPercentage: 68 },
+        folate: { amount: 37, unit: 'mcg', dailyPercentage: 9 },
+        vitamin_a: { amount: 47, unit: 'mcg', dailyPercentage: 5 },
+        potassium: { amount: 182, unit: 'mg', dailyPercentage: 4 },
+        iron: { amount: 0.2, unit: 'mg', dailyPercentage: 1 },
+        calcium: { amount: 20, unit: 'mg', dailyPercentage: 2 },
+        magnesium: { amount: 21, unit: 'mg', dailyPercentage: 5 },
+        sodium: { amount: 8, unit: 'mg', dailyPercentage: 0 }
+      }
     },
     allergens: {
       vegan: true,
@@ -2552,6 +3092,11 @@ export const productsDB: Product[] = [
     image: '/placeholder.svg',
     rating: 7.9,
     category: 'fruits',
+    subcategory: 'tropical_fruits',
+    servingSizes: [
+      { id: 'medium', label: '1 medium', labelKey: 'servingMedium', grams: 179 }
+    ],
+    ingredients: ['plantain'],
     nutrition: {
       protein: {
         description: 'Low protein content',
@@ -2594,10 +3139,16 @@ export const productsDB: Product[] = [
       sugar: 15.0,
       sodium: 4,
       cholesterol: 0,
-      vitaminC: 18.4,
-      calcium: 3,
-      iron: 0.6,
-      potassium: 499
+      micronutrients: {
+        vitamin_c: { amount: 18.4, unit: 'mg', dailyPercentage: 20 },
+        vitamin_a: { amount: 56, unit: 'mcg', dailyPercentage: 6 },
+        vitamin_b6: { amount: 0.3, unit: 'mg', dailyPercentage: 18 },
+        potassium: { amount: 499, unit: 'mg', dailyPercentage: 11 },
+        iron: { amount: 0.6, unit: 'mg', dailyPercentage: 3 },
+        calcium: { amount: 3, unit: 'mg', dailyPercentage: 0 },
+        magnesium: { amount: 37, unit: 'mg', dailyPercentage: 9 },
+        sodium: { amount: 4, unit: 'mg', dailyPercentage: 0 }
+      }
     },
     allergens: {
       vegan: true,
@@ -2624,6 +3175,9 @@ export const productsDB: Product[] = [
       indicatorsKeys: ['rich_potassium', 'complex_carbs', 'natural']
     },
     otherOptionsIds: ['banana_010', 'sweet_potato_006', 'corn_018'],
+    relationships: [
+      { productId: 'banana_010', type: 'variant' }
+    ],
     description: 'Starchy fruit rich in potassium and complex carbohydrates',
     descriptionKey: 'plantain_023'
   },
@@ -2634,6 +3188,11 @@ export const productsDB: Product[] = [
     image: '/placeholder.svg',
     rating: 8.8,
     category: 'snacks',
+    subcategory: 'sweet_snacks',
+    servingSizes: [
+      { id: 'tablespoon', label: '1 tbsp', labelKey: 'servingTablespoon', grams: 5 }
+    ],
+    ingredients: ['raw cacao beans'],
     nutrition: {
       protein: {
         description: 'Good source of protein',
@@ -2676,10 +3235,16 @@ export const productsDB: Product[] = [
       sugar: 1.8,
       sodium: 21,
       cholesterol: 0,
-      vitaminC: 0,
-      calcium: 128,
-      iron: 3.9,
-      potassium: 1524
+      micronutrients: {
+        vitamin_k: { amount: 2.5, unit: 'mcg', dailyPercentage: 2 },
+        vitamin_e: { amount: 0.1, unit: 'mg', dailyPercentage: 1 },
+        potassium: { amount: 1524, unit: 'mg', dailyPercentage: 32 },
+        iron: { amount: 3.9, unit: 'mg', dailyPercentage: 22 },
+        calcium: { amount: 128, unit: 'mg', dailyPercentage: 10 },
+        magnesium: { amount: 499, unit: 'mg', dailyPercentage: 119 },
+        sodium: { amount: 21, unit: 'mg', dailyPercentage: 1 },
+        zinc: { amount: 6.8, unit: 'mg', dailyPercentage: 62 }
+      }
     },
     allergens: {
       vegan: true,
@@ -2716,6 +3281,11 @@ export const productsDB: Product[] = [
     image: '/placeholder.svg',
     rating: 8.4,
     category: 'fruits',
+    subcategory: 'tropical_fruits',
+    servingSizes: [
+      { id: 'cup', label: '1 cup', labelKey: 'servingCup', grams: 165 }
+    ],
+    ingredients: ['pineapple'],
     nutrition: {
       protein: {
         description: 'Low protein content',
@@ -2758,10 +3328,16 @@ export const productsDB: Product[] = [
       sugar: 9.9,
       sodium: 1,
       cholesterol: 0,
-      vitaminC: 47.8,
-      calcium: 13,
-      iron: 0.3,
-      potassium: 109
+      micronutrients: {
+        vitamin_c: { amount: 47.8, unit: 'mg', dailyPercentage: 53 },
+        vitamin_b6: { amount: 0.1, unit: 'mg', dailyPercentage: 6 },
+        thiamine: { amount: 0.1, unit: 'mg', dailyPercentage: 8 },
+        potassium: { amount: 109, unit: 'mg', dailyPercentage: 2 },
+        iron: { amount: 0.3, unit: 'mg', dailyPercentage: 2 },
+        calcium: { amount: 13, unit: 'mg', dailyPercentage: 1 },
+        sodium: { amount: 1, unit: 'mg', dailyPercentage: 0 },
+        manganese: { amount: 0.9, unit: 'mg', dailyPercentage: 39 }
+      }
     },
     allergens: {
       vegan: true,
@@ -2798,6 +3374,11 @@ export const productsDB: Product[] = [
     image: '/placeholder.svg',
     rating: 7.1,
     category: 'vegetables',
+    subcategory: 'root_vegetables',
+    servingSizes: [
+      { id: 'cup', label: '1 cup', labelKey: 'servingCup', grams: 103 }
+    ],
+    ingredients: ['cassava'],
     nutrition: {
       protein: {
         description: 'Low protein content',
@@ -2840,10 +3421,15 @@ export const productsDB: Product[] = [
       sugar: 1.7,
       sodium: 14,
       cholesterol: 0,
-      vitaminC: 20.6,
-      calcium: 16,
-      iron: 0.3,
-      potassium: 271
+      micronutrients: {
+        vitamin_c: { amount: 20.6, unit: 'mg', dailyPercentage: 23 },
+        folate: { amount: 27, unit: 'mcg', dailyPercentage: 7 },
+        potassium: { amount: 271, unit: 'mg', dailyPercentage: 6 },
+        iron: { amount: 0.3, unit: 'mg', dailyPercentage: 2 },
+        calcium: { amount: 16, unit: 'mg', dailyPercentage: 1 },
+        magnesium: { amount: 21, unit: 'mg', dailyPercentage: 5 },
+        sodium: { amount: 14, unit: 'mg', dailyPercentage: 1 }
+      }
     },
     allergens: {
       vegan: true,
@@ -2870,6 +3456,9 @@ export const productsDB: Product[] = [
       indicatorsKeys: ['starchy_root', 'energy_source', 'gluten_free']
     },
     otherOptionsIds: ['sweet_potato_006', 'plantain_023', 'corn_018'],
+    relationships: [
+      { productId: 'sweet_potato_006', type: 'substitute' }
+    ],
     description: 'Starchy root vegetable, important source of carbohydrates',
     descriptionKey: 'yuca_026'
   },
@@ -2880,6 +3469,22 @@ export const productsDB: Product[] = [
     image: '/placeholder.svg',
     rating: 2.9,
     category: 'snacks',
+    subcategory: 'sweet_snacks',
+    servingSizes: [
+      { id: 'cookies3', label: '3 cookies', labelKey: 'servingThreeCookies', grams: 34 }
+    ],
+    ingredients: [
+      'wheat flour',
+      'sugar',
+      'palm oil',
+      'cocoa powder',
+      'whey powder',
+      'eggs',
+      'soy lecithin',
+      'salt',
+      'baking soda'
+    ],
+    additives: ['E322', 'E500'],
     nutrition: {
       protein: {
         description: 'Low protein content',
@@ -2922,10 +3527,14 @@ export const productsDB: Product[] = [
       sugar: 36.0,
       sodium: 375,
       cholesterol: 0,
-      vitaminC: 0,
-      calcium: 25,
-      iron: 2.1,
-      potassium: 90
+      micronutrients: {
+        thiamine: { amount: 0.3, unit: 'mg', dailyPercentage: 25 },
+        riboflavin: { amount: 0.2, unit: 'mg', dailyPercentage: 15 },
+        potassium: { amount: 90, unit: 'mg', dailyPercentage: 2 },
+        iron: { amount: 2.1, unit: 'mg', dailyPercentage: 12 },
+        calcium: { amount: 25, unit: 'mg', dailyPercentage: 2 },
+        sodium: { amount: 375, unit: 'mg', dailyPercentage: 16 }
+      }
     },
     allergens: {
       vegan: false,
@@ -2951,7 +3560,11 @@ export const productsDB: Product[] = [
       indicators: ['Trans oils', 'Artificial filling', 'Soy lecithin', 'Artificial aromas', 'High added sugar'],
       indicatorsKeys: ['trans_oils', 'artificial_filling', 'soy_lecithin', 'artificial_aromas', 'high_added_sugar']
     },
-    otherOptionsIds: ['oatmeal_cookies', 'nuts', 'fruit'],
+    otherOptionsIds: ['almonds_004'],
+    relationships: [
+      { productId: 'almonds_004', type: 'substitute' },
+      { productId: 'cacao_024', type: 'substitute' }
+    ],
     description: 'Sandwich cookies with artificial cream filling and hydrogenated oils',
     descriptionKey: 'cookies_015'
   }
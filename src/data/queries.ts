@@ -1,20 +1,49 @@
 
-import { Product } from './types';
+import { Product, RelationshipType } from './types';
 import { productsDB } from './products';
+import { normalizeBarcode } from '@/utils/barcodeUtils';
+import { getRelatedIds } from '@/utils/productRelationships';
+import { getProductBarcodes, getVariantSearchText } from '@/utils/productVariants';
+
+// Barcode index built on first lookup (normalized EAN-13 -> product).
+// Variant barcodes resolve to their generic product.
+let barcodeIndex: Map<string, Product> | null = null;
+
+export const buildBarcodeIndex = (products: Product[]): Map<string, Product> => {
+  const index = new Map<string, Product>();
+  for (const product of products) {
+    for (const barcode of getProductBarcodes(product)) {
+      const normalized = normalizeBarcode(barcode);
+      if (normalized) index.set(normalized, product);
+    }
+  }
+  return index;
+};
 
 // Database query functions
 export const getProductById = (id: string): Product | undefined => {
   return productsDB.find(product => product.id === id);
 };
 
+export const getProductByBarcode = (code: string): Product | undefined => {
+  const normalized = normalizeBarcode(code);
+  if (!normalized) return undefined;
+  if (!barcodeIndex) barcodeIndex = buildBarcodeIndex(productsDB);
+  return barcodeIndex.get(normalized);
+};
+
 export const getProductsByIds = (ids: string[]): Product[] => {
   return ids.map(id => getProductById(id)).filter(Boolean) as Product[];
 };
 
-export const getSimilarProducts = (productId: string): Product[] => {
+export const getRelatedProducts = (productId: string, type: RelationshipType): Product[] => {
   const product = getProductById(productId);
   if (!product) return [];
-  return getProductsByIds(product.otherOptionsIds);
+  return getProductsByIds(getRelatedIds(product, type));
+};
+
+export const getSimilarProducts = (productId: string): Product[] => {
+  return getRelatedProducts(productId, 'similar');
 };
 
 export const getProductsByCategory = (category: string): Product[] => {
@@ -25,7 +54,8 @@ export const searchProducts = (query: string): Product[] => {
   const lowercaseQuery = query.toLowerCase();
   return productsDB.filter(product => 
     product.name.toLowerCase().includes(lowercaseQuery) ||
-    product.category.toLowerCase().includes(lowercaseQuery)
+    product.category.toLowerCase().includes(lowercaseQuery) ||
+    getVariantSearchText(product).toLowerCase().includes(lowercaseQuery)
   );
 };
 
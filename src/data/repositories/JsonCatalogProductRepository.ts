@@ -0,0 +1,56 @@
+import { Product } from '../types';
+import { InMemoryProductRepository } from './ProductRepository';
+
+// Shape of a catalog file: either a bare product array or a versioned envelope
+export type JsonCatalog = Product[] | { version?: string; products: Product[] };
+
+type Fetcher = (url: string) => Promise<Response>;
+
+// Repository that reads the catalog from a JSON file served alongside the app,
+// so catalog updates can ship without recompiling products.ts
+export class JsonCatalogProductRepository extends InMemoryProductRepository {
+  private pendingLoad: Promise<Product[]> | null = null;
+
+  constructor(
+    private catalogUrl: string,
+    private fetcher: Fetcher = (url) => fetch(url)
+  ) {
+    super();
+  }
+
+  protected loadProducts(): Promise<Product[]> {
+    // Share a single in-flight request between concurrent queries
+    if (!this.pendingLoad) {
+      this.pendingLoad = this.fetchCatalog().catch(error => {
+        this.pendingLoad = null;
+        throw error;
+      });
+    }
+    return this.pendingLoad;
+  }
+
+  // Force the next query to download the catalog again
+  reload(): void {
+    this.pendingLoad = null;
+    this.invalidate();
+  }
+
+  private async fetchCatalog(): Promise<Product[]> {
+    console.log('📦 JsonCatalogProductRepository: Loading catalog from', this.catalogUrl);
+    const response = await this.fetcher(this.catalogUrl);
+
+    if (!response.ok) {
+      throw new Error(`Failed to load product catalog (${response.status})`);
+    }
+
+    const catalog: JsonCatalog = await response.json();
+    const products = Array.isArray(catalog) ? catalog : catalog?.products;
+
+    if (!Array.isArray(products)) {
+      throw new Error('Invalid product catalog: expected an array of products');
+    }
+
+    console.log(`📦 JsonCatalogProductRepository: Loaded ${products.length} products`);
+    return products;
+  }
+}
@@ -0,0 +1,94 @@
+import { Product, RelationshipType } from '../types';
+import { buildBarcodeIndex } from '../queries';
+import { normalizeBarcode } from '@/utils/barcodeUtils';
+import { getRelatedIds } from '@/utils/productRelationships';
+import { getVariantSearchText } from '@/utils/productVariants';
+
+// Async data access contract for the product catalog.
+// Implementations may read from memory, a JSON catalog file or a remote API.
+export interface ProductRepository {
+  getAllProducts(): Promise<Product[]>;
+  getProductById(id: string): Promise<Product | undefined>;
+  getProductByBarcode(code: string): Promise<Product | undefined>;
+  getProductsByIds(ids: string[]): Promise<Product[]>;
+  getSimilarProducts(productId: string): Promise<Product[]>;
+  getRelatedProducts(productId: string, type: RelationshipType): Promise<Product[]>;
+  getProductsByCategory(category: string): Promise<Product[]>;
+  searchProducts(query: string): Promise<Product[]>;
+}
+
+// Shared query logic for repositories that hold the whole catalog in memory
+export abstract class InMemoryProductRepository implements ProductRepository {
+  private productsById: Map<string, Product> | null = null;
+  private productList: Product[] | null = null;
+  private productsByBarcode: Map<string, Product> | null = null;
+
+  protected abstract loadProducts(): Promise<Product[]>;
+
+  private async getIndex(): Promise<Map<string, Product>> {
+    if (!this.productsById) {
+      const products = await this.loadProducts();
+      this.productsById = new Map(products.map(product => [product.id, product]));
+    }
+    return this.productsById;
+  }
+
+  // Drop the cached index so the next query reloads the catalog
+  protected invalidate(): void {
+    this.productsById = null;
+    this.productList = null;
+    this.productsByBarcode = null;
+  }
+
+  // The same array is returned until invalidated, so callers can cache derived indexes by reference
+  async getAllProducts(): Promise<Product[]> {
+    const index = await this.getIndex();
+    if (!this.productList) this.productList = Array.from(index.values());
+    return this.productList;
+  }
+
+  async getProductById(id: string): Promise<Product | undefined> {
+    const index = await this.getIndex();
+    return index.get(id);
+  }
+
+  async getProductByBarcode(code: string): Promise<Product | undefined> {
+    const normalized = normalizeBarcode(code);
+    if (!normalized) return undefined;
+
+    if (!this.productsByBarcode) {
+      this.productsByBarcode = buildBarcodeIndex(await this.getAllProducts());
+    }
+    return this.productsByBarcode.get(normalized);
+  }
+
+  async getProductsByIds(ids: string[]): Promise<Product[]> {
+    const index = await this.getIndex();
+    return ids.map(id => index.get(id)).filter(Boolean) as Product[];
+  }
+
+  async getSimilarProducts(productId: string): Promise<Product[]> {
+    return this.getRelatedProducts(productId, 'similar');
+  }
+
+  async getRelatedProducts(productId: string, type: RelationshipType): Promise<Product[]> {
+    const product = await this.getProductById(productId);
+    if (!product) return [];
+    return this.getProductsByIds(getRelatedIds(product, type));
+  }
+
+  async getProductsByCategory(category: string): Promise<Product[]> {
+    const products = await this.getAllProducts();
+    return products.filter(product => product.category === category);
+  }
+
+  async searchProducts(query: string): Promise<Product[]> {
+    const lowercaseQuery = query.toLowerCase();
+    const products = await this.getAllProducts();
+    return products.filter(product =>
+      product.name.toLowerCase().includes(lowercaseQuery) ||
+      product.category.toLowerCase().includes(lowercaseQuery) ||
+      getVariantSearchText(product).toLowerCase().includes(lowercaseQuery)
+    );
+  }
+}
@@ -0,0 +1,14 @@
+import { Product } from '../types';
+import { productsDB } from '../products';
+import { InMemoryProductRepository } from './ProductRepository';
+
+// Repository backed by the catalog compiled into the bundle (products.ts)
+export class StaticProductRepository extends InMemoryProductRepository {
+  constructor(private products: Product[] = productsDB) {
+    super();
+  }
+
+  protected async loadProducts(): Promise<Product[]> {
+    return this.products;
+  }
+}
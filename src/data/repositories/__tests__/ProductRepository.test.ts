@@ -0,0 +1,108 @@
+/**
+ * Pruebas unitarias para los repositorios de productos
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { StaticProductRepository } from '../StaticProductRepository';
+import { JsonCatalogProductRepository } from '../JsonCatalogProductRepository';
+import { productsDB } from '../../products';
+
+const jsonResponse = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), { status });
+
+describe('StaticProductRepository', () => {
+  const repository = new StaticProductRepository();
+
+  it('should return products by id', async () => {
+    const product = await repository.getProductById('broccoli_001');
+    expect(product?.name).toBe('Broccoli');
+    expect(await repository.getProductById('missing_999')).toBeUndefined();
+  });
+
+  it('should resolve similar products from otherOptionsIds', async () => {
+    const broccoli = productsDB.find(p => p.id === 'broccoli_001')!;
+    const similar = await repository.getSimilarProducts('broccoli_001');
+    expect(similar.map(p => p.id)).toEqual(broccoli.otherOptionsIds);
+  });
+
+  it('should resolve related products by relationship type', async () => {
+    const substitutes = await repository.getRelatedProducts('chips_009', 'substitute');
+    const variants = await repository.getRelatedProducts('chips_009', 'variant');
+
+    expect(substitutes.map(p => p.id)).toEqual(['popcorn_016', 'almonds_004']);
+    expect(variants).toEqual([]);
+  });
+
+  it('should return the same catalog array on every call', async () => {
+    expect(await repository.getAllProducts()).toBe(await repository.getAllProducts());
+  });
+
+  it('should skip unknown ids', async () => {
+    const products = await repository.getProductsByIds(['apple_002', 'missing_999']);
+    expect(products.map(p => p.id)).toEqual(['apple_002']);
+  });
+
+  it('should resolve variant barcodes and brands to the generic product', async () => {
+    expect((await repository.getProductByBarcode('5200000210019'))?.id).toBe('greek_yogurt_007');
+    expect((await repository.searchProducts('olympos')).map(p => p.id)).toEqual(['greek_yogurt_007']);
+  });
+});
+
+describe('JsonCatalogProductRepository', () => {
+  const catalog = productsDB.slice(0, 3);
+
+  it('should accept a bare product array', async () => {
+    const fetcher = vi.fn().mockResolvedValue(jsonResponse(catalog));
+    const repository = new JsonCatalogProductRepository('/catalog.json', fetcher);
+
+    expect(await repository.getAllProducts()).toHaveLength(3);
+    expect(fetcher).toHaveBeenCalledWith('/catalog.json');
+  });
+
+  it('should accept a versioned envelope', async () => {
+    const fetcher = vi.fn().mockResolvedValue(jsonResponse({ version: '2', products: catalog }));
+    const repository = new JsonCatalogProductRepository('/catalog.json', fetcher);
+
+    const product = await repository.getProductById(catalog[1].id);
+    expect(product?.id).toBe(catalog[1].id);
+  });
+
+  it('should fetch the catalog only once for concurrent queries', async () => {
+    const fetcher = vi.fn().mockResolvedValue(jsonResponse(catalog));
+    const repository = new JsonCatalogProductRepository('/catalog.json', fetcher);
+
+    await Promise.all([
+      repository.getProductById(catalog[0].id),
+      repository.searchProducts('a'),
+      repository.getProductsByCategory(catalog[0].category)
+    ]);
+    expect(fetcher).toHaveBeenCalledTimes(1);
+  });
+
+  it('should reject and allow retrying when the catalog fails to load', async () => {
+    const fetcher = vi.fn()
+      .mockResolvedValueOnce(jsonResponse({}, 500))
+      .mockResolvedValueOnce(jsonResponse(catalog));
+    const repository = new JsonCatalogProductRepository('/catalog.json', fetcher);
+
+    await expect(repository.getAllProducts()).rejects.toThrow('Failed to load product catalog');
+    expect(await repository.getAllProducts()).toHaveLength(3);
+  });
+
+  it('should look up products by EAN-13 or UPC-A barcode', async () => {
+    const packaged = { ...catalog[0], barcodes: ['036000291452'] };
+    const fetcher = vi.fn().mockResolvedValue(jsonResponse([packaged, ...catalog.slice(1)]));
+    const repository = new JsonCatalogProductRepository('/catalog.json', fetcher);
+
+    expect((await repository.getProductByBarcode('0036000291452'))?.id).toBe(packaged.id);
+    expect((await repository.getProductByBarcode('036000291452'))?.id).toBe(packaged.id);
+    expect(await repository.getProductByBarcode('036000291453')).toBeUndefined();
+  });
+
+  it('should reject malformed catalogs', async () => {
+    const fetcher = vi.fn().mockResolvedValue(jsonResponse({ items: [] }));
+    const repository = new JsonCatalogProductRepository('/catalog.json', fetcher);
+
+    await expect(repository.getAllProducts()).rejects.toThrow('Invalid product catalog');
+  });
+});
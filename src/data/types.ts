@@ -1,6 +1,8 @@
 
 // Database schemas and TypeScript interfaces
 
+import type { vitamins, minerals } from './migrationData';
+
 export interface NutritionDetails {
   description: string;
   total: number;
@@ -17,6 +19,25 @@ export interface CaloriesDetails {
   fromFat: number;
 }
 
+export type MicronutrientKey = keyof typeof vitamins | keyof typeof minerals;
+export type MicronutrientUnit = 'mg' | 'mcg';
+
+export interface MicronutrientAmount {
+  amount: number; // Per 100g
+  unit: MicronutrientUnit;
+  dailyPercentage: number;
+}
+
+export type Micronutrients = Partial<Record<MicronutrientKey, MicronutrientAmount>>;
+
+// A typical portion; nutrition values in Product are always per 100 g
+export interface ServingSize {
+  id: string;
+  label: string;      // Fallback label, e.g. "1 cup"
+  labelKey?: string;  // Optional translation key
+  grams: number;
+}
+
 export interface ProcessingLevel {
   nova: 1 | 2 | 3 | 4;
   category: 'minimal' | 'processed' | 'ultra-processed';
@@ -26,15 +47,56 @@ export interface ProcessingLevel {
   indicatorsKeys?: string[]; // Optional translation keys for indicators
 }
 
+// Mirrors product_relationships.relationship_type in the Supabase schema
+export type RelationshipType = 'similar' | 'substitute' | 'complement' | 'variant';
+
+export interface ProductRelationship {
+  productId: string; // related_product_id
+  type: RelationshipType;
+}
+
+// Per-100 g values that differ from the generic product, e.g. a low-fat brand
+export interface NutritionOverrides {
+  protein?: number;
+  carbs?: number;
+  fats?: number;
+  fiber?: number;
+  saturatedFat?: number;
+  sugar?: number;
+  sodium?: number; // mg
+  cholesterol?: number; // mg
+}
+
+export interface PackageSize {
+  amount: number;
+  unit: 'g' | 'ml';
+}
+
+// A branded/packaged item sold as the generic product ("Olympos 0% Plain" for "Greek Yogurt")
+export interface ProductVariant {
+  id: string;
+  brand: string;
+  name?: string; // Flavour or line, shown after the brand
+  packageSize?: PackageSize;
+  barcodes?: string[];
+  image?: string;
+  nutritionOverrides?: NutritionOverrides;
+}
+
 export interface Product {
   id: string;
   name: string;
   nameKey?: string; // Optional translation key
   image: string;
   rating: number;
-  category: string;
+  category: string; // Root of the category taxonomy, see data/categories
   categoryKey?: string; // Optional translation key
-  nutrition: {
+  subcategory?: string; // Most specific taxonomy node beneath category
+  barcodes?: string[]; // EAN-13 / UPC-A codes printed on packaged items
+  servingSizes?: ServingSize[];
+  ingredients?: string[]; // As printed on the label, in descending order by weight
+  additives?: string[]; // E-numbers, see ADDITIVES_DB in data/additives
+  nutrition: { // Per 100 g
     protein: NutritionDetails;
     carbs: NutritionDetails;
     fats: NutritionDetails;
@@ -46,10 +108,7 @@ export interface Product {
     sugar?: number;
     sodium?: number;
     cholesterol?: number;
-    vitaminC?: number;
-    calcium?: number;
-    iron?: number;
-    potassium?: number;
+    micronutrients: Micronutrients; // Quantities for vitamins/minerals, keyed like migrationData
   };
   allergens: {
     vegan: boolean;
@@ -67,12 +126,20 @@ export interface Product {
     sugarFree: boolean;
     keto: boolean;
   };
+  allergenTraces?: AllergenFlag[]; // "May contain traces of", only meaningful while the flag is still free
   processingLevel: ProcessingLevel;
-  otherOptionsIds: string[];
+  otherOptionsIds: string[]; // Legacy list, read as 'similar' relationships
+  relationships?: ProductRelationship[];
+  variants?: ProductVariant[];
   description?: string;
   descriptionKey?: string; // Optional translation key
 }
 
+export type AllergenFlag = keyof Product['allergens'];
+
+// Tri-state view of an allergen: the boolean flag plus the traces list
+export type AllergenStatus = 'free' | 'contains' | 'traces';
+
 export interface UserFavorites {
   userId: string;
   favoriteIds: string[];
@@ -0,0 +1,26 @@
+import { useCallback } from 'react';
+import { useUserPreferences } from '@/contexts/UserPreferencesContext';
+import { DailyValueNutrient, getDailyValueStandard } from '@/data/dailyValues';
+import { calculateDailyPercentage, getDailyPercentage } from '@/utils/nutritionCalculations';
+
+// % Daily Value against the user's personal targets when available,
+// otherwise against the reference standard chosen in the preferences
+export const useDailyValues = () => {
+  const { preferences, dailyTargets } = useUserPreferences();
+  const standard = getDailyValueStandard(preferences.dailyValueStandard);
+
+  const getPercentage = useCallback((nutrient: DailyValueNutrient, amount: number) => {
+    const personalTarget = dailyTargets?.[nutrient as keyof typeof dailyTargets];
+    if (personalTarget && personalTarget > 0) {
+      return calculateDailyPercentage(amount, personalTarget);
+    }
+    return getDailyPercentage(nutrient, amount, standard.id);
+  }, [dailyTargets, standard.id]);
+
+  return {
+    standard,
+    dailyTargets,
+    isPersonalized: dailyTargets !== null,
+    getDailyPercentage: getPercentage
+  };
+};
@@ -1,23 +1,58 @@
 
-import { useState, useEffect } from 'react';
-import { getProductById } from '@/data/database';
+import { useState, useEffect, useMemo } from 'react';
+import { Product } from '@/data/database';
+import { useProductRepository } from '@/contexts/ProductRepositoryContext';
 import { useProductTranslation } from '@/hooks/useProductTranslation';
 import { useFavoriteActions } from '@/hooks/useFavoriteActions';
+import { REFERENCE_SERVING } from '@/utils/servingSizes';
+import { applyVariant, findVariant } from '@/utils/productVariants';
 
 interface UseFoodResultsProps {
   productId: string;
+  variantId?: string;
   onSimilarProductSelect?: (product: { id: string; name: string; image: string; rating: number; status: string }) => void;
 }
 
-export const useFoodResults = ({ productId, onSimilarProductSelect }: UseFoodResultsProps) => {
+export const useFoodResults = ({ productId, variantId, onSimilarProductSelect }: UseFoodResultsProps) => {
   const { translateProductName } = useProductTranslation();
   const { getFavoriteStatus, updateFavoriteStatus } = useFavoriteActions();
+  const productRepository = useProductRepository();
   const [expandedCard, setExpandedCard] = useState<string | null>('nutri');
   const [isModalOpen, setIsModalOpen] = useState(false);
   const [isLoading, setIsLoading] = useState(false);
+  const [genericProduct, setGenericProduct] = useState<Product | undefined>(undefined);
+  const [isProductLoading, setIsProductLoading] = useState(true);
+  const [servingId, setServingId] = useState<string>(REFERENCE_SERVING.id);
 
-  // Get product data from database
-  const product = getProductById(productId);
+  // Get product data from the repository
+  useEffect(() => {
+    let cancelled = false;
+    setIsProductLoading(true);
+    setServingId(REFERENCE_SERVING.id);
+
+    productRepository.getProductById(productId)
+      .then(result => {
+        if (!cancelled) setGenericProduct(result);
+      })
+      .catch(error => {
+        console.error('Error loading product:', error);
+        if (!cancelled) setGenericProduct(undefined);
+      })
+      .finally(() => {
+        if (!cancelled) setIsProductLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [productRepository, productId]);
+
+  // Unknown variant ids fall back to the generic product
+  const variant = genericProduct ? findVariant(genericProduct, variantId) : undefined;
+  const product = useMemo(
+    () => genericProduct && applyVariant(genericProduct, variant),
+    [genericProduct, variant]
+  );
 
   // Get user status from favorites system
   const userStatus = getFavoriteStatus(productId);
@@ -67,16 +102,21 @@ export const useFoodResults = ({ productId, onSimilarProductSelect }: UseFoodRes
 
   return {
     product,
+    genericProduct,
+    variant,
+    isProductLoading,
     translatedName,
     expandedCard,
     isModalOpen,
     userStatus,
     isLoading,
+    servingId,
     handleCardClick,
     handleHeartClick,
     handleThumbsDownClick,
     handleSeeMore,
     handleSimilarProductSelect,
-    setIsModalOpen
+    setIsModalOpen,
+    setServingId
   };
 };
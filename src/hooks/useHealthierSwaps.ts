@@ -0,0 +1,45 @@
+import { useEffect, useMemo, useState } from 'react';
+import { AllergenFlag, Product } from '@/data/types';
+import { getAllergenConfig } from '@/data/allergens';
+import { useProductRepository } from '@/contexts/ProductRepositoryContext';
+import { useUserProfile } from '@/hooks/useUserProfile';
+import { healthierSwapRecommender, SwapRecommendation } from '@/services/recommendations/HealthierSwapRecommender';
+
+// Healthier alternatives for a product, skipping the allergens the user avoids
+export const useHealthierSwaps = (product?: Product) => {
+  const productRepository = useProductRepository();
+  const { profile } = useUserProfile();
+  const [catalog, setCatalog] = useState<Product[]>([]);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    productRepository.getAllProducts()
+      .then(products => {
+        if (!cancelled) setCatalog(products);
+      })
+      .catch(error => {
+        console.error('Error loading catalog for swaps:', error);
+        if (!cancelled) setCatalog([]);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [productRepository]);
+
+  // Only ids known to ALLERGENS_CONFIG map to Product.allergens flags
+  const avoidedAllergens = useMemo(() => {
+    const allergies = profile?.allergies || {};
+    return Object.keys(allergies)
+      .filter(id => allergies[id]?.avoid && getAllergenConfig(id))
+      .map(id => id as AllergenFlag);
+  }, [profile?.allergies]);
+
+  const swaps: SwapRecommendation[] = useMemo(() => {
+    if (!product || catalog.length === 0) return [];
+    return healthierSwapRecommender.recommend(product, catalog, { avoidedAllergens });
+  }, [product, catalog, avoidedAllergens]);
+
+  return { swaps, avoidedAllergens };
+};
@@ -1,7 +1,7 @@
-
-import { useMemo } from 'react';
+import { toHealthLevel } from '@/utils/healthScale';
 
 export const useNutritionColors = () => {
+  // Expects a ranking on the unified 1-10 scale
   const getColorFromRanking = (ranking: number) => {
     const colors = [
       { bg: 'bg-red-50', icon: 'bg-red-500' },     // 0 - Very poor
@@ -11,7 +11,7 @@ export const useNutritionColors = () => {
       { bg: 'bg-lime-50', icon: 'bg-lime-500' },   // 4 - Very good
       { bg: 'bg-green-50', icon: 'bg-green-500' }  // 5 - Excellent
     ];
-    return colors[Math.max(0, Math.min(5, ranking))];
+    return colors[toHealthLevel(ranking)];
   };
 
   return { getColorFromRanking };
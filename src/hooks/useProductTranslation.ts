@@ -1,6 +1,8 @@
 
+import { useCallback } from 'react';
 import { useTranslation } from 'react-i18next';
 import { Product } from '@/data/types';
+import { Additive } from '@/data/additives';
 
 type Language = 'en' | 'es';
 
@@ -8,13 +10,13 @@ export const useProductTranslation = () => {
   const { i18n, t } = useTranslation();
   const currentLanguage = (i18n.language || 'es') as Language;
 
-  // Translate product name with fallback
-  const translateProductName = (product: Product): string => {
+  // Translate product name with fallback. Stable per language so lists can memoize translated names
+  const translateProductName = useCallback((product: Product): string => {
     if (product.nameKey) {
       return t(`database:products.${product.id}.name`, { defaultValue: product.name });
     }
     return product.name;
-  };
+  }, [t]);
 
   // Translate product description with fallback
   const translateProductDescription = (product: Product): string => {
@@ -66,6 +68,21 @@ export const useProductTranslation = () => {
     return fallbackIndicators || [];
   };
 
+  // Translate additive name with fallback
+  const translateAdditiveName = (additive: Additive): string => {
+    return t(`database:additives.${additive.code}.name`, { defaultValue: additive.name });
+  };
+
+  // Translate additive explanation with fallback
+  const translateAdditiveDescription = (additive: Additive): string => {
+    return t(`database:additives.${additive.code}.description`, { defaultValue: additive.description });
+  };
+
+  // Translate additive function (colour, preservative...)
+  const translateAdditiveFunction = (additiveFunction: Additive['function']): string => {
+    return t(`database:additiveFunctions.${additiveFunction}`, { defaultValue: additiveFunction });
+  };
+
   return {
     translateProductName,
     translateProductDescription,
@@ -75,6 +92,9 @@ export const useProductTranslation = () => {
     translateProcessingCategory,
     translateProcessingDescription,
     translateProcessingIndicators,
+    translateAdditiveName,
+    translateAdditiveDescription,
+    translateAdditiveFunction,
     currentLanguage
   };
 };
@@ -0,0 +1,50 @@
+import { useCallback } from 'react';
+import { useUserPreferences } from '@/contexts/UserPreferencesContext';
+import { useNumberFormatter } from '@/hooks/useNumberFormatter';
+import {
+  MASS_UNITS,
+  VOLUME_UNITS,
+  convertEnergy,
+  convertMass,
+  convertVolume,
+  isEnergyUnit,
+  isUnitSystem
+} from '@/utils/units';
+
+// Formats stored grams, millilitres and kcal in the units chosen in the user preferences
+export const useUnits = () => {
+  const { preferences } = useUserPreferences();
+  const { formatNumber } = useNumberFormatter();
+  // Preferences may come from older local or Dropbox copies, so unknown values fall back to metric/kcal
+  const unitSystem = isUnitSystem(preferences.unitSystem) ? preferences.unitSystem : 'metric';
+  const energyUnit = isEnergyUnit(preferences.energyUnit) ? preferences.energyUnit : 'kcal';
+  const massUnit = MASS_UNITS[unitSystem];
+  const volumeUnit = VOLUME_UNITS[unitSystem];
+
+  // Ounces are ~28x larger than grams, so they need an extra decimal to stay readable
+  const formatValue = useCallback((value: number, imperial: boolean) => {
+    return imperial ? String(Math.round(value * 100) / 100) : formatNumber(Math.round(value * 10) / 10);
+  }, [formatNumber]);
+
+  const formatMass = useCallback((grams: number) => {
+    return `${formatValue(convertMass(grams, massUnit), massUnit === 'oz')} ${massUnit}`;
+  }, [formatValue, massUnit]);
+
+  const formatVolume = useCallback((milliliters: number) => {
+    return `${formatValue(convertVolume(milliliters, volumeUnit), volumeUnit === 'fl oz')} ${volumeUnit}`;
+  }, [formatValue, volumeUnit]);
+
+  const formatEnergy = useCallback((kilocalories: number) => {
+    return `${formatNumber(Math.round(convertEnergy(kilocalories, energyUnit) * 10) / 10)} ${energyUnit}`;
+  }, [formatNumber, energyUnit]);
+
+  return {
+    unitSystem,
+    energyUnit,
+    massUnit,
+    volumeUnit,
+    formatMass,
+    formatVolume,
+    formatEnergy
+  };
+};
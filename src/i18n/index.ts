@@ -18,6 +18,17 @@ const resources = {
       nutriInfo: 'Nutri info',
       allergens: 'Allergens',
       otherOptions: 'Other options',
+      whyThisScore: 'Why this score',
+      ratingBreakdownDescription: 'How each factor contributes to the rating (points out of the maximum).',
+      ratingFromFactors: 'From these factors',
+      ratingOtherFactors: 'Other factors',
+      dailyValueStandard: 'Daily value reference',
+      units: 'Units',
+      unitSystemMetric: 'Metric (g, ml)',
+      unitSystemImperial: 'Imperial (oz, fl oz)',
+      dailyValueStandardFda: 'FDA (United States)',
+      dailyValueStandardEu: 'EU Reference Intakes',
+      dailyValueStandardMercosur: 'Mercosur (Latin America)',
       protein: 'Protein',
       excellentProteinSource: 'Excellent source of protein',
       fats: 'Fats',
@@ -25,6 +36,29 @@ const resources = {
       fiber: 'Fiber',
       goodFiberSource: 'Good source of Fiber',
       seeMore: 'See more',
+      portion: 'Portion',
+      variant: 'Brand',
+      genericProduct: 'Generic',
+      queryUnknownField: 'Unknown field in "{{token}}"',
+      queryInvalidValue: 'Invalid value in "{{token}}"',
+      queryUnsupportedOperator: 'Operator not supported in "{{token}}"',
+      queryMissingValue: 'Missing value in "{{token}}"',
+      matchedSynonym: "matched '{{term}}' → {{name}}",
+      matchedIn: 'matched',
+      perPortion: 'Per {{portion}}',
+      servingCup: '1 cup',
+      servingHalfCup: '1/2 cup',
+      servingMediumFruit: '1 medium fruit',
+      servingMedium: '1 medium',
+      servingHalfFruit: '1/2 fruit',
+      servingFillet: '1 fillet',
+      servingHandful: '1 handful',
+      servingTablespoon: '1 tbsp',
+      servingContainer: '1 container',
+      servingCan: '1 can',
+      servingPacket: '1 packet',
+      servingEar: '1 ear',
+      servingThreeCookies: '3 cookies',
       retake: 'Retake',
       back: 'Back',
       noAllergens: 'No common allergens detected',
@@ -66,11 +100,41 @@ const resources = {
       searchFoodProducts: 'Search food products...',
       noSimilarProductsAvailable: 'No similar products available',
       thisProductNotContainAllergens: 'This product does not contain common allergens',
+      mayContainTraces: 'May contain traces',
+      strictAllergenMode: 'Strict mode: also exclude traces',
+      showingProductsWithoutSelectedAllergensOrTraces: 'Showing products without selected allergens or traces of them',
+      additives: 'Additives',
+      additiveRiskLow: 'Low risk',
+      additiveRiskModerate: 'Moderate risk',
+      additiveRiskHigh: 'High risk',
+      additivesSuggestNova: 'These additives are typical of NOVA {{nova}} products',
+      similarSameCategory: 'Same category',
+      similarSameProcessing: 'Same processing level',
+      similarSameAllergenProfile: 'Same dietary profile',
+      similarCalories: 'Similar calories',
+      similarProtein: 'Similar protein',
+      similarCarbs: 'Similar carbs',
+      similarFats: 'Similar fats',
+      similarFiber: 'Similar fiber',
+      similarSugar: 'Similar sugar',
+      similarSodium: 'Similar sodium',
+      healthierSwaps: 'Healthier swaps',
+      substitutes: 'Substitutes',
+      pairsWellWith: 'Pairs well with',
+      variants: 'Variants',
+      healthierSwapsDescription: 'Alternatives with a similar role and calories per serving, but better rated or less processed',
+      healthierSwapsAllergenNote: 'Products with your avoided allergens are excluded',
+      swapLessProcessed: 'Less processed (NOVA {{nova}})',
+      swapHigherRating: '+{{gain}} rating',
+      swapLessSugar: 'Less sugar',
+      swapLessSodium: 'Less sodium',
+      swapMoreFiber: 'More fiber',
       easy: 'Easy',
       medium: 'Medium',
       hard: 'Hard',
       dailyValue: '% Daily Value*',
       dailyValueNote: '*Percent Daily Values are based on a 2,000 calorie diet.',
+      dailyValuePersonalNote: '*Percent Daily Values are based on your personal target of {{calories}} calories.',
       total: 'Total',
       caloriesFrom: 'Calories from',
       showingItems: 'Showing {{from}}–{{to}} of {{total}} products',
@@ -83,6 +147,8 @@ const resources = {
       recipesDescription: "Cook with what nourishes you and makes you feel good. Recipes made for your rhythm and your taste.",
       category: 'Category',
       rating: 'Rating',
+      nutriScore: 'Nutri-Score',
+      nutriScoreOrBetter: '{{letter}} or better',
       // Greetings - regresados de dropbox
       goodMorning: "Good morning",
       goodAfternoon: "Good afternoon", 
@@ -116,7 +182,32 @@ const resources = {
         beverages: 'Beverages',
         processed_foods: 'Processed Foods',
         desserts: 'Desserts',
-        breakfast: 'Breakfast'
+        breakfast: 'Breakfast',
+        fish: 'Fish',
+        leafy_greens: 'Leafy Greens',
+        cruciferous_vegetables: 'Cruciferous Vegetables',
+        root_vegetables: 'Root Vegetables',
+        fruit_vegetables: 'Fruit Vegetables',
+        tropical_fruits: 'Tropical Fruits',
+        pome_fruits: 'Pome Fruits',
+        citrus_fruits: 'Citrus Fruits',
+        berries: 'Berries',
+        cereal_grains: 'Cereal Grains',
+        pseudocereals: 'Pseudocereals',
+        oily_fish: 'Oily Fish',
+        legumes: 'Legumes',
+        tree_nuts: 'Tree Nuts',
+        yogurt: 'Yogurt',
+        greek_yogurt: 'Greek Yogurt',
+        savory_snacks: 'Savory Snacks',
+        potato_chips: 'Potato Chips',
+        popcorn: 'Popcorn',
+        sweet_snacks: 'Sweet Snacks',
+        soft_drinks: 'Soft Drinks',
+        energy_drinks: 'Energy Drinks',
+        instant_meals: 'Instant Meals',
+        frozen_desserts: 'Frozen Desserts',
+        breakfast_cereals: 'Breakfast Cereals'
       },
       vitamins: {
         'Vitamin A': 'Vitamin A',
@@ -130,7 +221,20 @@ const resources = {
         'Thiamine': 'Thiamine',
         'Riboflavin': 'Riboflavin',
         'Niacin': 'Niacin',
-        'Folic Acid': 'Folic Acid'
+        'Folic Acid': 'Folic Acid',
+        // Catalog keys
+        vitamin_a: 'Vitamin A',
+        vitamin_b2: 'Vitamin B2',
+        vitamin_b6: 'Vitamin B6',
+        vitamin_b12: 'Vitamin B12',
+        vitamin_c: 'Vitamin C',
+        vitamin_d: 'Vitamin D',
+        vitamin_e: 'Vitamin E',
+        vitamin_k: 'Vitamin K',
+        folate: 'Folate',
+        thiamine: 'Thiamine',
+        riboflavin: 'Riboflavin',
+        niacin: 'Niacin'
       },
       minerals: {
         'Calcium': 'Calcium',
@@ -142,12 +246,26 @@ const resources = {
         'Zinc': 'Zinc',
         'Selenium': 'Selenium',
         'Manganese': 'Manganese',
-        'Copper': 'Copper'
+        'Copper': 'Copper',
+        // Catalog keys
+        calcium: 'Calcium',
+        iron: 'Iron',
+        magnesium: 'Magnesium',
+        phosphorus: 'Phosphorus',
+        potassium: 'Potassium',
+        sodium: 'Sodium',
+        zinc: 'Zinc',
+        selenium: 'Selenium',
+        manganese: 'Manganese'
       },
       processing: {
         minimal: 'Unprocessed or minimally processed foods',
         processed: 'Processed culinary ingredients',
         'ultra-processed': 'Ultra-processed food products',
+        nova_1: 'Unprocessed or minimally processed foods',
+        nova_2: 'Processed culinary ingredients',
+        nova_3: 'Processed foods',
+        nova_4: 'Ultra-processed food products',
         broccoli_processing_desc: 'Fresh unprocessed food. Raw or cooked vegetable without additives.',
         apple_processing_desc: 'Fresh fruit without processing. Natural food in its original state.',
         spinach_processing_desc: 'Fresh leafy green vegetable, without processing or additives.',
@@ -265,6 +383,18 @@ const resources = {
         energy_source: 'Energy source',
         raw: 'Raw'
       },
+      additiveFunctions: {
+        colour: 'Colour',
+        preservative: 'Preservative',
+        antioxidant: 'Antioxidant',
+        acidity_regulator: 'Acidity regulator',
+        emulsifier: 'Emulsifier',
+        thickener: 'Thickener',
+        raising_agent: 'Raising agent',
+        anti_caking: 'Anti-caking agent',
+        flavour_enhancer: 'Flavour enhancer',
+        sweetener: 'Sweetener'
+      },
       products: {
         broccoli_001: {
           name: 'Broccoli',
@@ -429,6 +559,17 @@ const resources = {
       nutriInfo: 'Info nutricional',
       allergens: 'Alérgenos',
       otherOptions: 'Otras opciones',
+      whyThisScore: 'Por qué esta calificación',
+      ratingBreakdownDescription: 'Cuánto aporta cada factor a la calificación (puntos sobre el máximo).',
+      ratingFromFactors: 'Según estos factores',
+      ratingOtherFactors: 'Otros factores',
+      dailyValueStandard: 'Referencia de valor diario',
+      units: 'Unidades',
+      unitSystemMetric: 'Métrico (g, ml)',
+      unitSystemImperial: 'Imperial (oz, fl oz)',
+      dailyValueStandardFda: 'FDA (Estados Unidos)',
+      dailyValueStandardEu: 'Ingestas de referencia UE',
+      dailyValueStandardMercosur: 'Mercosur (Latinoamérica)',
       protein: 'Proteína',
       excellentProteinSource: 'Excelente fuente de proteína',
       fats: 'Grasas',
@@ -436,6 +577,29 @@ const resources = {
       fiber: 'Fibra',
       goodFiberSource: 'Buena fuente de fibra',
       seeMore: 'Ver más',
+      portion: 'Porción',
+      variant: 'Marca',
+      genericProduct: 'Genérico',
+      queryUnknownField: 'Campo desconocido en "{{token}}"',
+      queryInvalidValue: 'Valor no válido en "{{token}}"',
+      queryUnsupportedOperator: 'Operador no admitido en "{{token}}"',
+      queryMissingValue: 'Falta el valor en "{{token}}"',
+      matchedSynonym: "coincide '{{term}}' → {{name}}",
+      matchedIn: 'coincide',
+      perPortion: 'Por {{portion}}',
+      servingCup: '1 taza',
+      servingHalfCup: '1/2 taza',
+      servingMediumFruit: '1 fruta mediana',
+      servingMedium: '1 mediano',
+      servingHalfFruit: '1/2 fruta',
+      servingFillet: '1 filete',
+      servingHandful: '1 puñado',
+      servingTablespoon: '1 cda',
+      servingContainer: '1 envase',
+      servingCan: '1 lata',
+      servingPacket: '1 paquete',
+      servingEar: '1 mazorca',
+      servingThreeCookies: '3 galletas',
       retake: 'Repetir',
       back: 'Volver',
       noAllergens: 'No se detectaron alérgenos comunes',
@@ -477,11 +641,41 @@ const resources = {
       searchFoodProducts: 'Buscar productos alimenticios...',
       noSimilarProductsAvailable: 'No hay productos similares disponibles',
       thisProductNotContainAllergens: 'Este producto no contiene alérgenos comunes',
+      mayContainTraces: 'Puede contener trazas',
+      strictAllergenMode: 'Modo estricto: excluir también trazas',
+      showingProductsWithoutSelectedAllergensOrTraces: 'Mostrando productos sin los alérgenos seleccionados ni trazas de ellos',
+      additives: 'Aditivos',
+      additiveRiskLow: 'Riesgo bajo',
+      additiveRiskModerate: 'Riesgo moderado',
+      additiveRiskHigh: 'Riesgo alto',
+      additivesSuggestNova: 'Estos aditivos son propios de productos NOVA {{nova}}',
+      similarSameCategory: 'Misma categoría',
+      similarSameProcessing: 'Mismo nivel de procesamiento',
+      similarSameAllergenProfile: 'Mismo perfil dietético',
+      similarCalories: 'Calorías similares',
+      similarProtein: 'Proteína similar',
+      similarCarbs: 'Carbohidratos similares',
+      similarFats: 'Grasas similares',
+      similarFiber: 'Fibra similar',
+      similarSugar: 'Azúcar similar',
+      similarSodium: 'Sodio similar',
+      healthierSwaps: 'Alternativas más saludables',
+      substitutes: 'Sustitutos',
+      pairsWellWith: 'Combina bien con',
+      variants: 'Variantes',
+      healthierSwapsDescription: 'Opciones con un rol y calorías por porción similares, pero mejor calificadas o menos procesadas',
+      healthierSwapsAllergenNote: 'Se excluyen los productos con los alérgenos que evitas',
+      swapLessProcessed: 'Menos procesado (NOVA {{nova}})',
+      swapHigherRating: '+{{gain}} de calificación',
+      swapLessSugar: 'Menos azúcar',
+      swapLessSodium: 'Menos sodio',
+      swapMoreFiber: 'Más fibra',
       easy: 'Fácil',
       medium: 'Medio',
       hard: 'Difícil',
       dailyValue: '% Valor Diario*',
       dailyValueNote: '*Los Valores Diarios Porcentuales están basados en una dieta de 2,000 calorías.',
+      dailyValuePersonalNote: '*Los Valores Diarios Porcentuales están basados en tu objetivo personal de {{calories}} calorías.',
       total: 'Total',
       caloriesFrom: 'Calorías de',
       showingItems: 'Mostrando {{from}}–{{to}} de {{total}} productos',
@@ -494,6 +688,8 @@ const resources = {
       recipesDescription: "Cocina con lo que te nutre y se siente bien para ti. Recetas hechas para tu ritmo y tus gustos.",
       category: 'Categoría',
       rating: 'Calificación',
+      nutriScore: 'Nutri-Score',
+      nutriScoreOrBetter: '{{letter}} o mejor',
       // Greetings - regresados de dropbox
       goodMorning: "Buenos días",
       goodAfternoon: "Buenas tardes",
@@ -527,7 +723,32 @@ const resources = {
         beverages: 'Bebidas',
         processed_foods: 'Alimentos Procesados',
         desserts: 'Postres',
-        breakfast: 'Desayuno'
+        breakfast: 'Desayuno',
+        fish: 'Pescados',
+        leafy_greens: 'Hojas Verdes',
+        cruciferous_vegetables: 'Crucíferas',
+        root_vegetables: 'Raíces y Tubérculos',
+        fruit_vegetables: 'Hortalizas de Fruto',
+        tropical_fruits: 'Frutas Tropicales',
+        pome_fruits: 'Frutas de Pepita',
+        citrus_fruits: 'Cítricos',
+        berries: 'Bayas',
+        cereal_grains: 'Cereales',
+        pseudocereals: 'Pseudocereales',
+        oily_fish: 'Pescado Azul',
+        legumes: 'Legumbres',
+        tree_nuts: 'Frutos de Árbol',
+        yogurt: 'Yogur',
+        greek_yogurt: 'Yogur Griego',
+        savory_snacks: 'Snacks Salados',
+        potato_chips: 'Papas Fritas',
+        popcorn: 'Palomitas',
+        sweet_snacks: 'Snacks Dulces',
+        soft_drinks: 'Refrescos',
+        energy_drinks: 'Bebidas Energéticas',
+        instant_meals: 'Comidas Instantáneas',
+        frozen_desserts: 'Postres Helados',
+        breakfast_cereals: 'Cereales de Desayuno'
       },
       vitamins: {
         'Vitamin A': 'Vitamina A',
@@ -541,7 +762,20 @@ const resources = {
         'Thiamine': 'Tiamina',
         'Riboflavin': 'Riboflavina',
         'Niacin': 'Niacina',
-        'Folic Acid': 'Ácido Fólico'
+        'Folic Acid': 'Ácido Fólico',
+        // Claves del catálogo
+        vitamin_a: 'Vitamina A',
+        vitamin_b2: 'Vitamina B2',
+        vitamin_b6: 'Vitamina B6',
+        vitamin_b12: 'Vitamina B12',
+        vitamin_c: 'Vitamina C',
+        vitamin_d: 'Vitamina D',
+        vitamin_e: 'Vitamina E',
+        vitamin_k: 'Vitamina K',
+        folate: 'Folato',
+        thiamine: 'Tiamina',
+        riboflavin: 'Riboflavina',
+        niacin: 'Niacina'
       },
       minerals: {
         'Calcium': 'Calcio',
@@ -553,12 +787,26 @@ const resources = {
         'Zinc': 'Zinc',
         'Selenium': 'Selenio',
         'Manganese': 'Manganeso',
-        'Copper': 'Cobre'
+        'Copper': 'Cobre',
+        // Claves del catálogo
+        calcium: 'Calcio',
+        iron: 'Hierro',
+        magnesium: 'Magnesio',
+        phosphorus: 'Fósforo',
+        potassium: 'Potasio',
+        sodium: 'Sodio',
+        zinc: 'Zinc',
+        selenium: 'Selenio',
+        manganese: 'Manganeso'
       },
       processing: {
         minimal: 'Alimentos sin procesar o mínimamente procesados',
         processed: 'Ingredientes culinarios procesados',
         'ultra-processed': 'Productos alimenticios ultraprocesados',
+        nova_1: 'Alimentos sin procesar o mínimamente procesados',
+        nova_2: 'Ingredientes culinarios procesados',
+        nova_3: 'Alimentos procesados',
+        nova_4: 'Productos alimenticios ultraprocesados',
         broccoli_processing_desc: 'Alimento fresco sin procesar. Vegetable crudo o cocido sin aditivos.',
         apple_processing_desc: 'Fruta fresca sin procesar. Alimento natural en su estado original.',
         spinach_processing_desc: 'Vegetal de hoja verde fresco, sin procesar ni aditivos.',
@@ -676,6 +924,180 @@ const resources = {
         energy_source: 'Fuente de energía',
         raw: 'Crudo'
       },
+      additiveFunctions: {
+        colour: 'Colorante',
+        preservative: 'Conservante',
+        antioxidant: 'Antioxidante',
+        acidity_regulator: 'Regulador de acidez',
+        emulsifier: 'Emulsionante',
+        thickener: 'Espesante',
+        raising_agent: 'Gasificante',
+        anti_caking: 'Antiaglomerante',
+        flavour_enhancer: 'Potenciador del sabor',
+        sweetener: 'Edulcorante'
+      },
+      additives: {
+        E100: {
+          name: 'Curcumina',
+          description: 'Colorante amarillo extraído de la cúrcuma.'
+        },
+        E101: {
+          name: 'Riboflavina',
+          description: 'Vitamina B2 usada como colorante amarillo.'
+        },
+        E102: {
+          name: 'Tartracina',
+          description: 'Colorante amarillo sintético; en la UE debe advertir que puede afectar la actividad y la atención de los niños.'
+        },
+        E110: {
+          name: 'Amarillo ocaso FCF',
+          description: 'Colorante naranja sintético con la advertencia europea sobre la atención infantil.'
+        },
+        E129: {
+          name: 'Rojo allura AC',
+          description: 'Colorante rojo sintético (FD&C Red 40) con la advertencia europea sobre la atención infantil.'
+        },
+        E133: {
+          name: 'Azul brillante FCF',
+          description: 'Colorante azul sintético (FD&C Blue 1); autorizado, pero con una ingesta diaria admisible baja.'
+        },
+        E150a: {
+          name: 'Caramelo natural',
+          description: 'Colorante marrón obtenido calentando azúcares.'
+        },
+        E150d: {
+          name: 'Caramelo de sulfito amónico',
+          description: 'Colorante típico de las colas; puede contener 4-MEI, un subproducto en revisión.'
+        },
+        E160a: {
+          name: 'Carotenos',
+          description: 'Pigmentos naranjas presentes en la zanahoria, también fuente de vitamina A.'
+        },
+        E171: {
+          name: 'Dióxido de titanio',
+          description: 'Pigmento blanco prohibido en alimentos en la UE desde 2022 por dudas de genotoxicidad.'
+        },
+        E200: {
+          name: 'Ácido sórbico',
+          description: 'Evita el crecimiento de mohos y levaduras.'
+        },
+        E202: {
+          name: 'Sorbato potásico',
+          description: 'Sal del ácido sórbico usada contra mohos y levaduras.'
+        },
+        E211: {
+          name: 'Benzoato sódico',
+          description: 'Habitual en refrescos; junto con la vitamina C puede formar benceno.'
+        },
+        E220: {
+          name: 'Dióxido de azufre',
+          description: 'Se usa en vino y fruta deshidratada; puede provocar asma en personas sensibles.'
+        },
+        E250: {
+          name: 'Nitrito sódico',
+          description: 'Cura las carnes procesadas; forma nitrosaminas asociadas al cáncer colorrectal.'
+        },
+        E300: {
+          name: 'Ácido ascórbico',
+          description: 'Vitamina C, evita el pardeamiento y el enranciamiento.'
+        },
+        E306: {
+          name: 'Tocoferoles',
+          description: 'Extractos de vitamina E que protegen las grasas de la oxidación.'
+        },
+        E320: {
+          name: 'Butilhidroxianisol (BHA)',
+          description: 'Antioxidante sintético para grasas, clasificado como posible carcinógeno.'
+        },
+        E321: {
+          name: 'Butilhidroxitolueno (BHT)',
+          description: 'Antioxidante sintético que evita el enranciamiento de las grasas; su seguridad sigue en debate.'
+        },
+        E270: {
+          name: 'Ácido láctico',
+          description: 'Ácido producido por fermentación.'
+        },
+        E330: {
+          name: 'Ácido cítrico',
+          description: 'Ácido presente de forma natural en los cítricos, aporta acidez.'
+        },
+        E331: {
+          name: 'Citratos de sodio',
+          description: 'Sales del ácido cítrico que estabilizan la acidez.'
+        },
+        E338: {
+          name: 'Ácido fosfórico',
+          description: 'Da a las colas su sabor ácido; un consumo alto se asocia a menor densidad ósea.'
+        },
+        E322: {
+          name: 'Lecitinas',
+          description: 'Normalmente de soja o girasol, mantiene mezcladas la grasa y el agua.'
+        },
+        E407: {
+          name: 'Carragenano',
+          description: 'Extracto de algas que gelifica los lácteos; puede irritar el intestino.'
+        },
+        E412: {
+          name: 'Goma guar',
+          description: 'Fibra de la semilla de guar que espesa y estabiliza.'
+        },
+        E415: {
+          name: 'Goma xantana',
+          description: 'Goma obtenida por fermentación que espesa salsas y aderezos.'
+        },
+        E440: {
+          name: 'Pectinas',
+          description: 'Fibra de fruta usada para cuajar mermeladas y jaleas.'
+        },
+        E466: {
+          name: 'Carboximetilcelulosa',
+          description: 'Celulosa modificada; estudios en animales sugieren que altera la microbiota intestinal.'
+        },
+        E471: {
+          name: 'Mono- y diglicéridos de ácidos grasos',
+          description: 'Emulsionante común en helados y bollería; puede contener grasas trans.'
+        },
+        E450: {
+          name: 'Difosfatos',
+          description: 'Gasificante fosfatado; suma a la ingesta total de fosfatos.'
+        },
+        E500: {
+          name: 'Carbonatos de sodio',
+          description: 'Incluye el bicarbonato, libera gas para que las masas suban.'
+        },
+        E551: {
+          name: 'Dióxido de silicio',
+          description: 'Mantiene sueltos los productos en polvo.'
+        },
+        E621: {
+          name: 'Glutamato monosódico',
+          description: 'Aporta sabor umami y sodio; puede causar síntomas en personas sensibles.'
+        },
+        E627: {
+          name: 'Guanilato disódico',
+          description: 'Potenciador umami que suele acompañar al glutamato.'
+        },
+        E631: {
+          name: 'Inosinato disódico',
+          description: 'Potenciador umami que suele acompañar al glutamato.'
+        },
+        E950: {
+          name: 'Acesulfamo K',
+          description: 'Edulcorante sin calorías, a menudo mezclado con aspartamo.'
+        },
+        E951: {
+          name: 'Aspartamo',
+          description: 'Edulcorante sin calorías clasificado como posible carcinógeno; no apto para personas con fenilcetonuria.'
+        },
+        E955: {
+          name: 'Sucralosa',
+          description: 'Edulcorante sin calorías, estable al calor, elaborado a partir de azúcar.'
+        },
+        E960: {
+          name: 'Glucósidos de esteviol',
+          description: 'Edulcorante extraído de la planta de estevia.'
+        }
+      },
       products: {
         broccoli_001: {
           name: 'Brócoli',
@@ -28,6 +28,21 @@ export const dropboxTranslations = {
     save: "Save",
     saving: "Saving...",
     cancel: "Cancel",
+    age: "Age",
+    sex: "Sex",
+    male: "Male",
+    female: "Female",
+    weightKg: "Weight (kg)",
+    heightCm: "Height (cm)",
+    activityLevel: "Activity level",
+    activitySedentary: "Sedentary",
+    activityLight: "Lightly active",
+    activityModerate: "Moderately active",
+    activityActive: "Very active",
+    activityVeryActive: "Extra active",
+    dailyTargetsHint: "Fill in every field to compute your daily values from your own calorie and macro targets.",
+    dailyTargetsSummary: "Your daily target: {{calories}} kcal",
+    dailyTargetsImplausible: "These values don't give a plausible calorie target. Check your age, weight and height.",
     
     // Allergens
     selectAllergensTitle: "Select Allergens to Avoid",
@@ -75,6 +90,21 @@ export const dropboxTranslations = {
     save: "Guardar",
     saving: "Guardando...",
     cancel: "Cancelar",
+    age: "Edad",
+    sex: "Sexo",
+    male: "Hombre",
+    female: "Mujer",
+    weightKg: "Peso (kg)",
+    heightCm: "Altura (cm)",
+    activityLevel: "Nivel de actividad",
+    activitySedentary: "Sedentario",
+    activityLight: "Poco activo",
+    activityModerate: "Moderadamente activo",
+    activityActive: "Muy activo",
+    activityVeryActive: "Extremadamente activo",
+    dailyTargetsHint: "Completa todos los campos para calcular tus valores diarios con tus propios objetivos de calorías y macros.",
+    dailyTargetsSummary: "Tu objetivo diario: {{calories}} kcal",
+    dailyTargetsImplausible: "Con estos datos no sale un objetivo de calorías plausible. Revisa tu edad, peso y altura.",
     
     // Allergens
     selectAllergensTitle: "Seleccionar Alérgenos a Evitar",
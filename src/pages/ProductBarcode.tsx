@@ -0,0 +1,70 @@
+import React, { useEffect, useState } from 'react';
+import { useParams, useNavigate, useSearchParams } from 'react-router-dom';
+import Layout from '@/components/Layout';
+import ProductNotFound from '@/components/ProductNotFound';
+import { useProductRepository } from '@/contexts/ProductRepositoryContext';
+import { useProductTranslation } from '@/hooks/useProductTranslation';
+import { getProductSlug } from '@/utils/productUtils';
+import { findVariantByBarcode } from '@/utils/productVariants';
+import { useTranslation } from 'react-i18next';
+
+const ProductBarcode: React.FC = () => {
+  const { code } = useParams<{ code: string }>();
+  const [searchParams] = useSearchParams();
+  const navigate = useNavigate();
+  const { currentLanguage } = useProductTranslation();
+  const { t } = useTranslation();
+  const productRepository = useProductRepository();
+  const [notFound, setNotFound] = useState(false);
+
+  // Resolve the barcode and hand over to the regular product detail page
+  useEffect(() => {
+    let cancelled = false;
+    setNotFound(false);
+
+    productRepository.getProductByBarcode(code || '')
+      .then(product => {
+        if (cancelled) return;
+        if (product) {
+          const slug = getProductSlug(product, currentLanguage);
+          // Branded barcodes open the generic product with that variant selected
+          const params = new URLSearchParams();
+          const variant = findVariantByBarcode(product, code || '');
+          const referrer = searchParams.get('referrer');
+          if (variant) params.set('variant', variant.id);
+          if (referrer) params.set('referrer', referrer);
+          const query = params.toString();
+          navigate(`/product/${slug}${query ? `?${query}` : ''}`, { replace: true });
+        } else {
+          console.log('🔎 ProductBarcode: No product found for barcode', code);
+          setNotFound(true);
+        }
+      })
+      .catch(error => {
+        console.error('Error looking up barcode:', error);
+        if (!cancelled) setNotFound(true);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [productRepository, code, currentLanguage, navigate, searchParams]);
+
+  const headerProps = {
+    title: t('productDetails'),
+    showBackButton: true,
+    showAvatar: true
+  };
+
+  return (
+    <Layout
+      currentView="results"
+      showBottomNav={true}
+      headerProps={headerProps}
+    >
+      {notFound ? <ProductNotFound /> : null}
+    </Layout>
+  );
+};
+
+export default ProductBarcode;
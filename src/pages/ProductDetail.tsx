@@ -1,11 +1,12 @@
 
-import React from 'react';
-import { useParams, useNavigate } from 'react-router-dom';
+import React, { useEffect, useState } from 'react';
+import { useParams, useNavigate, useSearchParams } from 'react-router-dom';
 import { ArrowLeft } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import Layout from '@/components/Layout';
 import FoodResults from '@/components/FoodResults';
-import { productsDB, getProductById } from '@/data/database';
+import { Product } from '@/data/database';
+import { useProductRepository } from '@/contexts/ProductRepositoryContext';
 import { getProductBySlug, getProductSlug } from '@/utils/productUtils';
 import { useProductTranslation } from '@/hooks/useProductTranslation';
 import { useTranslation } from 'react-i18next';
@@ -13,13 +14,54 @@ import { useTranslation } from 'react-i18next';
 const ProductDetail: React.FC = () => {
   const { productSlug } = useParams<{ productSlug: string }>();
   const navigate = useNavigate();
+  const [searchParams, setSearchParams] = useSearchParams();
   const { currentLanguage } = useProductTranslation();
   const { t } = useTranslation();
-  
-  const product = productSlug ? getProductBySlug(productsDB, productSlug) : undefined;
+  const productRepository = useProductRepository();
+  const [product, setProduct] = useState<Product | undefined>(undefined);
+  const [isResolving, setIsResolving] = useState(true);
 
-  const handleSimilarProductSelect = (selectedProduct: { id: string; name: string; image: string; rating: number; status: string }) => {
-    const productData = getProductById(selectedProduct.id);
+  // Resolve the slug against the catalog provided by the repository
+  useEffect(() => {
+    let cancelled = false;
+    setIsResolving(true);
+
+    productRepository.getAllProducts()
+      .then(products => {
+        if (!cancelled) {
+          setProduct(productSlug ? getProductBySlug(products, productSlug) : undefined);
+        }
+      })
+      .catch(error => {
+        console.error('Error resolving product slug:', error);
+        if (!cancelled) setProduct(undefined);
+      })
+      .finally(() => {
+        if (!cancelled) setIsResolving(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [productRepository, productSlug]);
+
+  // The selected brand variant lives in the URL so scanned and shared links keep it
+  const variantId = searchParams.get('variant') || undefined;
+
+  const handleVariantChange = (nextVariantId?: string) => {
+    setSearchParams(params => {
+      const next = new URLSearchParams(params);
+      if (nextVariantId) {
+        next.set('variant', nextVariantId);
+      } else {
+        next.delete('variant');
+      }
+      return next;
+    }, { replace: true });
+  };
+
+  const handleSimilarProductSelect = async (selectedProduct: { id: string; name: string; image: string; rating: number; status: string }) => {
+    const productData = await productRepository.getProductById(selectedProduct.id);
     if (productData) {
       const slug = getProductSlug(productData, currentLanguage);
       navigate(`/product/${slug}`);
@@ -38,12 +80,14 @@ const ProductDetail: React.FC = () => {
       showBottomNav={true}
       headerProps={headerProps}
     >
-      {product ? (
+      {isResolving ? null : product ? (
         <FoodResults
           foodName={product.name}
           foodImage={product.image}
           rating={product.rating}
           productId={product.id}
+          variantId={variantId}
+          onVariantChange={handleVariantChange}
           onSimilarProductSelect={handleSimilarProductSelect}
         />
       ) : (
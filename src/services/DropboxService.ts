@@ -1,5 +1,6 @@
 
 import { DropboxConfig, UserInfo } from '../types/dropbox-auth';
+import { UserPreferences } from '../types/userData';
 import { TokenManager } from './dropbox/TokenManager';
 import { DropboxAPI } from './dropbox/DropboxAPI';
 import { DropboxAuthService } from './dropbox/DropboxAuthService';
@@ -103,13 +104,13 @@ class DropboxService {
   }
 
   // Update user info - now supports updating any section of the JSON
-  async updateUserInfo(userInfo: UserInfo, allergies?: Record<string, { avoid: boolean }>, favorites?: Record<string, { status: 'heart' | 'thumb-down' }>): Promise<boolean> {
+  async updateUserInfo(userInfo: UserInfo, allergies?: Record<string, { avoid: boolean }>, favorites?: Record<string, { status: 'heart' | 'thumb-down' }>, preferences?: Partial<UserPreferences>): Promise<boolean> {
     const accessToken = await this.ensureValidToken();
     if (!accessToken) {
       throw new Error('Not authenticated');
     }
 
-    return this.userService.updateUserInfo(accessToken, userInfo, allergies, favorites);
+    return this.userService.updateUserInfo(accessToken, userInfo, allergies, favorites, preferences);
   }
 
   // Get user allergies from JSON
@@ -131,6 +132,16 @@ class DropboxService {
 
     return this.userService.getUserFavorites(accessToken);
   }
+
+  // Get user preferences from JSON
+  async getUserPreferences(): Promise<Partial<UserPreferences> | null> {
+    const accessToken = await this.ensureValidToken();
+    if (!accessToken) {
+      throw new Error('Not authenticated');
+    }
+
+    return this.userService.getUserPreferences(accessToken);
+  }
 }
 
 export default DropboxService;
@@ -1,6 +1,15 @@
 
 import { QueryEngine } from './QueryEngine';
-import { FilterDefinition, Searchable, FilterCriteria } from '@/types/search';
+import { FilterDefinition, Searchable, FilterCriteria, QueryOptions } from '@/types/search';
+import { AllergenFlag, AllergenStatus, Product } from '@/data/types';
+import { getAllergenStatus } from '@/utils/allergenStatus';
+import { isMicronutrientKey } from '@/data/micronutrients';
+import { DailyValueNutrient, DailyValueStandardId } from '@/data/dailyValues';
+import { getDailyPercentage } from '@/utils/nutritionCalculations';
+import { getCategoryDescendants, getProductCategoryId } from '@/data/categories';
+import { nutriScoreCalculator, isNutriScoreAtLeast, NutriScoreLetter } from './scoring/NutriScoreCalculator';
+import { TextNormalizationService } from './search/TextNormalizationService';
+import i18n from '@/i18n';
 
 // Create a generic query engine instance
 export const queryEngine = new QueryEngine<Searchable>();
@@ -11,9 +20,12 @@ const categoryFilter: FilterDefinition = {
   label: 'Category',
   component: null as any, // Will be set by components
   applyFilter: (items: Searchable[], criteria: FilterCriteria) => {
-    return items.filter(item => 
-      (item as any).category === criteria.value
-    );
+    // A category matches products in it and in any of its subcategories
+    const accepted = new Set([criteria.value, ...getCategoryDescendants(criteria.value)]);
+    const inCategory = (item: Searchable) =>
+      Boolean(item.category) && accepted.has(getProductCategoryId(item as unknown as Product));
+    // 'not_in' excludes the category, e.g. "-categoria:snacks" in the search box
+    return items.filter(item => criteria.operator === 'not_in' ? !inCategory(item) : inCategory(item));
   }
 };
 
@@ -23,11 +35,17 @@ const allergenFilter: FilterDefinition = {
   component: null as any,
   applyFilter: (items: Searchable[], criteria: FilterCriteria) => {
     return items.filter(item => {
-      const allergens = (item as any).allergens;
-      if (!allergens) return false;
+      const product = item as unknown as Product;
+      if (!product.allergens) return false;
       // criteria.field is the allergen type (e.g., 'glutenFree')
-      // criteria.value is true (meaning we want products that are safe for this allergen)
-      return allergens[criteria.field] === criteria.value;
+      // With operator 'in', criteria.value lists the accepted statuses: ['free'] is strict mode,
+      // ['free', 'traces'] also accepts "may contain traces"
+      if (criteria.operator === 'in') {
+        const accepted = criteria.value as AllergenStatus[];
+        return accepted.includes(getAllergenStatus(product, criteria.field as AllergenFlag));
+      }
+      // Legacy boolean criteria: true means the product is safe for this allergen
+      return product.allergens[criteria.field as AllergenFlag] === criteria.value;
     });
   }
 };
@@ -57,23 +75,43 @@ const ratingFilter: FilterDefinition = {
   }
 };
 
+// Micronutrients can be queried by key ('iron' -> amount) or by a sub-field ('iron.dailyPercentage')
+const resolveNutritionValue = (nutrition: Product['nutrition'], field: string, standardId?: DailyValueStandardId): unknown => {
+  let fieldParts = field.split('.');
+
+  if (!(fieldParts[0] in nutrition) && isMicronutrientKey(fieldParts[0])) {
+    fieldParts = ['micronutrients', fieldParts[0], fieldParts[1] || 'amount'];
+  }
+
+  // The stored dailyPercentage is relative to the FDA values; recompute it from
+  // the amount under the selected standard, as the product detail does
+  if (fieldParts[0] === 'micronutrients' && fieldParts[2] === 'dailyPercentage') {
+    const micronutrient = nutrition.micronutrients?.[fieldParts[1] as keyof typeof nutrition.micronutrients];
+    if (!micronutrient) return undefined;
+    return getDailyPercentage(fieldParts[1] as DailyValueNutrient, micronutrient.amount, standardId)
+      ?? micronutrient.dailyPercentage;
+  }
+
+  let value: unknown = nutrition;
+  for (const part of fieldParts) {
+    value = (value as Record<string, unknown>)?.[part];
+    if (value === undefined) return undefined;
+  }
+  return value;
+};
+
 const nutritionFilter: FilterDefinition = {
   type: 'nutrition',
   label: 'Nutrition',
   component: null as any,
-  applyFilter: (items: Searchable[], criteria: FilterCriteria) => {
+  applyFilter: (items: Searchable[], criteria: FilterCriteria, options?: QueryOptions) => {
     return items.filter(item => {
       const nutrition = (item as any).nutrition;
       if (!nutrition) return false;
       
       // criteria.field could be like 'protein.total', 'calories.total', etc.
-      const fieldParts = criteria.field.split('.');
-      let value = nutrition;
-      
-      for (const part of fieldParts) {
-        value = value?.[part];
-        if (value === undefined) return false;
-      }
+      const value = resolveNutritionValue(nutrition, criteria.field, options?.dailyValueStandard) as number;
+      if (value === undefined) return false;
       
       switch (criteria.operator) {
         case 'gte':
@@ -91,8 +129,86 @@ const nutritionFilter: FilterDefinition = {
   }
 };
 
+const nutriScoreFilter: FilterDefinition = {
+  type: 'nutriScore',
+  label: 'Nutri-Score',
+  component: null,
+  applyFilter: (items: Searchable[], criteria: FilterCriteria) => {
+    return items.filter(item => {
+      if (!item.nutrition) return false;
+      const { letter } = nutriScoreCalculator.calculateForProduct(item as unknown as Product);
+
+      switch (criteria.operator) {
+        case 'lte':
+          // 'lte' means the letter is at least as good as criteria.value (A <= B <= ... <= E)
+          return isNutriScoreAtLeast(letter, criteria.value as NutriScoreLetter);
+        case 'in':
+          return (criteria.value as NutriScoreLetter[]).includes(letter);
+        default:
+          return letter === criteria.value;
+      }
+    });
+  }
+};
+
+const processingFilter: FilterDefinition = {
+  type: 'processing',
+  label: 'Processing',
+  component: null,
+  applyFilter: (items: Searchable[], criteria: FilterCriteria) => {
+    return items.filter(item => {
+      // criteria.field is 'nova', the only numeric processing attribute
+      const nova = (item as unknown as Product).processingLevel?.nova;
+      if (!nova) return false;
+
+      switch (criteria.operator) {
+        case 'gte':
+          return nova >= criteria.value;
+        case 'lte':
+          return nova <= criteria.value;
+        case 'gt':
+          return nova > criteria.value;
+        case 'lt':
+          return nova < criteria.value;
+        default:
+          return nova === criteria.value;
+      }
+    });
+  }
+};
+
+const normalizeText = (text: string): string => TextNormalizationService.normalize(text, {}, 'standard');
+
+// Free-text filter from the search box query language ("-manzana" uses 'not_in').
+// Compares the name and category label in every language; the bundles are read
+// once per call instead of building a search index for the filtered array
+const textFilter: FilterDefinition = {
+  type: 'text',
+  label: 'Text',
+  component: null,
+  applyFilter: (items: Searchable[], criteria: FilterCriteria) => {
+    const term = normalizeText(String(criteria.value));
+    if (!term) return items;
+
+    const bundles = Object.keys(i18n.options?.resources || {})
+      .map(language => i18n.getResourceBundle(language, 'database') || {});
+    const containsTerm = (item: Searchable) => {
+      const texts = [item.name, item.category, ...bundles.flatMap(bundle => [
+        bundle.products?.[item.id]?.name,
+        item.category && bundle.categories?.[item.category]
+      ])];
+      return texts.some(text => typeof text === 'string' && normalizeText(text).includes(term));
+    };
+
+    return items.filter(item => criteria.operator === 'not_in' ? !containsTerm(item) : containsTerm(item));
+  }
+};
+
 // Register all filters
 queryEngine.registerFilter(categoryFilter);
 queryEngine.registerFilter(allergenFilter);
 queryEngine.registerFilter(ratingFilter);
 queryEngine.registerFilter(nutritionFilter);
+queryEngine.registerFilter(nutriScoreFilter);
+queryEngine.registerFilter(processingFilter);
+queryEngine.registerFilter(textFilter);
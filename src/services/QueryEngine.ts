@@ -1,6 +1,7 @@
 
 import { Searchable, FilterCriteria, QueryOptions, QueryResult, FilterDefinition } from '@/types/search';
 import { HybridSearchEngine } from './search/HybridSearchEngine';
+import { SearchResult } from './search/types';
 
 export class QueryEngine<T extends Searchable> {
   private filterRegistry: Map<string, FilterDefinition> = new Map();
@@ -13,25 +14,30 @@ export class QueryEngine<T extends Searchable> {
   executeQuery(items: T[], options: QueryOptions = {}): QueryResult<T> {
     let filteredItems = [...items];
     const appliedFilters: FilterCriteria[] = [];
-
-    // Inicializar/actualizar motor de búsqueda si es necesario
-    if (!this.searchEngine) {
-      this.searchEngine = new HybridSearchEngine(items);
-    } else {
-      this.searchEngine.updateItems(items);
-    }
+    let matches: Map<string, SearchResult<T>> | undefined;
 
     // Aplicar búsqueda de texto con el nuevo motor híbrido
     if (options.searchTerm && options.searchTerm.trim()) {
+      // Inicializar/actualizar motor de búsqueda; el índice solo se reconstruye
+      // cuando cambia el array de items
+      if (!this.searchEngine) {
+        this.searchEngine = new HybridSearchEngine(items);
+      } else {
+        this.searchEngine.updateItems(items);
+      }
+
       console.log('QueryEngine: Executing hybrid search for:', options.searchTerm);
       
       const searchResults = this.searchEngine.search(options.searchTerm, {
         threshold: 0.4,
-        maxResults: 1000 // Sin límite para mantener compatibilidad
+        maxResults: 1000, // Sin límite para mantener compatibilidad
+        language: options.language
       });
 
-      // Extraer items de los resultados de búsqueda
+      // Extraer items de los resultados de búsqueda; el resultado completo queda
+      // disponible por id para resaltar lo que coincidió
       filteredItems = searchResults.map(result => result.item);
+      matches = new Map(searchResults.map(result => [result.item.id, result]));
       
       console.log(`QueryEngine: Search found ${filteredItems.length} results`);
     }
@@ -41,7 +47,7 @@ export class QueryEngine<T extends Searchable> {
       for (const filter of options.filters) {
         const filterDef = this.filterRegistry.get(filter.type);
         if (filterDef) {
-          filteredItems = filterDef.applyFilter(filteredItems, filter) as T[];
+          filteredItems = filterDef.applyFilter(filteredItems, filter, options) as T[];
           appliedFilters.push(filter);
         }
       }
@@ -63,7 +69,8 @@ export class QueryEngine<T extends Searchable> {
     return {
       items: filteredItems,
       totalCount: filteredItems.length,
-      appliedFilters
+      appliedFilters,
+      matches
     };
   }
 
@@ -176,12 +176,14 @@ class UserDataService {
       const remoteData = await this.dropboxService.getUserInfo();
       const remoteAllergies = await this.dropboxService.getUserAllergies();
       const remoteFavorites = await this.dropboxService.getUserFavorites();
+      const remotePreferences = await this.dropboxService.getUserPreferences();
       
       if (remoteData) {
         const profile: UserProfile = { 
-          nombre: remoteData.nombre,
+          ...remoteData,
           allergies: remoteAllergies || {},
-          favorites: remoteFavorites || {}
+          favorites: remoteFavorites || {},
+          preferences: remotePreferences || {}
         };
         
         const fileMetadata = await this.getFileMetadata();
@@ -221,12 +223,14 @@ class UserDataService {
         const remoteData = await this.dropboxService!.getUserInfo();
         const remoteAllergies = await this.dropboxService!.getUserAllergies();
         const remoteFavorites = await this.dropboxService!.getUserFavorites();
+        const remotePreferences = await this.dropboxService!.getUserPreferences();
         
         if (remoteData) {
           const profile: UserProfile = { 
-            nombre: remoteData.nombre,
+            ...remoteData,
             allergies: remoteAllergies || {},
-            favorites: remoteFavorites || {}
+            favorites: remoteFavorites || {},
+            preferences: remotePreferences || {}
           };
           
           const fileMetadata = await this.getFileMetadata();
@@ -274,8 +278,9 @@ class UserDataService {
     try {
       this.emitEvent('profile-sync-start');
       
-      const dropboxUserInfo: DropboxUserInfo = { nombre: profile.nombre };
-      const success = await this.dropboxService.updateUserInfo(dropboxUserInfo, profile.allergies, profile.favorites);
+      const { nombre, edad, sex, weight, height, activityLevel } = profile;
+      const dropboxUserInfo: DropboxUserInfo = { nombre, edad, sex, weight, height, activityLevel };
+      const success = await this.dropboxService.updateUserInfo(dropboxUserInfo, profile.allergies, profile.favorites, profile.preferences);
       
       if (success) {
         const syncedMetadata: CacheMetadata = {
@@ -327,12 +332,14 @@ class UserDataService {
       const realData = await this.dropboxService!.getUserInfo();
       const realAllergies = await this.dropboxService!.getUserAllergies();
       const realFavorites = await this.dropboxService!.getUserFavorites();
+      const realPreferences = await this.dropboxService!.getUserPreferences();
       
       if (realData) {
         const realProfile: UserProfile = { 
-          nombre: realData.nombre,
+          ...realData,
           allergies: realAllergies || {},
-          favorites: realFavorites || {}
+          favorites: realFavorites || {},
+          preferences: realPreferences || {}
         };
         
         const fileMetadata = await this.getFileMetadata();
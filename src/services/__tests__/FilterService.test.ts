@@ -0,0 +1,129 @@
+/**
+ * Pruebas unitarias para los filtros registrados en FilterService
+ */
+
+import { describe, it, expect } from 'vitest';
+import { queryEngine } from '../FilterService';
+import { productsDB } from '@/data/products';
+
+describe('FilterService', () => {
+  type Options = Parameters<typeof queryEngine.executeQuery>[1];
+  const filterIds = (filters: Options['filters'], options: Options = {}) =>
+    queryEngine.executeQuery(productsDB, { ...options, filters }).items.map(item => item.id);
+
+  describe('category filter', () => {
+    const category = (value: string) => filterIds([{ type: 'category', field: 'category', value, operator: 'equals' }]);
+
+    it('should match a category and all of its descendants', () => {
+      expect(category('dairy')).toEqual(['greek_yogurt_007']);
+      expect(category('yogurt')).toEqual(['greek_yogurt_007']);
+      expect(category('snacks').sort()).toEqual(['cacao_024', 'chips_009', 'cookies_015', 'popcorn_016']);
+      expect(category('savory_snacks').sort()).toEqual(['chips_009', 'popcorn_016']);
+    });
+
+    it('should not match sibling subcategories', () => {
+      const ids = category('pome_fruits');
+      expect(ids.sort()).toEqual(['apple_002', 'pear_008']);
+    });
+  });
+
+  describe('nutrition filter', () => {
+    it('should query micronutrient amounts by path', () => {
+      const ids = filterIds([{ type: 'nutrition', field: 'micronutrients.iron.amount', value: 3, operator: 'gte' }]);
+
+      expect(ids).toEqual(expect.arrayContaining(['almonds_004', 'chia_seeds_008', 'cereal_014']));
+      expect(ids).not.toContain('apple_002');
+    });
+
+    it('should resolve micronutrient keys and %DV shorthands', () => {
+      const byKey = filterIds([{ type: 'nutrition', field: 'iron', value: 3, operator: 'gte' }]);
+      const byPath = filterIds([{ type: 'nutrition', field: 'micronutrients.iron.amount', value: 3, operator: 'gte' }]);
+      const byDailyValue = filterIds([{ type: 'nutrition', field: 'vitamin_c.dailyPercentage', value: 100, operator: 'gte' }]);
+
+      expect(byKey).toEqual(byPath);
+      expect(byDailyValue).toEqual(['kale_005']);
+    });
+
+    it('should compute %DV from the amount under the selected standard', () => {
+      const calciumSource = [{ type: 'nutrition', field: 'micronutrients.calcium.dailyPercentage', value: 10, operator: 'gte' as const }];
+      const fda = filterIds(calciumSource, { dailyValueStandard: 'fda' });
+      const eu = filterIds(calciumSource, { dailyValueStandard: 'eu' });
+
+      // 110 mg of calcium is 8% of the FDA 1300 mg but 14% of the EU 800 mg
+      expect(fda).not.toContain('greek_yogurt_007');
+      expect(eu).toEqual(expect.arrayContaining([...fda, 'greek_yogurt_007', 'spinach_003']));
+      expect(filterIds(calciumSource)).toEqual(fda);
+    });
+
+    it('should exclude products without the requested micronutrient', () => {
+      const ids = filterIds([{ type: 'nutrition', field: 'selenium', value: 0, operator: 'gte' }]);
+      expect(ids).toEqual(['salmon_003']);
+    });
+  });
+
+  describe('allergen filter', () => {
+    it('should accept products with traces unless strict mode is on', () => {
+      const relaxed = filterIds([{ type: 'allergen', field: 'nutFree', value: ['free', 'traces'], operator: 'in' }]);
+      const strict = filterIds([{ type: 'allergen', field: 'nutFree', value: ['free'], operator: 'in' }]);
+
+      expect(relaxed).toContain('chia_seeds_008');
+      expect(strict).not.toContain('chia_seeds_008');
+      expect(relaxed).not.toContain('cacao_024');
+      expect(strict).toContain('apple_002');
+      expect(relaxed).not.toContain('almonds_004');
+      expect(strict).not.toContain('almonds_004');
+    });
+
+    it('should keep supporting boolean criteria', () => {
+      const ids = filterIds([{ type: 'allergen', field: 'nutFree', value: true, operator: 'equals' }]);
+
+      expect(ids).toContain('chia_seeds_008');
+      expect(ids).not.toContain('cacao_024');
+      expect(ids).not.toContain('almonds_004');
+    });
+  });
+
+  describe('category exclusion', () => {
+    it('should drop a category and its descendants with not_in', () => {
+      const ids = filterIds([{ type: 'category', field: 'category', value: 'snacks', operator: 'not_in' }]);
+
+      expect(ids).toHaveLength(productsDB.length - 4);
+      expect(ids).not.toContain('popcorn_016');
+      expect(ids).toContain('apple_002');
+    });
+  });
+
+  describe('processing filter', () => {
+    it('should compare the NOVA group', () => {
+      const minimal = filterIds([{ type: 'processing', field: 'nova', value: 2, operator: 'lte' }]);
+      const ultraProcessed = filterIds([{ type: 'processing', field: 'nova', value: 4, operator: 'equals' }]);
+
+      expect(minimal).toContain('apple_002');
+      expect(minimal).not.toContain('soda_010');
+      expect(ultraProcessed).toContain('soda_010');
+      expect(minimal.length + ultraProcessed.length).toBe(productsDB.length);
+    });
+  });
+
+  describe('text filter', () => {
+    it('should exclude products whose name matches in any language', () => {
+      const withoutManzana = filterIds([{ type: 'text', field: 'name', value: 'manzana', operator: 'not_in' }]);
+      const withoutApple = filterIds([{ type: 'text', field: 'name', value: 'apple', operator: 'not_in' }]);
+      const apples = filterIds([{ type: 'text', field: 'name', value: 'Apple', operator: 'contains' }]);
+
+      expect(apples).toContain('apple_002');
+      expect(withoutManzana).not.toContain('apple_002');
+      expect(withoutApple).toHaveLength(productsDB.length - apples.length);
+    });
+  });
+
+  describe('nutriScore filter', () => {
+    it('should keep products at least as good as the given letter', () => {
+      const ids = filterIds([{ type: 'nutriScore', field: 'nutriScore', value: 'B', operator: 'lte' }]);
+
+      expect(ids).toContain('broccoli_001');
+      expect(ids).toContain('salmon_003');
+      expect(ids).not.toContain('soda_010');
+    });
+  });
+});
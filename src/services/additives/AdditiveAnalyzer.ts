@@ -0,0 +1,84 @@
+/**
+ * Analizador de aditivos (números E) de un producto.
+ * Resuelve los códigos de Product.additives contra data/additives y
+ * contrasta la clasificación NOVA declarada con los aditivos presentes:
+ * los aditivos cosméticos (colorantes, emulsionantes, espesantes,
+ * potenciadores del sabor, edulcorantes) solo aparecen en alimentos NOVA 4.
+ */
+
+import { Additive, AdditiveRiskTier, getAdditive, isUltraProcessingMarker } from '@/data/additives';
+import { ProcessingLevel, Product } from '@/data/types';
+
+export interface ResolvedAdditives {
+  additives: Additive[];
+  unknownCodes: string[]; // Códigos sin entrada en la base de aditivos
+}
+
+export interface AdditiveNovaCheck {
+  productId: string;
+  declaredNova: ProcessingLevel['nova'];
+  expectedMinimumNova: ProcessingLevel['nova'];
+  consistent: boolean;
+  markers: Additive[]; // Aditivos que indican ultraprocesamiento
+}
+
+const RISK_ORDER: Record<AdditiveRiskTier, number> = { low: 0, moderate: 1, high: 2 };
+
+export class AdditiveAnalyzer {
+  /**
+   * Resuelve los códigos a su ficha, sin duplicados y en el orden declarado
+   */
+  resolve(codes: string[] = []): ResolvedAdditives {
+    const additives: Additive[] = [];
+    const unknownCodes: string[] = [];
+    const seen = new Set<string>();
+
+    for (const code of codes) {
+      const additive = getAdditive(code);
+      if (!additive) {
+        unknownCodes.push(code);
+        continue;
+      }
+      if (seen.has(additive.code)) continue;
+
+      seen.add(additive.code);
+      additives.push(additive);
+    }
+
+    return { additives, unknownCodes };
+  }
+
+  /**
+   * Aditivos ordenados de mayor a menor riesgo, para mostrarlos en la UI
+   */
+  sortByRisk(additives: Additive[]): Additive[] {
+    return [...additives].sort((a, b) => RISK_ORDER[b.risk] - RISK_ORDER[a.risk]);
+  }
+
+  /**
+   * Grupo NOVA mínimo compatible con los aditivos. Sin marcadores no se
+   * impone nada: conservantes y antioxidantes aparecen en todos los grupos.
+   */
+  getMinimumNova(additives: Additive[]): ProcessingLevel['nova'] {
+    return additives.some(isUltraProcessingMarker) ? 4 : 1;
+  }
+
+  /**
+   * Contrasta el grupo NOVA declarado con los aditivos del producto
+   */
+  checkNova(product: Pick<Product, 'id' | 'additives' | 'processingLevel'>): AdditiveNovaCheck {
+    const { additives } = this.resolve(product.additives);
+    const expectedMinimumNova = this.getMinimumNova(additives);
+    const declaredNova = product.processingLevel.nova;
+
+    return {
+      productId: product.id,
+      declaredNova,
+      expectedMinimumNova,
+      consistent: declaredNova >= expectedMinimumNova,
+      markers: additives.filter(isUltraProcessingMarker)
+    };
+  }
+}
+
+export const additiveAnalyzer = new AdditiveAnalyzer();
@@ -0,0 +1,68 @@
+/**
+ * Pruebas unitarias para AdditiveAnalyzer y la base de aditivos
+ */
+
+import { describe, it, expect } from 'vitest';
+import { AdditiveAnalyzer } from '../AdditiveAnalyzer';
+import { getAdditive, normalizeAdditiveCode } from '@/data/additives';
+import { productsDB } from '@/data/products';
+import { Product } from '@/data/types';
+
+const cloneProduct = (id: string): Product =>
+  JSON.parse(JSON.stringify(productsDB.find(p => p.id === id)));
+
+describe('AdditiveAnalyzer', () => {
+  const analyzer = new AdditiveAnalyzer();
+
+  describe('additive codes', () => {
+    it('should normalize label and Open Food Facts spellings', () => {
+      expect(normalizeAdditiveCode('e 150 d')).toBe('E150d');
+      expect(normalizeAdditiveCode('E-330')).toBe('E330');
+      expect(normalizeAdditiveCode('en:e322i')).toBe('E322i');
+      expect(normalizeAdditiveCode('citric acid')).toBeNull();
+    });
+
+    it('should fall back to the parent number for sub-indexed codes', () => {
+      expect(getAdditive('en:e322i')?.code).toBe('E322');
+      expect(getAdditive('E150d')?.name).toBe('Sulphite ammonia caramel');
+      expect(getAdditive('E999')).toBeUndefined();
+    });
+  });
+
+  describe('resolve', () => {
+    it('should deduplicate codes and report unknown ones', () => {
+      const { additives, unknownCodes } = analyzer.resolve(['E330', 'e330', 'E999', 'E621']);
+
+      expect(additives.map(additive => additive.code)).toEqual(['E330', 'E621']);
+      expect(unknownCodes).toEqual(['E999']);
+    });
+
+    it('should sort additives from highest to lowest risk', () => {
+      const { additives } = analyzer.resolve(['E330', 'E129', 'E321']);
+      expect(analyzer.sortByRisk(additives).map(additive => additive.risk)).toEqual(['high', 'moderate', 'low']);
+    });
+  });
+
+  describe('checkNova', () => {
+    it('should accept every product in the catalog', () => {
+      productsDB.forEach(product => expect(analyzer.checkNova(product).consistent).toBe(true));
+    });
+
+    it('should require NOVA 4 when cosmetic additives are present', () => {
+      const product = cloneProduct('greek_yogurt_007');
+      product.additives = ['E407', 'E330'];
+
+      const check = analyzer.checkNova(product);
+
+      expect(check).toMatchObject({ declaredNova: 2, expectedMinimumNova: 4, consistent: false });
+      expect(check.markers.map(additive => additive.code)).toEqual(['E407']);
+    });
+
+    it('should not constrain NOVA for preservatives and antioxidants alone', () => {
+      const product = cloneProduct('apple_002');
+      product.additives = ['E300', 'E202'];
+
+      expect(analyzer.checkNova(product)).toMatchObject({ expectedMinimumNova: 1, consistent: true });
+    });
+  });
+});
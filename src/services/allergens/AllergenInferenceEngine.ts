@@ -0,0 +1,145 @@
+/**
+ * Motor de inferencia de alérgenos a partir de la lista de ingredientes.
+ * Aplica las reglas de términos (español/inglés) de data/allergenIngredients
+ * para derivar los flags de Product.allergens y reportar contradicciones
+ * con los valores asignados manualmente.
+ */
+
+import { AllergenFlag, Product } from '@/data/types';
+import { ALLERGEN_INGREDIENT_RULES, AllergenIngredientRule } from '@/data/allergenIngredients';
+import { TextNormalizationService } from '@/services/search/TextNormalizationService';
+
+export interface AllergenMatch {
+  allergenId: AllergenFlag;
+  ingredient: string; // Ingrediente tal como aparece en el producto
+  term: string;       // Término de la regla que coincidió
+}
+
+export type AllergenConflictKind =
+  | 'undeclared'    // Marcado como libre, pero un ingrediente lo contiene
+  | 'unsupported';  // Marcado como presente, pero ningún ingrediente lo justifica
+
+export interface AllergenConflict {
+  allergenId: AllergenFlag;
+  kind: AllergenConflictKind;
+  declared: boolean;
+  inferred: boolean;
+  evidence: AllergenMatch[];
+}
+
+export interface AllergenInference {
+  productId: string;
+  flags: Partial<Product['allergens']>;
+  matches: AllergenMatch[];
+  conflicts: AllergenConflict[];
+}
+
+interface CompiledRule {
+  allergenId: AllergenFlag;
+  patterns: Array<{ term: string; regex: RegExp }>;
+  exceptions: string[];
+}
+
+const normalize = (text: string): string => TextNormalizationService.normalize(text);
+
+const escapeRegex = (text: string): string => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+export class AllergenInferenceEngine {
+  private rules: CompiledRule[];
+
+  constructor(rules: AllergenIngredientRule[] = ALLERGEN_INGREDIENT_RULES) {
+    this.rules = rules.map(rule => ({
+      allergenId: rule.allergenId,
+      // Palabra completa con plural opcional ("almendras", "huevos")
+      patterns: rule.terms.map(term => ({
+        term,
+        regex: new RegExp(`(^|\\s)${escapeRegex(normalize(term))}(s|es)?(?=\\s|$)`)
+      })),
+      exceptions: (rule.exceptions || []).map(normalize)
+    }));
+  }
+
+  /**
+   * Ids de alérgenos que el motor sabe inferir
+   */
+  getSupportedAllergens(): AllergenFlag[] {
+    return this.rules.map(rule => rule.allergenId);
+  }
+
+  /**
+   * Busca en los ingredientes los términos de cada regla
+   */
+  findMatches(ingredients: string[]): AllergenMatch[] {
+    const matches: AllergenMatch[] = [];
+
+    for (const ingredient of ingredients) {
+      const normalized = normalize(ingredient);
+      if (!normalized) continue;
+
+      for (const rule of this.rules) {
+        // Las excepciones se eliminan del texto antes de buscar los términos
+        const text = rule.exceptions.reduce(
+          (current, exception) => current.split(exception).join(' '),
+          normalized
+        );
+
+        const pattern = rule.patterns.find(({ regex }) => regex.test(text));
+        if (pattern) {
+          matches.push({ allergenId: rule.allergenId, ingredient, term: pattern.term });
+        }
+      }
+    }
+
+    return matches;
+  }
+
+  /**
+   * Deriva los flags "libre de" a partir de los ingredientes.
+   * Sin lista de ingredientes no se infiere nada.
+   */
+  inferFlags(ingredients?: string[]): Partial<Product['allergens']> {
+    if (!ingredients || ingredients.length === 0) return {};
+
+    const found = new Set(this.findMatches(ingredients).map(match => match.allergenId));
+    const flags: Partial<Product['allergens']> = {};
+
+    for (const rule of this.rules) {
+      flags[rule.allergenId] = !found.has(rule.allergenId);
+    }
+
+    return flags;
+  }
+
+  /**
+   * Analiza un producto: flags inferidos, coincidencias y conflictos con los valores manuales
+   */
+  analyze(product: Pick<Product, 'id' | 'allergens' | 'ingredients'>): AllergenInference {
+    const matches = product.ingredients?.length ? this.findMatches(product.ingredients) : [];
+    const flags = this.inferFlags(product.ingredients);
+    const conflicts: AllergenConflict[] = [];
+
+    for (const [allergenId, inferred] of Object.entries(flags) as Array<[AllergenFlag, boolean]>) {
+      const declared = product.allergens[allergenId];
+      if (declared === inferred) continue;
+
+      conflicts.push({
+        allergenId,
+        kind: declared ? 'undeclared' : 'unsupported',
+        declared,
+        inferred,
+        evidence: matches.filter(match => match.allergenId === allergenId)
+      });
+    }
+
+    return { productId: product.id, flags, matches, conflicts };
+  }
+
+  /**
+   * Flags del producto con los valores inferidos aplicados sobre los manuales
+   */
+  deriveAllergens(product: Pick<Product, 'allergens' | 'ingredients'>): Product['allergens'] {
+    return { ...product.allergens, ...this.inferFlags(product.ingredients) };
+  }
+}
+
+export const allergenInferenceEngine = new AllergenInferenceEngine();
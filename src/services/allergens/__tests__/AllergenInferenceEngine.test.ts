@@ -0,0 +1,87 @@
+/**
+ * Pruebas unitarias para AllergenInferenceEngine
+ */
+
+import { describe, it, expect } from 'vitest';
+import { AllergenInferenceEngine } from '../AllergenInferenceEngine';
+import { productsDB } from '@/data/products';
+import { Product } from '@/data/types';
+
+const cloneProduct = (id: string): Product =>
+  JSON.parse(JSON.stringify(productsDB.find(p => p.id === id)));
+
+describe('AllergenInferenceEngine', () => {
+  const engine = new AllergenInferenceEngine();
+
+  describe('findMatches', () => {
+    it('should match Spanish and English terms ignoring accents and case', () => {
+      const matches = engine.findMatches(['Harina de TRIGO', 'suero de leche', 'Almendras', 'lecitina de soja']);
+      const allergens = matches.map(match => match.allergenId);
+
+      expect(allergens).toEqual(expect.arrayContaining(['glutenFree', 'lactoseFree', 'nutFree', 'soyFree', 'vegan']));
+    });
+
+    it('should only match whole words', () => {
+      expect(engine.findMatches(['eggplant', 'coconut', 'codorniz'])).toEqual([]);
+    });
+
+    it('should ignore exception phrases', () => {
+      const allergens = engine.findMatches(['leche de coco', 'cocoa butter', 'trigo sarraceno', 'nuez moscada'])
+        .map(match => match.allergenId);
+
+      expect(allergens).toEqual([]);
+    });
+  });
+
+  describe('inferFlags', () => {
+    it('should derive the free-from flags', () => {
+      const flags = engine.inferFlags(['huevo', 'azúcar']);
+
+      expect(flags.eggFree).toBe(false);
+      expect(flags.vegan).toBe(false);
+      expect(flags.vegetarian).toBe(true);
+      expect(flags.glutenFree).toBe(true);
+    });
+
+    it('should not infer anything without ingredients', () => {
+      expect(engine.inferFlags(undefined)).toEqual({});
+      expect(engine.inferFlags([])).toEqual({});
+    });
+  });
+
+  describe('analyze', () => {
+    it('should report flags that contradict the ingredients', () => {
+      const product = cloneProduct('instant_noodles_011');
+      product.allergens.eggFree = true;
+
+      const { conflicts } = engine.analyze(product);
+
+      expect(conflicts).toEqual([
+        expect.objectContaining({
+          allergenId: 'eggFree',
+          kind: 'undeclared',
+          declared: true,
+          inferred: false,
+          evidence: [expect.objectContaining({ ingredient: 'egg powder', term: 'egg' })]
+        })
+      ]);
+    });
+
+    it('should report allergens without supporting ingredients', () => {
+      const product = cloneProduct('apple_002');
+      product.allergens.nutFree = false;
+
+      const [conflict] = engine.analyze(product).conflicts;
+
+      expect(conflict).toMatchObject({ allergenId: 'nutFree', kind: 'unsupported', evidence: [] });
+    });
+
+    it('should not change flags the engine cannot infer', () => {
+      const product = cloneProduct('greek_yogurt_007');
+      const derived = engine.deriveAllergens(product);
+
+      expect(derived.lactoseFree).toBe(false);
+      expect(derived.organic).toBe(product.allergens.organic);
+    });
+  });
+});
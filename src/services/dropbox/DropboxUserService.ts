@@ -1,5 +1,6 @@
 
 import { UserInfo, UserJsonData } from '../../types/dropbox-auth';
+import { UserPreferences } from '../../types/userData';
 import { DropboxAPI } from './DropboxAPI';
 
 export class DropboxUserService {
@@ -25,8 +26,9 @@ export class DropboxUserService {
       const jsonContent = await response.text();
       const userData: UserJsonData = JSON.parse(jsonContent);
       
-      // Extraer el nombre del JSON y devolverlo en el formato esperado
-      return { nombre: userData.profile.name };
+      // Extraer el nombre y los datos corporales del JSON en el formato esperado
+      const { name, edad, sex, weight, height, activityLevel } = userData.profile;
+      return { nombre: name, edad, sex, weight, height, activityLevel };
     } catch (error) {
       console.error('Error reading user info:', error);
       return null;
@@ -50,7 +52,7 @@ export class DropboxUserService {
   }
 
   // Update user info - now supports updating any section of the JSON
-  async updateUserInfo(accessToken: string, userInfo: UserInfo, allergies?: Record<string, { avoid: boolean }>, favorites?: Record<string, { status: 'heart' | 'thumb-down' }>): Promise<boolean> {
+  async updateUserInfo(accessToken: string, userInfo: UserInfo, allergies?: Record<string, { avoid: boolean }>, favorites?: Record<string, { status: 'heart' | 'thumb-down' }>, preferences?: Partial<UserPreferences>): Promise<boolean> {
     try {
       // Primero intentar leer el JSON existente para preservar otros datos
       let existingData: UserJsonData;
@@ -89,6 +91,14 @@ export class DropboxUserService {
         }
       };
 
+      // Solo se sobrescriben los datos corporales que vienen informados
+      const { edad, sex, weight, height, activityLevel } = userInfo;
+      Object.entries({ edad, sex, weight, height, activityLevel }).forEach(([key, value]) => {
+        if (value !== undefined) {
+          (updatedData.profile as Record<string, unknown>)[key] = value;
+        }
+      });
+
       // Si se proporcionan alérgenos, actualizarlos
       if (allergies !== undefined) {
         updatedData.allergies = allergies;
@@ -98,6 +108,11 @@ export class DropboxUserService {
       if (favorites !== undefined) {
         updatedData.favorites = favorites;
       }
+
+      // Si se proporcionan preferencias, actualizarlas
+      if (preferences !== undefined) {
+        updatedData.preferences = preferences;
+      }
       
       const response = await this.api.uploadFile(
         accessToken,
@@ -160,4 +175,28 @@ export class DropboxUserService {
       return null;
     }
   }
+
+  // Get user preferences from JSON
+  async getUserPreferences(accessToken: string): Promise<Partial<UserPreferences> | null> {
+    try {
+      const response = await this.api.downloadFile(accessToken, DropboxUserService.USER_FILE_PATH);
+
+      if (response.status === 409) {
+        // File doesn't exist
+        return {};
+      }
+
+      if (!response.ok) {
+        throw new Error('Failed to read user preferences');
+      }
+
+      const jsonContent = await response.text();
+      const userData: UserJsonData = JSON.parse(jsonContent);
+      
+      return userData.preferences || {};
+    } catch (error) {
+      console.error('Error reading user preferences:', error);
+      return null;
+    }
+  }
 }
@@ -0,0 +1,428 @@
+/**
+ * Importador de exportaciones de Open Food Facts (JSON o CSV) al modelo Product.
+ * Pensado para ejecutarse offline: produce los productos mapeados y un reporte
+ * con las filas rechazadas y sus motivos.
+ */
+
+import Papa from 'papaparse';
+import { AllergenFlag, MicronutrientKey, Micronutrients, Product, ProcessingLevel } from '@/data/types';
+import { MICRONUTRIENT_REFERENCE, isMicronutrientKey } from '@/data/micronutrients';
+import { createNutritionDetails, createCaloriesDetails, createMicronutrients } from '@/utils/nutritionCalculations';
+import { calculateAllHealthRankings } from '@/utils/healthRankings';
+import { isValidBarcode } from '@/utils/barcodeUtils';
+import { allergenInferenceEngine } from '@/services/allergens/AllergenInferenceEngine';
+import { getAdditive } from '@/data/additives';
+import {
+  ImportOptions,
+  ImportRejectionReason,
+  ImportReport,
+  OpenFoodFactsNutriments,
+  OpenFoodFactsProduct,
+  RejectedRow
+} from './types';
+import {
+  ALLERGEN_TAG_MAP,
+  CATEGORY_TAG_MAP,
+  LABEL_TAG_MAP,
+  MINERAL_NUTRIMENT_MAP,
+  NOVA_CATEGORY_MAP,
+  NOVA_DESCRIPTIONS,
+  NUTRISCORE_RATING_MAP,
+  VITAMIN_NUTRIMENT_MAP
+} from './openFoodFactsMappings';
+
+type MappingResult =
+  | { product: Product; reasons?: undefined }
+  | { product?: undefined; reasons: ImportRejectionReason[] };
+
+// Umbrales por 100 g usados para las banderas derivadas de nutrientes
+const LOW_SODIUM_MAX_MG = 140;
+const SUGAR_FREE_MAX_G = 0.5;
+const KETO_MAX_NET_CARBS_G = 5;
+
+export class OpenFoodFactsImporter {
+  private options: Required<Omit<ImportOptions, 'defaultCategory'>> & Pick<ImportOptions, 'defaultCategory'>;
+
+  constructor(options: ImportOptions = {}) {
+    this.options = {
+      idPrefix: options.idPrefix ?? 'off',
+      language: options.language ?? 'en',
+      defaultCategory: options.defaultCategory
+    };
+  }
+
+  /**
+   * Importa un export JSON: arreglo de productos, respuesta de búsqueda
+   * ({ products: [...] }) o respuesta de producto único ({ product: {...} })
+   */
+  importJson(content: string): ImportReport {
+    const parsed = JSON.parse(content);
+    let rows: OpenFoodFactsProduct[];
+
+    if (Array.isArray(parsed)) {
+      rows = parsed;
+    } else if (Array.isArray(parsed?.products)) {
+      rows = parsed.products;
+    } else if (parsed?.product) {
+      rows = [parsed.product];
+    } else {
+      throw new Error('Unsupported Open Food Facts JSON export format');
+    }
+
+    return this.importProducts(rows);
+  }
+
+  /**
+   * Importa un export CSV/TSV de OFF (columnas planas como proteins_100g)
+   */
+  importCsv(content: string): ImportReport {
+    const parsed = Papa.parse<Record<string, string>>(content, {
+      header: true,
+      skipEmptyLines: true
+    });
+
+    return this.importProducts(parsed.data.map(row => this.fromCsvRow(row)));
+  }
+
+  /**
+   * Mapea todas las filas y acumula el reporte de rechazos
+   */
+  importProducts(rows: OpenFoodFactsProduct[]): ImportReport {
+    const products: Product[] = [];
+    const rejected: RejectedRow[] = [];
+    const seenCodes = new Set<string>();
+
+    rows.forEach((row, index) => {
+      const code = this.asString(row.code);
+      const result = this.mapProduct(row);
+      const reasons = result.reasons ? [...result.reasons] : [];
+
+      if (code && seenCodes.has(code)) {
+        reasons.push('duplicate_code');
+      }
+
+      if (reasons.length > 0) {
+        rejected.push({
+          row: index + 1,
+          code,
+          name: this.getProductName(row),
+          reasons
+        });
+        return;
+      }
+
+      seenCodes.add(code);
+      products.push(result.product!);
+    });
+
+    console.log(`OpenFoodFactsImporter: Imported ${products.length} of ${rows.length} rows (${rejected.length} rejected)`);
+
+    return {
+      products,
+      rejected,
+      summary: {
+        total: rows.length,
+        imported: products.length,
+        rejected: rejected.length
+      }
+    };
+  }
+
+  /**
+   * Convierte un producto de OFF en un Product del catálogo
+   */
+  mapProduct(raw: OpenFoodFactsProduct): MappingResult {
+    const reasons: ImportRejectionReason[] = [];
+    const code = this.asString(raw.code);
+    const name = this.getProductName(raw);
+    const nutriments = raw.nutriments || {};
+
+    if (!code) reasons.push('missing_code');
+    if (!name) reasons.push('missing_name');
+
+    const protein = this.readNutriment(nutriments, 'proteins');
+    const carbs = this.readNutriment(nutriments, 'carbohydrates');
+    const fats = this.readNutriment(nutriments, 'fat');
+    const fiber = this.readNutriment(nutriments, 'fiber') ?? 0;
+
+    if (protein === undefined || carbs === undefined || fats === undefined) {
+      reasons.push('missing_nutriments');
+    } else if ([protein, carbs, fats, fiber].some(value => Number.isNaN(value) || value < 0 || value > 100)) {
+      reasons.push('invalid_nutriments');
+    }
+
+    const nova = this.parseNovaGroup(raw.nova_group);
+    if (nova === null) reasons.push('invalid_nova_group');
+
+    const category = this.mapCategory(this.asTags(raw.categories_tags)) ?? this.options.defaultCategory;
+    if (!category) reasons.push('unmapped_category');
+
+    if (reasons.length > 0) {
+      return { reasons };
+    }
+
+    const rankings = calculateAllHealthRankings({ protein, carbs, fats, fiber });
+    const sugar = this.readNutriment(nutriments, 'sugars');
+    const sodium = this.readSodiumMg(nutriments);
+    const ingredients = this.mapIngredients(raw[`ingredients_text_${this.options.language}`] || raw.ingredients_text);
+    const allergens = this.mapAllergens(raw, { carbs, fiber, sugar, sodium }, ingredients);
+
+    const product: Product = {
+      id: `${this.options.idPrefix}_${code}`,
+      name,
+      image: this.asString(raw.image_front_url) || this.asString(raw.image_url) || '/placeholder.svg',
+      rating: this.calculateRating(raw.nutriscore_grade, rankings, nova),
+      category,
+      categoryKey: category,
+      barcodes: isValidBarcode(code) ? [code] : undefined,
+      ingredients,
+      additives: this.mapAdditives(raw),
+      nutrition: {
+        protein: createNutritionDetails('protein', protein, rankings.protein),
+        carbs: createNutritionDetails('carbs', carbs, rankings.carbs),
+        fats: createNutritionDetails('fats', fats, rankings.fats),
+        fiber: createNutritionDetails('fiber', fiber, rankings.fiber),
+        calories: createCaloriesDetails(protein, carbs, fats),
+        vitamins: this.collectMicronutrients(nutriments, VITAMIN_NUTRIMENT_MAP),
+        minerals: this.collectMicronutrients(nutriments, MINERAL_NUTRIMENT_MAP),
+        saturatedFat: this.readNutriment(nutriments, 'saturated-fat'),
+        sugar,
+        sodium,
+        cholesterol: this.readMilligrams(nutriments, 'cholesterol'),
+        micronutrients: this.mapMicronutrientAmounts(nutriments, sodium)
+      },
+      allergens,
+      allergenTraces: this.mapAllergenTraces(raw, allergens),
+      processingLevel: this.mapProcessingLevel(raw, nova),
+      otherOptionsIds: [],
+      description: this.asString(raw.generic_name) || undefined
+    };
+
+    return { product };
+  }
+
+  private fromCsvRow(row: Record<string, string>): OpenFoodFactsProduct {
+    const nutriments: OpenFoodFactsNutriments = {};
+    for (const [key, value] of Object.entries(row)) {
+      if (key.endsWith('_100g')) {
+        nutriments[key] = value;
+      }
+    }
+    return { ...row, nutriments };
+  }
+
+  private getProductName(raw: OpenFoodFactsProduct): string {
+    const localized = this.asString(raw[`product_name_${this.options.language}`]);
+    return localized || this.asString(raw.product_name);
+  }
+
+  private asString(value: unknown): string {
+    if (value === undefined || value === null) return '';
+    return String(value).trim();
+  }
+
+  // OFF entrega las etiquetas como arreglo (JSON) o separadas por comas (CSV)
+  private asTags(value: string[] | string | undefined): string[] {
+    if (!value) return [];
+    const tags = Array.isArray(value) ? value : value.split(',');
+    return tags.map(tag => tag.trim().toLowerCase()).filter(Boolean);
+  }
+
+  private readNutriment(nutriments: OpenFoodFactsNutriments, name: string): number | undefined {
+    const value = nutriments[`${name}_100g`];
+    if (value === undefined || value === null || value === '') return undefined;
+    return typeof value === 'number' ? value : parseFloat(value);
+  }
+
+  // OFF expresa minerales y vitaminas en gramos; el catálogo los guarda en mg
+  private readMilligrams(nutriments: OpenFoodFactsNutriments, name: string): number | undefined {
+    const grams = this.readNutriment(nutriments, name);
+    if (grams === undefined || Number.isNaN(grams)) return undefined;
+    return Math.round(grams * 1000 * 10) / 10;
+  }
+
+  private readSodiumMg(nutriments: OpenFoodFactsNutriments): number | undefined {
+    const sodium = this.readMilligrams(nutriments, 'sodium');
+    if (sodium !== undefined) return sodium;
+
+    // Sodio = sal / 2.5
+    const salt = this.readMilligrams(nutriments, 'salt');
+    return salt !== undefined ? Math.round((salt / 2.5) * 10) / 10 : undefined;
+  }
+
+  private collectMicronutrients(nutriments: OpenFoodFactsNutriments, map: Record<string, string>): string[] {
+    return Object.entries(map)
+      .filter(([offName]) => (this.readNutriment(nutriments, offName) ?? 0) > 0)
+      .map(([, catalogKey]) => catalogKey);
+  }
+
+  // Convierte los gramos de OFF a la unidad de referencia de cada micronutriente
+  private mapMicronutrientAmounts(nutriments: OpenFoodFactsNutriments, sodiumMg: number | undefined): Micronutrients {
+    const amounts: Partial<Record<MicronutrientKey, number>> = {};
+
+    Object.entries({ ...VITAMIN_NUTRIMENT_MAP, ...MINERAL_NUTRIMENT_MAP }).forEach(([offName, catalogKey]) => {
+      const grams = this.readNutriment(nutriments, offName);
+      if (!grams || Number.isNaN(grams) || !isMicronutrientKey(catalogKey)) return;
+
+      const factor = MICRONUTRIENT_REFERENCE[catalogKey].unit === 'mcg' ? 1e6 : 1000;
+      amounts[catalogKey] = Math.round(grams * factor * 10) / 10;
+    });
+
+    if (sodiumMg !== undefined) amounts.sodium = sodiumMg;
+
+    return createMicronutrients(amounts);
+  }
+
+  private parseNovaGroup(value: number | string | undefined): ProcessingLevel['nova'] | null {
+    const nova = Number(value);
+    return nova >= 1 && nova <= 4 && Number.isInteger(nova) ? (nova as ProcessingLevel['nova']) : null;
+  }
+
+  private mapCategory(tags: string[]): string | undefined {
+    for (let i = tags.length - 1; i >= 0; i--) {
+      const category = CATEGORY_TAG_MAP[tags[i]];
+      if (category) return category;
+    }
+    return undefined;
+  }
+
+  private mapProcessingLevel(raw: OpenFoodFactsProduct, nova: ProcessingLevel['nova']): ProcessingLevel {
+    const category = NOVA_CATEGORY_MAP[nova];
+    const indicatorsKeys: string[] = [];
+
+    if (this.asString(raw.additives_n) === '0') indicatorsKeys.push('no_additives');
+    if (Number(raw.ingredients_from_palm_oil_n) > 0) indicatorsKeys.push('palm_oil');
+
+    return {
+      nova,
+      category,
+      description: NOVA_DESCRIPTIONS[nova],
+      descriptionKey: `nova_${nova}`,
+      indicators: indicatorsKeys,
+      indicatorsKeys
+    };
+  }
+
+  /**
+   * Trazas declaradas por OFF ("puede contener"), sin repetir los alérgenos ya presentes
+   */
+  private mapAllergenTraces(raw: OpenFoodFactsProduct, allergens: Product['allergens']): AllergenFlag[] | undefined {
+    const traces = new Set<AllergenFlag>();
+
+    for (const tag of this.asTags(raw.traces_tags)) {
+      const flag = ALLERGEN_TAG_MAP[tag];
+      if (flag && allergens[flag]) traces.add(flag);
+    }
+
+    return traces.size > 0 ? Array.from(traces) : undefined;
+  }
+
+  /**
+   * Números E de additives_tags ("en:e322i") que existen en la base de aditivos
+   */
+  private mapAdditives(raw: OpenFoodFactsProduct): string[] | undefined {
+    const codes = new Set<string>();
+
+    for (const tag of this.asTags(raw.additives_tags)) {
+      const additive = getAdditive(tag);
+      if (additive) codes.add(additive.code);
+    }
+
+    return codes.size > 0 ? Array.from(codes) : undefined;
+  }
+
+  /**
+   * Separa ingredients_text por comas o punto y coma, sin cortar dentro de paréntesis
+   */
+  private mapIngredients(text: unknown): string[] | undefined {
+    const source = this.asString(text);
+    if (!source) return undefined;
+
+    const ingredients: string[] = [];
+    let depth = 0;
+    let current = '';
+
+    for (const char of source) {
+      if (char === '(' || char === '[') depth++;
+      if ((char === ')' || char === ']') && depth > 0) depth--;
+
+      if ((char === ',' || char === ';') && depth === 0) {
+        ingredients.push(current);
+        current = '';
+      } else {
+        current += char;
+      }
+    }
+    ingredients.push(current);
+
+    const cleaned = ingredients
+      .map(ingredient => ingredient.replace(/[_*]/g, '').replace(/\.$/, '').trim())
+      .filter(ingredient => ingredient.length > 0);
+
+    return cleaned.length > 0 ? cleaned : undefined;
+  }
+
+  private mapAllergens(
+    raw: OpenFoodFactsProduct,
+    values: { carbs: number; fiber: number; sugar?: number; sodium?: number },
+    ingredients?: string[]
+  ): Product['allergens'] {
+    const allergenTags = this.asTags(raw.allergens_tags);
+    const labelTags = this.asTags(raw.labels_tags);
+    const analysisTags = this.asTags(raw.ingredients_analysis_tags);
+    // Sin etiquetas de alérgenos ni ingredientes no se puede afirmar que esté libre de ninguno
+    const hasAllergenData = allergenTags.length > 0 || (ingredients?.length || 0) > 0;
+
+    const allergens: Product['allergens'] = {
+      // Sin análisis de ingredientes no se puede afirmar que sea vegano/vegetariano
+      vegan: analysisTags.includes('en:vegan'),
+      vegetarian: analysisTags.includes('en:vegetarian') || analysisTags.includes('en:vegan'),
+      glutenFree: hasAllergenData,
+      lactoseFree: hasAllergenData,
+      nutFree: hasAllergenData,
+      eggFree: hasAllergenData,
+      fishFree: hasAllergenData,
+      soyFree: hasAllergenData,
+      halal: false,
+      kosher: false,
+      organic: false,
+      lowSodium: values.sodium !== undefined && values.sodium <= LOW_SODIUM_MAX_MG,
+      sugarFree: values.sugar !== undefined && values.sugar < SUGAR_FREE_MAX_G,
+      keto: values.carbs - values.fiber <= KETO_MAX_NET_CARBS_G
+    };
+
+    for (const tag of allergenTags) {
+      const flag = ALLERGEN_TAG_MAP[tag];
+      if (flag) allergens[flag] = false;
+    }
+
+    for (const tag of labelTags) {
+      const flag = LABEL_TAG_MAP[tag];
+      if (flag) allergens[flag] = true;
+    }
+
+    // Los ingredientes solo pueden agregar alérgenos, nunca quitar los etiquetados por OFF
+    for (const match of allergenInferenceEngine.findMatches(ingredients || [])) {
+      allergens[match.allergenId] = false;
+    }
+
+    return allergens;
+  }
+
+  /**
+   * Usa el Nutri-Score de OFF cuando existe; si no, promedia los rankings
+   * de salud (1-10) y penaliza el nivel de procesamiento
+   */
+  private calculateRating(
+    nutriscoreGrade: string | undefined,
+    rankings: { protein: number; carbs: number; fats: number; fiber: number },
+    nova: ProcessingLevel['nova']
+  ): number {
+    const fromGrade = NUTRISCORE_RATING_MAP[this.asString(nutriscoreGrade).toLowerCase()];
+    if (fromGrade !== undefined) return fromGrade;
+
+    const average = (rankings.protein + rankings.carbs + rankings.fats + rankings.fiber) / 4;
+    const rating = average - (nova - 1) * 0.5;
+    return Math.round(Math.max(0, Math.min(10, rating)) * 10) / 10;
+  }
+}
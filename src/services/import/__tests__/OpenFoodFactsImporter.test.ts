@@ -0,0 +1,178 @@
+/**
+ * Pruebas unitarias para OpenFoodFactsImporter
+ */
+
+import { describe, it, expect } from 'vitest';
+import { OpenFoodFactsImporter } from '../OpenFoodFactsImporter';
+import { OpenFoodFactsProduct } from '../types';
+
+const greekYogurt: OpenFoodFactsProduct = {
+  code: '3033490004743',
+  product_name: 'Greek Yogurt',
+  generic_name: 'Strained plain yogurt',
+  nova_group: 1,
+  nutriscore_grade: 'b',
+  categories_tags: ['en:dairies', 'en:fermented-foods', 'en:yogurts'],
+  allergens_tags: ['en:milk'],
+  labels_tags: ['en:organic'],
+  ingredients_analysis_tags: ['en:non-vegan', 'en:vegetarian'],
+  additives_n: 0,
+  nutriments: {
+    proteins_100g: 10,
+    carbohydrates_100g: 3.6,
+    fat_100g: 0.4,
+    fiber_100g: 0,
+    sugars_100g: 3.2,
+    sodium_100g: 0.036,
+    'saturated-fat_100g': 0.1,
+    'calcium_100g': 0.11
+  }
+};
+
+describe('OpenFoodFactsImporter', () => {
+  const importer = new OpenFoodFactsImporter();
+
+  describe('mapProduct', () => {
+    it('should map an OFF product into the Product shape', () => {
+      const { product } = importer.mapProduct(greekYogurt);
+
+      expect(product).toBeDefined();
+      expect(product!.id).toBe('off_3033490004743');
+      expect(product!.barcodes).toEqual(['3033490004743']);
+      expect(product!.category).toBe('dairy');
+      expect(product!.rating).toBe(7.5);
+      expect(product!.nutrition.protein.total).toBe(10);
+      expect(product!.nutrition.calories.total).toBeCloseTo(10 * 4 + 3.6 * 4 + 0.4 * 9);
+      expect(product!.nutrition.sodium).toBe(36);
+      expect(product!.nutrition.micronutrients.calcium).toEqual({ amount: 110, unit: 'mg', dailyPercentage: 8 });
+      expect(product!.nutrition.micronutrients.sodium?.amount).toBe(36);
+      expect(product!.nutrition.minerals).toEqual(['calcium']);
+      expect(product!.description).toBe('Strained plain yogurt');
+    });
+
+    it('should map NOVA groups into ProcessingLevel', () => {
+      const { product } = importer.mapProduct({ ...greekYogurt, nova_group: '4', additives_n: 3 });
+
+      expect(product!.processingLevel.nova).toBe(4);
+      expect(product!.processingLevel.category).toBe('ultra-processed');
+      expect(product!.processingLevel.indicatorsKeys).not.toContain('no_additives');
+    });
+
+    it('should describe each NOVA group separately', () => {
+      const processed = importer.mapProduct({ ...greekYogurt, nova_group: 3 }).product!.processingLevel;
+      const culinary = importer.mapProduct({ ...greekYogurt, nova_group: 2 }).product!.processingLevel;
+
+      expect(processed.category).toBe(culinary.category);
+      expect(processed.description).toBe('Processed foods');
+      expect(processed.descriptionKey).toBe('nova_3');
+      expect(culinary.description).toBe('Processed culinary ingredients');
+    });
+
+    it('should derive allergen flags from tags', () => {
+      const { product } = importer.mapProduct(greekYogurt);
+
+      expect(product!.allergens.lactoseFree).toBe(false);
+      expect(product!.allergens.glutenFree).toBe(true);
+      expect(product!.allergens.vegan).toBe(false);
+      expect(product!.allergens.vegetarian).toBe(true);
+      expect(product!.allergens.organic).toBe(true);
+      expect(product!.allergens.lowSodium).toBe(true);
+    });
+
+    it('should not mark anything allergen-free without allergen tags or ingredients', () => {
+      const { product } = importer.mapProduct({ ...greekYogurt, allergens_tags: undefined });
+      const withIngredients = importer.mapProduct({ ...greekYogurt, allergens_tags: [], ingredients_text: 'Leche, fermentos' });
+
+      for (const flag of ['glutenFree', 'lactoseFree', 'nutFree', 'eggFree', 'fishFree', 'soyFree'] as const) {
+        expect(product!.allergens[flag]).toBe(false);
+      }
+      expect(withIngredients.product!.allergens.glutenFree).toBe(true);
+      expect(withIngredients.product!.allergens.lactoseFree).toBe(false);
+    });
+
+    it('should split ingredients_text and infer allergens missing from the tags', () => {
+      const { product } = importer.mapProduct({
+        ...greekYogurt,
+        ingredients_text: 'Leche pasteurizada, fermentos lácticos (contiene _soja_), almendras troceadas.'
+      });
+
+      expect(product!.ingredients).toEqual(['Leche pasteurizada', 'fermentos lácticos (contiene soja)', 'almendras troceadas']);
+      expect(product!.allergens.soyFree).toBe(false);
+      expect(product!.allergens.nutFree).toBe(false);
+      expect(product!.allergens.glutenFree).toBe(true);
+    });
+
+    it('should map trace tags that are not already contained', () => {
+      const { product } = importer.mapProduct({ ...greekYogurt, traces_tags: ['en:nuts', 'en:milk', 'en:peanuts'] });
+
+      expect(product!.allergenTraces).toEqual(['nutFree']);
+      expect(importer.mapProduct(greekYogurt).product!.allergenTraces).toBeUndefined();
+    });
+
+    it('should map additive tags to known E-numbers', () => {
+      const { product } = importer.mapProduct({ ...greekYogurt, additives_tags: ['en:e322i', 'en:e322', 'en:e407', 'en:e9999'] });
+
+      expect(product!.additives).toEqual(['E322', 'E407']);
+      expect(importer.mapProduct(greekYogurt).product!.additives).toBeUndefined();
+    });
+
+    it('should collect every rejection reason', () => {
+      const result = importer.mapProduct({
+        product_name: '',
+        nova_group: 7,
+        categories_tags: ['en:unknown'],
+        nutriments: { proteins_100g: 3 }
+      });
+
+      expect(result.product).toBeUndefined();
+      expect(result.reasons).toEqual([
+        'missing_code',
+        'missing_name',
+        'missing_nutriments',
+        'invalid_nova_group',
+        'unmapped_category'
+      ]);
+    });
+
+    it('should fall back to the default category when configured', () => {
+      const lenient = new OpenFoodFactsImporter({ defaultCategory: 'snacks' });
+      const { product } = lenient.mapProduct({ ...greekYogurt, categories_tags: [] });
+      expect(product!.category).toBe('snacks');
+    });
+  });
+
+  describe('importJson', () => {
+    it('should import search responses and report rejected rows', () => {
+      const content = JSON.stringify({
+        products: [greekYogurt, { ...greekYogurt }, { code: '1', product_name: 'Mystery' }]
+      });
+
+      const report = importer.importJson(content);
+
+      expect(report.summary).toEqual({ total: 3, imported: 1, rejected: 2 });
+      expect(report.rejected[0]).toMatchObject({ row: 2, reasons: ['duplicate_code'] });
+      expect(report.rejected[1]).toMatchObject({ row: 3, code: '1', name: 'Mystery' });
+    });
+
+    it('should throw on unsupported JSON documents', () => {
+      expect(() => importer.importJson('{"status": 0}')).toThrow('Unsupported');
+    });
+  });
+
+  describe('importCsv', () => {
+    it('should import tab separated exports with flat nutriment columns', () => {
+      const header = ['code', 'product_name', 'nova_group', 'categories_tags', 'allergens_tags', 'proteins_100g', 'carbohydrates_100g', 'fat_100g', 'fiber_100g', 'salt_100g'];
+      const row = ['7501', 'Salted Peanuts', '3', 'en:snacks,en:salty-snacks', 'en:peanuts', '25', '16', '49', '8.5', '1.25'];
+      const content = `${header.join('\t')}\n${row.join('\t')}\n`;
+
+      const report = importer.importCsv(content);
+
+      expect(report.summary.imported).toBe(1);
+      const [peanuts] = report.products;
+      expect(peanuts.category).toBe('snacks');
+      expect(peanuts.allergens.nutFree).toBe(false);
+      expect(peanuts.nutrition.sodium).toBe(500);
+      expect(peanuts.processingLevel.category).toBe('processed');
+    });
+  });
+});
@@ -0,0 +1,111 @@
+/**
+ * Tablas de correspondencia entre las taxonomías de Open Food Facts
+ * y los identificadores usados en el catálogo (data/migrationData.ts)
+ */
+
+import { ProcessingLevel, Product } from '@/data/types';
+
+type AllergenFlag = keyof Product['allergens'];
+
+// Etiquetas de categoría OFF → categoría del catálogo.
+// Se evalúan desde la etiqueta más específica (la última) hacia la más general.
+export const CATEGORY_TAG_MAP: Record<string, string> = {
+  'en:vegetables': 'vegetables',
+  'en:fresh-vegetables': 'vegetables',
+  'en:legumes': 'vegetables',
+  'en:fruits': 'fruits',
+  'en:fresh-fruits': 'fruits',
+  'en:cereals-and-potatoes': 'grains',
+  'en:cereals-and-their-products': 'grains',
+  'en:cereal-grains': 'grains',
+  'en:fishes': 'fish',
+  'en:seafood': 'fish',
+  'en:nuts': 'nuts',
+  'en:nuts-and-their-products': 'nuts',
+  'en:seeds': 'seeds',
+  'en:snacks': 'snacks',
+  'en:salty-snacks': 'snacks',
+  'en:beverages': 'beverages',
+  'en:sodas': 'beverages',
+  'en:desserts': 'desserts',
+  'en:sweet-snacks': 'desserts',
+  'en:biscuits-and-cakes': 'desserts',
+  'en:breakfasts': 'breakfast',
+  'en:breakfast-cereals': 'breakfast',
+  'en:dairies': 'dairy',
+  'en:yogurts': 'dairy',
+  'en:cheeses': 'dairy',
+  'en:meals': 'processed_foods',
+  'en:instant-noodles': 'processed_foods'
+};
+
+// Grupo NOVA → nivel de procesamiento del catálogo
+export const NOVA_CATEGORY_MAP: Record<ProcessingLevel['nova'], ProcessingLevel['category']> = {
+  1: 'minimal',
+  2: 'processed',
+  3: 'processed',
+  4: 'ultra-processed'
+};
+
+// Por grupo y no por categoría: NOVA 2 y 3 comparten categoría pero no descripción
+export const NOVA_DESCRIPTIONS: Record<ProcessingLevel['nova'], string> = {
+  1: 'Unprocessed or minimally processed foods',
+  2: 'Processed culinary ingredients',
+  3: 'Processed foods',
+  4: 'Ultra-processed food products'
+};
+
+// Etiquetas de alérgenos OFF → bandera "...Free" que se marca como false
+export const ALLERGEN_TAG_MAP: Record<string, AllergenFlag> = {
+  'en:gluten': 'glutenFree',
+  'en:milk': 'lactoseFree',
+  'en:nuts': 'nutFree',
+  'en:peanuts': 'nutFree',
+  'en:eggs': 'eggFree',
+  'en:fish': 'fishFree',
+  'en:soybeans': 'soyFree'
+};
+
+// Etiquetas de certificación OFF → bandera que se marca como true
+export const LABEL_TAG_MAP: Record<string, AllergenFlag> = {
+  'en:organic': 'organic',
+  'en:eu-organic': 'organic',
+  'en:halal': 'halal',
+  'en:kosher': 'kosher'
+};
+
+// Nutrientes OFF (sin sufijo _100g) → claves de vitaminas del catálogo
+export const VITAMIN_NUTRIMENT_MAP: Record<string, string> = {
+  'vitamin-a': 'vitamin_a',
+  'vitamin-c': 'vitamin_c',
+  'vitamin-d': 'vitamin_d',
+  'vitamin-e': 'vitamin_e',
+  'vitamin-k': 'vitamin_k',
+  'vitamin-b1': 'thiamine',
+  'vitamin-b2': 'riboflavin',
+  'vitamin-pp': 'niacin',
+  'vitamin-b6': 'vitamin_b6',
+  'vitamin-b9': 'folate',
+  'vitamin-b12': 'vitamin_b12'
+};
+
+// Nutrientes OFF (sin sufijo _100g) → claves de minerales del catálogo
+export const MINERAL_NUTRIMENT_MAP: Record<string, string> = {
+  potassium: 'potassium',
+  iron: 'iron',
+  calcium: 'calcium',
+  magnesium: 'magnesium',
+  phosphorus: 'phosphorus',
+  selenium: 'selenium',
+  manganese: 'manganese',
+  zinc: 'zinc'
+};
+
+// Nutri-Score de OFF → rating 0-10 del catálogo
+export const NUTRISCORE_RATING_MAP: Record<string, number> = {
+  a: 9,
+  b: 7.5,
+  c: 6,
+  d: 4,
+  e: 2
+};
@@ -0,0 +1,70 @@
+import { Product } from '@/data/types';
+
+// Subconjunto de campos de un producto de Open Food Facts usados por el importador.
+// Los nutrientes siguen la convención de OFF: gramos por cada 100 g.
+export interface OpenFoodFactsNutriments {
+  'energy-kcal_100g'?: number | string;
+  proteins_100g?: number | string;
+  carbohydrates_100g?: number | string;
+  fat_100g?: number | string;
+  fiber_100g?: number | string;
+  'saturated-fat_100g'?: number | string;
+  sugars_100g?: number | string;
+  sodium_100g?: number | string;
+  salt_100g?: number | string;
+  cholesterol_100g?: number | string;
+  [key: string]: number | string | undefined;
+}
+
+export interface OpenFoodFactsProduct {
+  code?: string;
+  product_name?: string;
+  generic_name?: string;
+  image_url?: string;
+  image_front_url?: string;
+  nova_group?: number | string;
+  nutriscore_grade?: string;
+  categories_tags?: string[] | string;
+  allergens_tags?: string[] | string;
+  traces_tags?: string[] | string;
+  labels_tags?: string[] | string;
+  ingredients_analysis_tags?: string[] | string;
+  ingredients_text?: string;
+  additives_tags?: string[] | string;
+  additives_n?: number | string;
+  ingredients_from_palm_oil_n?: number | string;
+  nutriments?: OpenFoodFactsNutriments;
+  [key: string]: unknown;
+}
+
+export type ImportRejectionReason =
+  | 'missing_code'
+  | 'missing_name'
+  | 'missing_nutriments'
+  | 'invalid_nutriments'
+  | 'invalid_nova_group'
+  | 'unmapped_category'
+  | 'duplicate_code';
+
+export interface RejectedRow {
+  row: number;            // Posición (base 1) en el archivo de origen
+  code?: string;
+  name?: string;
+  reasons: ImportRejectionReason[];
+}
+
+export interface ImportReport {
+  products: Product[];
+  rejected: RejectedRow[];
+  summary: {
+    total: number;
+    imported: number;
+    rejected: number;
+  };
+}
+
+export interface ImportOptions {
+  idPrefix?: string;          // Prefijo para los ids generados (por defecto 'off')
+  defaultCategory?: string;   // Categoría para filas sin categoría reconocida
+  language?: 'en' | 'es';     // Idioma preferido para product_name_<lang>
+}
@@ -0,0 +1,157 @@
+/**
+ * Recomendador de alternativas más saludables ("swaps").
+ * Para un producto busca otros con mejor calificación o menor grupo NOVA
+ * que cumplan un rol parecido: misma categoría o una relacionada y
+ * calorías similares por porción. Excluye los productos con alérgenos que
+ * el usuario evita (UserProfile.allergies).
+ */
+
+import { AllergenFlag, Product, ServingSize } from '@/data/types';
+import { getServingOptions } from '@/utils/servingSizes';
+import { isAllergenSafe } from '@/utils/allergenStatus';
+
+export type SwapReason = 'lessProcessed' | 'higherRating' | 'lessSugar' | 'lessSodium' | 'moreFiber';
+
+export interface SwapRecommendation {
+  product: Product;
+  score: number;
+  reasons: SwapReason[];
+  ratingGain: number;
+  novaGain: number;               // Grupos NOVA que se bajan
+  serving: ServingSize;           // Porción del candidato más parecida en calorías
+  servingCalories: number;
+  referenceCalories: number;      // Calorías de la porción típica del producto original
+}
+
+export interface SwapOptions {
+  limit: number;
+  avoidedAllergens: AllergenFlag[];
+  strictAllergens: boolean;       // También excluye trazas
+  minRatingGain: number;          // Mejora mínima de calificación si el grupo NOVA no baja
+  calorieTolerance: number;       // Diferencia relativa máxima de calorías por porción
+}
+
+// Categorías que cumplen un rol parecido (p. ej. un snack se cambia por frutos secos o fruta)
+export const RELATED_CATEGORIES: Record<string, string[]> = {
+  snacks: ['nuts', 'seeds', 'fruits'],
+  beverages: ['fruits', 'dairy'],
+  desserts: ['fruits', 'dairy', 'snacks'],
+  breakfast: ['grains', 'dairy', 'fruits', 'seeds', 'nuts'],
+  processed_foods: ['grains', 'proteins', 'fish', 'vegetables'],
+  grains: ['vegetables', 'proteins'],
+  proteins: ['fish', 'grains'],
+  fish: ['proteins'],
+  dairy: ['nuts', 'seeds'],
+  fruits: ['vegetables'],
+  vegetables: ['fruits']
+};
+
+const DEFAULT_OPTIONS: SwapOptions = {
+  limit: 3,
+  avoidedAllergens: [],
+  strictAllergens: true,
+  minRatingGain: 1,
+  calorieTolerance: 0.5
+};
+
+// Puntos del ranking: entre candidatos ya más saludables pesa más que cumplan el mismo rol
+const RATING_POINTS = 0.5;       // Por punto de calificación ganado
+const NOVA_STEP_POINTS = 0.5;    // Por grupo NOVA que se baja
+const SAME_CATEGORY_BONUS = 3;
+const RELATED_CATEGORY_BONUS = 1;
+const CALORIE_PENALTY = 2;       // Por diferencia relativa de calorías por porción
+
+const caloriesPerServing = (product: Product, serving: ServingSize): number => {
+  return (product.nutrition.calories.total * serving.grams) / 100;
+};
+
+// Porción típica: la primera declarada o, si no hay, la referencia de 100 g
+const getTypicalServing = (product: Product): ServingSize => {
+  const options = getServingOptions(product);
+  return options[1] ?? options[0];
+};
+
+const relativeDifference = (a: number, b: number): number => {
+  return Math.abs(a - b) / Math.max(a, b, 1);
+};
+
+export class HealthierSwapRecommender {
+  /**
+   * Alternativas más saludables ordenadas de mejor a peor
+   */
+  recommend(product: Product, catalog: Product[], options: Partial<SwapOptions> = {}): SwapRecommendation[] {
+    const config = { ...DEFAULT_OPTIONS, ...options };
+    const referenceCalories = caloriesPerServing(product, getTypicalServing(product));
+
+    return catalog
+      .filter(candidate => candidate.id !== product.id)
+      .filter(candidate => this.isRelated(product, candidate))
+      .filter(candidate => this.isHealthier(product, candidate, config.minRatingGain))
+      .filter(candidate => config.avoidedAllergens.every(flag => isAllergenSafe(candidate, flag, config.strictAllergens)))
+      .map(candidate => this.evaluate(product, candidate, referenceCalories))
+      .filter(({ servingCalories }) => relativeDifference(servingCalories, referenceCalories) <= config.calorieTolerance)
+      .sort((a, b) => b.score - a.score)
+      .slice(0, config.limit);
+  }
+
+  /**
+   * Misma categoría o una de RELATED_CATEGORIES
+   */
+  isRelated(product: Product, candidate: Product): boolean {
+    return candidate.category === product.category ||
+      (RELATED_CATEGORIES[product.category] || []).includes(candidate.category);
+  }
+
+  /**
+   * Nunca peor en calificación ni en NOVA, y mejor en al menos uno de los dos
+   */
+  isHealthier(product: Product, candidate: Product, minRatingGain = DEFAULT_OPTIONS.minRatingGain): boolean {
+    const ratingGain = candidate.rating - product.rating;
+    const novaGain = product.processingLevel.nova - candidate.processingLevel.nova;
+
+    if (ratingGain < 0 || novaGain < 0) return false;
+    return novaGain > 0 || ratingGain >= minRatingGain;
+  }
+
+  private evaluate(product: Product, candidate: Product, referenceCalories: number): SwapRecommendation {
+    // La porción del candidato que más se acerca a las calorías de la original
+    const [serving] = getServingOptions(candidate)
+      .slice()
+      .sort((a, b) =>
+        relativeDifference(caloriesPerServing(candidate, a), referenceCalories) -
+        relativeDifference(caloriesPerServing(candidate, b), referenceCalories));
+    const servingCalories = caloriesPerServing(candidate, serving);
+
+    const ratingGain = Math.round((candidate.rating - product.rating) * 10) / 10;
+    const novaGain = product.processingLevel.nova - candidate.processingLevel.nova;
+    const categoryBonus = candidate.category === product.category ? SAME_CATEGORY_BONUS : RELATED_CATEGORY_BONUS;
+
+    return {
+      product: candidate,
+      score: ratingGain * RATING_POINTS + novaGain * NOVA_STEP_POINTS + categoryBonus -
+        relativeDifference(servingCalories, referenceCalories) * CALORIE_PENALTY,
+      reasons: this.explain(product, candidate, ratingGain, novaGain),
+      ratingGain,
+      novaGain,
+      serving,
+      servingCalories: Math.round(servingCalories),
+      referenceCalories: Math.round(referenceCalories)
+    };
+  }
+
+  private explain(product: Product, candidate: Product, ratingGain: number, novaGain: number): SwapReason[] {
+    const reasons: SwapReason[] = [];
+    const { nutrition } = product;
+    const candidateNutrition = candidate.nutrition;
+
+    if (novaGain > 0) reasons.push('lessProcessed');
+    if (ratingGain > 0) reasons.push('higherRating');
+    if ((candidateNutrition.sugar ?? 0) < (nutrition.sugar ?? 0)) reasons.push('lessSugar');
+    if ((candidateNutrition.sodium ?? 0) < (nutrition.sodium ?? 0)) reasons.push('lessSodium');
+    if (candidateNutrition.fiber.total > nutrition.fiber.total) reasons.push('moreFiber');
+
+    return reasons;
+  }
+}
+
+export const healthierSwapRecommender = new HealthierSwapRecommender();
@@ -0,0 +1,63 @@
+/**
+ * Pruebas unitarias para HealthierSwapRecommender
+ */
+
+import { describe, it, expect } from 'vitest';
+import { HealthierSwapRecommender } from '../HealthierSwapRecommender';
+import { productsDB } from '@/data/products';
+import { Product } from '@/data/types';
+
+const getProduct = (id: string): Product => productsDB.find(p => p.id === id)!;
+
+describe('HealthierSwapRecommender', () => {
+  const recommender = new HealthierSwapRecommender();
+
+  it('should suggest less processed alternatives for an ultra-processed snack', () => {
+    const chips = getProduct('chips_009');
+    const swaps = recommender.recommend(chips, productsDB);
+
+    expect(swaps.length).toBeGreaterThan(0);
+    swaps.forEach(swap => {
+      expect(swap.product.processingLevel.nova).toBeLessThan(4);
+      expect(swap.product.rating).toBeGreaterThan(chips.rating);
+      expect(recommender.isRelated(chips, swap.product)).toBe(true);
+    });
+    expect(swaps[0].reasons[0]).toBe('lessProcessed');
+  });
+
+  it('should prefer products from the same category', () => {
+    const [best] = recommender.recommend(getProduct('chips_009'), productsDB);
+    expect(best.product.category).toBe('snacks');
+  });
+
+  it('should pick the candidate serving closest in calories', () => {
+    const swaps = recommender.recommend(getProduct('soda_010'), productsDB, { limit: 10 });
+
+    swaps.forEach(swap => {
+      const difference = Math.abs(swap.servingCalories - swap.referenceCalories) / Math.max(swap.servingCalories, swap.referenceCalories);
+      expect(difference).toBeLessThanOrEqual(0.5);
+    });
+  });
+
+  it('should exclude products with avoided allergens, including traces in strict mode', () => {
+    // Chia seeds may contain traces of nuts; almonds contain them
+    const yogurt = getProduct('greek_yogurt_007');
+    const unrestricted = recommender.recommend(yogurt, productsDB, { limit: 20 }).map(swap => swap.product.id);
+    const nutFree = recommender.recommend(yogurt, productsDB, { limit: 20, avoidedAllergens: ['nutFree'] })
+      .map(swap => swap.product.id);
+    const relaxed = recommender.recommend(yogurt, productsDB, { limit: 20, avoidedAllergens: ['nutFree'], strictAllergens: false })
+      .map(swap => swap.product.id);
+
+    expect(unrestricted).toEqual(expect.arrayContaining(['chia_seeds_008', 'almonds_004']));
+    expect(nutFree).not.toContain('chia_seeds_008');
+    expect(relaxed).toContain('chia_seeds_008');
+    expect(relaxed).not.toContain('almonds_004');
+    nutFree.forEach(id => expect(getProduct(id).allergens.nutFree).toBe(true));
+  });
+
+  it('should never recommend worse products', () => {
+    const salmon = getProduct('salmon_003');
+    expect(recommender.isHealthier(salmon, getProduct('instant_noodles_011'))).toBe(false);
+    expect(recommender.isHealthier(getProduct('instant_noodles_011'), salmon)).toBe(true);
+  });
+});
@@ -0,0 +1,183 @@
+/**
+ * Cálculo de Nutri-Score (A-E) a partir de los nutrientes del producto (por 100 g/ml).
+ * Sigue las tablas de puntos del algoritmo original (FSA/Santé publique France),
+ * con reglas específicas para bebidas y grasas añadidas.
+ */
+
+import { Product } from '@/data/types';
+
+export type NutriScoreLetter = 'A' | 'B' | 'C' | 'D' | 'E';
+export type NutriScoreProfile = 'general' | 'beverage' | 'fat';
+
+export const NUTRI_SCORE_LETTERS: NutriScoreLetter[] = ['A', 'B', 'C', 'D', 'E'];
+
+export interface NutriScoreComponents {
+  energy: number;
+  sugars: number;
+  saturatedFat: number;
+  sodium: number;
+  fruitsVegetables: number;
+  fiber: number;
+  protein: number;
+}
+
+export interface NutriScoreResult {
+  letter: NutriScoreLetter;
+  score: number;
+  profile: NutriScoreProfile;
+  negativePoints: number;
+  positivePoints: number;
+  components: NutriScoreComponents;
+  missingFields: string[];  // Campos ausentes que se asumieron como 0
+}
+
+// Datos mínimos necesarios para el cálculo
+export interface NutriScoreInput {
+  energyKcal: number;
+  sugars?: number;
+  saturatedFat?: number;
+  totalFat?: number;
+  sodiumMg?: number;
+  fiber?: number;
+  protein?: number;
+  fruitsVegetablesPercent?: number;
+  isWater?: boolean;
+}
+
+const KJ_PER_KCAL = 4.184;
+
+// Umbrales: se suma un punto por cada umbral superado (valor estrictamente mayor)
+const THRESHOLDS = {
+  energyKj: [335, 670, 1005, 1340, 1675, 2010, 2345, 2680, 3015, 3350],
+  sugars: [4.5, 9, 13.5, 18, 22.5, 27, 31, 36, 40, 45],
+  saturatedFat: [1, 2, 3, 4, 5, 6, 7, 8, 9, 10],
+  sodiumMg: [90, 180, 270, 360, 450, 540, 630, 720, 810, 900],
+  fiber: [0.9, 1.9, 2.8, 3.7, 4.7],
+  protein: [1.6, 3.2, 4.8, 6.4, 8.0],
+  // Bebidas
+  beverageEnergyKj: [0, 30, 60, 90, 120, 150, 180, 210, 240, 270],
+  beverageSugars: [0, 1.5, 3, 4.5, 6, 7.5, 9, 10.5, 12, 13.5],
+  // Grasas añadidas: porcentaje de grasa saturada sobre grasa total
+  saturatedFatRatio: [10, 16, 22, 28, 34, 40, 46, 52, 58, 64]
+};
+
+// Perfil de cálculo según la categoría del catálogo
+export const NUTRI_SCORE_PROFILE_BY_CATEGORY: Record<string, NutriScoreProfile> = {
+  beverages: 'beverage',
+  fats: 'fat',
+  oils: 'fat'
+};
+
+// Estimación del porcentaje de frutas, verduras, legumbres y frutos secos por categoría
+export const FRUITS_VEGETABLES_PERCENT_BY_CATEGORY: Record<string, number> = {
+  vegetables: 100,
+  fruits: 100,
+  nuts: 100
+};
+
+const countPoints = (value: number, thresholds: number[]): number => {
+  return thresholds.filter(threshold => value > threshold).length;
+};
+
+const fruitsVegetablesPoints = (percent: number, profile: NutriScoreProfile): number => {
+  if (profile === 'beverage') {
+    if (percent > 80) return 10;
+    if (percent > 60) return 4;
+    if (percent > 40) return 2;
+    return 0;
+  }
+  if (percent > 80) return 5;
+  if (percent > 60) return 2;
+  if (percent > 40) return 1;
+  return 0;
+};
+
+const letterForScore = (score: number, profile: NutriScoreProfile, isWater: boolean): NutriScoreLetter => {
+  if (profile === 'beverage') {
+    if (isWater) return 'A';
+    if (score <= 1) return 'B';
+    if (score <= 5) return 'C';
+    if (score <= 9) return 'D';
+    return 'E';
+  }
+  if (score <= -1) return 'A';
+  if (score <= 2) return 'B';
+  if (score <= 10) return 'C';
+  if (score <= 18) return 'D';
+  return 'E';
+};
+
+export class NutriScoreCalculator {
+  /**
+   * Calcula el Nutri-Score de un producto del catálogo
+   */
+  calculateForProduct(product: Product): NutriScoreResult {
+    const { nutrition } = product;
+    const missingFields = (['sugar', 'saturatedFat', 'sodium'] as const)
+      .filter(field => nutrition[field] === undefined)
+      .map(field => `nutrition.${field}`);
+
+    const profile = NUTRI_SCORE_PROFILE_BY_CATEGORY[product.category] ?? 'general';
+    const result = this.calculate({
+      energyKcal: nutrition.calories.total,
+      sugars: nutrition.sugar,
+      saturatedFat: nutrition.saturatedFat,
+      totalFat: nutrition.fats.total,
+      sodiumMg: nutrition.sodium,
+      fiber: nutrition.fiber.total,
+      protein: nutrition.protein.total,
+      fruitsVegetablesPercent: FRUITS_VEGETABLES_PERCENT_BY_CATEGORY[product.category] ?? 0
+    }, profile);
+
+    return { ...result, missingFields };
+  }
+
+  /**
+   * Calcula el Nutri-Score a partir de valores por 100 g/ml
+   */
+  calculate(input: NutriScoreInput, profile: NutriScoreProfile = 'general'): NutriScoreResult {
+    const energyKj = input.energyKcal * KJ_PER_KCAL;
+    const sugars = input.sugars ?? 0;
+    const saturatedFat = input.saturatedFat ?? 0;
+    const fruitsVegetablesPercent = input.fruitsVegetablesPercent ?? 0;
+
+    const components: NutriScoreComponents = {
+      energy: countPoints(energyKj, profile === 'beverage' ? THRESHOLDS.beverageEnergyKj : THRESHOLDS.energyKj),
+      sugars: countPoints(sugars, profile === 'beverage' ? THRESHOLDS.beverageSugars : THRESHOLDS.sugars),
+      saturatedFat: profile === 'fat'
+        ? countPoints(input.totalFat ? (saturatedFat / input.totalFat) * 100 : 0, THRESHOLDS.saturatedFatRatio)
+        : countPoints(saturatedFat, THRESHOLDS.saturatedFat),
+      sodium: countPoints(input.sodiumMg ?? 0, THRESHOLDS.sodiumMg),
+      fruitsVegetables: fruitsVegetablesPoints(fruitsVegetablesPercent, profile),
+      fiber: countPoints(input.fiber ?? 0, THRESHOLDS.fiber),
+      protein: countPoints(input.protein ?? 0, THRESHOLDS.protein)
+    };
+
+    const negativePoints = components.energy + components.sugars + components.saturatedFat + components.sodium;
+    const maxFruitsVegetablesPoints = profile === 'beverage' ? 10 : 5;
+
+    // Con 11 o más puntos negativos la proteína sólo cuenta si el producto
+    // alcanza el máximo de frutas/verduras
+    const countsProtein = negativePoints < 11 || components.fruitsVegetables >= maxFruitsVegetablesPoints;
+    const positivePoints = components.fruitsVegetables + components.fiber + (countsProtein ? components.protein : 0);
+
+    const score = negativePoints - positivePoints;
+
+    return {
+      letter: letterForScore(score, profile, !!input.isWater),
+      score,
+      profile,
+      negativePoints,
+      positivePoints,
+      components,
+      missingFields: []
+    };
+  }
+}
+
+export const nutriScoreCalculator = new NutriScoreCalculator();
+
+// Compara letras: true si `letter` es igual o mejor que `reference`
+export const isNutriScoreAtLeast = (letter: NutriScoreLetter, reference: NutriScoreLetter): boolean => {
+  return NUTRI_SCORE_LETTERS.indexOf(letter) <= NUTRI_SCORE_LETTERS.indexOf(reference);
+};
@@ -0,0 +1,121 @@
+/**
+ * Explicación de la calificación de un producto: descompone la nota (0-10)
+ * en contribuciones ponderadas de macronutrientes, procesamiento (NOVA),
+ * sodio/azúcar y fibra. La diferencia con la calificación publicada se
+ * reporta como ajuste para que el desglose siempre cuadre con la nota.
+ */
+
+import { Product } from '@/data/types';
+import { normalizeHealthRanking } from '@/utils/healthScale';
+
+export type RatingFactor = 'protein' | 'carbs' | 'fats' | 'fiber' | 'processing' | 'sodium' | 'sugar';
+export type RatingImpact = 'positive' | 'neutral' | 'negative';
+
+export interface RatingContribution {
+  factor: RatingFactor;
+  weight: number;       // Puntos máximos que aporta el factor
+  score: number;        // Puntuación normalizada del factor (0-1)
+  points: number;       // weight × score
+  impact: RatingImpact;
+  value?: number;       // Valor de origen (g, mg o grupo NOVA)
+  unit?: string;
+}
+
+export interface RatingExplanation {
+  productId: string;
+  rating: number;
+  estimatedRating: number;  // Suma de las contribuciones
+  adjustment: number;       // rating - estimatedRating
+  contributions: RatingContribution[];
+}
+
+// Pesos por factor; suman 10 para que la estimación quede en la escala de la calificación
+export const RATING_WEIGHTS: Record<RatingFactor, number> = {
+  protein: 1,
+  carbs: 1,
+  fats: 1,
+  fiber: 1.5,
+  processing: 3,
+  sodium: 1,
+  sugar: 1.5
+};
+
+// Por encima de estos valores (por 100 g) el factor no aporta puntos
+const SODIUM_LIMIT_MG = 600;
+const SUGAR_LIMIT_G = 22.5;
+
+const NOVA_SCORES: Record<1 | 2 | 3 | 4, number> = {
+  1: 1,
+  2: 2 / 3,
+  3: 1 / 3,
+  4: 0
+};
+
+const clamp01 = (value: number): number => Math.min(1, Math.max(0, value));
+
+const round1 = (value: number): number => Math.round(value * 10) / 10;
+
+const impactForScore = (score: number): RatingImpact => {
+  if (score >= 0.67) return 'positive';
+  if (score < 0.34) return 'negative';
+  return 'neutral';
+};
+
+export class RatingExplainer {
+  constructor(private weights: Record<RatingFactor, number> = RATING_WEIGHTS) {}
+
+  /**
+   * Genera el desglose de la calificación de un producto
+   */
+  explain(product: Product): RatingExplanation {
+    const { nutrition, processingLevel } = product;
+
+    const scores: Array<Omit<RatingContribution, 'weight' | 'points' | 'impact'>> = [
+      ...(['protein', 'carbs', 'fats', 'fiber'] as const).map(macro => ({
+        factor: macro,
+        score: normalizeHealthRanking(nutrition[macro].healthRanking),
+        value: nutrition[macro].total,
+        unit: 'g'
+      })),
+      {
+        factor: 'processing',
+        score: NOVA_SCORES[processingLevel.nova] ?? 0,
+        value: processingLevel.nova
+      },
+      {
+        factor: 'sodium',
+        score: clamp01(1 - (nutrition.sodium ?? 0) / SODIUM_LIMIT_MG),
+        value: nutrition.sodium ?? 0,
+        unit: 'mg'
+      },
+      {
+        factor: 'sugar',
+        score: clamp01(1 - (nutrition.sugar ?? 0) / SUGAR_LIMIT_G),
+        value: nutrition.sugar ?? 0,
+        unit: 'g'
+      }
+    ];
+
+    const contributions: RatingContribution[] = scores.map(entry => {
+      const weight = this.weights[entry.factor];
+      return {
+        ...entry,
+        weight,
+        points: round1(weight * entry.score),
+        impact: impactForScore(entry.score)
+      };
+    });
+
+    const estimatedRating = round1(contributions.reduce((sum, c) => sum + c.points, 0));
+
+    return {
+      productId: product.id,
+      rating: product.rating,
+      estimatedRating,
+      adjustment: round1(product.rating - estimatedRating),
+      contributions
+    };
+  }
+}
+
+export const ratingExplainer = new RatingExplainer();
@@ -0,0 +1,152 @@
+/**
+ * Pruebas unitarias para NutriScoreCalculator
+ */
+
+import { describe, it, expect } from 'vitest';
+import { NutriScoreCalculator, isNutriScoreAtLeast } from '../NutriScoreCalculator';
+import { productsDB } from '@/data/products';
+
+describe('NutriScoreCalculator', () => {
+  const calculator = new NutriScoreCalculator();
+
+  describe('general foods', () => {
+    it('should grade a hazelnut cocoa spread as E', () => {
+      // Referencia: 539 kcal, 56.3 g azúcares, 10.6 g saturadas, 42 mg sodio, 3.4 g fibra, 6.3 g proteína
+      const result = calculator.calculate({
+        energyKcal: 539,
+        sugars: 56.3,
+        saturatedFat: 10.6,
+        sodiumMg: 42,
+        fiber: 3.4,
+        protein: 6.3
+      });
+
+      expect(result.components).toEqual({
+        energy: 6,
+        sugars: 10,
+        saturatedFat: 10,
+        sodium: 0,
+        fruitsVegetables: 0,
+        fiber: 3,
+        protein: 3
+      });
+      expect(result.negativePoints).toBe(26);
+      // Con 11+ puntos negativos y sin frutas/verduras, la proteína no cuenta
+      expect(result.positivePoints).toBe(3);
+      expect(result.score).toBe(23);
+      expect(result.letter).toBe('E');
+    });
+
+    it('should grade fresh broccoli as A', () => {
+      const result = calculator.calculate({
+        energyKcal: 34,
+        sugars: 1.7,
+        saturatedFat: 0.04,
+        sodiumMg: 33,
+        fiber: 2.6,
+        protein: 2.8,
+        fruitsVegetablesPercent: 100
+      });
+
+      expect(result.negativePoints).toBe(0);
+      expect(result.positivePoints).toBe(8);
+      expect(result.score).toBe(-8);
+      expect(result.letter).toBe('A');
+    });
+
+    it('should count protein when fruit and vegetable points are maxed', () => {
+      const input = {
+        energyKcal: 400,
+        sugars: 30,
+        saturatedFat: 2,
+        sodiumMg: 100,
+        fiber: 0,
+        protein: 10
+      };
+
+      const withoutVegetables = calculator.calculate(input);
+      const withVegetables = calculator.calculate({ ...input, fruitsVegetablesPercent: 90 });
+
+      expect(withoutVegetables.negativePoints).toBeGreaterThanOrEqual(11);
+      expect(withoutVegetables.positivePoints).toBe(0);
+      expect(withVegetables.positivePoints).toBe(10);
+    });
+
+    it('should map score boundaries to letters', () => {
+      // Cada umbral de azúcar superado suma un punto
+      const letterForSugars = (sugars: number) =>
+        calculator.calculate({ energyKcal: 0, sugars }).letter;
+
+      expect(letterForSugars(0)).toBe('B');
+      expect(letterForSugars(10)).toBe('B');     // 2 puntos
+      expect(letterForSugars(14)).toBe('C');     // 3 puntos
+      expect(calculator.calculate({ energyKcal: 0, fiber: 1 }).letter).toBe('A');
+    });
+  });
+
+  describe('beverages', () => {
+    it('should grade a regular cola as E', () => {
+      const result = calculator.calculate({ energyKcal: 42, sugars: 10.6, sodiumMg: 4 }, 'beverage');
+
+      expect(result.components.energy).toBe(6);
+      expect(result.components.sugars).toBe(8);
+      expect(result.score).toBe(14);
+      expect(result.letter).toBe('E');
+    });
+
+    it('should reserve A for water', () => {
+      const zeroCola = calculator.calculate({ energyKcal: 0, sugars: 0, sodiumMg: 10 }, 'beverage');
+      const water = calculator.calculate({ energyKcal: 0, isWater: true }, 'beverage');
+
+      expect(zeroCola.letter).toBe('B');
+      expect(water.letter).toBe('A');
+    });
+  });
+
+  describe('added fats', () => {
+    it('should use the saturated fat ratio instead of the absolute amount', () => {
+      const oliveOil = { energyKcal: 884, totalFat: 100, saturatedFat: 14, sodiumMg: 2 };
+
+      const general = calculator.calculate(oliveOil);
+      const fat = calculator.calculate(oliveOil, 'fat');
+
+      expect(general.components.saturatedFat).toBe(10);
+      expect(fat.components.saturatedFat).toBe(1);
+      expect(general.letter).toBe('E');
+      expect(fat.letter).toBe('D');
+    });
+  });
+
+  describe('catalog products', () => {
+    it('should pick the profile and fruit share from the category', () => {
+      const broccoli = productsDB.find(p => p.id === 'broccoli_001')!;
+      const soda = productsDB.find(p => p.id === 'soda_010')!;
+
+      const broccoliResult = calculator.calculateForProduct(broccoli);
+      const sodaResult = calculator.calculateForProduct(soda);
+
+      expect(broccoliResult.profile).toBe('general');
+      expect(broccoliResult.components.fruitsVegetables).toBe(5);
+      expect(broccoliResult.letter).toBe('A');
+      expect(sodaResult.profile).toBe('beverage');
+      expect(sodaResult.letter).toBe('E');
+    });
+
+    it('should report missing nutrient fields', () => {
+      const broccoli = productsDB.find(p => p.id === 'broccoli_001')!;
+      const nutrition = { ...broccoli.nutrition, sodium: undefined };
+
+      const result = calculator.calculateForProduct({ ...broccoli, nutrition });
+
+      expect(result.missingFields).toEqual(['nutrition.sodium']);
+    });
+  });
+
+  describe('isNutriScoreAtLeast', () => {
+    it('should compare letters from best to worst', () => {
+      expect(isNutriScoreAtLeast('A', 'B')).toBe(true);
+      expect(isNutriScoreAtLeast('B', 'B')).toBe(true);
+      expect(isNutriScoreAtLeast('C', 'B')).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,68 @@
+/**
+ * Pruebas unitarias para RatingExplainer
+ */
+
+import { describe, it, expect } from 'vitest';
+import { RatingExplainer, RATING_WEIGHTS } from '../RatingExplainer';
+import { productsDB } from '@/data/products';
+
+describe('RatingExplainer', () => {
+  const explainer = new RatingExplainer();
+  const broccoli = productsDB.find(p => p.id === 'broccoli_001')!;
+  const soda = productsDB.find(p => p.id === 'soda_010')!;
+
+  it('should use weights that add up to the 10-point rating scale', () => {
+    const total = Object.values(RATING_WEIGHTS).reduce((sum, weight) => sum + weight, 0);
+    expect(total).toBe(10);
+  });
+
+  it('should return one contribution per factor', () => {
+    const explanation = explainer.explain(broccoli);
+
+    expect(explanation.contributions.map(c => c.factor)).toEqual(
+      ['protein', 'carbs', 'fats', 'fiber', 'processing', 'sodium', 'sugar']
+    );
+    explanation.contributions.forEach(contribution => {
+      expect(contribution.points).toBeGreaterThanOrEqual(0);
+      expect(contribution.points).toBeLessThanOrEqual(contribution.weight);
+    });
+  });
+
+  it('should reconcile contributions and adjustment with the published rating', () => {
+    for (const product of productsDB) {
+      const explanation = explainer.explain(product);
+      const sum = explanation.contributions.reduce((acc, c) => acc + c.points, 0);
+
+      expect(explanation.estimatedRating).toBeCloseTo(sum, 5);
+      expect(explanation.estimatedRating + explanation.adjustment).toBeCloseTo(product.rating, 5);
+    }
+  });
+
+  it('should explain a whole food mostly through positive contributions', () => {
+    const explanation = explainer.explain(broccoli);
+    const processing = explanation.contributions.find(c => c.factor === 'processing')!;
+
+    expect(processing.points).toBe(RATING_WEIGHTS.processing);
+    expect(processing.impact).toBe('positive');
+    expect(Math.abs(explanation.adjustment)).toBeLessThan(1);
+  });
+
+  it('should penalize ultra-processed, sugary products', () => {
+    const explanation = explainer.explain(soda);
+    const processing = explanation.contributions.find(c => c.factor === 'processing')!;
+    const sugar = explanation.contributions.find(c => c.factor === 'sugar')!;
+
+    expect(processing.points).toBe(0);
+    expect(sugar.impact).not.toBe('positive');
+    expect(explanation.estimatedRating).toBeLessThan(explainer.explain(broccoli).estimatedRating);
+  });
+
+  it('should treat missing sodium and sugar as zero', () => {
+    const nutrition = { ...broccoli.nutrition, sodium: undefined, sugar: undefined };
+    const explanation = explainer.explain({ ...broccoli, nutrition });
+
+    const sodium = explanation.contributions.find(c => c.factor === 'sodium')!;
+    expect(sodium.value).toBe(0);
+    expect(sodium.points).toBe(RATING_WEIGHTS.sodium);
+  });
+});
@@ -1,27 +1,33 @@
 
 import { Searchable } from '@/types/search';
-import { TextNormalizationService } from './TextNormalizationService';
+import { SearchIndex } from './SearchIndex';
 import { SearchResult, SearchOptions } from './types';
 import { SearchStrategyChain } from './SearchStrategyChain';
 import { ExactMatchStrategy, StartsWithMatchStrategy, ContainsMatchStrategy } from './strategies/MatchStrategy';
 import { FuzzyMatchStrategy } from './strategies/FuzzyMatchStrategy';
 import { SynonymMatchStrategy } from './strategies/SynonymMatchStrategy';
+import { VariantMatchStrategy } from './strategies/VariantMatchStrategy';
+import { TokenMatchStrategy } from './strategies/TokenMatchStrategy';
 
 /**
  * Motor de búsqueda híbrido refactorizado usando Strategy pattern y Chain of Responsibility
  * Implementa scoring inteligente que prioriza:
  * 1. Matches exactos
- * 2. Matches que empiezan con el término (starts with)
- * 3. Matches de sinónimos regionales (canguil → palomitas de maíz)
- * 4. Matches fuzzy para errores tipográficos
- * 5. Matches parciales (contains)
+ * 2. Matches por tokens en consultas de varias palabras (AND por defecto, OR opcional)
+ * 3. Matches que empiezan con el término (starts with)
+ * 4. Matches de sinónimos regionales (canguil → palomitas de maíz)
+ * 5. Matches fuzzy para errores tipográficos
+ * 6. Matches de variantes de marca (olympos → yogur griego)
+ * 7. Matches parciales (contains)
  */
 export class HybridSearchEngine<T extends Searchable> {
   private items: T[];
+  private index: SearchIndex<T>;
   private strategyChain: SearchStrategyChain<T>;
 
   constructor(items: T[]) {
     this.items = items;
+    this.index = SearchIndex.for(items);
     this.strategyChain = this.initializeStrategyChain();
   }
 
@@ -29,17 +35,17 @@ export class HybridSearchEngine<T extends Searchable> {
    * Inicializa la cadena de estrategias de búsqueda
    */
   private initializeStrategyChain(): SearchStrategyChain<T> {
-    const normalizer = (text: string) => TextNormalizationService.normalize(text, {}, 'standard');
-    
     const chain = new SearchStrategyChain<T>();
     
     // Añadir estrategias en orden de prioridad
     chain
-      .addStrategy(new ExactMatchStrategy<T>(normalizer))        // Prioridad 100
-      .addStrategy(new StartsWithMatchStrategy<T>(normalizer))   // Prioridad 90
-      .addStrategy(new SynonymMatchStrategy<T>())                // Prioridad 85
-      .addStrategy(new FuzzyMatchStrategy<T>(this.items))        // Prioridad 80
-      .addStrategy(new ContainsMatchStrategy<T>(normalizer));    // Prioridad 70
+      .addStrategy(new ExactMatchStrategy<T>())        // Prioridad 100
+      .addStrategy(new TokenMatchStrategy<T>())        // Prioridad 95
+      .addStrategy(new StartsWithMatchStrategy<T>())   // Prioridad 90
+      .addStrategy(new SynonymMatchStrategy<T>())      // Prioridad 85
+      .addStrategy(new FuzzyMatchStrategy<T>())        // Prioridad 80
+      .addStrategy(new VariantMatchStrategy<T>())      // Prioridad 75
+      .addStrategy(new ContainsMatchStrategy<T>());    // Prioridad 70
 
     return chain;
   }
@@ -53,7 +59,7 @@ export class HybridSearchEngine<T extends Searchable> {
       return [];
     }
 
-    const normalizedQuery = TextNormalizationService.normalize(query, {}, 'standard');
+    const normalizedQuery = SearchIndex.normalize(query);
     
     console.log('HybridSearchEngine: Executing search for:', query);
     console.log('HybridSearchEngine: Normalized query:', normalizedQuery);
@@ -77,11 +83,19 @@ export class HybridSearchEngine<T extends Searchable> {
   }
 
   /**
-   * Actualiza los elementos y reinicializa las estrategias
+   * Índice compartido por las estrategias para los items actuales
+   */
+  getIndex(): SearchIndex<T> {
+    return this.index;
+  }
+
+  /**
+   * Actualiza los elementos. Las estrategias no guardan estado, así que solo
+   * cambia el índice, y únicamente cuando llega un array distinto
    */
   updateItems(items: T[]): void {
+    if (items === this.items) return;
     this.items = items;
-    // Reinicializar la cadena de estrategias con los nuevos items
-    this.strategyChain = this.initializeStrategyChain();
+    this.index = SearchIndex.for(items);
   }
 }
@@ -0,0 +1,144 @@
+/**
+ * Calcula los rangos de caracteres que coincidieron sobre el texto original.
+ * Las estrategias comparan textos normalizados (sin acentos, mayúsculas ni
+ * signos), así que se mapea cada carácter normalizado a su posición original
+ * para que la UI resalte exactamente lo que escribió el usuario.
+ */
+
+import { HighlightField, MatchHighlight, MatchRange } from './types';
+
+interface FoldedText {
+  folded: string;
+  positions: number[]; // Posición original de cada carácter de folded
+}
+
+interface FindOptions {
+  wordStart?: boolean; // Solo coincidencias al inicio de una palabra
+}
+
+/**
+ * Misma normalización que la estrategia 'standard', carácter a carácter
+ */
+const fold = (text: string): FoldedText => {
+  let folded = '';
+  const positions: number[] = [];
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (/\s/.test(char)) {
+      // Espacios colapsados y sin espacios iniciales, como en normalize()
+      if (folded && !folded.endsWith(' ')) {
+        folded += ' ';
+        positions.push(i);
+      }
+      continue;
+    }
+
+    const normalized = char
+      .toLowerCase()
+      .normalize('NFD')
+      .replace(/[\u0300-\u036f]/g, '')
+      .replace(/[^\w\s]/g, '');
+
+    for (const normalizedChar of normalized) {
+      folded += normalizedChar;
+      positions.push(i);
+    }
+  }
+
+  return { folded, positions };
+};
+
+export class MatchHighlighter {
+  /**
+   * Rangos del texto original donde aparece la consulta normalizada
+   */
+  static findRanges(text: string, normalizedQuery: string, options: FindOptions = {}): MatchRange[] {
+    if (!text || !normalizedQuery) return [];
+
+    const { folded, positions } = fold(text);
+    const ranges: MatchRange[] = [];
+
+    let start = folded.indexOf(normalizedQuery);
+    while (start !== -1) {
+      const end = start + normalizedQuery.length;
+      if (!options.wordStart || start === 0 || folded[start - 1] === ' ') {
+        ranges.push([positions[start], positions[end - 1] + 1]);
+      }
+      start = folded.indexOf(normalizedQuery, end);
+    }
+
+    return ranges;
+  }
+
+  /**
+   * Highlight de un campo con todas las apariciones de la consulta
+   */
+  static highlight(field: HighlightField, text: string, normalizedQuery: string, language?: string): MatchHighlight {
+    return { field, text, ranges: this.findRanges(text, normalizedQuery), language };
+  }
+
+  /**
+   * Highlight del campo completo, para matches que no dependen de la posición (ej: por id)
+   */
+  static whole(field: HighlightField, text: string, language?: string): MatchHighlight {
+    return { field, text, ranges: text ? [[0, text.length]] : [], language };
+  }
+
+  /**
+   * Convierte los indices de Fuse (fin inclusivo) a rangos [inicio, fin)
+   */
+  static fromFuseIndices(indices: ReadonlyArray<readonly [number, number]>): MatchRange[] {
+    return this.merge(indices.map(([start, end]) => [start, end + 1] as MatchRange));
+  }
+
+  /**
+   * Ordena y une rangos solapados o contiguos
+   */
+  static merge(ranges: MatchRange[]): MatchRange[] {
+    const sorted = [...ranges].sort((a, b) => a[0] - b[0]);
+    const merged: MatchRange[] = [];
+
+    for (const [start, end] of sorted) {
+      const last = merged[merged.length - 1];
+      if (last && start <= last[1]) {
+        last[1] = Math.max(last[1], end);
+      } else {
+        merged.push([start, end]);
+      }
+    }
+
+    return merged;
+  }
+
+  /**
+   * Rangos del highlight de un campo sobre un texto concreto (ej: el nombre mostrado)
+   */
+  static rangesFor(highlights: MatchHighlight[] | undefined, field: HighlightField, text: string): MatchRange[] {
+    const highlight = highlights?.find(candidate => candidate.field === field && candidate.text === text);
+    return highlight?.ranges || [];
+  }
+
+  /**
+   * Recorta textos largos (descripciones) alrededor del primer rango, desplazando los rangos
+   */
+  static excerpt(highlight: MatchHighlight, radius = 30): MatchHighlight {
+    const [first] = highlight.ranges;
+    if (!first || highlight.text.length <= radius * 2) return highlight;
+
+    const from = Math.max(0, first[0] - radius);
+    const to = Math.min(highlight.text.length, first[1] + radius);
+    const prefix = from > 0 ? '…' : '';
+    const suffix = to < highlight.text.length ? '…' : '';
+    const shift = prefix.length - from;
+
+    return {
+      ...highlight,
+      text: `${prefix}${highlight.text.slice(from, to)}${suffix}`,
+      ranges: highlight.ranges
+        .filter(([start, end]) => start >= from && end <= to)
+        .map(([start, end]) => [start + shift, end + shift] as MatchRange)
+    };
+  }
+}
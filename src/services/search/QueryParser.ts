@@ -0,0 +1,251 @@
+/**
+ * Parser del lenguaje de consulta estructurado de la caja de búsqueda.
+ * "vegano proteina>10 categoria:fruits nova<=2 -nueces" se convierte en
+ * QueryOptions: texto libre para el motor de búsqueda más FilterCriteria.
+ * Acepta alias de campos en español e inglés. Los tokens que no se pueden
+ * interpretar se marcan como inválidos y se ignoran, sin afectar al resto.
+ */
+
+import i18n from '@/i18n';
+import { FilterCriteria, QueryOptions } from '@/types/search';
+import { AllergenFlag } from '@/data/types';
+import { CATEGORY_TAXONOMY } from '@/data/categories';
+import { isMicronutrientKey } from '@/data/micronutrients';
+import { NUTRI_SCORE_LETTERS, NutriScoreLetter } from '../scoring/NutriScoreCalculator';
+import { getAcceptedAllergenStatuses } from '@/utils/allergenStatus';
+import { SearchIndex } from './SearchIndex';
+
+export type QueryTokenKind = 'text' | 'filter' | 'exclude' | 'invalid';
+export type QueryIssue = 'unknownField' | 'invalidValue' | 'unsupportedOperator' | 'missingValue';
+
+export interface ParsedQueryToken {
+  text: string; // Tal como se escribió, para resaltarlo en la UI
+  start: number; // Posición en la consulta original
+  end: number;
+  kind: QueryTokenKind;
+  filter?: FilterCriteria;
+  issue?: QueryIssue;
+}
+
+export interface ParsedQuery {
+  options: QueryOptions; // searchTerm con el texto libre y filters con las expresiones
+  tokens: ParsedQueryToken[];
+  invalidTokens: ParsedQueryToken[];
+}
+
+type FieldKind = 'number' | 'category' | 'nutriScore';
+
+interface QueryField {
+  type: string; // Tipo de filtro registrado en FilterService
+  field: string;
+  kind: FieldKind;
+}
+
+type ComparisonOperator = NonNullable<FilterCriteria['operator']>;
+
+// Alias normalizados (sin acentos ni mayúsculas) de cada campo
+const FIELD_ALIASES: [string[], QueryField][] = [
+  [['proteina', 'proteinas', 'protein', 'prot'], { type: 'nutrition', field: 'protein.total', kind: 'number' }],
+  [['carbohidratos', 'hidratos', 'carbs', 'carbohydrates'], { type: 'nutrition', field: 'carbs.total', kind: 'number' }],
+  [['grasa', 'grasas', 'fat', 'fats'], { type: 'nutrition', field: 'fats.total', kind: 'number' }],
+  [['fibra', 'fiber', 'fibre'], { type: 'nutrition', field: 'fiber.total', kind: 'number' }],
+  [['calorias', 'kcal', 'calories'], { type: 'nutrition', field: 'calories.total', kind: 'number' }],
+  [['azucar', 'azucares', 'sugar', 'sugars'], { type: 'nutrition', field: 'sugar', kind: 'number' }],
+  [['sodio', 'sodium'], { type: 'nutrition', field: 'sodium', kind: 'number' }],
+  [['saturadas', 'saturated', 'saturatedfat'], { type: 'nutrition', field: 'saturatedFat', kind: 'number' }],
+  [['nova', 'procesamiento', 'processing'], { type: 'processing', field: 'nova', kind: 'number' }],
+  [['valoracion', 'puntuacion', 'estrellas', 'rating', 'stars'], { type: 'rating', field: 'rating', kind: 'number' }],
+  [['nutriscore', 'nutri'], { type: 'nutriScore', field: 'nutriScore', kind: 'nutriScore' }],
+  [['categoria', 'category', 'cat'], { type: 'category', field: 'category', kind: 'category' }]
+];
+
+const FIELDS = new Map(FIELD_ALIASES.flatMap(([aliases, field]) => aliases.map(alias => [alias, field] as const)));
+
+// Palabras sueltas que equivalen a un filtro de dieta o alérgeno
+const DIET_ALIASES: [string[], AllergenFlag][] = [
+  [['vegano', 'vegana', 'veganos', 'vegan'], 'vegan'],
+  [['vegetariano', 'vegetariana', 'vegetarian'], 'vegetarian'],
+  [['organico', 'organica', 'organic', 'bio'], 'organic'],
+  [['halal'], 'halal'],
+  [['kosher'], 'kosher'],
+  [['singluten', 'glutenfree'], 'glutenFree'],
+  [['sinlactosa', 'lactosefree'], 'lactoseFree']
+];
+
+const DIETS = new Map(DIET_ALIASES.flatMap(([aliases, flag]) => aliases.map(alias => [alias, flag] as const)));
+
+// Alérgenos que se pueden excluir: "-nueces" deja solo productos sin nueces
+const ALLERGEN_ALIASES: [string[], AllergenFlag][] = [
+  [['nueces', 'nuez', 'frutossecos', 'almendras', 'nuts', 'nut'], 'nutFree'],
+  [['gluten', 'trigo', 'wheat'], 'glutenFree'],
+  [['lactosa', 'lacteos', 'leche', 'lactose', 'dairy', 'milk'], 'lactoseFree'],
+  [['huevo', 'huevos', 'egg', 'eggs'], 'eggFree'],
+  [['pescado', 'fish'], 'fishFree'],
+  [['soja', 'soya', 'soy'], 'soyFree']
+];
+
+const ALLERGENS = new Map(ALLERGEN_ALIASES.flatMap(([aliases, flag]) => aliases.map(alias => [alias, flag] as const)));
+
+const COMPARISON_OPERATORS: Record<string, ComparisonOperator> = {
+  '>': 'gt',
+  '>=': 'gte',
+  '<': 'lt',
+  '<=': 'lte',
+  '=': 'equals',
+  ':': 'equals'
+};
+
+// "-proteina>10" equivale a "proteina<=10"
+const NEGATED_OPERATORS: Partial<Record<ComparisonOperator, ComparisonOperator>> = {
+  gt: 'lte',
+  gte: 'lt',
+  lt: 'gte',
+  lte: 'gt'
+};
+
+// Palabras o frases entre comillas; "categoria:"frutas tropicales"" queda en un solo token
+const TOKEN_PATTERN = /(?:[^\s"]+|"[^"]*"?)+/g;
+const FIELD_EXPRESSION = /^([^\s:<>="]+)(>=|<=|>|<|=|:)(.*)$/;
+const NUMBER_PATTERN = /^-?\d+(?:[.,]\d+)?$/;
+
+const unquote = (text: string): string => text.replace(/"/g, '').trim();
+
+const compactKey = (text: string): string => SearchIndex.normalize(text).replace(/[\s_-]/g, '');
+
+let categoryLookup: Map<string, string> | null = null;
+
+/**
+ * Ids y etiquetas traducidas de todas las categorías, normalizados, hacia su id
+ */
+const getCategoryLookup = (): Map<string, string> => {
+  if (!categoryLookup) {
+    categoryLookup = new Map();
+    for (const { id } of CATEGORY_TAXONOMY) {
+      categoryLookup.set(compactKey(id), id);
+      for (const language of Object.keys(i18n.options?.resources || {})) {
+        const label = i18n.getResource(language, 'database', `categories.${id}`);
+        if (typeof label === 'string') categoryLookup.set(compactKey(label), id);
+      }
+    }
+  }
+  return categoryLookup;
+};
+
+const resolveField = (name: string): QueryField | undefined => {
+  const key = SearchIndex.normalize(name);
+  const field = FIELDS.get(key);
+  if (field) return field;
+  // Micronutrientes por su clave: "iron>=3", "vitamin_c>10"
+  if (isMicronutrientKey(key)) return { type: 'nutrition', field: key, kind: 'number' };
+  return undefined;
+};
+
+type FilterResult = { filter: FilterCriteria } | { issue: QueryIssue };
+
+export class QueryParser {
+  static parse(query: string): ParsedQuery {
+    const tokens: ParsedQueryToken[] = [];
+
+    for (const match of (query || '').matchAll(TOKEN_PATTERN)) {
+      const text = match[0];
+      const start = match.index ?? 0;
+      tokens.push({ text, start, end: start + text.length, ...this.parseToken(text) });
+    }
+
+    // Los tokens inválidos no llegan al texto libre para no vaciar los resultados
+    const searchTerm = tokens
+      .filter(token => token.kind === 'text')
+      .map(token => unquote(token.text))
+      .filter(Boolean)
+      .join(' ');
+
+    return {
+      options: {
+        searchTerm,
+        filters: tokens.filter(token => token.filter).map(token => token.filter!)
+      },
+      tokens,
+      invalidTokens: tokens.filter(token => token.kind === 'invalid')
+    };
+  }
+
+  private static parseToken(text: string): Pick<ParsedQueryToken, 'kind' | 'filter' | 'issue'> {
+    const negated = text.length > 1 && text.startsWith('-');
+    const body = negated ? text.slice(1) : text;
+
+    const expression = body.match(FIELD_EXPRESSION);
+    if (expression) {
+      const [, name, operator, rawValue] = expression;
+      const result = this.parseExpression(name, operator, unquote(rawValue), negated);
+      if ('issue' in result) return { kind: 'invalid', issue: result.issue };
+      return { kind: negated ? 'exclude' : 'filter', filter: result.filter };
+    }
+
+    const diet = DIETS.get(compactKey(body));
+    if (diet) {
+      return {
+        kind: negated ? 'exclude' : 'filter',
+        filter: {
+          type: 'allergen',
+          field: diet,
+          value: negated ? ['contains'] : getAcceptedAllergenStatuses(false),
+          operator: 'in'
+        }
+      };
+    }
+
+    // Sin "-" la palabra sigue siendo texto libre: "nueces" busca nueces
+    const allergen = negated && ALLERGENS.get(compactKey(body));
+    if (allergen) {
+      return {
+        kind: 'exclude',
+        filter: { type: 'allergen', field: allergen, value: getAcceptedAllergenStatuses(false), operator: 'in' }
+      };
+    }
+
+    if (negated && unquote(body)) {
+      return {
+        kind: 'exclude',
+        filter: { type: 'text', field: 'name', value: unquote(body), operator: 'not_in' }
+      };
+    }
+
+    return { kind: 'text' };
+  }
+
+  private static parseExpression(name: string, operator: string, value: string, negated: boolean): FilterResult {
+    const field = resolveField(name);
+    if (!field) return { issue: 'unknownField' };
+    if (!value) return { issue: 'missingValue' };
+
+    const comparison = COMPARISON_OPERATORS[operator];
+
+    switch (field.kind) {
+      case 'number': {
+        if (!NUMBER_PATTERN.test(value)) return { issue: 'invalidValue' };
+        const filterOperator = negated ? NEGATED_OPERATORS[comparison] : comparison;
+        if (!filterOperator) return { issue: 'unsupportedOperator' };
+        return {
+          filter: { type: field.type, field: field.field, value: Number(value.replace(',', '.')), operator: filterOperator }
+        };
+      }
+
+      case 'category': {
+        if (comparison !== 'equals') return { issue: 'unsupportedOperator' };
+        const categoryId = getCategoryLookup().get(compactKey(value));
+        if (!categoryId) return { issue: 'invalidValue' };
+        return {
+          filter: { type: field.type, field: field.field, value: categoryId, operator: negated ? 'not_in' : 'equals' }
+        };
+      }
+
+      case 'nutriScore': {
+        const letter = value.toUpperCase() as NutriScoreLetter;
+        if (!NUTRI_SCORE_LETTERS.includes(letter)) return { issue: 'invalidValue' };
+        // "nutriscore<=b" es B o mejor, igual que el filtro 'lte' de FilterService
+        if (negated || (comparison !== 'equals' && comparison !== 'lte')) return { issue: 'unsupportedOperator' };
+        return { filter: { type: field.type, field: field.field, value: letter, operator: comparison } };
+      }
+    }
+  }
+}
@@ -0,0 +1,36 @@
+/**
+ * Separa una consulta en tokens normalizados y detecta el operador.
+ * "yogur griego" → AND; "manzana OR pera" o "manzana | pera" → OR.
+ */
+
+import { QueryOperator } from './types';
+import { SearchIndex } from './SearchIndex';
+
+export interface TokenizedQuery {
+  tokens: string[];
+  operator: QueryOperator;
+  phrase: string; // Tokens unidos por espacios, para detectar la frase completa
+}
+
+// "OR" solo en mayúsculas: en español "o" y "or" pueden ser parte de la búsqueda
+const OR_KEYWORDS = new Set(['OR', '|']);
+
+export class QueryTokenizer {
+  static tokenize(query: string, defaultOperator: QueryOperator = 'and'): TokenizedQuery {
+    const rawTokens = (query || '').replace(/\|/g, ' | ').split(/\s+/).filter(Boolean);
+    const hasOr = rawTokens.some(token => OR_KEYWORDS.has(token));
+
+    const tokens = Array.from(new Set(
+      rawTokens
+        .filter(token => !OR_KEYWORDS.has(token))
+        .map(token => SearchIndex.normalize(token))
+        .filter(Boolean)
+    ));
+
+    return {
+      tokens,
+      operator: hasOr ? 'or' : defaultOperator,
+      phrase: tokens.join(' ')
+    };
+  }
+}
@@ -0,0 +1,261 @@
+/**
+ * Índice de búsqueda precalculado para un conjunto de items.
+ * Normaliza nombre, categoría y variantes una sola vez, mantiene mapas de
+ * nombres y tokens y cachea la instancia de Fuse, de modo que todas las
+ * estrategias comparten el mismo trabajo entre consultas.
+ * Incluye los nombres, descripciones y categorías traducidos de todos los
+ * idiomas del namespace database, para encontrar "manzana" navegando en inglés.
+ */
+
+import Fuse, { IFuseOptions } from 'fuse.js';
+import i18n from '@/i18n';
+import { Searchable } from '@/types/search';
+import { ProductVariant } from '@/data/types';
+import { getCategoryPath } from '@/data/categories';
+import { getVariantLabel } from '@/utils/productVariants';
+import { TextNormalizationService } from './TextNormalizationService';
+
+export interface IndexedVariant {
+  label: string;
+  normalizedLabel: string;
+  normalizedBrand: string;
+}
+
+export interface IndexedText {
+  text: string; // Texto original, para matchedTerms
+  normalized: string;
+  tokens: string[];
+  language?: string; // Sin idioma para los campos propios del item
+}
+
+export interface IndexedItem<T extends Searchable> {
+  item: T;
+  normalizedName: string;
+  normalizedCategory: string;
+  names: IndexedText[]; // item.name primero, luego las traducciones
+  categories: IndexedText[]; // item.category y las etiquetas de su ruta de categorías
+  descriptions: IndexedText[];
+  variants: IndexedVariant[];
+  tokens: string[]; // Todos los tokens de nombres, categorías y descripciones
+}
+
+// Un match en otro idioma puntúa un poco menos que en el idioma activo
+const OTHER_LANGUAGE_WEIGHT = 0.97;
+
+const normalize = (text: string): string => TextNormalizationService.normalize(text, {}, 'standard');
+
+const tokenize = (normalizedText: string): string[] => normalizedText.split(' ').filter(Boolean);
+
+interface DatabaseBundle {
+  language: string;
+  products?: Record<string, { name?: string; description?: string }>;
+  categories?: Record<string, string>;
+}
+
+// Un bundle por idioma leído una vez por índice: getResource por clave es
+// demasiado lento para catálogos grandes. Sin fallbackLng, solo el idioma pedido
+const getDatabaseBundles = (): DatabaseBundle[] =>
+  Object.keys(i18n.options?.resources || {}).map(language => ({
+    language,
+    ...(i18n.getResourceBundle(language, 'database') || {})
+  }));
+
+const indexTexts = (texts: { text?: string; language?: string }[]): IndexedText[] => {
+  const seen = new Set<string>();
+  const indexed: IndexedText[] = [];
+
+  for (const { text, language } of texts) {
+    if (!text) continue;
+    const normalized = normalize(text);
+    // Textos repetidos entre idiomas se quedan con la primera aparición (el campo propio)
+    if (!normalized || seen.has(normalized)) continue;
+    seen.add(normalized);
+    indexed.push({ text, normalized, tokens: tokenize(normalized), language });
+  }
+
+  return indexed;
+};
+
+export class SearchIndex<T extends Searchable> {
+  // Un índice por array de items: mientras el array no cambie se reutiliza
+  private static cache = new WeakMap<Searchable[], SearchIndex<Searchable>>();
+
+  readonly items: T[];
+  readonly entries: IndexedItem<T>[];
+  private entriesById = new Map<string, IndexedItem<T>>();
+  private entriesByName = new Map<string, IndexedItem<T>[]>();
+  private entriesByToken = new Map<string, IndexedItem<T>[]>();
+  private categoryTexts = new Map<string, IndexedText[]>();
+  private fuse: Fuse<T> | null = null;
+
+  /**
+   * Devuelve el índice cacheado para el array de items, creándolo si no existe
+   */
+  static for<T extends Searchable>(items: T[]): SearchIndex<T> {
+    let index = SearchIndex.cache.get(items) as SearchIndex<T> | undefined;
+    if (!index) {
+      index = new SearchIndex(items);
+      SearchIndex.cache.set(items, index as unknown as SearchIndex<Searchable>);
+    }
+    return index;
+  }
+
+  constructor(items: T[]) {
+    const bundles = getDatabaseBundles();
+
+    this.items = items;
+    this.entries = items.map(item => this.createEntry(item, bundles));
+
+    for (const entry of this.entries) {
+      this.entriesById.set(entry.item.id, entry);
+      for (const name of entry.names) {
+        this.append(this.entriesByName, name.normalized, entry);
+      }
+      for (const token of new Set(entry.tokens)) {
+        this.append(this.entriesByToken, token, entry);
+      }
+    }
+  }
+
+  /**
+   * Normaliza un texto con la misma estrategia usada para los campos indexados
+   */
+  static normalize(text: string): string {
+    return normalize(text);
+  }
+
+  /**
+   * Peso de un match según el idioma del texto: los campos propios del item
+   * y el idioma activo cuentan completos, el resto con una pequeña rebaja
+   */
+  static languageWeight(text: IndexedText, activeLanguage?: string): number {
+    if (!text.language || !activeLanguage || text.language === activeLanguage) return 1;
+    return OTHER_LANGUAGE_WEIGHT;
+  }
+
+  getEntryById(id: string): IndexedItem<T> | undefined {
+    return this.entriesById.get(id);
+  }
+
+  /**
+   * Items con algún nombre (en cualquier idioma) normalizado exactamente igual al texto dado
+   */
+  getEntriesByName(normalizedName: string): IndexedItem<T>[] {
+    return this.entriesByName.get(normalizedName) || [];
+  }
+
+  getEntriesWithToken(token: string): IndexedItem<T>[] {
+    return this.entriesByToken.get(token) || [];
+  }
+
+  /**
+   * Items con algún token que contiene el fragmento, en el orden del índice.
+   * Recorre los tokens únicos en lugar de todos los items.
+   */
+  getEntriesWithTokenContaining(fragment: string): IndexedItem<T>[] {
+    const matches = new Set<IndexedItem<T>>();
+    for (const [token, entries] of this.entriesByToken) {
+      if (token.includes(fragment)) {
+        entries.forEach(entry => matches.add(entry));
+      }
+    }
+    return this.entries.filter(entry => matches.has(entry));
+  }
+
+  /**
+   * Instancia de Fuse construida en la primera búsqueda fuzzy y reutilizada después
+   */
+  getFuse(): Fuse<T> {
+    if (!this.fuse) {
+      this.fuse = new Fuse(this.items, this.getFuseOptions());
+    }
+    return this.fuse;
+  }
+
+  private getFuseOptions(): IFuseOptions<T> {
+    // Los nombres traducidos salen del índice para no recalcularlos en Fuse
+    const translatedNames = (item: T): string[] =>
+      (this.entriesById.get(item.id)?.names || []).slice(1).map(name => name.text);
+
+    return {
+      threshold: 0.3,        // Más estricto para evitar matches irrelevantes
+      location: 0,           // Posición esperada del match
+      distance: 50,          // Distancia máxima reducida
+      minMatchCharLength: 3, // Mínimo de 3 caracteres para evitar matches débiles
+      keys: [
+        { name: 'name', weight: 0.8 },
+        { name: 'translatedNames', weight: 0.7, getFn: translatedNames },
+        { name: 'category', weight: 0.3 }
+      ],
+      includeScore: true,
+      includeMatches: true,
+      shouldSort: true
+    };
+  }
+
+  private createEntry(item: T, bundles: DatabaseBundle[]): IndexedItem<T> {
+    const normalizedName = normalize(item.name);
+    const normalizedCategory = normalize(item.category || '');
+
+    const names = indexTexts([
+      { text: item.name },
+      ...bundles.map(({ language, products }) => ({ text: products?.[item.id]?.name, language }))
+    ]);
+
+    const descriptions = indexTexts([
+      { text: item.description },
+      ...bundles.map(({ language, products }) => ({ text: products?.[item.id]?.description, language }))
+    ]);
+
+    const categories = this.getCategoryTexts(item.category, item.subcategory, bundles);
+
+    const variants: IndexedVariant[] = ((item.variants || []) as ProductVariant[]).map(variant => {
+      const label = getVariantLabel(variant);
+      return {
+        label,
+        normalizedLabel: normalize(label),
+        normalizedBrand: normalize(variant.brand)
+      };
+    });
+
+    return {
+      item,
+      normalizedName,
+      normalizedCategory,
+      names,
+      categories,
+      descriptions,
+      variants,
+      tokens: [...names, ...categories, ...descriptions].flatMap(text => text.tokens)
+    };
+  }
+
+  /**
+   * Raíz y subcategorías del item con sus etiquetas en cada idioma.
+   * Se comparten entre los items de la misma categoría
+   */
+  private getCategoryTexts(category: string | undefined, subcategory: string | undefined, bundles: DatabaseBundle[]): IndexedText[] {
+    if (!category) return [];
+
+    const key = `${category}/${subcategory || ''}`;
+    let texts = this.categoryTexts.get(key);
+    if (!texts) {
+      const categoryIds = new Set([category, ...getCategoryPath(subcategory || category).map(node => node.id)]);
+      texts = indexTexts(Array.from(categoryIds).flatMap(id => [
+        { text: id },
+        ...bundles.map(({ language, categories }) => ({ text: categories?.[id], language }))
+      ]));
+      this.categoryTexts.set(key, texts);
+    }
+    return texts;
+  }
+
+  private append(map: Map<string, IndexedItem<T>[]>, key: string, entry: IndexedItem<T>): void {
+    const entries = map.get(key);
+    if (entries) {
+      entries.push(entry);
+    } else {
+      map.set(key, [entry]);
+    }
+  }
+}
@@ -28,7 +28,7 @@ export class SearchStrategyChain<T extends Searchable> {
     for (const strategy of this.strategies) {
       console.log(`Executing strategy: ${strategy.getType()}`);
       
-      const strategyResults = strategy.findMatches(items, query, normalizedQuery);
+      const strategyResults = strategy.findMatches(items, query, normalizedQuery, options);
       
       if (strategyResults.length > 0) {
         console.log(`Strategy ${strategy.getType()} found ${strategyResults.length} results`);
@@ -0,0 +1,42 @@
+/**
+ * Benchmark de HybridSearchEngine con un catálogo sintético de 10k items.
+ * Mide el coste de construir el índice y el de cada consulta: npx vitest bench
+ */
+
+import { bench, describe, vi } from 'vitest';
+import { HybridSearchEngine } from '../HybridSearchEngine';
+import type { Searchable } from '@/types/search';
+
+const ADJECTIVES = ['Organic', 'Roasted', 'Fresh', 'Frozen', 'Spicy', 'Sweet', 'Smoked', 'Crunchy', 'Light', 'Classic'];
+const FOODS = ['Apple', 'Avocado', 'Banana', 'Broccoli', 'Yogurt', 'Almonds', 'Salmon', 'Quinoa', 'Popcorn', 'Cookies',
+  'Spinach', 'Carrot', 'Mango', 'Papaya', 'Beans', 'Corn', 'Cereal', 'Chips', 'Soda', 'Noodles'];
+const CATEGORIES = ['fruits', 'vegetables', 'dairy', 'nuts', 'fish', 'grains', 'snacks', 'beverages'];
+
+const createCatalog = (size: number): (Searchable & { category: string })[] =>
+  Array.from({ length: size }, (_, i) => ({
+    id: `item_${i}`,
+    name: `${ADJECTIVES[i % ADJECTIVES.length]} ${FOODS[Math.floor(i / ADJECTIVES.length) % FOODS.length]} ${i}`,
+    category: CATEGORIES[i % CATEGORIES.length]
+  }));
+
+// Exacto, prefijo, categoría, contains, errata y sinónimo regional
+const QUERIES = ['Organic Apple 0', 'roasted', 'dairy', 'yogurt', 'avocdo', 'palta', 'crunchy chips', 'mango 45'];
+
+// Los logs de depuración de la cadena distorsionan la medición
+vi.spyOn(console, 'log').mockImplementation(() => {});
+
+describe('HybridSearchEngine (10k items)', () => {
+  const catalog = createCatalog(10_000);
+  const engine = new HybridSearchEngine(catalog);
+
+  bench('build index', () => {
+    // Un array nuevo en cada vuelta para no reutilizar el índice cacheado
+    new HybridSearchEngine([...catalog]).getIndex().getFuse();
+  }, { iterations: 3 });
+
+  for (const query of QUERIES) {
+    bench(`search "${query}"`, () => {
+      engine.search(query);
+    });
+  }
+});
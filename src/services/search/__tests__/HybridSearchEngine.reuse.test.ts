@@ -0,0 +1,52 @@
+/**
+ * Reutilización del índice de HybridSearchEngine con un catálogo sintético de 10k items.
+ * Los tiempos se miden aparte con vitest bench (HybridSearchEngine.bench.ts).
+ */
+
+import { describe, it, expect, beforeAll, afterAll, vi } from 'vitest';
+import { HybridSearchEngine } from '../HybridSearchEngine';
+import { SearchIndex } from '../SearchIndex';
+import type { Searchable } from '@/types/search';
+
+const ADJECTIVES = ['Organic', 'Roasted', 'Fresh', 'Frozen', 'Spicy', 'Sweet', 'Smoked', 'Crunchy', 'Light', 'Classic'];
+const FOODS = ['Apple', 'Avocado', 'Banana', 'Broccoli', 'Yogurt', 'Almonds', 'Salmon', 'Quinoa', 'Popcorn', 'Cookies',
+  'Spinach', 'Carrot', 'Mango', 'Papaya', 'Beans', 'Corn', 'Cereal', 'Chips', 'Soda', 'Noodles'];
+const CATEGORIES = ['fruits', 'vegetables', 'dairy', 'nuts', 'fish', 'grains', 'snacks', 'beverages'];
+
+const createCatalog = (size: number): (Searchable & { category: string })[] =>
+  Array.from({ length: size }, (_, i) => ({
+    id: `item_${i}`,
+    name: `${ADJECTIVES[i % ADJECTIVES.length]} ${FOODS[Math.floor(i / ADJECTIVES.length) % FOODS.length]} ${i}`,
+    category: CATEGORIES[i % CATEGORIES.length]
+  }));
+
+describe('HybridSearchEngine index reuse', () => {
+  const catalog = createCatalog(10_000);
+
+  beforeAll(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterAll(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should build the index once per item set and reuse the Fuse instance', () => {
+    const engine = new HybridSearchEngine(catalog);
+    const index = engine.getIndex();
+
+    expect(engine.search('Organic Apple 0')[0].item.id).toBe('item_0');
+    engine.search('avocdo');
+    const fuse = index.getFuse();
+    engine.search('brocoli');
+    engine.updateItems(catalog);
+
+    expect(engine.getIndex()).toBe(index);
+    expect(SearchIndex.for(catalog)).toBe(index);
+    expect(index.getFuse()).toBe(fuse);
+
+    const otherCatalog = createCatalog(10);
+    engine.updateItems(otherCatalog);
+    expect(engine.getIndex()).not.toBe(index);
+  });
+});
@@ -0,0 +1,92 @@
+/**
+ * Pruebas unitarias para MatchHighlighter y los rangos de cada estrategia
+ */
+
+import { describe, it, expect, beforeAll, afterAll, vi } from 'vitest';
+import { MatchHighlighter } from '../MatchHighlighter';
+import { HybridSearchEngine } from '../HybridSearchEngine';
+import type { Searchable } from '@/types/search';
+
+const mark = (text: string, ranges: [number, number][]) =>
+  ranges.reduceRight((marked, [start, end]) =>
+    `${marked.slice(0, start)}[${marked.slice(start, end)}]${marked.slice(end)}`, text);
+
+const mockProducts: Searchable[] = [
+  { id: 'avocado_001', name: 'Avocado', category: 'fruits' },
+  { id: 'sweet_potato_019', name: 'Sweet Potato', category: 'vegetables' },
+  { id: 'yogurt_greek', name: 'Yogur Griego', category: 'dairy',
+    variants: [{ id: 'olympos_0', brand: 'Olympos', name: '0% Natural' }] }
+];
+
+describe('MatchHighlighter', () => {
+  it('should map normalized matches back to the original text', () => {
+    const text = 'Plátano  Maduro, ÑAME';
+    expect(mark(text, MatchHighlighter.findRanges(text, 'platano maduro'))).toBe('[Plátano  Maduro], ÑAME');
+    expect(mark(text, MatchHighlighter.findRanges(text, 'name'))).toBe('Plátano  Maduro, [ÑAME]');
+  });
+
+  it('should find every occurrence, optionally only at word starts', () => {
+    expect(MatchHighlighter.findRanges('Pineapple Apple', 'apple')).toEqual([[4, 9], [10, 15]]);
+    expect(MatchHighlighter.findRanges('Pineapple Apple', 'apple', { wordStart: true })).toEqual([[10, 15]]);
+  });
+
+  it('should convert and merge Fuse indices', () => {
+    expect(MatchHighlighter.fromFuseIndices([[4, 6], [0, 2], [3, 3]])).toEqual([[0, 7]]);
+  });
+
+  it('should cut long texts around the first range', () => {
+    const text = `${'x'.repeat(50)} monounsaturated ${'y'.repeat(50)}`;
+    const excerpt = MatchHighlighter.excerpt(MatchHighlighter.highlight('description', text, 'monounsaturated'), 5);
+
+    expect(mark(excerpt.text, excerpt.ranges)).toBe('…xxxx [monounsaturated] yyyy…');
+  });
+});
+
+describe('search result highlights', () => {
+  let engine: HybridSearchEngine<Searchable>;
+
+  beforeAll(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    engine = new HybridSearchEngine(mockProducts);
+  });
+
+  afterAll(() => {
+    vi.restoreAllMocks();
+  });
+
+  const best = (query: string) => engine.search(query)[0];
+  const marked = (query: string) => {
+    const [highlight] = best(query).highlights;
+    return `${highlight.field}: ${mark(highlight.text, highlight.ranges)}`;
+  };
+
+  it('should return ranges from exact, prefix, contains and token matches', () => {
+    expect(marked('avocado')).toBe('name: [Avocado]');
+    expect(marked('avo')).toBe('name: [Avo]cado');
+    expect(marked('otato')).toBe('name: Sweet P[otato]');
+    expect(marked('griego yog')).toBe('name: [Yog]ur [Griego]');
+  });
+
+  it('should report translations and their language', () => {
+    const [highlight] = best('aguacate').highlights;
+    expect(highlight).toEqual({ field: 'name', text: 'Aguacate', ranges: [[0, 8]], language: 'es' });
+  });
+
+  it('should use Fuse indices for fuzzy matches', () => {
+    const result = best('avocdo');
+    expect(result.matchType).toBe('fuzzy');
+    expect(result.highlights[0].text).toBe('Avocado');
+    expect(result.highlights[0].ranges.length).toBeGreaterThan(0);
+  });
+
+  it('should explain synonym matches', () => {
+    const result = best('palta');
+    expect(result.item.id).toBe('avocado_001');
+    expect(result.synonym).toEqual({ term: 'palta', canonicalTerm: expect.any(String) });
+    expect(result.highlights[0]).toMatchObject({ field: 'name', text: 'Avocado' });
+  });
+
+  it('should highlight brand variants', () => {
+    expect(marked('olympos')).toBe('variant: [Olympos] 0% Natural');
+  });
+});
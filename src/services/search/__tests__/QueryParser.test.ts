@@ -0,0 +1,77 @@
+/**
+ * Pruebas unitarias para QueryParser
+ */
+
+import { describe, it, expect } from 'vitest';
+import { QueryParser } from '../QueryParser';
+
+describe('QueryParser', () => {
+  it('should turn a structured query into free text and filters', () => {
+    const { options, invalidTokens } = QueryParser.parse('vegano proteina>10 categoria:fruits nova<=2 -nueces');
+
+    expect(invalidTokens).toEqual([]);
+    expect(options.searchTerm).toBe('');
+    expect(options.filters).toEqual([
+      { type: 'allergen', field: 'vegan', value: ['free', 'traces'], operator: 'in' },
+      { type: 'nutrition', field: 'protein.total', value: 10, operator: 'gt' },
+      { type: 'category', field: 'category', value: 'fruits', operator: 'equals' },
+      { type: 'processing', field: 'nova', value: 2, operator: 'lte' },
+      { type: 'allergen', field: 'nutFree', value: ['free', 'traces'], operator: 'in' }
+    ]);
+  });
+
+  it('should map negated allergen words to allergen filters and keep other words as text', () => {
+    const { options } = QueryParser.parse('nueces -Lactosa -eggs -manzana');
+
+    expect(options.searchTerm).toBe('nueces');
+    expect(options.filters).toEqual([
+      { type: 'allergen', field: 'lactoseFree', value: ['free', 'traces'], operator: 'in' },
+      { type: 'allergen', field: 'eggFree', value: ['free', 'traces'], operator: 'in' },
+      { type: 'text', field: 'name', value: 'manzana', operator: 'not_in' }
+    ]);
+  });
+
+  it('should accept Spanish and English aliases, accents and translated category labels', () => {
+    const spanish = QueryParser.parse('proteína>=5 categoría:"Frutas Tropicales" azúcar<3,5').options.filters;
+    const english = QueryParser.parse('protein>=5 category:tropical_fruits sugar<3.5').options.filters;
+
+    expect(spanish).toEqual(english);
+    expect(spanish[1].value).toBe('tropical_fruits');
+    expect(spanish[2]).toMatchObject({ field: 'sugar', value: 3.5, operator: 'lt' });
+  });
+
+  it('should keep free text, quoted phrases and OR for the search engine', () => {
+    const { options, tokens } = QueryParser.parse('"green apple" OR pera fibra>3');
+
+    expect(options.searchTerm).toBe('green apple OR pera');
+    expect(tokens.map(token => token.kind)).toEqual(['text', 'text', 'text', 'filter']);
+  });
+
+  it('should support micronutrient keys, Nutri-Score and negated expressions', () => {
+    const { options } = QueryParser.parse('iron>=3 nutriscore<=b -calorias>100 -categoria:snacks -vegetariano');
+
+    expect(options.filters).toEqual([
+      { type: 'nutrition', field: 'iron', value: 3, operator: 'gte' },
+      { type: 'nutriScore', field: 'nutriScore', value: 'B', operator: 'lte' },
+      { type: 'nutrition', field: 'calories.total', value: 100, operator: 'lte' },
+      { type: 'category', field: 'category', value: 'snacks', operator: 'not_in' },
+      { type: 'allergen', field: 'vegetarian', value: ['contains'], operator: 'in' }
+    ]);
+  });
+
+  it('should recover from invalid tokens and report their position', () => {
+    const query = 'yogur colour:red proteina>mucho categoria:moon categoria>2 nova: fibra>3';
+    const { options, invalidTokens } = QueryParser.parse(query);
+
+    expect(options.searchTerm).toBe('yogur');
+    expect(options.filters).toEqual([{ type: 'nutrition', field: 'fiber.total', value: 3, operator: 'gt' }]);
+    expect(invalidTokens.map(token => [token.text, token.issue])).toEqual([
+      ['colour:red', 'unknownField'],
+      ['proteina>mucho', 'invalidValue'],
+      ['categoria:moon', 'invalidValue'],
+      ['categoria>2', 'unsupportedOperator'],
+      ['nova:', 'missingValue']
+    ]);
+    expect(query.slice(invalidTokens[0].start, invalidTokens[0].end)).toBe('colour:red');
+  });
+});
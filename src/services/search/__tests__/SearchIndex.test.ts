@@ -0,0 +1,63 @@
+/**
+ * Pruebas unitarias para el índice multilingüe de SearchIndex
+ */
+
+import { describe, it, expect, beforeAll, afterAll, vi } from 'vitest';
+import { SearchIndex } from '../SearchIndex';
+import { HybridSearchEngine } from '../HybridSearchEngine';
+import type { Searchable } from '@/types/search';
+
+// Nombres como los muestra Explore con la UI en español
+const spanishItems: Searchable[] = [
+  { id: 'avocado_001', name: 'Aguacate', category: 'fruits', subcategory: 'tropical_fruits' },
+  { id: 'quinoa_002', name: 'Quinua', category: 'grains' }
+];
+
+describe('SearchIndex translations', () => {
+  beforeAll(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterAll(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should index the translated names, descriptions and category labels of every language', () => {
+    const entry = SearchIndex.for(spanishItems).getEntryById('avocado_001')!;
+
+    expect(entry.names.map(name => [name.text, name.language])).toEqual([
+      ['Aguacate', undefined],
+      ['Avocado', 'en']
+    ]);
+    expect(entry.descriptions.map(description => description.language)).toEqual(['en', 'es']);
+    // "Fruits" normaliza igual que el id "fruits", así que no se repite
+    expect(entry.categories.map(category => category.text)).toEqual(
+      ['fruits', 'Frutas', 'tropical_fruits', 'Tropical Fruits', 'Frutas Tropicales']
+    );
+  });
+
+  it('should find items by a name in another language', () => {
+    const engine = new HybridSearchEngine(spanishItems);
+    const [best] = engine.search('avocado', { threshold: 0.4, language: 'es' });
+
+    expect(best.item.id).toBe('avocado_001');
+    expect(best.matchedTerms).toEqual(['Avocado']);
+  });
+
+  it('should find items by translated category labels and descriptions', () => {
+    const engine = new HybridSearchEngine(spanishItems);
+
+    expect(engine.search('tropical fruits').map(result => result.item.id)).toEqual(['avocado_001']);
+    expect(engine.search('monounsaturated').map(result => result.item.id)).toEqual(['avocado_001']);
+  });
+
+  it('should score the active language slightly higher than other languages', () => {
+    const engine = new HybridSearchEngine(spanishItems);
+    const [inEnglish] = engine.search('avocado', { threshold: 0.4, language: 'en' });
+    const [inSpanish] = engine.search('avocado', { threshold: 0.4, language: 'es' });
+
+    expect(inEnglish.score).toBe(1);
+    expect(inSpanish.score).toBeLessThan(inEnglish.score);
+    expect(inSpanish.score).toBeGreaterThan(0.95);
+  });
+});
@@ -1,41 +1,19 @@
 /**
  * Estrategia de matching fuzzy usando Fuse.js
+ * (configuración en SearchIndex)
  */
 
-import Fuse from 'fuse.js';
 import { Searchable } from '@/types/search';
-import { SearchResult, SearchOptions } from '../types';
+import { SearchResult, SearchOptions, MatchHighlight } from '../types';
+import { SearchIndex } from '../SearchIndex';
+import { MatchHighlighter } from '../MatchHighlighter';
 import { MatchStrategy } from './MatchStrategy';
 
 export class FuzzyMatchStrategy<T extends Searchable> implements MatchStrategy<T> {
-  private fuse: Fuse<T>;
-
-  constructor(items: T[]) {
-    this.fuse = new Fuse(items, this.getFuseConfig());
-  }
-
-  private getFuseConfig() {
-    return {
-      threshold: 0.3,        // Más estricto para evitar matches irrelevantes
-      location: 0,           // Posición esperada del match
-      distance: 50,          // Distancia máxima reducida
-      maxPatternLength: 32,  // Máximo patrón de búsqueda
-      minMatchCharLength: 3, // Mínimo de 3 caracteres para evitar matches débiles
-      keys: [
-        { name: 'name', weight: 0.8 },
-        { name: 'category', weight: 0.3 }
-      ],
-      includeScore: true,
-      includeMatches: true,
-      shouldSort: true
-    };
-  }
-
-  findMatches(items: T[], query: string, normalizedQuery: string): SearchResult<T>[] {
-    // Actualizar items si es necesario
-    this.updateItems(items);
-
-    const fuseResults = this.fuse.search(query);
+  findMatches(items: T[], query: string, normalizedQuery: string, options?: SearchOptions): SearchResult<T>[] {
+    // Fuse se construye una vez por conjunto de items dentro del índice compartido
+    const index = SearchIndex.for(items);
+    const fuseResults = index.getFuse().search(query);
     const results: SearchResult<T>[] = [];
 
     for (const fuseResult of fuseResults) {
@@ -43,7 +21,14 @@ export class FuzzyMatchStrategy<T extends Searchable> implements MatchStrategy<T
       
       // Convertir score de Fuse.js (0 es mejor) a nuestro sistema (1 es mejor)
       // Aplicar score más conservador para fuzzy matches
-      const fuzzyScore = Math.max(0, (1 - score) * 0.7);
+      let fuzzyScore = Math.max(0, (1 - score) * 0.7);
+
+      // Si el mejor match es un nombre traducido, aplicar el peso de su idioma
+      const [bestMatch] = fuseResult.matches || [];
+      if (bestMatch?.key === 'translatedNames') {
+        const name = index.getEntryById(item.id)?.names.find(text => text.text === bestMatch.value);
+        if (name) fuzzyScore *= SearchIndex.languageWeight(name, options?.language);
+      }
 
       // Solo incluir si el score es suficientemente alto
       if (fuzzyScore < 0.3) continue;
@@ -52,22 +37,29 @@ export class FuzzyMatchStrategy<T extends Searchable> implements MatchStrategy<T
         ? fuseResult.matches.map(match => match.value || '')
         : [item.name];
 
+      // Fuse ya devuelve los índices de cada coincidencia sobre el valor original
+      const highlights: MatchHighlight[] = (fuseResult.matches || []).map(match => ({
+        field: match.key === 'category' ? 'category' : 'name',
+        text: match.value || '',
+        ranges: MatchHighlighter.fromFuseIndices(match.indices),
+        language: match.key === 'translatedNames'
+          ? index.getEntryById(item.id)?.names.find(text => text.text === match.value)?.language
+          : undefined
+      }));
+
       results.push({
         item,
         score: fuzzyScore,
         matchType: 'fuzzy',
         matchedTerms,
-        originalQuery: query
+        originalQuery: query,
+        highlights
       });
     }
 
     return results;
   }
 
-  updateItems(items: T[]): void {
-    this.fuse = new Fuse(items, this.getFuseConfig());
-  }
-
   getType(): string {
     return 'fuzzy';
   }
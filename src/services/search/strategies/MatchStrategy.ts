@@ -3,10 +3,16 @@
  */
 
 import { Searchable } from '@/types/search';
-import { SearchResult } from '../types';
+import { SearchResult, SearchOptions, MatchHighlight } from '../types';
+import { SearchIndex } from '../SearchIndex';
+import { MatchHighlighter } from '../MatchHighlighter';
 
+/**
+ * Las estrategias reciben los items y obtienen de ellos el SearchIndex
+ * compartido, así los campos normalizados se calculan una vez por conjunto
+ */
 export interface MatchStrategy<T extends Searchable> {
-  findMatches(items: T[], query: string, normalizedQuery: string): SearchResult<T>[];
+  findMatches(items: T[], query: string, normalizedQuery: string, options?: SearchOptions): SearchResult<T>[];
   getType(): string;
   getPriority(): number;
 }
@@ -15,35 +21,39 @@ export interface MatchStrategy<T extends Searchable> {
  * Estrategia de match exacto
  */
 export class ExactMatchStrategy<T extends Searchable> implements MatchStrategy<T> {
-  constructor(private normalizer: (text: string) => string) {}
-
-  findMatches(items: T[], query: string, normalizedQuery: string): SearchResult<T>[] {
+  findMatches(items: T[], query: string, normalizedQuery: string, options?: SearchOptions): SearchResult<T>[] {
     const results: SearchResult<T>[] = [];
+    const index = SearchIndex.for(items);
 
-    for (const item of items) {
-      const normalizedName = this.normalizer(item.name);
-      const normalizedCategory = this.normalizer((item as any).category || '');
+    // Match exacto en nombre, en cualquier idioma (prioridad máxima), resuelto con el mapa de nombres
+    const nameMatches = new Set(index.getEntriesByName(normalizedQuery));
 
-      // Match exacto en nombre (prioridad máxima)
-      if (normalizedName === normalizedQuery) {
+    for (const entry of index.entries) {
+      const { item } = entry;
+
+      const name = nameMatches.has(entry) && entry.names.find(text => text.normalized === normalizedQuery);
+      if (name) {
         results.push({
           item,
-          score: 1.0,
+          score: 1.0 * SearchIndex.languageWeight(name, options?.language),
           matchType: 'exact',
-          matchedTerms: [item.name],
-          originalQuery: query
+          matchedTerms: [name.text],
+          originalQuery: query,
+          highlights: [MatchHighlighter.whole('name', name.text, name.language)]
         });
         continue;
       }
 
-      // Match exacto en categoría
-      if (normalizedCategory === normalizedQuery) {
+      // Match exacto en categoría o en su etiqueta traducida
+      const category = entry.categories.find(text => text.normalized === normalizedQuery);
+      if (category) {
         results.push({
           item,
-          score: 0.95,
+          score: 0.95 * SearchIndex.languageWeight(category, options?.language),
           matchType: 'exact',
-          matchedTerms: [(item as any).category || ''],
-          originalQuery: query
+          matchedTerms: [category.text],
+          originalQuery: query,
+          highlights: [MatchHighlighter.whole('category', category.text, category.language)]
         });
       }
     }
@@ -64,30 +74,30 @@ export class ExactMatchStrategy<T extends Searchable> implements MatchStrategy<T
  * Estrategia de match que empieza con el término (starts with)
  */
 export class StartsWithMatchStrategy<T extends Searchable> implements MatchStrategy<T> {
-  constructor(private normalizer: (text: string) => string) {}
-
-  findMatches(items: T[], query: string, normalizedQuery: string): SearchResult<T>[] {
+  findMatches(items: T[], query: string, normalizedQuery: string, options?: SearchOptions): SearchResult<T>[] {
     const results: SearchResult<T>[] = [];
 
-    for (const item of items) {
-      const normalizedName = this.normalizer(item.name);
-      const normalizedCategory = this.normalizer((item as any).category || '');
-
+    for (const { item, names, categories } of SearchIndex.for(items).entries) {
       let matchScore = 0;
       const matchedTerms: string[] = [];
+      const highlights: MatchHighlight[] = [];
 
       // Match que empieza con el término en nombre (alta prioridad)
-      if (normalizedName.startsWith(normalizedQuery)) {
+      for (const name of names) {
+        if (!name.normalized.startsWith(normalizedQuery)) continue;
         // Score más alto cuanto más similar sea la longitud
-        const lengthRatio = normalizedQuery.length / normalizedName.length;
-        matchScore = Math.max(matchScore, 0.85 + (lengthRatio * 0.1));
-        matchedTerms.push(item.name);
+        const lengthRatio = normalizedQuery.length / name.normalized.length;
+        matchScore = Math.max(matchScore, (0.85 + (lengthRatio * 0.1)) * SearchIndex.languageWeight(name, options?.language));
+        matchedTerms.push(name.text);
+        highlights.push(MatchHighlighter.highlight('name', name.text, normalizedQuery, name.language));
       }
 
       // Match que empieza con el término en categoría
-      if (normalizedCategory.startsWith(normalizedQuery)) {
-        matchScore = Math.max(matchScore, 0.75);
-        matchedTerms.push((item as any).category || '');
+      for (const category of categories) {
+        if (!category.normalized.startsWith(normalizedQuery)) continue;
+        matchScore = Math.max(matchScore, 0.75 * SearchIndex.languageWeight(category, options?.language));
+        matchedTerms.push(category.text);
+        highlights.push(MatchHighlighter.highlight('category', category.text, normalizedQuery, category.language));
       }
 
       if (matchScore > 0) {
@@ -96,7 +106,8 @@ export class StartsWithMatchStrategy<T extends Searchable> implements MatchStrat
           score: matchScore,
           matchType: 'partial',
           matchedTerms,
-          originalQuery: query
+          originalQuery: query,
+          highlights
         });
       }
     }
@@ -117,9 +128,7 @@ export class StartsWithMatchStrategy<T extends Searchable> implements MatchStrat
  * Estrategia de match parcial (contains)
  */
 export class ContainsMatchStrategy<T extends Searchable> implements MatchStrategy<T> {
-  constructor(private normalizer: (text: string) => string) {}
-
-  findMatches(items: T[], query: string, normalizedQuery: string): SearchResult<T>[] {
+  findMatches(items: T[], query: string, normalizedQuery: string, options?: SearchOptions): SearchResult<T>[] {
     const results: SearchResult<T>[] = [];
 
     // Solo aplicar si el query tiene suficiente longitud para evitar matches débiles
@@ -127,29 +136,50 @@ export class ContainsMatchStrategy<T extends Searchable> implements MatchStrateg
       return results;
     }
 
-    for (const item of items) {
-      const normalizedName = this.normalizer(item.name);
-      const normalizedCategory = this.normalizer((item as any).category || '');
+    // Una consulta sin espacios solo puede estar dentro de un token, así que
+    // basta con revisar los items de los tokens que la contienen
+    const index = SearchIndex.for(items);
+    const candidates = normalizedQuery.includes(' ')
+      ? index.entries
+      : index.getEntriesWithTokenContaining(normalizedQuery);
 
+    for (const { item, names, categories, descriptions } of candidates) {
       let matchScore = 0;
       const matchedTerms: string[] = [];
+      const highlights: MatchHighlight[] = [];
 
       // Match parcial en nombre
-      if (normalizedName.includes(normalizedQuery)) {
+      for (const name of names) {
+        const position = name.normalized.indexOf(normalizedQuery);
+        if (position === -1) continue;
+
         // Score basado en la posición y longitud relativa
-        const position = normalizedName.indexOf(normalizedQuery);
-        const lengthRatio = normalizedQuery.length / normalizedName.length;
-        
+        const lengthRatio = normalizedQuery.length / name.normalized.length;
+
         // Menor score cuanto más tarde aparezca el match
-        const positionPenalty = position / normalizedName.length;
-        matchScore = Math.max(matchScore, (0.6 + lengthRatio * 0.2) * (1 - positionPenalty * 0.3));
-        matchedTerms.push(item.name);
+        const positionPenalty = position / name.normalized.length;
+        const nameScore = (0.6 + lengthRatio * 0.2) * (1 - positionPenalty * 0.3);
+        matchScore = Math.max(matchScore, nameScore * SearchIndex.languageWeight(name, options?.language));
+        matchedTerms.push(name.text);
+        highlights.push(MatchHighlighter.highlight('name', name.text, normalizedQuery, name.language));
       }
 
       // Match parcial en categoría (score más bajo)
-      if (normalizedCategory.includes(normalizedQuery)) {
-        matchScore = Math.max(matchScore, 0.4);
-        matchedTerms.push((item as any).category || '');
+      for (const category of categories) {
+        if (!category.normalized.includes(normalizedQuery)) continue;
+        matchScore = Math.max(matchScore, 0.4 * SearchIndex.languageWeight(category, options?.language));
+        matchedTerms.push(category.text);
+        highlights.push(MatchHighlighter.highlight('category', category.text, normalizedQuery, category.language));
+      }
+
+      // Match en descripción (el más bajo); exige consultas más largas porque el texto es extenso
+      if (normalizedQuery.length >= 4) {
+        for (const description of descriptions) {
+          if (!description.normalized.includes(normalizedQuery)) continue;
+          matchScore = Math.max(matchScore, 0.3 * SearchIndex.languageWeight(description, options?.language));
+          matchedTerms.push(normalizedQuery);
+          highlights.push(MatchHighlighter.highlight('description', description.text, normalizedQuery, description.language));
+        }
       }
 
       if (matchScore > 0) {
@@ -158,7 +188,8 @@ export class ContainsMatchStrategy<T extends Searchable> implements MatchStrateg
           score: matchScore,
           matchType: 'partial',
           matchedTerms,
-          originalQuery: query
+          originalQuery: query,
+          highlights
         });
       }
     }
@@ -173,4 +204,4 @@ export class ContainsMatchStrategy<T extends Searchable> implements MatchStrateg
   getPriority(): number {
     return 70;
   }
-}
\ No newline at end of file
+}
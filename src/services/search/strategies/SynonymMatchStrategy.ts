@@ -4,10 +4,11 @@
  */
 
 import { Searchable } from '@/types/search';
-import { SearchResult } from '../types';
+import { SearchResult, MatchHighlight } from '../types';
 import { MatchStrategy } from './MatchStrategy';
 import { SynonymService } from '../SynonymService';
-import { TextNormalizationService } from '../TextNormalizationService';
+import { SearchIndex } from '../SearchIndex';
+import { MatchHighlighter } from '../MatchHighlighter';
 
 export class SynonymMatchStrategy<T extends Searchable> implements MatchStrategy<T> {
   private synonymService: SynonymService;
@@ -18,6 +19,7 @@ export class SynonymMatchStrategy<T extends Searchable> implements MatchStrategy
 
   findMatches(items: T[], query: string, normalizedQuery: string): SearchResult<T>[] {
     const results: SearchResult<T>[] = [];
+    const index = SearchIndex.for(items);
 
     // Buscar sinónimos del término
     const synonymMatches = this.synonymService.findSynonyms(query);
@@ -30,38 +32,32 @@ export class SynonymMatchStrategy<T extends Searchable> implements MatchStrategy
     
     // Para cada sinónimo encontrado, buscar productos que coincidan
     for (const synonymMatch of synonymMatches) {
-      const canonicalNormalized = TextNormalizationService.normalize(
-        synonymMatch.canonicalTerm, 
-        {}, 
-        'standard'
-      );
+      const canonicalNormalized = SearchIndex.normalize(synonymMatch.canonicalTerm);
       
       console.log(`SynonymMatchStrategy: Looking for products matching canonical term "${synonymMatch.canonicalTerm}" (normalized: "${canonicalNormalized}") from synonym "${synonymMatch.originalTerm}" with productId: ${synonymMatch.productId}`);
 
       // Buscar items que coincidan con el término canónico
-      for (const item of items) {
-        const normalizedName = TextNormalizationService.normalize(item.name, {}, 'standard');
-        const normalizedCategory = TextNormalizationService.normalize(
-          (item as any).category || '', 
-          {}, 
-          'standard'
-        );
-
-        console.log(`SynonymMatchStrategy: Checking item "${item.name}" (id: ${item.id}, normalized: "${normalizedName}") against canonical "${canonicalNormalized}"`);
-
+      for (const { item, normalizedName, normalizedCategory } of index.entries) {
         let matchScore = 0;
         const matchedTerms: string[] = [];
+        let highlight: MatchHighlight | null = null;
 
         // Boost directo si el productId coincide exactamente (máxima precisión)
         if (item.id === synonymMatch.productId) {
           matchScore = synonymMatch.confidence * 0.98; // Score muy alto para match directo por ID
           matchedTerms.push(`${item.name} (ID match)`);
+          // El producto es el destino del sinónimo aunque el término no aparezca en su nombre
+          const canonicalRanges = MatchHighlighter.findRanges(item.name, canonicalNormalized);
+          highlight = canonicalRanges.length > 0
+            ? { field: 'name', text: item.name, ranges: canonicalRanges }
+            : MatchHighlighter.whole('name', item.name);
           console.log(`SynonymMatchStrategy: DIRECT ID MATCH! Item "${item.name}" (${item.id}) matches synonym productId`);
         }
         // Match exacto con término canónico en nombre
         else if (normalizedName === canonicalNormalized) {
           matchScore = synonymMatch.confidence * 0.95; // Alto score para sinónimo exacto
           matchedTerms.push(item.name);
+          highlight = MatchHighlighter.highlight('name', item.name, canonicalNormalized);
           console.log(`SynonymMatchStrategy: Exact name match for "${item.name}"`);
         }
         // Match que empieza con término canónico en nombre
@@ -69,6 +65,7 @@ export class SynonymMatchStrategy<T extends Searchable> implements MatchStrategy
           const lengthRatio = canonicalNormalized.length / normalizedName.length;
           matchScore = synonymMatch.confidence * (0.85 + lengthRatio * 0.1);
           matchedTerms.push(item.name);
+          highlight = MatchHighlighter.highlight('name', item.name, canonicalNormalized);
           console.log(`SynonymMatchStrategy: Starts with match for "${item.name}"`);
         }
         // Match parcial en nombre (solo si el término canónico es suficientemente largo)
@@ -79,17 +76,20 @@ export class SynonymMatchStrategy<T extends Searchable> implements MatchStrategy
           
           matchScore = synonymMatch.confidence * (0.7 + lengthRatio * 0.15) * (1 - positionPenalty * 0.3);
           matchedTerms.push(item.name);
+          highlight = MatchHighlighter.highlight('name', item.name, canonicalNormalized);
           console.log(`SynonymMatchStrategy: Partial match for "${item.name}"`);
         }
         // Match en categoría
         else if (normalizedCategory === canonicalNormalized) {
           matchScore = synonymMatch.confidence * 0.8;
-          matchedTerms.push((item as any).category || '');
+          matchedTerms.push(item.category || '');
+          highlight = MatchHighlighter.whole('category', item.category || '');
           console.log(`SynonymMatchStrategy: Category match for "${item.name}"`);
         }
 
         // Solo agregar si encontramos un match válido
         if (matchScore > 0) {
+          const synonym = { term: synonymMatch.originalTerm, canonicalTerm: synonymMatch.canonicalTerm };
           console.log(`SynonymMatchStrategy: Adding result for "${item.name}" with score ${matchScore}`);
           
           // Evitar duplicados del mismo item
@@ -103,13 +103,17 @@ export class SynonymMatchStrategy<T extends Searchable> implements MatchStrategy
                 ...matchedTerms,
                 `${synonymMatch.originalTerm} → ${synonymMatch.canonicalTerm}`
               ],
-              originalQuery: query
+              originalQuery: query,
+              highlights: highlight ? [highlight] : [],
+              synonym
             });
           } else if (existingResult.score < matchScore) {
             // Actualizar con mejor score si encontramos uno mejor
             existingResult.score = matchScore;
             existingResult.matchType = 'synonym';
             existingResult.matchedTerms.push(`${synonymMatch.originalTerm} → ${synonymMatch.canonicalTerm}`);
+            existingResult.highlights = highlight ? [highlight] : [];
+            existingResult.synonym = synonym;
           }
         }
       }
@@ -0,0 +1,172 @@
+/**
+ * Estrategia de match por tokens para consultas de varias palabras
+ * ("yogur griego", "green apple", "manzana OR pera").
+ * Puntúa cada token contra los tokens indexados del item (nombres en todos los
+ * idiomas y categorías), exige todos los tokens (AND) salvo que la consulta
+ * pida OR, y premia la frase completa.
+ * Prioridad 95: entre exact (100) y starts_with (90).
+ */
+
+import { Searchable } from '@/types/search';
+import { SearchResult, SearchOptions, MatchHighlight } from '../types';
+import { SearchIndex, IndexedItem, IndexedText } from '../SearchIndex';
+import { MatchHighlighter } from '../MatchHighlighter';
+import { QueryTokenizer } from '../QueryTokenizer';
+import { MatchStrategy } from './MatchStrategy';
+
+const TOKEN_SCORES = {
+  exact: 1.0,
+  prefix: 0.85,
+  typo: 0.6,
+  category: 0.6
+};
+
+// Peso del promedio por token; el resto del rango queda para los bonus,
+// siempre por debajo de un match exacto (1.0)
+const TOKEN_WEIGHT = 0.8;
+const PHRASE_BOOST = 0.1;
+// Premia los nombres cortos que la consulta cubre casi por completo
+const COVERAGE_BOOST = 0.05;
+// En OR los items que no cubren todos los tokens quedan por debajo de los de AND
+const OR_PENALTY = 0.9;
+
+/**
+ * Verdadero si a y b difieren como mucho en una edición (inserción, borrado o sustitución)
+ */
+const isWithinOneEdit = (a: string, b: string): boolean => {
+  if (Math.abs(a.length - b.length) > 1) return false;
+
+  let i = 0;
+  let j = 0;
+  let edits = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      i++;
+      j++;
+      continue;
+    }
+    if (++edits > 1) return false;
+    if (a.length > b.length) i++;
+    else if (a.length < b.length) j++;
+    else {
+      i++;
+      j++;
+    }
+  }
+  return edits + (a.length - i) + (b.length - j) <= 1;
+};
+
+export class TokenMatchStrategy<T extends Searchable> implements MatchStrategy<T> {
+  findMatches(items: T[], query: string, normalizedQuery: string, options?: SearchOptions): SearchResult<T>[] {
+    const results: SearchResult<T>[] = [];
+    const { tokens, operator, phrase } = QueryTokenizer.tokenize(query, options?.operator);
+
+    // Las consultas de una palabra las resuelven las demás estrategias
+    if (tokens.length < 2) {
+      return results;
+    }
+
+    for (const entry of SearchIndex.for(items).entries) {
+      const tokenScores = tokens.map(token => this.scoreToken(token, entry));
+      const matchedTokens = tokens.filter((_, index) => tokenScores[index] > 0);
+
+      const matchesAll = matchedTokens.length === tokens.length;
+      if (operator === 'and' ? !matchesAll : matchedTokens.length === 0) continue;
+
+      const average = tokenScores.reduce((sum, score) => sum + score, 0) / tokens.length;
+      let matchScore = average * TOKEN_WEIGHT * (matchesAll ? 1 : OR_PENALTY);
+
+      // Bonus cuando los tokens aparecen juntos y en orden en algún nombre
+      if (entry.names.some(name => name.normalized.includes(phrase))) {
+        matchScore += PHRASE_BOOST;
+      }
+
+      // El nombre que mejor cubre la consulta da el bonus de cobertura, el idioma del match y el resaltado
+      const bestName = this.findBestName(matchedTokens, entry);
+      const highlights: MatchHighlight[] = [];
+      if (bestName) {
+        highlights.push(this.highlightTokens(matchedTokens, bestName));
+        matchScore += COVERAGE_BOOST * Math.min(1, matchedTokens.length / bestName.tokens.length);
+        matchScore *= SearchIndex.languageWeight(bestName, options?.language);
+      }
+
+      results.push({
+        item: entry.item,
+        score: matchScore,
+        matchType: 'partial',
+        matchedTerms: matchedTokens,
+        originalQuery: query,
+        highlights
+      });
+    }
+
+    return results;
+  }
+
+  /**
+   * Mejor puntuación del token contra los tokens de los nombres (en todos los idiomas)
+   * y, con menos peso, las categorías
+   */
+  private scoreToken(token: string, entry: IndexedItem<T>): number {
+    let best = 0;
+
+    for (const name of entry.names) {
+      for (const nameToken of name.tokens) {
+        if (nameToken === token) return TOKEN_SCORES.exact;
+        if (token.length >= 2 && nameToken.startsWith(token)) {
+          best = Math.max(best, TOKEN_SCORES.prefix);
+        } else if (token.length >= 4 && isWithinOneEdit(token, nameToken)) {
+          best = Math.max(best, TOKEN_SCORES.typo);
+        }
+      }
+    }
+
+    if (best === 0 && entry.categories.some(category => category.tokens.some(categoryToken => categoryToken.startsWith(token)))) {
+      best = TOKEN_SCORES.category;
+    }
+
+    return best;
+  }
+
+  /**
+   * Nombre con más tokens de la consulta como prefijo; en empate, el primero (el propio del item)
+   */
+  private findBestName(matchedTokens: string[], entry: IndexedItem<T>): IndexedText | undefined {
+    let bestName: IndexedText | undefined;
+    let bestCount = 0;
+
+    for (const name of entry.names) {
+      const count = matchedTokens.filter(token => name.tokens.some(nameToken => nameToken.startsWith(token))).length;
+      if (count > bestCount) {
+        bestName = name;
+        bestCount = count;
+      }
+    }
+
+    return bestName || entry.names[0];
+  }
+
+  /**
+   * Rangos de cada token en el nombre: la parte escrita en los prefijos y la
+   * palabra completa en las erratas
+   */
+  private highlightTokens(matchedTokens: string[], name: IndexedText): MatchHighlight {
+    const ranges = matchedTokens.flatMap(token => {
+      const prefixed = name.tokens.find(nameToken => nameToken.startsWith(token));
+      const target = prefixed
+        ? token
+        : name.tokens.find(nameToken => token.length >= 4 && isWithinOneEdit(token, nameToken));
+      return target ? MatchHighlighter.findRanges(name.text, target, { wordStart: true }) : [];
+    });
+
+    return { field: 'name', text: name.text, ranges: MatchHighlighter.merge(ranges), language: name.language };
+  }
+
+  getType(): string {
+    return 'token';
+  }
+
+  getPriority(): number {
+    return 95;
+  }
+}
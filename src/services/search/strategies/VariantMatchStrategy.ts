@@ -0,0 +1,66 @@
+/**
+ * Estrategia de match por variantes de marca (ej: "olympos" → Greek Yogurt).
+ * Los resultados apuntan al producto genérico; el término coincidente es la
+ * etiqueta de la variante para poder mostrarla bajo el producto.
+ */
+
+import { Searchable } from '@/types/search';
+import { SearchResult, MatchHighlight } from '../types';
+import { SearchIndex } from '../SearchIndex';
+import { MatchHighlighter } from '../MatchHighlighter';
+import { MatchStrategy } from './MatchStrategy';
+
+export class VariantMatchStrategy<T extends Searchable> implements MatchStrategy<T> {
+  findMatches(items: T[], query: string, normalizedQuery: string): SearchResult<T>[] {
+    const results: SearchResult<T>[] = [];
+
+    // Mismo umbral que ContainsMatchStrategy para evitar matches débiles
+    if (normalizedQuery.length < 3) {
+      return results;
+    }
+
+    for (const { item, variants } of SearchIndex.for(items).entries) {
+      let matchScore = 0;
+      const matchedTerms: string[] = [];
+      const highlights: MatchHighlight[] = [];
+
+      for (const { label, normalizedLabel, normalizedBrand } of variants) {
+        let score = 0;
+        if (normalizedLabel === normalizedQuery) {
+          score = 0.8;
+        } else if (normalizedBrand === normalizedQuery || normalizedLabel.startsWith(normalizedQuery)) {
+          score = 0.7;
+        } else if (normalizedLabel.includes(normalizedQuery)) {
+          score = 0.55;
+        }
+
+        if (score > 0) {
+          matchScore = Math.max(matchScore, score);
+          matchedTerms.push(label);
+          highlights.push(MatchHighlighter.highlight('variant', label, normalizedQuery));
+        }
+      }
+
+      if (matchScore > 0) {
+        results.push({
+          item,
+          score: matchScore,
+          matchType: 'partial',
+          matchedTerms,
+          originalQuery: query,
+          highlights
+        });
+      }
+    }
+
+    return results;
+  }
+
+  getType(): string {
+    return 'variant';
+  }
+
+  getPriority(): number {
+    return 75;
+  }
+}
@@ -0,0 +1,95 @@
+/**
+ * Pruebas unitarias para TokenMatchStrategy y QueryTokenizer
+ */
+
+import { describe, it, expect, beforeAll, afterAll, vi } from 'vitest';
+import { TokenMatchStrategy } from '../TokenMatchStrategy';
+import { QueryTokenizer } from '../../QueryTokenizer';
+import { HybridSearchEngine } from '../../HybridSearchEngine';
+import type { Searchable } from '@/types/search';
+
+// Ids fuera del catálogo para que las traducciones de database no intervengan
+const mockProducts: (Searchable & { category: string })[] = [
+  { id: 'yogurt_greek', name: 'Yogur Griego', category: 'dairy' },
+  { id: 'yogurt_drink', name: 'Yogur Bebible de Fresa', category: 'dairy' },
+  { id: 'apple_green', name: 'Green Apple', category: 'fruits' },
+  { id: 'apple_red', name: 'Red Apple', category: 'fruits' },
+  { id: 'apple_pie', name: 'Apple Pie with Green Tea', category: 'desserts' },
+  { id: 'pear', name: 'Pear', category: 'fruits' }
+];
+
+describe('QueryTokenizer', () => {
+  it('should normalize tokens and default to AND', () => {
+    expect(QueryTokenizer.tokenize('  Yogúr   GRIEGO ')).toEqual({
+      tokens: ['yogur', 'griego'],
+      operator: 'and',
+      phrase: 'yogur griego'
+    });
+  });
+
+  it('should switch to OR with the OR keyword or a pipe', () => {
+    expect(QueryTokenizer.tokenize('apple OR pear')).toMatchObject({ tokens: ['apple', 'pear'], operator: 'or' });
+    expect(QueryTokenizer.tokenize('apple|pear')).toMatchObject({ tokens: ['apple', 'pear'], operator: 'or' });
+    // En minúsculas "or" es un término más
+    expect(QueryTokenizer.tokenize('apple or pear')).toMatchObject({ tokens: ['apple', 'or', 'pear'], operator: 'and' });
+  });
+});
+
+describe('TokenMatchStrategy', () => {
+  const strategy = new TokenMatchStrategy();
+  const ids = (query: string, operator?: 'and' | 'or') =>
+    strategy.findMatches(mockProducts, query, query, operator && { threshold: 0.4, operator }).map(result => result.item.id);
+
+  it('should ignore single-word queries', () => {
+    expect(ids('apple')).toEqual([]);
+  });
+
+  it('should match tokens regardless of word order', () => {
+    expect(ids('griego yogur')).toEqual(['yogurt_greek']);
+    expect(ids('apple green')).toEqual(['apple_green', 'apple_pie']);
+  });
+
+  it('should require every token by default', () => {
+    expect(ids('green apple pear')).toEqual([]);
+  });
+
+  it('should accept any token with OR, ranking full matches first', () => {
+    const results = strategy.findMatches(mockProducts, 'green OR apple', 'green or apple')
+      .sort((a, b) => b.score - a.score);
+
+    expect(results.map(result => result.item.id)).toEqual(['apple_green', 'apple_pie', 'apple_red']);
+    expect(results[2].matchedTerms).toEqual(['apple']);
+    expect(ids('green pear', 'or')).toEqual(['apple_green', 'apple_pie', 'pear']);
+  });
+
+  it('should boost phrase matches and report matched tokens', () => {
+    const results = strategy.findMatches(mockProducts, 'green apple', 'green apple');
+    const phrase = results.find(result => result.item.id === 'apple_green')!;
+    const scattered = results.find(result => result.item.id === 'apple_pie')!;
+
+    expect(phrase.score).toBeGreaterThan(scattered.score);
+    expect(phrase.matchedTerms).toEqual(['green', 'apple']);
+  });
+
+  it('should tolerate prefixes and single typos per token', () => {
+    expect(ids('yog grieg')).toEqual(['yogurt_greek']);
+    expect(ids('gren aple')).toEqual(['apple_green', 'apple_pie']);
+  });
+
+  describe('within HybridSearchEngine', () => {
+    beforeAll(() => {
+      vi.spyOn(console, 'log').mockImplementation(() => {});
+    });
+
+    afterAll(() => {
+      vi.restoreAllMocks();
+    });
+
+    it('should rank the phrase match first for reordered multi-word queries', () => {
+      const engine = new HybridSearchEngine(mockProducts);
+      const [best] = engine.search('apple green');
+      expect(best.item.id).toBe('apple_green');
+      expect(best.matchedTerms).toEqual(['apple', 'green']);
+    });
+  });
+});
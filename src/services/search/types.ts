@@ -1,16 +1,39 @@
 
 import { Searchable } from '@/types/search';
 
+// Rango de caracteres [inicio, fin) sobre el texto original, listo para slice()
+export type MatchRange = [number, number];
+
+export type HighlightField = 'name' | 'category' | 'description' | 'variant';
+
+export interface MatchHighlight {
+  field: HighlightField;
+  text: string;         // Texto original del campo (el nombre traducido si coincidió una traducción)
+  ranges: MatchRange[]; // Ordenados y sin solaparse
+  language?: string;    // Idioma de la traducción; sin idioma para los campos propios del item
+}
+
+export interface SynonymHighlight {
+  term: string;          // Lo que escribió el usuario ("palta")
+  canonicalTerm: string; // El término al que equivale ("aguacate")
+}
+
 export interface SearchResult<T extends Searchable> {
   item: T;
   score: number;
   matchType: 'exact' | 'fuzzy' | 'partial' | 'synonym';
   matchedTerms: string[];
   originalQuery: string;
+  highlights: MatchHighlight[];
+  synonym?: SynonymHighlight;
 }
 
+export type QueryOperator = 'and' | 'or';
+
 export interface SearchOptions {
   threshold: number;        // 0-1, tolerancia para fuzzy search
   maxResults?: number;      // Máximo número de resultados
   minScore?: number;        // Score mínimo para incluir resultado
+  operator?: QueryOperator; // Consultas de varias palabras: 'and' por defecto; "OR" o "|" en el texto fuerzan 'or'
+  language?: string;        // Idioma activo de la UI: sus traducciones puntúan un poco más que las de otros idiomas
 }
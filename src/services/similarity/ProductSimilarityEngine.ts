@@ -0,0 +1,244 @@
+/**
+ * Motor de similitud entre productos basado en vectores de nutrientes.
+ * Cada producto se representa con sus macronutrientes, calorías, sodio,
+ * azúcar, grupo NOVA y flags de alérgenos, normalizados (min-max) sobre
+ * el catálogo, y se compara con una distancia euclídea ponderada.
+ */
+
+import { AllergenFlag, Product } from '@/data/types';
+import { getRelatedIds } from '@/utils/productRelationships';
+
+export type SimilarityFeature = 'calories' | 'protein' | 'carbs' | 'fats' | 'fiber' | 'sugar' | 'sodium' | 'nova';
+
+export type SimilarityReason =
+  | 'sameCategory'
+  | 'sameProcessing'        // Mismo grupo NOVA
+  | 'sameAllergenProfile'   // Todos los flags de alérgenos coinciden
+  | 'similarCalories'
+  | 'similarProtein'
+  | 'similarCarbs'
+  | 'similarFats'
+  | 'similarFiber'
+  | 'similarSugar'
+  | 'similarSodium';
+
+export interface SimilarityMatch {
+  product: Product;
+  score: number; // 0-1, 1 = vector idéntico
+  reasons: SimilarityReason[];
+}
+
+// Coincidencia del listado combinado: curated indica que viene de las relaciones 'similar'
+export interface SimilarProductMatch extends SimilarityMatch {
+  curated: boolean;
+}
+
+export interface SimilarityOptions {
+  limit: number;
+  scope: 'category' | 'all'; // Solo la categoría del producto o todo el catálogo
+  excludeIds: string[];
+}
+
+// Vectores normalizados de un catálogo; se construye una vez por conjunto de productos
+export interface SimilarityIndex {
+  products: Product[];
+  byId: Map<string, Product>;
+  vectors: Map<string, number[]>;
+}
+
+// Pesos por componente del vector; los flags de alérgenos se reparten ALLERGEN_WEIGHT
+export const SIMILARITY_WEIGHTS: Record<SimilarityFeature, number> = {
+  calories: 1.5,
+  protein: 1,
+  carbs: 1,
+  fats: 1,
+  fiber: 0.75,
+  sugar: 1,
+  sodium: 0.75,
+  nova: 1.5
+};
+
+const ALLERGEN_WEIGHT = 1.5;
+
+// Diferencia normalizada por debajo de la cual un nutriente se considera "similar"
+const SIMILAR_FEATURE_THRESHOLD = 0.05;
+
+const FEATURES = Object.keys(SIMILARITY_WEIGHTS) as SimilarityFeature[];
+
+const FEATURE_REASONS: Record<Exclude<SimilarityFeature, 'nova'>, SimilarityReason> = {
+  calories: 'similarCalories',
+  protein: 'similarProtein',
+  carbs: 'similarCarbs',
+  fats: 'similarFats',
+  fiber: 'similarFiber',
+  sugar: 'similarSugar',
+  sodium: 'similarSodium'
+};
+
+const DEFAULT_OPTIONS: SimilarityOptions = {
+  limit: 5,
+  scope: 'all',
+  excludeIds: []
+};
+
+const readFeature = (product: Product, feature: SimilarityFeature): number => {
+  const { nutrition } = product;
+  switch (feature) {
+    case 'calories': return nutrition.calories.total;
+    case 'protein': return nutrition.protein.total;
+    case 'carbs': return nutrition.carbs.total;
+    case 'fats': return nutrition.fats.total;
+    case 'fiber': return nutrition.fiber.total;
+    case 'sugar': return nutrition.sugar ?? 0;
+    case 'sodium': return nutrition.sodium ?? 0;
+    case 'nova': return product.processingLevel.nova;
+  }
+};
+
+export class ProductSimilarityEngine {
+  private indexes = new WeakMap<Product[], SimilarityIndex>();
+
+  /**
+   * Índice del catálogo, reutilizado mientras se pase el mismo array
+   */
+  getIndex(products: Product[]): SimilarityIndex {
+    let index = this.indexes.get(products);
+    if (!index) {
+      index = this.buildIndex(products);
+      this.indexes.set(products, index);
+    }
+    return index;
+  }
+
+  /**
+   * Construye los vectores normalizados del catálogo
+   */
+  buildIndex(products: Product[]): SimilarityIndex {
+    const ranges = FEATURES.map(feature => {
+      const values = products.map(product => readFeature(product, feature));
+      const min = Math.min(...values);
+      return { min, span: Math.max(...values) - min };
+    });
+    const allergenFlags = this.getAllergenFlags(products);
+
+    const vectors = new Map<string, number[]>();
+    for (const product of products) {
+      const numeric = FEATURES.map((feature, i) => {
+        const { min, span } = ranges[i];
+        return span > 0 ? (readFeature(product, feature) - min) / span : 0;
+      });
+      const flags = allergenFlags.map(flag => (product.allergens[flag] ? 1 : 0));
+      vectors.set(product.id, [...numeric, ...flags]);
+    }
+
+    return { products, byId: new Map(products.map(product => [product.id, product])), vectors };
+  }
+
+  /**
+   * Similitud (0-1) entre dos productos del índice
+   */
+  similarity(index: SimilarityIndex, a: Product, b: Product): number {
+    const vectorA = index.vectors.get(a.id);
+    const vectorB = index.vectors.get(b.id);
+    if (!vectorA || !vectorB) return 0;
+
+    const weights = this.getWeights(vectorA.length);
+    let distance = 0;
+    let totalWeight = 0;
+
+    weights.forEach((weight, i) => {
+      distance += weight * (vectorA[i] - vectorB[i]) ** 2;
+      totalWeight += weight;
+    });
+
+    return 1 - Math.sqrt(distance / totalWeight);
+  }
+
+  /**
+   * Los k productos más cercanos, ordenados de mayor a menor similitud
+   */
+  findSimilar(product: Product, index: SimilarityIndex, options: Partial<SimilarityOptions> = {}): SimilarityMatch[] {
+    const { limit, scope, excludeIds } = { ...DEFAULT_OPTIONS, ...options };
+    const excluded = new Set([product.id, ...excludeIds]);
+
+    return index.products
+      .filter(candidate => !excluded.has(candidate.id))
+      .filter(candidate => scope === 'all' || candidate.category === product.category)
+      .map(candidate => this.match(index, product, candidate))
+      .sort((a, b) => b.score - a.score)
+      .slice(0, limit);
+  }
+
+  /**
+   * Combina las alternativas curadas (relaciones 'similar') con las calculadas:
+   * primero las curadas, luego las más cercanas de la misma categoría y,
+   * si faltan, las del resto del catálogo hasta completar el límite
+   */
+  blend(product: Product, index: SimilarityIndex, limit = 8): SimilarProductMatch[] {
+    const curated: SimilarProductMatch[] = getRelatedIds(product, 'similar')
+      .map(id => index.byId.get(id))
+      .filter((candidate): candidate is Product => Boolean(candidate) && candidate.id !== product.id)
+      .slice(0, limit)
+      .map(candidate => ({ ...this.match(index, product, candidate), curated: true }));
+
+    const results = [...curated];
+    const taken = () => results.map(match => match.product.id);
+
+    for (const scope of ['category', 'all'] as const) {
+      if (results.length >= limit) break;
+      const computed = this.findSimilar(product, index, { scope, limit: limit - results.length, excludeIds: taken() });
+      results.push(...computed.map(match => ({ ...match, curated: false })));
+    }
+
+    return results;
+  }
+
+  /**
+   * Puntuación y motivos de la similitud entre un producto y un candidato
+   */
+  match(index: SimilarityIndex, product: Product, candidate: Product): SimilarityMatch {
+    return {
+      product: candidate,
+      score: this.similarity(index, product, candidate),
+      reasons: this.explain(index, product, candidate)
+    };
+  }
+
+  /**
+   * Motivos legibles: categoría, procesamiento y alérgenos compartidos,
+   * seguidos de los nutrientes más parecidos (de más a menos relevante)
+   */
+  private explain(index: SimilarityIndex, product: Product, candidate: Product): SimilarityReason[] {
+    const reasons: SimilarityReason[] = [];
+    const vectorA = index.vectors.get(product.id) || [];
+    const vectorB = index.vectors.get(candidate.id) || [];
+
+    if (product.category === candidate.category) reasons.push('sameCategory');
+    if (product.processingLevel.nova === candidate.processingLevel.nova) reasons.push('sameProcessing');
+
+    const flagsA = vectorA.slice(FEATURES.length);
+    const flagsB = vectorB.slice(FEATURES.length);
+    if (flagsA.length > 0 && flagsA.every((flag, i) => flag === flagsB[i])) reasons.push('sameAllergenProfile');
+
+    const similarFeatures = FEATURES
+      .map((feature, i) => ({ feature, difference: Math.abs(vectorA[i] - vectorB[i]) }))
+      .filter(({ feature, difference }) => feature !== 'nova' && difference <= SIMILAR_FEATURE_THRESHOLD)
+      .sort((a, b) => a.difference - b.difference || SIMILARITY_WEIGHTS[b.feature] - SIMILARITY_WEIGHTS[a.feature]);
+
+    similarFeatures.forEach(({ feature }) => reasons.push(FEATURE_REASONS[feature as Exclude<SimilarityFeature, 'nova'>]));
+
+    return reasons;
+  }
+
+  private getAllergenFlags(products: Product[]): AllergenFlag[] {
+    return products.length > 0 ? (Object.keys(products[0].allergens) as AllergenFlag[]) : [];
+  }
+
+  private getWeights(length: number): number[] {
+    const flagCount = length - FEATURES.length;
+    const flagWeight = flagCount > 0 ? ALLERGEN_WEIGHT / flagCount : 0;
+    return [...FEATURES.map(feature => SIMILARITY_WEIGHTS[feature]), ...Array(flagCount).fill(flagWeight)];
+  }
+}
+
+export const productSimilarityEngine = new ProductSimilarityEngine();
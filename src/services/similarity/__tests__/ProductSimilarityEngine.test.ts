@@ -0,0 +1,86 @@
+/**
+ * Pruebas unitarias para ProductSimilarityEngine
+ */
+
+import { describe, it, expect } from 'vitest';
+import { ProductSimilarityEngine } from '../ProductSimilarityEngine';
+import { productsDB } from '@/data/products';
+import { Product } from '@/data/types';
+
+const getProduct = (id: string): Product => productsDB.find(p => p.id === id)!;
+
+describe('ProductSimilarityEngine', () => {
+  const engine = new ProductSimilarityEngine();
+  const index = engine.buildIndex(productsDB);
+
+  describe('buildIndex', () => {
+    it('should normalize every vector component between 0 and 1', () => {
+      index.vectors.forEach(vector => {
+        vector.forEach(value => {
+          expect(value).toBeGreaterThanOrEqual(0);
+          expect(value).toBeLessThanOrEqual(1);
+        });
+      });
+    });
+
+    it('should reuse the index for the same product array', () => {
+      expect(engine.getIndex(productsDB)).toBe(engine.getIndex(productsDB));
+    });
+  });
+
+  describe('similarity', () => {
+    it('should be 1 for a product with itself and symmetric otherwise', () => {
+      const broccoli = getProduct('broccoli_001');
+      const kale = getProduct('kale_005');
+
+      expect(engine.similarity(index, broccoli, broccoli)).toBeCloseTo(1);
+      expect(engine.similarity(index, broccoli, kale)).toBeCloseTo(engine.similarity(index, kale, broccoli));
+    });
+
+    it('should rank nutritionally close products above distant ones', () => {
+      const broccoli = getProduct('broccoli_001');
+
+      expect(engine.similarity(index, broccoli, getProduct('cauliflower_006')))
+        .toBeGreaterThan(engine.similarity(index, broccoli, getProduct('chips_009')));
+    });
+  });
+
+  describe('findSimilar', () => {
+    it('should return the top-k neighbours sorted by score, without the product itself', () => {
+      const matches = engine.findSimilar(getProduct('soda_010'), index, { limit: 3 });
+      const scores = matches.map(match => match.score);
+
+      expect(matches).toHaveLength(3);
+      expect(matches.map(match => match.product.id)).not.toContain('soda_010');
+      expect(scores).toEqual([...scores].sort((a, b) => b - a));
+    });
+
+    it('should restrict results to the category when requested', () => {
+      const matches = engine.findSimilar(getProduct('apple_002'), index, { scope: 'category', limit: 10 });
+
+      expect(matches.length).toBeGreaterThan(0);
+      matches.forEach(match => expect(match.product.category).toBe('fruits'));
+    });
+
+    it('should explain each match', () => {
+      const [match] = engine.findSimilar(getProduct('pear_008'), index, { scope: 'category', limit: 1 });
+
+      expect(match.reasons).toEqual(expect.arrayContaining(['sameCategory', 'sameProcessing']));
+    });
+  });
+
+  describe('blend', () => {
+    it('should keep curated options first and fill up with computed neighbours', () => {
+      const product = { ...getProduct('broccoli_001'), otherOptionsIds: ['kale_005', 'missing_999'] };
+      const blendIndex = engine.buildIndex(productsDB.map(p => (p.id === product.id ? product : p)));
+
+      const matches = engine.blend(product, blendIndex, 5);
+      const ids = matches.map(match => match.product.id);
+
+      expect(matches).toHaveLength(5);
+      expect(matches[0]).toMatchObject({ curated: true, product: expect.objectContaining({ id: 'kale_005' }) });
+      expect(matches.slice(1).every(match => !match.curated)).toBe(true);
+      expect(new Set(ids).size).toBe(ids.length);
+    });
+  });
+});
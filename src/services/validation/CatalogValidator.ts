@@ -0,0 +1,381 @@
+/**
+ * Validador del catálogo de productos: esquema (zod) + reglas de consistencia.
+ * Devuelve issues estructurados en lugar de lanzar errores, para poder
+ * reportar todos los problemas del catálogo de una sola vez.
+ */
+
+import { Product, ProcessingLevel } from '@/data/types';
+import { categories, vitamins, minerals } from '@/data/migrationData';
+import { getCategoryPath } from '@/data/categories';
+import { MICRONUTRIENT_REFERENCE, isMicronutrientKey } from '@/data/micronutrients';
+import { normalizeBarcode } from '@/utils/barcodeUtils';
+import { getProductBarcodes } from '@/utils/productVariants';
+import { getAllergensByCategory } from '@/data/allergens';
+import { allergenInferenceEngine } from '@/services/allergens/AllergenInferenceEngine';
+import { additiveAnalyzer } from '@/services/additives/AdditiveAnalyzer';
+import { productSchema } from './productSchema';
+
+export type ValidationSeverity = 'error' | 'warning';
+
+export interface ValidationIssue {
+  productId: string;
+  field: string;
+  severity: ValidationSeverity;
+  code: string;
+  message: string;
+}
+
+export interface CatalogValidatorOptions {
+  // Desviación relativa permitida entre calories.total y la suma por macronutriente
+  calorieWarningTolerance: number;
+  calorieErrorTolerance: number;
+  // Diferencia absoluta (kcal) permitida entre caloriesFrom y total * kcal/g
+  macroCaloriesTolerance: number;
+}
+
+const DEFAULT_OPTIONS: CatalogValidatorOptions = {
+  calorieWarningTolerance: 0.1,
+  calorieErrorTolerance: 0.35,
+  macroCaloriesTolerance: 1
+};
+
+// Categoría de procesamiento esperada para cada grupo NOVA
+export const NOVA_EXPECTED_CATEGORY: Record<ProcessingLevel['nova'], ProcessingLevel['category']> = {
+  1: 'minimal',
+  2: 'processed',
+  3: 'processed',
+  4: 'ultra-processed'
+};
+
+const KCAL_PER_GRAM = { protein: 4, carbs: 4, fats: 9 } as const;
+
+const MACRO_TO_CALORIES_FIELD = {
+  protein: 'fromProtein',
+  carbs: 'fromCarbs',
+  fats: 'fromFat'
+} as const;
+
+export class CatalogValidator {
+  private options: CatalogValidatorOptions;
+
+  constructor(options: Partial<CatalogValidatorOptions> = {}) {
+    this.options = { ...DEFAULT_OPTIONS, ...options };
+  }
+
+  /**
+   * Valida el catálogo completo, incluyendo reglas entre productos
+   * (ids duplicados, referencias colgantes, códigos de barras repetidos)
+   */
+  validateCatalog(products: Product[]): ValidationIssue[] {
+    const issues: ValidationIssue[] = [];
+    const knownIds = new Set<string>();
+    const barcodeOwners = new Map<string, string>();
+
+    for (const product of products) {
+      if (knownIds.has(product.id)) {
+        issues.push(this.issue(product, 'id', 'error', 'duplicate_id', `Duplicate product id "${product.id}"`));
+      }
+      knownIds.add(product.id);
+    }
+
+    for (const product of products) {
+      issues.push(...this.validateProduct(product, knownIds));
+
+      for (const barcode of getProductBarcodes(product)) {
+        const normalized = normalizeBarcode(barcode);
+        if (!normalized) continue;
+
+        const owner = barcodeOwners.get(normalized);
+        if (owner && owner !== product.id) {
+          issues.push(this.issue(product, 'barcodes', 'error', 'duplicate_barcode',
+            `Barcode ${barcode} is already assigned to "${owner}"`));
+        } else {
+          barcodeOwners.set(normalized, product.id);
+        }
+      }
+    }
+
+    return issues;
+  }
+
+  /**
+   * Valida un producto. Si se pasan los ids conocidos, también verifica
+   * que otherOptionsIds y relationships apunten a productos existentes.
+   */
+  validateProduct(product: Product, knownIds?: Set<string>): ValidationIssue[] {
+    const schemaResult = productSchema.safeParse(product);
+
+    if (!schemaResult.success) {
+      // Sin una forma válida las reglas de consistencia no son confiables
+      return schemaResult.error.issues.map(zodIssue => ({
+        productId: product?.id || '(unknown)',
+        field: zodIssue.path.join('.'),
+        severity: 'error' as const,
+        code: 'schema',
+        message: zodIssue.message
+      }));
+    }
+
+    return [
+      ...this.checkCalories(product),
+      ...this.checkMacroCalories(product),
+      ...this.checkProcessingLevel(product),
+      ...this.checkAdditives(product),
+      ...this.checkReferences(product, knownIds),
+      ...this.checkVocabulary(product),
+      ...this.checkMicronutrients(product),
+      ...this.checkAllergens(product),
+      ...this.checkAllergenTraces(product),
+      ...this.checkBarcodes(product),
+      ...this.checkVariants(product)
+    ];
+  }
+
+  /**
+   * Contrasta los flags de alérgenos con los inferidos de los ingredientes.
+   * Un ingrediente que contradice un "libre de" es error; un alérgeno marcado
+   * sin ingrediente que lo justifique es aviso (puede deberse a trazas).
+   */
+  private checkAllergens(product: Product): ValidationIssue[] {
+    return allergenInferenceEngine.analyze(product).conflicts.map(conflict => {
+      const field = `allergens.${conflict.allergenId}`;
+
+      if (conflict.kind === 'undeclared') {
+        const evidence = conflict.evidence.map(match => `"${match.ingredient}"`).join(', ');
+        return this.issue(product, field, 'error', 'allergen_conflict',
+          `${conflict.allergenId} is true but ingredients contain ${evidence}`);
+      }
+
+      return this.issue(product, field, 'warning', 'allergen_unsupported',
+        `${conflict.allergenId} is false but no ingredient supports it`);
+    });
+  }
+
+  /**
+   * Las trazas solo aplican a alérgenos y solo mientras el flag siga como "libre de"
+   */
+  private checkAllergenTraces(product: Product): ValidationIssue[] {
+    const issues: ValidationIssue[] = [];
+    const allergenIds = new Set(getAllergensByCategory('allergen').map(config => config.id));
+
+    (product.allergenTraces || []).forEach((allergenId, index) => {
+      const field = `allergenTraces.${index}`;
+      if (!allergenIds.has(allergenId)) {
+        issues.push(this.issue(product, field, 'error', 'unknown_allergen_trace', `Unknown allergen "${allergenId}"`));
+      } else if (product.allergens[allergenId] === false) {
+        issues.push(this.issue(product, field, 'warning', 'redundant_allergen_trace',
+          `${allergenId} is already marked as contained`));
+      }
+    });
+
+    return issues;
+  }
+
+  private checkCalories(product: Product): ValidationIssue[] {
+    const { total, fromCarbs, fromProtein, fromFat } = product.nutrition.calories;
+    const sum = fromCarbs + fromProtein + fromFat;
+    const deviation = Math.abs(total - sum) / Math.max(total, sum, 1);
+
+    if (deviation <= this.options.calorieWarningTolerance) return [];
+
+    const severity: ValidationSeverity = deviation > this.options.calorieErrorTolerance ? 'error' : 'warning';
+    return [this.issue(product, 'nutrition.calories.total', severity, 'calories_mismatch',
+      `calories.total (${total}) differs ${Math.round(deviation * 100)}% from fromCarbs + fromProtein + fromFat (${Math.round(sum * 10) / 10})`)];
+  }
+
+  private checkMacroCalories(product: Product): ValidationIssue[] {
+    const issues: ValidationIssue[] = [];
+    const { nutrition } = product;
+
+    for (const macro of Object.keys(KCAL_PER_GRAM) as (keyof typeof KCAL_PER_GRAM)[]) {
+      const details = nutrition[macro];
+      const expected = details.total * KCAL_PER_GRAM[macro];
+
+      if (Math.abs(details.caloriesFrom - expected) > this.options.macroCaloriesTolerance) {
+        issues.push(this.issue(product, `nutrition.${macro}.caloriesFrom`, 'warning', 'macro_calories_mismatch',
+          `${macro}.caloriesFrom (${details.caloriesFrom}) should be ${macro}.total × ${KCAL_PER_GRAM[macro]} (${Math.round(expected * 10) / 10})`));
+      }
+
+      const caloriesField = MACRO_TO_CALORIES_FIELD[macro];
+      if (Math.abs(nutrition.calories[caloriesField] - details.caloriesFrom) > this.options.macroCaloriesTolerance) {
+        issues.push(this.issue(product, `nutrition.calories.${caloriesField}`, 'warning', 'calories_breakdown_mismatch',
+          `calories.${caloriesField} (${nutrition.calories[caloriesField]}) does not match ${macro}.caloriesFrom (${details.caloriesFrom})`));
+      }
+    }
+
+    return issues;
+  }
+
+  private checkProcessingLevel(product: Product): ValidationIssue[] {
+    const issues: ValidationIssue[] = [];
+    const { nova, category, indicators, indicatorsKeys } = product.processingLevel;
+    const expected = NOVA_EXPECTED_CATEGORY[nova];
+
+    if (category !== expected) {
+      issues.push(this.issue(product, 'processingLevel.category', 'error', 'nova_category_mismatch',
+        `NOVA ${nova} should be "${expected}" but is "${category}"`));
+    }
+
+    if (indicators && indicatorsKeys && indicators.length !== indicatorsKeys.length) {
+      issues.push(this.issue(product, 'processingLevel.indicatorsKeys', 'warning', 'indicators_length_mismatch',
+        `indicators (${indicators.length}) and indicatorsKeys (${indicatorsKeys.length}) have different lengths`));
+    }
+
+    return issues;
+  }
+
+  /**
+   * Los aditivos deben existir en la base de números E, y los aditivos
+   * cosméticos solo son coherentes con un producto NOVA 4
+   */
+  private checkAdditives(product: Product): ValidationIssue[] {
+    const issues: ValidationIssue[] = [];
+    const { unknownCodes } = additiveAnalyzer.resolve(product.additives);
+
+    (product.additives || []).forEach((code, index) => {
+      if (unknownCodes.includes(code)) {
+        issues.push(this.issue(product, `additives.${index}`, 'error', 'unknown_additive', `Unknown additive "${code}"`));
+      }
+    });
+
+    const novaCheck = additiveAnalyzer.checkNova(product);
+    if (!novaCheck.consistent) {
+      const markers = novaCheck.markers.map(additive => `${additive.code} (${additive.function})`).join(', ');
+      issues.push(this.issue(product, 'processingLevel.nova', 'warning', 'additives_nova_mismatch',
+        `NOVA ${novaCheck.declaredNova} but ${markers} are markers of ultra-processed food`));
+    }
+
+    return issues;
+  }
+
+  private checkReferences(product: Product, knownIds?: Set<string>): ValidationIssue[] {
+    const issues: ValidationIssue[] = [];
+
+    product.otherOptionsIds.forEach((optionId, index) => {
+      const field = `otherOptionsIds.${index}`;
+      if (optionId === product.id) {
+        issues.push(this.issue(product, field, 'warning', 'self_reference', 'Product lists itself as another option'));
+      } else if (knownIds && !knownIds.has(optionId)) {
+        issues.push(this.issue(product, field, 'error', 'unknown_reference', `Unknown product id "${optionId}"`));
+      }
+    });
+
+    (product.relationships || []).forEach(({ productId, type }, index) => {
+      const field = `relationships.${index}.productId`;
+      if (productId === product.id) {
+        issues.push(this.issue(product, field, 'warning', 'self_reference', `Product lists itself as a ${type}`));
+      } else if (knownIds && !knownIds.has(productId)) {
+        issues.push(this.issue(product, field, 'error', 'unknown_reference', `Unknown product id "${productId}"`));
+      }
+    });
+
+    return issues;
+  }
+
+  private checkVocabulary(product: Product): ValidationIssue[] {
+    const issues: ValidationIssue[] = [];
+
+    if (!(product.category in categories)) {
+      issues.push(this.issue(product, 'category', 'error', 'unknown_category', `Unknown category "${product.category}"`));
+    }
+
+    // La subcategoría debe colgar de la categoría raíz del producto
+    if (product.subcategory) {
+      const path = getCategoryPath(product.subcategory);
+      if (path.length === 0) {
+        issues.push(this.issue(product, 'subcategory', 'error', 'unknown_subcategory', `Unknown subcategory "${product.subcategory}"`));
+      } else if (path[0].id !== product.category) {
+        issues.push(this.issue(product, 'subcategory', 'error', 'subcategory_mismatch',
+          `Subcategory "${product.subcategory}" belongs to "${path[0].id}", not "${product.category}"`));
+      }
+    }
+
+    product.nutrition.vitamins.forEach((vitamin, index) => {
+      if (!(vitamin in vitamins)) {
+        issues.push(this.issue(product, `nutrition.vitamins.${index}`, 'warning', 'unknown_vitamin', `Unknown vitamin "${vitamin}"`));
+      }
+    });
+
+    product.nutrition.minerals.forEach((mineral, index) => {
+      if (!(mineral in minerals)) {
+        issues.push(this.issue(product, `nutrition.minerals.${index}`, 'warning', 'unknown_mineral', `Unknown mineral "${mineral}"`));
+      }
+    });
+
+    return issues;
+  }
+
+  private checkMicronutrients(product: Product): ValidationIssue[] {
+    const issues: ValidationIssue[] = [];
+    const { micronutrients, vitamins: listedVitamins, minerals: listedMinerals } = product.nutrition;
+
+    Object.entries(micronutrients).forEach(([key, details]) => {
+      const field = `nutrition.micronutrients.${key}`;
+      if (!isMicronutrientKey(key)) {
+        issues.push(this.issue(product, field, 'error', 'unknown_micronutrient', `Unknown micronutrient "${key}"`));
+      } else if (details.unit !== MICRONUTRIENT_REFERENCE[key].unit) {
+        issues.push(this.issue(product, `${field}.unit`, 'error', 'micronutrient_unit_mismatch',
+          `${key} should be expressed in ${MICRONUTRIENT_REFERENCE[key].unit}, not ${details.unit}`));
+      }
+    });
+
+    [...listedVitamins, ...listedMinerals].forEach(key => {
+      if (isMicronutrientKey(key) && !micronutrients[key]) {
+        issues.push(this.issue(product, `nutrition.micronutrients.${key}`, 'warning', 'missing_micronutrient_amount',
+          `${key} is listed but has no amount`));
+      }
+    });
+
+    return issues;
+  }
+
+  private checkBarcodes(product: Product): ValidationIssue[] {
+    const fields = [
+      ...(product.barcodes || []).map((barcode, index) => ({ barcode, field: `barcodes.${index}` })),
+      ...(product.variants || []).flatMap((variant, variantIndex) =>
+        (variant.barcodes || []).map((barcode, index) => ({ barcode, field: `variants.${variantIndex}.barcodes.${index}` })))
+    ];
+
+    return fields
+      .filter(({ barcode }) => !normalizeBarcode(barcode))
+      .map(({ barcode, field }) => this.issue(product, field, 'error', 'invalid_barcode',
+        `"${barcode}" is not a valid EAN-13/UPC-A barcode`));
+  }
+
+  /**
+   * Las variantes se seleccionan por id en la URL, así que deben ser únicas
+   * dentro del producto, y sus macronutrientes no pueden superar 100 g
+   */
+  private checkVariants(product: Product): ValidationIssue[] {
+    const issues: ValidationIssue[] = [];
+    const seen = new Set<string>();
+
+    (product.variants || []).forEach((variant, index) => {
+      if (seen.has(variant.id)) {
+        issues.push(this.issue(product, `variants.${index}.id`, 'error', 'duplicate_variant_id',
+          `Duplicate variant id "${variant.id}"`));
+      }
+      seen.add(variant.id);
+
+      const overrides = variant.nutritionOverrides || {};
+      const macroGrams = (['protein', 'carbs', 'fats'] as const)
+        .reduce((sum, macro) => sum + (overrides[macro] ?? product.nutrition[macro].total), 0);
+      if (macroGrams > 100) {
+        issues.push(this.issue(product, `variants.${index}.nutritionOverrides`, 'error', 'variant_macros_exceed_weight',
+          `Variant "${variant.id}" has ${macroGrams.toFixed(1)} g of macronutrients per 100 g`));
+      }
+    });
+
+    return issues;
+  }
+
+  private issue(
+    product: Product,
+    field: string,
+    severity: ValidationSeverity,
+    code: string,
+    message: string
+  ): ValidationIssue {
+    return { productId: product.id, field, severity, code, message };
+  }
+}
@@ -0,0 +1,173 @@
+/**
+ * Pruebas del validador de catálogo, incluida la verificación del catálogo completo
+ */
+
+import { describe, it, expect } from 'vitest';
+import { CatalogValidator } from '../CatalogValidator';
+import { productsDB } from '@/data/products';
+import { Product } from '@/data/types';
+
+const cloneProduct = (id = 'broccoli_001'): Product =>
+  JSON.parse(JSON.stringify(productsDB.find(p => p.id === id)));
+
+describe('CatalogValidator', () => {
+  const validator = new CatalogValidator();
+
+  describe('catalog (productsDB)', () => {
+    const issues = validator.validateCatalog(productsDB);
+
+    it('should not contain errors', () => {
+      const errors = issues.filter(issue => issue.severity === 'error');
+      expect(errors).toEqual([]);
+    });
+
+    it('should only report issues for known products', () => {
+      const ids = new Set(productsDB.map(p => p.id));
+      issues.forEach(issue => expect(ids.has(issue.productId)).toBe(true));
+    });
+  });
+
+  describe('schema', () => {
+    it('should report schema violations with their field path', () => {
+      const product = cloneProduct();
+      product.nutrition.protein.total = -1;
+      product.rating = 12;
+
+      const issues = validator.validateProduct(product);
+
+      expect(issues).toEqual(expect.arrayContaining([
+        expect.objectContaining({ productId: 'broccoli_001', field: 'nutrition.protein.total', severity: 'error', code: 'schema' }),
+        expect.objectContaining({ field: 'rating', severity: 'error', code: 'schema' })
+      ]));
+    });
+  });
+
+  describe('rules', () => {
+    it('should flag calories that disagree with the macro breakdown', () => {
+      const product = cloneProduct();
+      product.nutrition.calories.total = 200;
+
+      const [issue] = validator.validateProduct(product).filter(i => i.code === 'calories_mismatch');
+
+      expect(issue).toMatchObject({ field: 'nutrition.calories.total', severity: 'error' });
+    });
+
+    it('should flag allergen flags that contradict the ingredients', () => {
+      const product = cloneProduct('cookies_015');
+      product.allergens.glutenFree = true;
+
+      const [issue] = validator.validateProduct(product).filter(i => i.code === 'allergen_conflict');
+
+      expect(issue).toMatchObject({ field: 'allergens.glutenFree', severity: 'error' });
+      expect(issue.message).toContain('wheat flour');
+    });
+
+    it('should flag traces for unknown or already contained allergens', () => {
+      const product = cloneProduct('almonds_004');
+      product.allergenTraces = ['nutFree', 'keto'];
+
+      const issues = validator.validateProduct(product);
+
+      expect(issues).toEqual(expect.arrayContaining([
+        expect.objectContaining({ field: 'allergenTraces.0', severity: 'warning', code: 'redundant_allergen_trace' }),
+        expect.objectContaining({ field: 'allergenTraces.1', severity: 'error', code: 'unknown_allergen_trace' })
+      ]));
+    });
+
+    it('should flag contradicting NOVA and category pairs', () => {
+      const product = cloneProduct();
+      product.processingLevel.nova = 4;
+
+      const issues = validator.validateProduct(product);
+
+      expect(issues).toContainEqual(expect.objectContaining({
+        field: 'processingLevel.category',
+        code: 'nova_category_mismatch',
+        severity: 'error'
+      }));
+    });
+
+    it('should flag unknown subcategories and subcategories outside the root category', () => {
+      const unknown = cloneProduct();
+      const misplaced = cloneProduct();
+      unknown.subcategory = 'space_food';
+      misplaced.subcategory = 'greek_yogurt';
+
+      expect(validator.validateProduct(unknown)).toContainEqual(expect.objectContaining({
+        field: 'subcategory', code: 'unknown_subcategory', severity: 'error'
+      }));
+      expect(validator.validateProduct(misplaced)).toContainEqual(expect.objectContaining({
+        field: 'subcategory', code: 'subcategory_mismatch', severity: 'error'
+      }));
+    });
+
+    it('should flag unknown additives and cosmetic additives outside NOVA 4', () => {
+      const product = cloneProduct('greek_yogurt_007');
+      product.additives = ['E412', 'E999'];
+
+      const issues = validator.validateProduct(product);
+
+      expect(issues).toEqual(expect.arrayContaining([
+        expect.objectContaining({ field: 'additives.1', severity: 'error', code: 'unknown_additive' }),
+        expect.objectContaining({ field: 'processingLevel.nova', severity: 'warning', code: 'additives_nova_mismatch' })
+      ]));
+    });
+
+    it('should flag otherOptionsIds and relationships that point to missing products', () => {
+      const product = cloneProduct();
+      product.otherOptionsIds = ['apple_002', 'unicorn_999'];
+      product.relationships = [
+        { productId: 'apple_002', type: 'complement' },
+        { productId: 'unicorn_999', type: 'substitute' }
+      ];
+
+      const issues = validator.validateCatalog([product, cloneProduct('apple_002')])
+        .filter(i => i.code === 'unknown_reference' && i.productId === 'broccoli_001');
+
+      expect(issues).toEqual([
+        expect.objectContaining({ productId: 'broccoli_001', field: 'otherOptionsIds.1', severity: 'error' }),
+        expect.objectContaining({ productId: 'broccoli_001', field: 'relationships.1.productId', severity: 'error' })
+      ]);
+    });
+
+    it('should flag duplicate ids and invalid or repeated barcodes', () => {
+      const first = cloneProduct();
+      const second = cloneProduct('apple_002');
+      first.barcodes = ['4006381333931', '123'];
+      second.barcodes = ['4006381333931'];
+
+      const codes = validator.validateCatalog([first, second, cloneProduct()]).map(i => i.code);
+
+      expect(codes).toEqual(expect.arrayContaining(['duplicate_id', 'invalid_barcode', 'duplicate_barcode']));
+    });
+
+    it('should flag variant barcodes and repeated variant ids', () => {
+      const yogurt = cloneProduct('greek_yogurt_007');
+      const second = cloneProduct('apple_002');
+      yogurt.variants![1].id = yogurt.variants![0].id;
+      yogurt.variants![1].barcodes = ['123'];
+      second.barcodes = [yogurt.variants![0].barcodes![0]];
+
+      const issues = validator.validateCatalog([yogurt, second]);
+
+      expect(issues).toEqual(expect.arrayContaining([
+        expect.objectContaining({ productId: 'greek_yogurt_007', field: 'variants.1.id', code: 'duplicate_variant_id' }),
+        expect.objectContaining({ productId: 'greek_yogurt_007', field: 'variants.1.barcodes.0', code: 'invalid_barcode' }),
+        expect.objectContaining({ productId: 'apple_002', code: 'duplicate_barcode' })
+      ]));
+    });
+
+    it('should flag listed micronutrients without amounts and wrong units', () => {
+      const product = cloneProduct();
+      delete product.nutrition.micronutrients.folate;
+      product.nutrition.micronutrients.vitamin_c.unit = 'mcg';
+
+      const issues = validator.validateProduct(product);
+
+      expect(issues).toEqual(expect.arrayContaining([
+        expect.objectContaining({ field: 'nutrition.micronutrients.folate', code: 'missing_micronutrient_amount', severity: 'warning' }),
+        expect.objectContaining({ field: 'nutrition.micronutrients.vitamin_c.unit', code: 'micronutrient_unit_mismatch', severity: 'error' })
+      ]));
+    });
+  });
+});
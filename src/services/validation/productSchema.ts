@@ -0,0 +1,126 @@
+/**
+ * Esquema zod del modelo Product (ver data/types.ts).
+ * Valida forma y rangos; las reglas de consistencia viven en CatalogValidator.
+ */
+
+import { z } from 'zod';
+import { HEALTH_SCALE_MIN, HEALTH_SCALE_MAX } from '@/utils/healthScale';
+
+const percentage = z.number().min(0);
+
+export const nutritionDetailsSchema = z.object({
+  description: z.string(),
+  total: z.number().min(0).max(100),
+  caloriesFrom: z.number().min(0),
+  dailyPercentage: percentage,
+  healthRanking: z.number().int().min(HEALTH_SCALE_MIN).max(HEALTH_SCALE_MAX)
+});
+
+export const caloriesDetailsSchema = z.object({
+  description: z.string(),
+  total: z.number().min(0).max(900),
+  fromCarbs: z.number().min(0),
+  fromProtein: z.number().min(0),
+  fromFat: z.number().min(0)
+});
+
+export const processingLevelSchema = z.object({
+  nova: z.union([z.literal(1), z.literal(2), z.literal(3), z.literal(4)]),
+  category: z.enum(['minimal', 'processed', 'ultra-processed']),
+  description: z.string().min(1),
+  descriptionKey: z.string().optional(),
+  indicators: z.array(z.string()).optional(),
+  indicatorsKeys: z.array(z.string()).optional()
+});
+
+const optionalAmount = z.number().min(0).optional();
+
+export const micronutrientAmountSchema = z.object({
+  amount: z.number().min(0),
+  unit: z.enum(['mg', 'mcg']),
+  dailyPercentage: percentage
+});
+
+export const servingSizeSchema = z.object({
+  id: z.string().min(1),
+  label: z.string().min(1),
+  labelKey: z.string().optional(),
+  grams: z.number().positive()
+});
+
+export const productVariantSchema = z.object({
+  id: z.string().min(1),
+  brand: z.string().min(1),
+  name: z.string().optional(),
+  packageSize: z.object({
+    amount: z.number().positive(),
+    unit: z.enum(['g', 'ml'])
+  }).optional(),
+  barcodes: z.array(z.string()).optional(),
+  image: z.string().optional(),
+  nutritionOverrides: z.object({
+    protein: optionalAmount,
+    carbs: optionalAmount,
+    fats: optionalAmount,
+    fiber: optionalAmount,
+    saturatedFat: optionalAmount,
+    sugar: optionalAmount,
+    sodium: optionalAmount,
+    cholesterol: optionalAmount
+  }).optional()
+});
+
+export const productSchema = z.object({
+  id: z.string().min(1),
+  name: z.string().min(1),
+  nameKey: z.string().optional(),
+  image: z.string().min(1),
+  rating: z.number().min(0).max(10),
+  category: z.string().min(1),
+  categoryKey: z.string().optional(),
+  subcategory: z.string().optional(),
+  barcodes: z.array(z.string()).optional(),
+  servingSizes: z.array(servingSizeSchema).optional(),
+  ingredients: z.array(z.string().min(1)).optional(),
+  additives: z.array(z.string().min(1)).optional(),
+  nutrition: z.object({
+    protein: nutritionDetailsSchema,
+    carbs: nutritionDetailsSchema,
+    fats: nutritionDetailsSchema,
+    fiber: nutritionDetailsSchema,
+    calories: caloriesDetailsSchema,
+    vitamins: z.array(z.string()),
+    minerals: z.array(z.string()),
+    saturatedFat: optionalAmount,
+    sugar: optionalAmount,
+    sodium: optionalAmount,
+    cholesterol: optionalAmount,
+    micronutrients: z.record(micronutrientAmountSchema)
+  }),
+  allergens: z.object({
+    vegan: z.boolean(),
+    vegetarian: z.boolean(),
+    glutenFree: z.boolean(),
+    lactoseFree: z.boolean(),
+    nutFree: z.boolean(),
+    eggFree: z.boolean(),
+    fishFree: z.boolean(),
+    soyFree: z.boolean(),
+    halal: z.boolean(),
+    kosher: z.boolean(),
+    organic: z.boolean(),
+    lowSodium: z.boolean(),
+    sugarFree: z.boolean(),
+    keto: z.boolean()
+  }),
+  allergenTraces: z.array(z.string()).optional(),
+  processingLevel: processingLevelSchema,
+  otherOptionsIds: z.array(z.string()),
+  relationships: z.array(z.object({
+    productId: z.string().min(1),
+    type: z.enum(['similar', 'substitute', 'complement', 'variant'])
+  })).optional(),
+  variants: z.array(productVariantSchema).optional(),
+  description: z.string().optional(),
+  descriptionKey: z.string().optional()
+});
@@ -1,10 +1,12 @@
+import type { BodyProfile, UserPreferences } from './userData';
+
 
 export interface DropboxConfig {
   clientId: string;
   redirectUri: string;
 }
 
-export interface UserInfo {
+export interface UserInfo extends BodyProfile {
   nombre: string;
 }
 
@@ -13,9 +15,14 @@ export interface UserJsonData {
   profile: {
     name: string;
     edad: number;
+    sex?: BodyProfile['sex'];
+    weight?: number;
+    height?: number;
+    activityLevel?: BodyProfile['activityLevel'];
   };
   allergies?: Record<string, { avoid: boolean }>;
   favorites?: Record<string, { status: 'heart' | 'thumb-down' }>;
+  preferences?: Partial<UserPreferences>;
 }
 
 // Interfaz para el almacenamiento de tokens
@@ -1,6 +1,9 @@
 
 // Base interfaces for the extensible search system
 
+import type { SearchResult } from '@/services/search/types';
+import type { DailyValueStandardId } from '@/data/dailyValues';
+
 export interface Searchable {
   id: string;
   name: string;
@@ -19,17 +22,20 @@ export interface QueryOptions {
   filters?: FilterCriteria[];
   sortBy?: string;
   sortOrder?: 'asc' | 'desc';
+  language?: string; // Active UI language, boosts matches on its translations
+  dailyValueStandard?: DailyValueStandardId; // Reference for "% Daily Value" filters
 }
 
 export interface QueryResult<T extends Searchable> {
   items: T[];
   totalCount: number;
   appliedFilters: FilterCriteria[];
+  matches?: Map<string, SearchResult<T>>; // Search match per item id, to highlight what matched
 }
 
 export interface FilterDefinition {
   type: string;
   label: string;
   component: React.ComponentType<any>;
-  applyFilter: (items: Searchable[], criteria: FilterCriteria) => Searchable[];
+  applyFilter: (items: Searchable[], criteria: FilterCriteria, options?: QueryOptions) => Searchable[];
 }
@@ -1,3 +1,6 @@
+import { DailyValueStandardId } from '@/data/dailyValues';
+import { EnergyUnit, UnitSystem } from '@/utils/units';
+
 
 export enum DataState {
   IDLE = 'idle',        // Sin datos, sin actividad
@@ -7,10 +10,31 @@ export enum DataState {
   ERROR = 'error'       // Error en operación
 }
 
-export interface UserProfile {
+// Preferencias de visualización (se guardan localmente y en Dropbox si hay sesión)
+export interface UserPreferences {
+  dailyValueStandard: DailyValueStandardId;
+  unitSystem: UnitSystem;
+  energyUnit: EnergyUnit;
+}
+
+export type BiologicalSex = 'male' | 'female';
+
+export type ActivityLevel = 'sedentary' | 'light' | 'moderate' | 'active' | 'veryActive';
+
+// Datos corporales para calcular los objetivos diarios personalizados
+export interface BodyProfile {
+  edad?: number;
+  sex?: BiologicalSex;
+  weight?: number; // kg
+  height?: number; // cm
+  activityLevel?: ActivityLevel;
+}
+
+export interface UserProfile extends BodyProfile {
   nombre: string;
   allergies?: Record<string, { avoid: boolean }>;
   favorites?: Record<string, { status: 'heart' | 'thumb-down' }>;
+  preferences?: Partial<UserPreferences>;
 }
 
 // Metadata para sincronización con Dropbox
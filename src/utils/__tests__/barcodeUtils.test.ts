@@ -0,0 +1,31 @@
+/**
+ * Pruebas unitarias para las utilidades de códigos de barras
+ */
+
+import { describe, it, expect } from 'vitest';
+import { calculateCheckDigit, isValidEan13, isValidUpcA, normalizeBarcode } from '../barcodeUtils';
+
+describe('barcodeUtils', () => {
+  it('should calculate GS1 check digits', () => {
+    expect(calculateCheckDigit('400638133393')).toBe(1);
+    expect(calculateCheckDigit('03600029145')).toBe(2);
+  });
+
+  it('should validate EAN-13 codes', () => {
+    expect(isValidEan13('4006381333931')).toBe(true);
+    expect(isValidEan13('4006381333932')).toBe(false);
+    expect(isValidEan13('400638133393')).toBe(false);
+    expect(isValidEan13('40063813339A1')).toBe(false);
+  });
+
+  it('should validate UPC-A codes', () => {
+    expect(isValidUpcA('036000291452')).toBe(true);
+    expect(isValidUpcA('036000291453')).toBe(false);
+  });
+
+  it('should normalize UPC-A, spaced and dashed codes to EAN-13', () => {
+    expect(normalizeBarcode('036000291452')).toBe('0036000291452');
+    expect(normalizeBarcode('4 006381-333931')).toBe('4006381333931');
+    expect(normalizeBarcode('12345')).toBeNull();
+  });
+});
@@ -0,0 +1,50 @@
+import { describe, it, expect } from 'vitest';
+import {
+  calculateBMR,
+  calculateDailyTargets,
+  calculateTDEE,
+  hasCompleteBodyProfile
+} from '../dailyTargets';
+import { BodyProfile } from '@/types/userData';
+
+const male: Required<BodyProfile> = { edad: 30, sex: 'male', weight: 80, height: 180, activityLevel: 'moderate' };
+const female: Required<BodyProfile> = { edad: 25, sex: 'female', weight: 60, height: 165, activityLevel: 'sedentary' };
+
+describe('dailyTargets', () => {
+  it('should compute the Mifflin-St Jeor basal metabolic rate', () => {
+    expect(calculateBMR(male)).toBe(1780);
+    expect(calculateBMR(female)).toBeCloseTo(1345.25);
+  });
+
+  it('should scale the basal rate by the activity factor', () => {
+    expect(calculateTDEE(male)).toBe(2759);
+    expect(calculateTDEE(female)).toBe(1614);
+  });
+
+  it('should split the energy target into macro targets', () => {
+    const targets = calculateDailyTargets(male);
+
+    expect(targets).toEqual({
+      calories: 2759,
+      protein: 138,
+      carbs: 345,
+      fats: 92,
+      fiber: 39,
+      saturatedFat: 31,
+      sugar: 69
+    });
+  });
+
+  it('should return null while the body profile is incomplete', () => {
+    expect(hasCompleteBodyProfile({ ...male, weight: undefined })).toBe(false);
+    expect(calculateDailyTargets({ edad: 30, sex: 'male' })).toBeNull();
+    expect(calculateDailyTargets(null)).toBeNull();
+  });
+
+  it('should return null when the profile gives no positive energy expenditure', () => {
+    const implausible: Required<BodyProfile> = { ...female, edad: 120, weight: 1, height: 50 };
+
+    expect(calculateTDEE(implausible)).toBeLessThanOrEqual(0);
+    expect(calculateDailyTargets(implausible)).toBeNull();
+  });
+});
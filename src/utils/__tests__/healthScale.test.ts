@@ -0,0 +1,89 @@
+import { describe, it, expect } from 'vitest';
+import {
+  HEALTH_SCALE_MAX,
+  HEALTH_SCALE_MIN,
+  HealthThresholds,
+  fromHealthLevel,
+  normalizeHealthRanking,
+  rankNutrient,
+  toHealthLevel
+} from '../healthScale';
+import { calculateHealthRanking } from '../healthRankings';
+import { getHealthDescription } from '../nutritionCalculations';
+import { productsDB } from '@/data/products';
+
+describe('healthScale', () => {
+  describe('conversions', () => {
+    it('should map the ends of the 1-10 scale to levels 0 and 5', () => {
+      expect(toHealthLevel(HEALTH_SCALE_MIN)).toBe(0);
+      expect(toHealthLevel(HEALTH_SCALE_MAX)).toBe(5);
+      expect(fromHealthLevel(0)).toBe(HEALTH_SCALE_MIN);
+      expect(fromHealthLevel(5)).toBe(HEALTH_SCALE_MAX);
+    });
+
+    it('should round-trip every level', () => {
+      for (let level = 0; level <= 5; level++) {
+        expect(toHealthLevel(fromHealthLevel(level))).toBe(level);
+      }
+    });
+
+    it('should clamp out-of-range values', () => {
+      expect(toHealthLevel(0)).toBe(0);
+      expect(toHealthLevel(14)).toBe(5);
+      expect(normalizeHealthRanking(-3)).toBe(0);
+      expect(normalizeHealthRanking(10)).toBe(1);
+    });
+
+    it('should spread catalog rankings across all color levels', () => {
+      const levels = new Set(
+        productsDB.flatMap(p => [p.nutrition.protein, p.nutrition.fats, p.nutrition.fiber])
+          .map(details => toHealthLevel(details.healthRanking))
+      );
+      expect(levels.size).toBeGreaterThan(3);
+      expect(levels.has(5)).toBe(true);
+    });
+  });
+
+  describe('rankNutrient', () => {
+    it('should rank with the default thresholds on the 1-10 scale', () => {
+      expect(rankNutrient('protein', 20)).toBe(10);
+      expect(rankNutrient('protein', 0.5)).toBe(1);
+      expect(rankNutrient('fats', 0.5)).toBe(10);
+      expect(rankNutrient('fats', 30)).toBe(1);
+      expect(rankNutrient('carbs', 10)).toBe(10);
+    });
+
+    it('should apply profile-specific thresholds', () => {
+      expect(rankNutrient('carbs', 2)).toBe(6);
+      expect(rankNutrient('carbs', 2, 'lowCarb')).toBe(10);
+      expect(rankNutrient('protein', 20, 'lowCarb')).toBe(rankNutrient('protein', 20));
+    });
+
+    it('should accept custom thresholds', () => {
+      const custom: HealthThresholds = {
+        bands: {
+          protein: [{ ranking: 9, min: 30 }],
+          carbs: [],
+          fats: [],
+          fiber: []
+        },
+        fallbackRanking: 4
+      };
+
+      expect(rankNutrient('protein', 35, custom)).toBe(9);
+      expect(rankNutrient('protein', 10, custom)).toBe(4);
+    });
+
+    it('should back calculateHealthRanking', () => {
+      expect(calculateHealthRanking('fiber', 9)).toBe(rankNutrient('fiber', 9));
+      expect(calculateHealthRanking('unknown', 9)).toBe(fromHealthLevel(3));
+    });
+  });
+
+  describe('getHealthDescription', () => {
+    it('should pick descriptions from 1-10 rankings', () => {
+      expect(getHealthDescription('protein', 10)).toContain('excellent source of protein');
+      expect(getHealthDescription('protein', 1)).toContain('very little protein');
+    });
+  });
+});
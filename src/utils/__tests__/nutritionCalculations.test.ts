@@ -0,0 +1,50 @@
+import { describe, it, expect } from 'vitest';
+import { createMicronutrients, createNutritionDetails, getDailyPercentage } from '../nutritionCalculations';
+import { DAILY_VALUE_STANDARDS, getDailyValueStandard } from '@/data/dailyValues';
+
+describe('nutritionCalculations', () => {
+  describe('getDailyPercentage', () => {
+    it('should default to the FDA standard', () => {
+      expect(getDailyPercentage('vitamin_c', 45)).toBe(50);
+      expect(getDailyPercentage('vitamin_c', 45, 'fda')).toBe(50);
+    });
+
+    it('should compute the percentage with the selected standard', () => {
+      expect(getDailyPercentage('vitamin_c', 45, 'eu')).toBe(56);
+      expect(getDailyPercentage('vitamin_c', 45, 'mercosur')).toBe(100);
+      expect(getDailyPercentage('calcium', 400, 'eu')).toBe(50);
+    });
+
+    it('should return undefined when the standard has no reference for the nutrient', () => {
+      expect(getDailyPercentage('cholesterol', 100, 'eu')).toBeUndefined();
+      expect(getDailyPercentage('sugar', 10, 'mercosur')).toBeUndefined();
+    });
+
+    it('should fall back to the default standard for unknown ids', () => {
+      expect(getDailyValueStandard('unknown').id).toBe('fda');
+    });
+  });
+
+  describe('createNutritionDetails', () => {
+    it('should use the standard for macronutrient percentages', () => {
+      expect(createNutritionDetails('protein', 25, 8).dailyPercentage).toBe(50);
+      expect(createNutritionDetails('protein', 25, 8, 'mercosur').dailyPercentage).toBe(33);
+    });
+  });
+
+  describe('createMicronutrients', () => {
+    it('should attach the reference unit and the percentage for the standard', () => {
+      const micronutrients = createMicronutrients({ iron: 7 }, 'eu');
+
+      expect(micronutrients.iron).toEqual({ amount: 7, unit: 'mg', dailyPercentage: 50 });
+    });
+  });
+
+  it('should define every standard with positive reference values', () => {
+    Object.values(DAILY_VALUE_STANDARDS).forEach(standard => {
+      Object.values(standard.values).forEach(value => {
+        expect(value).toBeGreaterThan(0);
+      });
+    });
+  });
+});
@@ -0,0 +1,33 @@
+import { describe, it, expect } from 'vitest';
+import { getProductRelationships, getRelatedIds, isRelationshipType } from '../productRelationships';
+
+describe('productRelationships', () => {
+  const product = {
+    otherOptionsIds: ['apple_002', 'pear_008'],
+    relationships: [
+      { productId: 'pear_008', type: 'similar' as const },
+      { productId: 'pear_008', type: 'substitute' as const },
+      { productId: 'salmon_003', type: 'complement' as const }
+    ]
+  };
+
+  it('should read otherOptionsIds as similar relationships without duplicates', () => {
+    expect(getProductRelationships(product)).toEqual([
+      { productId: 'apple_002', type: 'similar' },
+      { productId: 'pear_008', type: 'similar' },
+      { productId: 'pear_008', type: 'substitute' },
+      { productId: 'salmon_003', type: 'complement' }
+    ]);
+  });
+
+  it('should filter related ids by type', () => {
+    expect(getRelatedIds(product, 'similar')).toEqual(['apple_002', 'pear_008']);
+    expect(getRelatedIds(product, 'complement')).toEqual(['salmon_003']);
+    expect(getRelatedIds({ otherOptionsIds: [] }, 'variant')).toEqual([]);
+  });
+
+  it('should recognise the schema relationship types', () => {
+    expect(isRelationshipType('variant')).toBe(true);
+    expect(isRelationshipType('cousin')).toBe(false);
+  });
+});
@@ -0,0 +1,55 @@
+import { describe, it, expect } from 'vitest';
+import { productsDB } from '@/data/products';
+import {
+  applyVariant,
+  findVariant,
+  findVariantByBarcode,
+  getProductBarcodes,
+  getVariantLabel
+} from '../productVariants';
+
+const yogurt = productsDB.find(p => p.id === 'greek_yogurt_007')!;
+
+describe('productVariants', () => {
+  it('should find variants by id and by barcode', () => {
+    expect(findVariant(yogurt, 'olympos_5')?.name).toBe('5% Full Fat');
+    expect(findVariant(yogurt, 'missing')).toBeUndefined();
+    expect(findVariant(yogurt, undefined)).toBeUndefined();
+    expect(findVariantByBarcode(yogurt, '5200000210019')?.id).toBe('olympos_0');
+    expect(findVariantByBarcode(yogurt, '123')).toBeUndefined();
+  });
+
+  it('should list the generic and variant barcodes', () => {
+    expect(getProductBarcodes(yogurt)).toEqual(['5200000210019', '5200000210026']);
+  });
+
+  it('should label variants with brand and name', () => {
+    expect(getVariantLabel({ id: 'a', brand: 'Olympos', name: '0% Plain' })).toBe('Olympos 0% Plain');
+    expect(getVariantLabel({ id: 'b', brand: 'Olympos' })).toBe('Olympos');
+  });
+
+  it('should apply nutrition overrides and recompute calories', () => {
+    const fullFat = applyVariant(yogurt, findVariant(yogurt, 'olympos_5'));
+
+    expect(fullFat.id).toBe(yogurt.id);
+    expect(fullFat.nutrition.fats.total).toBe(5);
+    expect(fullFat.nutrition.fats.caloriesFrom).toBe(45);
+    expect(fullFat.nutrition.saturatedFat).toBe(3.2);
+    expect(fullFat.nutrition.calories.total).toBeCloseTo(9 * 4 + 3.9 * 4 + 5 * 9);
+    expect(fullFat.nutrition.cholesterol).toBe(yogurt.nutrition.cholesterol);
+    expect(fullFat.barcodes).toEqual(['5200000210026']);
+  });
+
+  it('should keep the sodium micronutrient in sync', () => {
+    const chips = productsDB.find(p => p.id === 'chips_009')!;
+    const lightlySalted = applyVariant(chips, findVariant(chips, 'crunchy_farms_lightly_salted'));
+
+    expect(lightlySalted.nutrition.sodium).toBe(260);
+    expect(lightlySalted.nutrition.micronutrients.sodium?.amount).toBe(260);
+    expect(lightlySalted.nutrition.calories).toBe(chips.nutrition.calories);
+  });
+
+  it('should return the generic product without a variant', () => {
+    expect(applyVariant(yogurt)).toBe(yogurt);
+  });
+});
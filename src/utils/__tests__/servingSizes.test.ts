@@ -0,0 +1,43 @@
+import { describe, it, expect } from 'vitest';
+import { REFERENCE_SERVING, findServing, getServingOptions, scaleNutrition } from '../servingSizes';
+import { productsDB } from '@/data/products';
+
+const broccoli = productsDB.find(product => product.id === 'broccoli_001');
+
+describe('servingSizes', () => {
+  it('should always offer the 100 g reference first', () => {
+    const options = getServingOptions(broccoli);
+
+    expect(options[0]).toBe(REFERENCE_SERVING);
+    expect(options.map(option => option.id)).toContain('cup');
+    expect(getServingOptions({})).toEqual([REFERENCE_SERVING]);
+  });
+
+  it('should fall back to the reference for unknown servings', () => {
+    expect(findServing(broccoli, 'cup').grams).toBe(91);
+    expect(findServing(broccoli, 'missing')).toBe(REFERENCE_SERVING);
+  });
+
+  it('should keep the stored values for 100 g', () => {
+    expect(scaleNutrition(broccoli.nutrition, 100)).toBe(broccoli.nutrition);
+  });
+
+  it('should rescale macros, calories, micronutrients and daily percentages', () => {
+    const scaled = scaleNutrition(broccoli.nutrition, 50);
+    const { nutrition } = broccoli;
+
+    expect(scaled.protein.total).toBeCloseTo(nutrition.protein.total / 2, 1);
+    expect(scaled.protein.dailyPercentage).toBe(Math.round(nutrition.protein.dailyPercentage / 2));
+    expect(scaled.calories.total).toBeCloseTo(nutrition.calories.total / 2, 1);
+    expect(scaled.micronutrients.vitamin_c.amount).toBeCloseTo(nutrition.micronutrients.vitamin_c.amount / 2, 2);
+    expect(scaled.micronutrients.vitamin_c.unit).toBe(nutrition.micronutrients.vitamin_c.unit);
+  });
+
+  it('should declare positive serving weights for every product', () => {
+    productsDB.forEach(product => {
+      (product.servingSizes ?? []).forEach(serving => {
+        expect(serving.grams).toBeGreaterThan(0);
+      });
+    });
+  });
+});
@@ -0,0 +1,39 @@
+import { describe, it, expect } from 'vitest';
+import {
+  MASS_UNITS,
+  VOLUME_UNITS,
+  convertEnergy,
+  convertMass,
+  convertVolume,
+  isEnergyUnit,
+  isUnitSystem
+} from '../units';
+
+describe('units', () => {
+  it('should convert grams to ounces', () => {
+    expect(convertMass(100, 'oz')).toBeCloseTo(3.527, 3);
+    expect(convertMass(100, 'g')).toBe(100);
+  });
+
+  it('should convert millilitres to US fluid ounces', () => {
+    expect(convertVolume(355, 'fl oz')).toBeCloseTo(12.004, 3);
+    expect(convertVolume(355, 'ml')).toBe(355);
+  });
+
+  it('should convert kilocalories to kilojoules', () => {
+    expect(convertEnergy(100, 'kJ')).toBeCloseTo(418.4);
+    expect(convertEnergy(100, 'kcal')).toBe(100);
+  });
+
+  it('should map each unit system to its mass and volume units', () => {
+    expect(MASS_UNITS.imperial).toBe('oz');
+    expect(VOLUME_UNITS.metric).toBe('ml');
+  });
+
+  it('should validate stored preference values', () => {
+    expect(isUnitSystem('imperial')).toBe(true);
+    expect(isUnitSystem('nautical')).toBe(false);
+    expect(isEnergyUnit('kJ')).toBe(true);
+    expect(isEnergyUnit('cal')).toBe(false);
+  });
+});
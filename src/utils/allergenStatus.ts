@@ -0,0 +1,22 @@
+// Tri-state allergen helpers: "contains" comes from the boolean flag, "traces" from allergenTraces
+
+import { AllergenFlag, AllergenStatus, Product } from '@/data/types';
+
+type AllergenSource = Pick<Product, 'allergens' | 'allergenTraces'>;
+
+export const ALLERGEN_STATUSES: AllergenStatus[] = ['free', 'contains', 'traces'];
+
+export const getAllergenStatus = (product: AllergenSource, allergenId: AllergenFlag): AllergenStatus => {
+  if (product.allergens[allergenId] === false) return 'contains';
+  if (product.allergenTraces?.includes(allergenId)) return 'traces';
+  return 'free';
+};
+
+// Statuses a product may have to pass an allergen filter; strict mode also excludes traces
+export const getAcceptedAllergenStatuses = (strict: boolean): AllergenStatus[] => {
+  return strict ? ['free'] : ['free', 'traces'];
+};
+
+export const isAllergenSafe = (product: AllergenSource, allergenId: AllergenFlag, strict = false): boolean => {
+  return getAcceptedAllergenStatuses(strict).includes(getAllergenStatus(product, allergenId));
+};
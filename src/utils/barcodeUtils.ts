@@ -0,0 +1,48 @@
+// Barcode (GTIN) utilities for EAN-13 and UPC-A codes
+
+const EAN13_LENGTH = 13;
+const UPCA_LENGTH = 12;
+
+// Strip spaces and dashes that often appear in printed or typed codes
+export const cleanBarcode = (code: string): string => {
+  return (code || '').replace(/[\s-]/g, '');
+};
+
+// GS1 check digit for the given digits (without the check digit itself)
+export const calculateCheckDigit = (digits: string): number => {
+  let sum = 0;
+  // Weights alternate 3,1,3,... starting from the rightmost digit
+  for (let i = digits.length - 1, weight = 3; i >= 0; i--, weight = weight === 3 ? 1 : 3) {
+    sum += Number(digits[i]) * weight;
+  }
+  return (10 - (sum % 10)) % 10;
+};
+
+const hasValidCheckDigit = (code: string): boolean => {
+  const body = code.slice(0, -1);
+  const checkDigit = Number(code[code.length - 1]);
+  return calculateCheckDigit(body) === checkDigit;
+};
+
+export const isValidEan13 = (code: string): boolean => {
+  const cleaned = cleanBarcode(code);
+  return cleaned.length === EAN13_LENGTH && /^\d+$/.test(cleaned) && hasValidCheckDigit(cleaned);
+};
+
+export const isValidUpcA = (code: string): boolean => {
+  const cleaned = cleanBarcode(code);
+  return cleaned.length === UPCA_LENGTH && /^\d+$/.test(cleaned) && hasValidCheckDigit(cleaned);
+};
+
+export const isValidBarcode = (code: string): boolean => {
+  return isValidEan13(code) || isValidUpcA(code);
+};
+
+// Normalize to a 13-digit GTIN so UPC-A and its EAN-13 form match the same product.
+// Returns null when the code is not a valid EAN-13/UPC-A barcode.
+export const normalizeBarcode = (code: string): string | null => {
+  const cleaned = cleanBarcode(code);
+  if (isValidEan13(cleaned)) return cleaned;
+  if (isValidUpcA(cleaned)) return `0${cleaned}`;
+  return null;
+};
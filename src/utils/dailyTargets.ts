@@ -0,0 +1,77 @@
+// Personalized daily targets from the user's body profile
+// Energy from the Mifflin-St Jeor equation scaled by an activity factor (TDEE)
+
+import { ActivityLevel, BodyProfile } from '@/types/userData';
+import { DailyValueNutrient } from '@/data/dailyValues';
+
+export type DailyTargetNutrient = Extract<
+  DailyValueNutrient,
+  'calories' | 'protein' | 'carbs' | 'fats' | 'fiber' | 'saturatedFat' | 'sugar'
+>;
+
+export type DailyTargets = Record<DailyTargetNutrient, number>;
+
+export const ACTIVITY_LEVELS: ActivityLevel[] = ['sedentary', 'light', 'moderate', 'active', 'veryActive'];
+
+export const ACTIVITY_FACTORS: Record<ActivityLevel, number> = {
+  sedentary: 1.2,
+  light: 1.375,
+  moderate: 1.55,
+  active: 1.725,
+  veryActive: 1.9
+};
+
+// Share of energy per macronutrient (midpoints of the IOM ranges, WHO limits for sugar and saturated fat)
+const ENERGY_SHARE = {
+  protein: 0.2,
+  carbs: 0.5,
+  fats: 0.3,
+  saturatedFat: 0.1,
+  sugar: 0.1
+};
+
+const CALORIES_PER_GRAM = { protein: 4, carbs: 4, fats: 9, saturatedFat: 9, sugar: 4 };
+
+// Adequate intake for fiber: 14 g per 1000 kcal
+const FIBER_PER_1000_KCAL = 14;
+
+export type CompleteBodyProfile = Required<BodyProfile>;
+
+export const hasCompleteBodyProfile = (profile?: BodyProfile | null): profile is CompleteBodyProfile => {
+  if (!profile) return false;
+  const { edad, sex, weight, height, activityLevel } = profile;
+  return edad > 0 && weight > 0 && height > 0 && !!sex && !!activityLevel && activityLevel in ACTIVITY_FACTORS;
+};
+
+// Basal metabolic rate in kcal/day (Mifflin-St Jeor)
+export const calculateBMR = ({ edad, sex, weight, height }: Omit<CompleteBodyProfile, 'activityLevel'>): number => {
+  const base = 10 * weight + 6.25 * height - 5 * edad;
+  return sex === 'male' ? base + 5 : base - 161;
+};
+
+// Total daily energy expenditure in kcal/day
+export const calculateTDEE = (profile: CompleteBodyProfile): number => {
+  return Math.round(calculateBMR(profile) * ACTIVITY_FACTORS[profile.activityLevel]);
+};
+
+// Daily targets for the profile, or null while the profile is incomplete or implausible
+export const calculateDailyTargets = (profile?: BodyProfile | null): DailyTargets | null => {
+  if (!hasCompleteBodyProfile(profile)) return null;
+
+  const calories = calculateTDEE(profile);
+  // Implausible profiles (e.g. very old and very light) give a negative energy expenditure
+  if (calories <= 0) return null;
+
+  const gramsFor = (macro: keyof typeof ENERGY_SHARE) =>
+    Math.round((calories * ENERGY_SHARE[macro]) / CALORIES_PER_GRAM[macro]);
+
+  return {
+    calories,
+    protein: gramsFor('protein'),
+    carbs: gramsFor('carbs'),
+    fats: gramsFor('fats'),
+    fiber: Math.round((calories / 1000) * FIBER_PER_1000_KCAL),
+    saturatedFat: gramsFor('saturatedFat'),
+    sugar: gramsFor('sugar')
+  };
+};
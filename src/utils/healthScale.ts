@@ -0,0 +1,125 @@
+// Unified health scale
+//
+// Canonical rankings use the 1-10 scale shared by product data (NutritionDetails.healthRanking)
+// and the `health_rankings` table. Descriptions and colors work with 6 levels (0-5), so every
+// conversion between the two goes through this module.
+
+export const HEALTH_SCALE_MIN = 1;
+export const HEALTH_SCALE_MAX = 10;
+export const HEALTH_LEVEL_MAX = 5;
+
+export type HealthNutrient = 'protein' | 'carbs' | 'fats' | 'fiber';
+
+// A band matches when value is within [min, max] (either bound optional)
+export interface HealthBand {
+  ranking: number;
+  min?: number;
+  max?: number;
+}
+
+export interface HealthThresholds {
+  bands: Record<HealthNutrient, HealthBand[]>;
+  fallbackRanking: number; // Used when no band matches
+}
+
+// Higher is better for protein and fiber, lower is better for fats,
+// and carbs are best in a moderate range. Values in grams per 100g.
+const DEFAULT_THRESHOLDS: HealthThresholds = {
+  bands: {
+    protein: [
+      { ranking: 10, min: 15 },
+      { ranking: 8, min: 10 },
+      { ranking: 6, min: 5 },
+      { ranking: 5, min: 2 },
+      { ranking: 3, min: 1 }
+    ],
+    fats: [
+      { ranking: 10, max: 1 },
+      { ranking: 8, max: 3 },
+      { ranking: 6, max: 5 },
+      { ranking: 5, max: 10 },
+      { ranking: 3, max: 15 }
+    ],
+    fiber: [
+      { ranking: 10, min: 8 },
+      { ranking: 8, min: 5 },
+      { ranking: 6, min: 3 },
+      { ranking: 5, min: 2 },
+      { ranking: 3, min: 1 }
+    ],
+    carbs: [
+      { ranking: 10, min: 5, max: 15 },
+      { ranking: 8, min: 3, max: 20 },
+      { ranking: 6, min: 2, max: 25 },
+      { ranking: 5, min: 1, max: 30 },
+      { ranking: 3, max: 35 }
+    ]
+  },
+  fallbackRanking: HEALTH_SCALE_MIN
+};
+
+// Low-carb profile: fewer carbs rank higher, everything else as default
+const LOW_CARB_THRESHOLDS: HealthThresholds = {
+  ...DEFAULT_THRESHOLDS,
+  bands: {
+    ...DEFAULT_THRESHOLDS.bands,
+    carbs: [
+      { ranking: 10, max: 5 },
+      { ranking: 8, max: 10 },
+      { ranking: 6, max: 15 },
+      { ranking: 5, max: 20 },
+      { ranking: 3, max: 30 }
+    ]
+  }
+};
+
+export const HEALTH_SCORING_PROFILES = {
+  default: DEFAULT_THRESHOLDS,
+  lowCarb: LOW_CARB_THRESHOLDS
+};
+
+export type HealthScoringProfile = keyof typeof HEALTH_SCORING_PROFILES;
+
+export const clampHealthRanking = (ranking: number): number => {
+  return Math.max(HEALTH_SCALE_MIN, Math.min(HEALTH_SCALE_MAX, ranking));
+};
+
+// 1-10 ranking -> 0-5 level (1 -> 0, 10 -> 5)
+export const toHealthLevel = (ranking: number): number => {
+  const position = (clampHealthRanking(ranking) - HEALTH_SCALE_MIN) / (HEALTH_SCALE_MAX - HEALTH_SCALE_MIN);
+  return Math.round(position * HEALTH_LEVEL_MAX);
+};
+
+// 0-5 level -> 1-10 ranking (0 -> 1, 5 -> 10)
+export const fromHealthLevel = (level: number): number => {
+  const clampedLevel = Math.max(0, Math.min(HEALTH_LEVEL_MAX, level));
+  return Math.round(HEALTH_SCALE_MIN + (clampedLevel / HEALTH_LEVEL_MAX) * (HEALTH_SCALE_MAX - HEALTH_SCALE_MIN));
+};
+
+// 1-10 ranking -> 0-1 fraction, for weighting and progress bars
+export const normalizeHealthRanking = (ranking: number): number => {
+  return (clampHealthRanking(ranking) - HEALTH_SCALE_MIN) / (HEALTH_SCALE_MAX - HEALTH_SCALE_MIN);
+};
+
+const resolveThresholds = (profile: HealthScoringProfile | HealthThresholds): HealthThresholds => {
+  return typeof profile === 'string' ? HEALTH_SCORING_PROFILES[profile] : profile;
+};
+
+// Rank a nutrient amount on the 1-10 scale using the given profile (or custom thresholds)
+export const rankNutrient = (
+  nutrient: string,
+  value: number,
+  profile: HealthScoringProfile | HealthThresholds = 'default'
+): number => {
+  const thresholds = resolveThresholds(profile) ?? DEFAULT_THRESHOLDS;
+  const bands = thresholds.bands[nutrient as HealthNutrient];
+
+  // Unknown nutrients get the middle of the scale
+  if (!bands) return fromHealthLevel(3);
+
+  const match = bands.find(band =>
+    (band.min === undefined || value >= band.min) &&
+    (band.max === undefined || value <= band.max)
+  );
+  return clampHealthRanking(match ? match.ranking : thresholds.fallbackRanking);
+};
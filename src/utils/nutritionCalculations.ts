@@ -1,6 +1,11 @@
 
 // Nutrition calculation utilities
 
+import { toHealthLevel } from './healthScale';
+import { MicronutrientKey, Micronutrients } from '@/data/types';
+import { MICRONUTRIENT_REFERENCE } from '@/data/micronutrients';
+import { DailyValueNutrient, DailyValueStandardId, getDailyValueStandard } from '@/data/dailyValues';
+
 export const calculateCaloriesFromMacro = (grams: number, caloriesPerGram: number): number => {
   return grams * caloriesPerGram;
 };
@@ -9,6 +14,17 @@ export const calculateDailyPercentage = (amount: number, dailyValue: number): nu
   return Math.round((amount / dailyValue) * 100);
 };
 
+// % Daily Value for a nutrient under the given standard (undefined if the standard has no reference)
+export const getDailyPercentage = (
+  nutrient: DailyValueNutrient,
+  amount: number,
+  standardId?: DailyValueStandardId
+): number | undefined => {
+  const dailyValue = getDailyValueStandard(standardId).values[nutrient];
+  return dailyValue ? calculateDailyPercentage(amount, dailyValue) : undefined;
+};
+
+// Descriptions are indexed by health level (0-5); ranking is on the 1-10 scale
 export const getHealthDescription = (type: string, ranking: number): string => {
   const descriptions = {
     protein: [
@@ -45,22 +61,22 @@ export const getHealthDescription = (type: string, ranking: number): string => {
     ]
   };
   
-  return descriptions[type]?.[ranking] || "Nutritional information available.";
+  return descriptions[type]?.[toHealthLevel(ranking)] || "Nutritional information available.";
 };
 
 export const createNutritionDetails = (
   type: 'protein' | 'carbs' | 'fats' | 'fiber',
   amount: number,
-  healthRanking: number
+  healthRanking: number,
+  standardId?: DailyValueStandardId
 ): any => {
   const caloriesPerGram = { protein: 4, carbs: 4, fats: 9, fiber: 0 };
-  const dailyValues = { protein: 50, carbs: 300, fats: 65, fiber: 25 };
   
   return {
     description: getHealthDescription(type, healthRanking),
     total: amount,
     caloriesFrom: calculateCaloriesFromMacro(amount, caloriesPerGram[type]),
-    dailyPercentage: calculateDailyPercentage(amount, dailyValues[type]),
+    dailyPercentage: getDailyPercentage(type, amount, standardId) ?? 0,
     healthRanking
   };
 };
@@ -79,3 +95,25 @@ export const createCaloriesDetails = (protein: number, carbs: number, fats: numb
     fromFat: caloriesFromFats
   };
 };
+
+// Build the micronutrient map from amounts expressed in each nutrient's reference unit
+export const createMicronutrients = (
+  amounts: Partial<Record<MicronutrientKey, number>>,
+  standardId?: DailyValueStandardId
+): Micronutrients => {
+  const micronutrients: Micronutrients = {};
+
+  (Object.keys(amounts) as MicronutrientKey[]).forEach(key => {
+    const reference = MICRONUTRIENT_REFERENCE[key];
+    const amount = amounts[key];
+    if (!reference || amount === undefined || Number.isNaN(amount)) return;
+
+    micronutrients[key] = {
+      amount,
+      unit: reference.unit,
+      dailyPercentage: getDailyPercentage(key, amount, standardId) ?? 0
+    };
+  });
+
+  return micronutrients;
+};
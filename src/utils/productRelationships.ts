@@ -0,0 +1,33 @@
+// Typed product relationships; the legacy otherOptionsIds count as 'similar'
+
+import { Product, ProductRelationship, RelationshipType } from '@/data/types';
+
+export const RELATIONSHIP_TYPES: RelationshipType[] = ['similar', 'substitute', 'complement', 'variant'];
+
+export const isRelationshipType = (value: string): value is RelationshipType => {
+  return RELATIONSHIP_TYPES.includes(value as RelationshipType);
+};
+
+// Every relationship of a product, without duplicates of the same id and type
+export const getProductRelationships = (
+  product: Pick<Product, 'otherOptionsIds' | 'relationships'>
+): ProductRelationship[] => {
+  const legacy = product.otherOptionsIds.map(productId => ({ productId, type: 'similar' as const }));
+  const seen = new Set<string>();
+
+  return [...legacy, ...(product.relationships ?? [])].filter(relationship => {
+    const key = `${relationship.type}:${relationship.productId}`;
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+};
+
+export const getRelatedIds = (
+  product: Pick<Product, 'otherOptionsIds' | 'relationships'>,
+  type: RelationshipType
+): string[] => {
+  return getProductRelationships(product)
+    .filter(relationship => relationship.type === type)
+    .map(relationship => relationship.productId);
+};
@@ -0,0 +1,82 @@
+// Brand/packaged variants of a generic product and their nutrition overrides
+
+import { NutritionDetails, Product, ProductVariant } from '@/data/types';
+import { normalizeBarcode } from './barcodeUtils';
+import { createCaloriesDetails, createNutritionDetails, getDailyPercentage } from './nutritionCalculations';
+
+const MACROS = ['protein', 'carbs', 'fats', 'fiber'] as const;
+
+export const findVariant = (product: Product, variantId?: string | null): ProductVariant | undefined => {
+  if (!variantId) return undefined;
+  return product.variants?.find(variant => variant.id === variantId);
+};
+
+export const findVariantByBarcode = (product: Product, code: string): ProductVariant | undefined => {
+  const normalized = normalizeBarcode(code);
+  if (!normalized) return undefined;
+  return product.variants?.find(variant =>
+    (variant.barcodes || []).some(barcode => normalizeBarcode(barcode) === normalized)
+  );
+};
+
+// Barcodes of the generic product followed by those of its variants
+export const getProductBarcodes = (product: Product): string[] => {
+  return [
+    ...(product.barcodes || []),
+    ...(product.variants || []).flatMap(variant => variant.barcodes || [])
+  ];
+};
+
+// "Olympos 0% Plain", or just the brand when the variant has no name
+export const getVariantLabel = (variant: ProductVariant): string => {
+  return variant.name ? `${variant.brand} ${variant.name}` : variant.brand;
+};
+
+// Search text for a product's variants, so brand queries find the generic product
+export const getVariantSearchText = (product: Product): string => {
+  return (product.variants || []).map(getVariantLabel).join(' ');
+};
+
+// The product as sold by the variant. Ids stay the same so favorites and
+// relationships keep pointing to the generic product.
+export const applyVariant = (product: Product, variant?: ProductVariant): Product => {
+  if (!variant) return product;
+
+  const overrides = variant.nutritionOverrides || {};
+  const nutrition = { ...product.nutrition };
+
+  MACROS.forEach(type => {
+    const amount = overrides[type];
+    if (amount === undefined) return;
+    // Health rankings are curated per generic product, so they are kept
+    nutrition[type] = createNutritionDetails(type, amount, product.nutrition[type].healthRanking) as NutritionDetails;
+  });
+
+  if (MACROS.some(type => overrides[type] !== undefined)) {
+    nutrition.calories = createCaloriesDetails(nutrition.protein.total, nutrition.carbs.total, nutrition.fats.total);
+  }
+
+  (['saturatedFat', 'sugar', 'sodium', 'cholesterol'] as const).forEach(key => {
+    if (overrides[key] !== undefined) nutrition[key] = overrides[key];
+  });
+
+  // Keep the sodium micronutrient in sync with the label value
+  const sodium = nutrition.micronutrients.sodium;
+  if (overrides.sodium !== undefined && sodium) {
+    nutrition.micronutrients = {
+      ...nutrition.micronutrients,
+      sodium: {
+        ...sodium,
+        amount: overrides.sodium,
+        dailyPercentage: getDailyPercentage('sodium', overrides.sodium) ?? 0
+      }
+    };
+  }
+
+  return {
+    ...product,
+    image: variant.image || product.image,
+    barcodes: variant.barcodes || product.barcodes,
+    nutrition
+  };
+};
@@ -0,0 +1,76 @@
+// Serving size helpers: product nutrition is stored per 100 g and rescaled to the selected portion
+
+import { Micronutrients, Product, ServingSize } from '@/data/types';
+
+export const REFERENCE_SERVING: ServingSize = {
+  id: '100g',
+  label: '100 g',
+  grams: 100
+};
+
+// Micronutrients are optional so lighter nutrition shapes (e.g. NutritionModal props) can be scaled too
+type Nutrition = Omit<Product['nutrition'], 'micronutrients'> & { micronutrients?: Micronutrients };
+
+const round = (value: number, decimals = 1): number => {
+  const factor = 10 ** decimals;
+  return Math.round(value * factor) / factor;
+};
+
+// The 100 g reference always comes first so the stored values stay reachable
+export const getServingOptions = (product: Pick<Product, 'servingSizes'>): ServingSize[] => {
+  const declared = (product.servingSizes ?? []).filter(serving => serving.id !== REFERENCE_SERVING.id);
+  return [REFERENCE_SERVING, ...declared];
+};
+
+export const findServing = (product: Pick<Product, 'servingSizes'>, servingId?: string): ServingSize => {
+  return getServingOptions(product).find(serving => serving.id === servingId) ?? REFERENCE_SERVING;
+};
+
+const scaleOptional = (value: number | undefined, factor: number): number | undefined => {
+  return value === undefined ? undefined : round(value * factor);
+};
+
+const scaleMicronutrients = (micronutrients: Micronutrients = {}, factor: number): Micronutrients => {
+  const scaled: Micronutrients = {};
+  Object.entries(micronutrients).forEach(([key, value]) => {
+    scaled[key as keyof Micronutrients] = {
+      ...value,
+      amount: round(value.amount * factor, 2),
+      dailyPercentage: Math.round(value.dailyPercentage * factor)
+    };
+  });
+  return scaled;
+};
+
+// Rescale every per-100 g quantity (macros, calories, micronutrients and %DV) to the given grams
+export const scaleNutrition = <T extends Nutrition>(nutrition: T, grams: number): T => {
+  const factor = grams / REFERENCE_SERVING.grams;
+  if (factor === 1) return nutrition;
+
+  const scaleMacro = (macro: Nutrition['protein']) => ({
+    ...macro,
+    total: round(macro.total * factor),
+    caloriesFrom: round(macro.caloriesFrom * factor),
+    dailyPercentage: Math.round(macro.dailyPercentage * factor)
+  });
+
+  return {
+    ...nutrition,
+    protein: scaleMacro(nutrition.protein),
+    carbs: scaleMacro(nutrition.carbs),
+    fats: scaleMacro(nutrition.fats),
+    fiber: scaleMacro(nutrition.fiber),
+    calories: {
+      ...nutrition.calories,
+      total: round(nutrition.calories.total * factor),
+      fromCarbs: round(nutrition.calories.fromCarbs * factor),
+      fromProtein: round(nutrition.calories.fromProtein * factor),
+      fromFat: round(nutrition.calories.fromFat * factor)
+    },
+    saturatedFat: scaleOptional(nutrition.saturatedFat, factor),
+    sugar: scaleOptional(nutrition.sugar, factor),
+    sodium: scaleOptional(nutrition.sodium, factor),
+    cholesterol: scaleOptional(nutrition.cholesterol, factor),
+    micronutrients: scaleMicronutrients(nutrition.micronutrients, factor)
+  };
+};
@@ -0,0 +1,43 @@
+// Unit conversions for display; stored values are always grams, millilitres and kcal
+
+export type UnitSystem = 'metric' | 'imperial';
+export type EnergyUnit = 'kcal' | 'kJ';
+export type MassUnit = 'g' | 'oz';
+export type VolumeUnit = 'ml' | 'fl oz';
+
+export const UNIT_SYSTEMS: UnitSystem[] = ['metric', 'imperial'];
+export const ENERGY_UNITS: EnergyUnit[] = ['kcal', 'kJ'];
+
+export const GRAMS_PER_OUNCE = 28.349523125;
+export const MILLILITERS_PER_FLUID_OUNCE = 29.5735295625; // US customary fluid ounce
+export const KILOJOULES_PER_KILOCALORIE = 4.184;
+
+export const MASS_UNITS: Record<UnitSystem, MassUnit> = {
+  metric: 'g',
+  imperial: 'oz'
+};
+
+export const VOLUME_UNITS: Record<UnitSystem, VolumeUnit> = {
+  metric: 'ml',
+  imperial: 'fl oz'
+};
+
+export const convertMass = (grams: number, to: MassUnit): number => {
+  return to === 'oz' ? grams / GRAMS_PER_OUNCE : grams;
+};
+
+export const convertVolume = (milliliters: number, to: VolumeUnit): number => {
+  return to === 'fl oz' ? milliliters / MILLILITERS_PER_FLUID_OUNCE : milliliters;
+};
+
+export const convertEnergy = (kilocalories: number, to: EnergyUnit): number => {
+  return to === 'kJ' ? kilocalories * KILOJOULES_PER_KILOCALORIE : kilocalories;
+};
+
+export const isUnitSystem = (value: string): value is UnitSystem => {
+  return UNIT_SYSTEMS.includes(value as UnitSystem);
+};
+
+export const isEnergyUnit = (value: string): value is EnergyUnit => {
+  return ENERGY_UNITS.includes(value as EnergyUnit);
+};